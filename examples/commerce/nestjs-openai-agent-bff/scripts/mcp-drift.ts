@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+/**
+ * Dev-only CLI script to detect MCP tool schema drift.
+ *
+ * Compares MCP tools/list input schemas with the arguments the BFF sends
+ * (see src/agent/mcpTools/schemaDrift.ts) and exits non-zero on breaking drift.
+ *
+ * Usage:
+ *   npm run mcp:drift                                  # Compare the live MCP server
+ *   npm run mcp:drift -- --mock                        # Compare the mock MCP tool definitions
+ *   npm run mcp:drift -- --from mcp-schemas.json       # Compare a snapshot file (offline)
+ *   npm run mcp:drift -- --snapshot mcp-schemas.json   # Also write the schemas to a snapshot file
+ *
+ * Exit codes: 0 = no breaking drift, 1 = breaking drift, 2 = error.
+ *
+ * Environment variables required (live mode only):
+ *   - NORCE_MCP_BASE_URL
+ *   - NORCE_OAUTH_TOKEN_URL
+ *   - NORCE_OAUTH_CLIENT_ID
+ *   - NORCE_OAUTH_CLIENT_SECRET
+ *   - NORCE_OAUTH_SCOPE
+ *   - DEFAULT_APPLICATION_ID (or --application-id)
+ *
+ * NOTE: This script does NOT print tokens or secrets.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { McpToolDefinition } from '../src/norce/NorceMcpClient.js';
+import type { McpState } from '../src/session/sessionTypes.js';
+import {
+  detectSchemaDrift,
+  formatDriftReport,
+  createSchemaSnapshot,
+  parseSchemaSnapshot,
+} from '../src/agent/mcpTools/schemaDrift.js';
+
+function printUsage(): void {
+  console.log('Usage: tsx scripts/mcp-drift.ts [--mock | --from <file>] [--snapshot <file>] [--application-id <id>] [--json]');
+  console.log('');
+  console.log('Options:');
+  console.log('  --mock                 Compare the mock MCP server tool definitions (no env needed)');
+  console.log('  --from <file>          Compare a snapshot file instead of the live MCP server');
+  console.log('  --snapshot <file>      Write the compared schemas to a snapshot file');
+  console.log('  --application-id <id>  applicationId for the live tools/list request (default: DEFAULT_APPLICATION_ID)');
+  console.log('  --json                 Print the report as JSON');
+  console.log('');
+  console.log('Environment variables required (live mode):');
+  console.log('  NORCE_MCP_BASE_URL');
+  console.log('  NORCE_OAUTH_TOKEN_URL, NORCE_OAUTH_CLIENT_ID');
+  console.log('  NORCE_OAUTH_CLIENT_SECRET, NORCE_OAUTH_SCOPE');
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function loadLiveTools(applicationIdOption: string | undefined): Promise<{ tools: McpToolDefinition[]; source: string }> {
+  // Imported lazily: config validates the NORCE_* environment variables on import
+  const { config } = await import('../src/config.js');
+  const { NorceTokenProvider } = await import('../src/norce/NorceTokenProvider.js');
+  const { NorceMcpClient } = await import('../src/norce/NorceMcpClient.js');
+
+  const applicationId = applicationIdOption ?? config.norce.mcp.defaultApplicationId;
+  if (!applicationId) {
+    throw new Error('applicationId is required: set DEFAULT_APPLICATION_ID or pass --application-id');
+  }
+
+  const tokenProvider = new NorceTokenProvider({
+    clientId: config.norce.oauth.clientId,
+    clientSecret: config.norce.oauth.clientSecret,
+    tokenUrl: config.norce.oauth.tokenUrl,
+    scope: config.norce.oauth.scope,
+  });
+  const mcpClient = new NorceMcpClient({ baseUrl: config.norce.mcp.baseUrl });
+  const mcpState: McpState = { sessionId: undefined, nextRpcId: 1 };
+
+  const accessToken = await tokenProvider.getAccessToken(applicationId);
+  const result = await mcpClient.listTools(mcpState, accessToken, applicationId);
+  return { tools: result.tools ?? [], source: config.norce.mcp.baseUrl };
+}
+
+async function loadTools(args: string[]): Promise<{ tools: McpToolDefinition[]; source: string }> {
+  const fromFile = readOption(args, '--from');
+  if (fromFile) {
+    const snapshot = parseSchemaSnapshot(readFileSync(fromFile, 'utf-8'));
+    return { tools: snapshot.tools, source: `${fromFile} (${snapshot.source}, ${snapshot.createdAt})` };
+  }
+  if (args.includes('--mock')) {
+    const { MOCK_TOOL_DEFINITIONS } = await import('../src/mock/mcp/MockMcpServer.js');
+    return { tools: MOCK_TOOL_DEFINITIONS, source: 'mock' };
+  }
+  return loadLiveTools(readOption(args, '--application-id'));
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const json = args.includes('--json');
+
+  try {
+    const { tools, source } = await loadTools(args);
+
+    const snapshotFile = readOption(args, '--snapshot');
+    if (snapshotFile) {
+      writeFileSync(snapshotFile, JSON.stringify(createSchemaSnapshot(tools, source), null, 2) + '\n');
+    }
+
+    const report = detectSchemaDrift(tools);
+
+    if (json) {
+      console.log(JSON.stringify({ source, ...report }, null, 2));
+    } else {
+      console.log('MCP Schema Drift - Dev-only utility');
+      console.log('===================================\n');
+      console.log(`Source: ${source} (${tools.length} tool(s))`);
+      if (snapshotFile) {
+        console.log(`Snapshot written to ${snapshotFile}`);
+      }
+      console.log('');
+      console.log(formatDriftReport(report));
+    }
+
+    process.exit(report.breaking ? 1 : 0);
+  } catch (error) {
+    console.error('\nError:', error instanceof Error ? error.message : String(error));
+    process.exit(2);
+  }
+}
+
+main();
@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * Dev-only local stand-in for the Norce MCP server.
+ *
+ * Serves the six commerce tools from a JSON fixture catalog plus an OAuth
+ * token endpoint, so the BFF and the React widget can run end-to-end
+ * without Norce credentials.
+ *
+ * Usage:
+ *   npm run mock:mcp                          # port 4100, JSON responses
+ *   npm run mock:mcp -- --port 5000 --sse     # SSE responses
+ *   npm run mock:mcp -- --catalog ./my.json   # custom catalog
+ *
+ * NOTE: This script does NOT need any environment variables.
+ */
+
+import { MockMcpServer, loadMockCatalog } from '../src/mock/mcp/index.js';
+
+const DEFAULT_PORT = 4100;
+
+function printUsage(): void {
+  console.log('Usage: tsx scripts/mock-mcp-server.ts [--port <n>] [--sse] [--catalog <path>]');
+  console.log('');
+  console.log('Options:');
+  console.log(`  --port <n>        Port to listen on (default ${DEFAULT_PORT})`);
+  console.log('  --sse             Respond with text/event-stream instead of JSON');
+  console.log('  --catalog <path>  Catalog JSON file (default: bundled fixture catalog)');
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const port = Number(readOption(args, '--port') ?? DEFAULT_PORT);
+  const catalogPath = readOption(args, '--catalog');
+
+  const server = new MockMcpServer({
+    catalog: loadMockCatalog(catalogPath),
+    sse: args.includes('--sse'),
+  });
+  await server.start(port, '0.0.0.0');
+
+  const localBase = `http://localhost:${port}`;
+  console.log('Mock Norce MCP server - Dev-only utility');
+  console.log('========================================\n');
+  console.log('Point the BFF at it with:\n');
+  console.log(`  NORCE_MCP_BASE_URL=${localBase}/mcp/commerce`);
+  console.log(`  NORCE_OAUTH_TOKEN_URL=${localBase}/identity/1.0/connect/token`);
+  console.log('  NORCE_OAUTH_CLIENT_ID=mock');
+  console.log('  NORCE_OAUTH_CLIENT_SECRET=mock');
+  console.log('  NORCE_OAUTH_SCOPE=mock\n');
+  console.log('Press Ctrl+C to stop.');
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Error:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
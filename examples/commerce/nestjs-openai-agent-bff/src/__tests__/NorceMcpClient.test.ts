@@ -48,6 +48,11 @@ vi.mock('../config.js', () => ({
 }));
 
 import { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import { collectMcpSessionRecoveries, type McpSessionRecovery } from '../norce/mcpSessionRecovery.js';
+import { LATEST_PROTOCOL_VERSION, mcpServerSupports } from '../norce/mcpCapabilities.js';
+import { SseDataParser, listenForMcpNotifications, type McpLogNotification, type McpProgressNotification } from '../norce/mcpNotifications.js';
+import { AppError } from '../errors/AppError.js';
+import { mapCategoryToEnvelope } from '../http/errorEnvelope.js';
 import type { McpState } from '../session/sessionTypes.js';
 
 const TEST_BASE_URL = 'https://test.norce.tech/mcp/commerce';
@@ -1067,4 +1072,502 @@ describe('NorceMcpClient', () => {
       expect(state.nextRpcId).toBe(2);
     });
   });
+
+  describe('session recovery', () => {
+    type ToolCallReply = { statusCode: number; data: string };
+
+    /**
+     * Mock server that issues "new-session" on initialize and answers tools/call
+     * with the given replies in order (the last reply repeats).
+     */
+    function mockServer(toolCallReplies: ToolCallReply[]) {
+      const requests: Array<{ method: string; id?: number; sessionId?: string }> = [];
+      let toolCalls = 0;
+
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          const headers = opts.headers as Record<string, string>;
+          requests.push({ method: body.method, id: body.id, sessionId: headers['mcp-session-id'] });
+
+          if (body.method === 'initialize') {
+            return {
+              statusCode: 200,
+              data: JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2024-11-05', capabilities: {} } }),
+              responseOptions: { headers: { 'Content-Type': 'application/json', 'mcp-session-id': 'new-session' } },
+            };
+          }
+          if (body.method === 'notifications/initialized') {
+            return { statusCode: 202, data: '' };
+          }
+          const reply = toolCallReplies[Math.min(toolCalls++, toolCallReplies.length - 1)];
+          return {
+            statusCode: reply.statusCode,
+            data: reply.data.replace('"ID"', String(body.id)),
+            responseOptions: { headers: { 'Content-Type': 'application/json' } },
+          };
+        })
+        .persist();
+
+      return requests;
+    }
+
+    const OK_REPLY: ToolCallReply = { statusCode: 200, data: '{"jsonrpc":"2.0","id":"ID","result":{"data":"ok"}}' };
+
+    it('should re-initialize and replay the call once when the server returns 404 for the session', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      state.sessionId = 'expired-session';
+      const requests = mockServer([{ statusCode: 404, data: 'Session not found' }, OK_REPLY]);
+      const recoveries: McpSessionRecovery[] = [];
+
+      const result = await collectMcpSessionRecoveries(recoveries, () =>
+        client.callTool(state, 'product.search', { query: 'test' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID)
+      );
+
+      expect(result).toEqual({ data: 'ok' });
+      expect(state.sessionId).toBe('new-session');
+      expect(requests.map((r) => [r.method, r.sessionId])).toEqual([
+        ['tools/call', 'expired-session'],
+        ['initialize', undefined],
+        ['notifications/initialized', 'new-session'],
+        ['tools/call', 'new-session'],
+      ]);
+      expect(requests[3].id).not.toBe(requests[0].id);
+      expect(recoveries).toEqual([
+        { method: 'tools/call', toolName: 'product.search', reason: 'http_404', replayOk: true },
+      ]);
+    });
+
+    it('should recover from JSON-RPC session errors and 400 responses about the session', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      state.sessionId = 'expired-session';
+      mockServer([
+        { statusCode: 200, data: '{"jsonrpc":"2.0","id":"ID","error":{"code":-32000,"message":"Session expired"}}' },
+        OK_REPLY,
+        { statusCode: 400, data: 'Bad Request: No valid session ID provided' },
+        OK_REPLY,
+      ]);
+      const recoveries: McpSessionRecovery[] = [];
+
+      await collectMcpSessionRecoveries(recoveries, async () => {
+        await client.listTools(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+        await client.callTool(state, 'cart.get', { basketId: 1 }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+      });
+
+      expect(recoveries.map((r) => [r.method, r.reason, r.replayOk])).toEqual([
+        ['tools/list', 'jsonrpc_session_error', true],
+        ['tools/call', 'http_400_session', true],
+      ]);
+    });
+
+    it('should replay only once and surface the error if the session is invalid again', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      state.sessionId = 'expired-session';
+      const requests = mockServer([{ statusCode: 404, data: 'Session not found' }]);
+      const recoveries: McpSessionRecovery[] = [];
+
+      await expect(collectMcpSessionRecoveries(recoveries, () =>
+        client.callTool(state, 'product.search', { query: 'test' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID)
+      )).rejects.toThrow(/status=404/);
+
+      expect(requests.filter((r) => r.method === 'initialize')).toHaveLength(1);
+      expect(recoveries).toEqual([
+        { method: 'tools/call', toolName: 'product.search', reason: 'http_404', replayOk: false },
+      ]);
+    });
+
+    it('should not re-initialize for failures unrelated to the session', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      state.sessionId = 'existing-session';
+      const requests = mockServer([{ statusCode: 400, data: 'Bad Request: invalid arguments' }]);
+
+      await expect(
+        client.callTool(state, 'product.search', { query: 'test' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID)
+      ).rejects.toThrow(/status=400/);
+
+      expect(requests.map((r) => r.method)).toEqual(['tools/call']);
+      expect(state.sessionId).toBe('existing-session');
+    });
+
+    it('should not replay tool errors that only mention a session', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      state.sessionId = 'existing-session';
+      const requests = mockServer([
+        { statusCode: 200, data: '{"jsonrpc":"2.0","id":"ID","error":{"code":-32000,"message":"Basket session expired"}}' },
+      ]);
+
+      await expect(
+        client.callTool(state, 'cart.addItem', { partNo: 'X' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID)
+      ).rejects.toThrow(/Basket session expired/);
+
+      expect(requests.map((r) => r.method)).toEqual(['tools/call']);
+      expect(state.sessionId).toBe('existing-session');
+    });
+  });
+
+  describe('rejected access tokens', () => {
+    /** Mock server that only accepts "fresh-token"; returns the Authorization headers it saw */
+    function mockAuthServer() {
+      const authorizations: string[] = [];
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          const authorization = (opts.headers as Record<string, string>)['Authorization'];
+          authorizations.push(authorization);
+          if (authorization !== 'Bearer fresh-token') {
+            return { statusCode: 401, data: 'Unauthorized' };
+          }
+          return {
+            statusCode: 200,
+            data: JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { data: 'ok' } }),
+            responseOptions: { headers: { 'Content-Type': 'application/json' } },
+          };
+        })
+        .persist();
+      return authorizations;
+    }
+
+    it('should force-refresh the token on 401 and retry once', async () => {
+      const tokenRefresher = { forceRefresh: vi.fn().mockResolvedValue('fresh-token') };
+      const client = new NorceMcpClient({ baseUrl: TEST_BASE_URL, tokenRefresher });
+      const state = createMcpState();
+      state.sessionId = 'existing-session';
+      const authorizations = mockAuthServer();
+
+      const result = await client.callTool(state, 'product.search', { query: 'test' }, 'stale-token', TEST_APPLICATION_ID);
+
+      expect(result).toEqual({ data: 'ok' });
+      expect(tokenRefresher.forceRefresh).toHaveBeenCalledWith(TEST_APPLICATION_ID, 'stale-token');
+      expect(authorizations).toEqual(['Bearer stale-token', 'Bearer fresh-token']);
+    });
+
+    it('should surface the 401 without a token refresher or when the fresh token is rejected too', async () => {
+      const state = createMcpState();
+      state.sessionId = 'existing-session';
+      const authorizations = mockAuthServer();
+
+      await expect(
+        createMcpClient().callTool(state, 'product.search', { query: 'test' }, 'stale-token', TEST_APPLICATION_ID)
+      ).rejects.toThrow(/status=401/);
+      expect(authorizations).toHaveLength(1);
+
+      const tokenRefresher = { forceRefresh: vi.fn().mockResolvedValue('another-stale-token') };
+      const client = new NorceMcpClient({ baseUrl: TEST_BASE_URL, tokenRefresher });
+      await expect(
+        client.callTool(state, 'product.search', { query: 'test' }, 'stale-token', TEST_APPLICATION_ID)
+      ).rejects.toThrow(/status=401/);
+      expect(tokenRefresher.forceRefresh).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('protocol version negotiation', () => {
+    function mockInitialize(initializeResult: Record<string, unknown>) {
+      const requests: Array<{ method: string; params?: Record<string, unknown>; headers: Record<string, string> }> = [];
+
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          requests.push({ method: body.method, params: body.params, headers: opts.headers as Record<string, string> });
+          if (body.method === 'notifications/initialized') {
+            return { statusCode: 202, data: '' };
+          }
+          const result = body.method === 'initialize' ? initializeResult : { tools: [] };
+          return {
+            statusCode: 200,
+            data: JSON.stringify({ jsonrpc: '2.0', id: body.id, result }),
+            responseOptions: { headers: { 'Content-Type': 'application/json', 'mcp-session-id': 'session-1' } },
+          };
+        })
+        .persist();
+
+      return requests;
+    }
+
+    it('should propose the latest version and store the negotiated version and capabilities', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockInitialize({
+        protocolVersion: '2025-06-18',
+        capabilities: { tools: { listChanged: true }, resources: { subscribe: false } },
+      });
+
+      await client.listTools(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(requests[0].params?.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+      expect(state.protocolVersion).toBe('2025-06-18');
+      expect(mcpServerSupports(state, 'resources')).toBe(true);
+      expect(mcpServerSupports(state, 'prompts')).toBe(false);
+      expect(requests[0].headers['mcp-protocol-version']).toBeUndefined();
+      expect(requests[2].headers['mcp-protocol-version']).toBe('2025-06-18');
+    });
+
+    it('should accept older supported versions without the protocol version header', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockInitialize({ protocolVersion: '2024-11-05', capabilities: { tools: {} } });
+
+      await client.listTools(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(state.protocolVersion).toBe('2024-11-05');
+      expect(state.serverCapabilities).toEqual({ tools: {} });
+      expect(requests[2].headers['mcp-protocol-version']).toBeUndefined();
+    });
+
+    it('should fail with an upstream AppError when the server version is not supported', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockInitialize({ protocolVersion: '2030-01-01', capabilities: {} });
+
+      const error = await client.listTools(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toMatchObject({
+        code: 'MCP_PROTOCOL_VERSION_UNSUPPORTED',
+        details: { serverVersion: '2030-01-01', supportedVersions: expect.arrayContaining(['2024-11-05']) },
+      });
+      expect(mapCategoryToEnvelope((error as AppError).category)).toBe('upstream');
+      expect(requests.map((r) => r.method)).toEqual(['initialize']);
+      expect(state.sessionId).toBeUndefined();
+    });
+  });
+
+  describe('resources and prompts', () => {
+    function mockServer(results: Record<string, unknown>) {
+      const requests: Array<{ method: string; params?: Record<string, unknown> }> = [];
+
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          requests.push({ method: body.method, params: body.params });
+          if (body.method === 'notifications/initialized') {
+            return { statusCode: 202, data: '' };
+          }
+          const response = body.method === 'initialize'
+            ? { result: { protocolVersion: '2025-06-18', capabilities: { resources: {}, prompts: {} } } }
+            : results[body.method] ?? { error: { code: -32601, message: 'Method not found' } };
+          return {
+            statusCode: 200,
+            data: JSON.stringify({ jsonrpc: '2.0', id: body.id, ...response }),
+            responseOptions: { headers: { 'Content-Type': 'application/json', 'mcp-session-id': 'session-1' } },
+          };
+        })
+        .persist();
+
+      return requests;
+    }
+
+    it('should list and read resources', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockServer({
+        'resources/list': { result: { resources: [{ uri: 'store://returns', name: 'returns' }], nextCursor: 'page-2' } },
+        'resources/read': { result: { contents: [{ uri: 'store://returns', mimeType: 'text/plain', text: '30 days' }] } },
+      });
+
+      const list = await client.listResources(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID, 'page-1');
+      const read = await client.readResource(state, 'store://returns', TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(list).toEqual({ resources: [{ uri: 'store://returns', name: 'returns' }], nextCursor: 'page-2' });
+      expect(read.contents[0].text).toBe('30 days');
+      expect(requests.slice(2)).toEqual([
+        { method: 'resources/list', params: { cursor: 'page-1' } },
+        { method: 'resources/read', params: { uri: 'store://returns' } },
+      ]);
+    });
+
+    it('should list and get prompts with arguments', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockServer({
+        'prompts/list': { result: { prompts: [{ name: 'store-tone', arguments: [{ name: 'locale' }] }] } },
+        'prompts/get': { result: { messages: [{ role: 'user', content: { type: 'text', text: 'Be friendly.' } }] } },
+      });
+
+      const list = await client.listPrompts(state, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+      const prompt = await client.getPrompt(state, 'store-tone', { locale: 'sv-SE' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(list.prompts[0].name).toBe('store-tone');
+      expect(prompt.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Be friendly.' } }]);
+      expect(requests[3]).toEqual({ method: 'prompts/get', params: { name: 'store-tone', arguments: { locale: 'sv-SE' } } });
+    });
+
+    it('should throw with the method name when the server returns an error', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      mockServer({});
+
+      await expect(client.readResource(state, 'store://missing', TEST_ACCESS_TOKEN, TEST_APPLICATION_ID))
+        .rejects.toThrow('MCP resources/read failed: Method not found (code: -32601)');
+    });
+  });
+
+  describe('streamed notifications', () => {
+    function mockSseToolCall(events: (id: number) => object[]) {
+      const requests: Array<{ method: string; params?: Record<string, unknown> }> = [];
+
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          requests.push({ method: body.method, params: body.params });
+          if (body.method === 'notifications/initialized') {
+            return { statusCode: 202, data: '' };
+          }
+          const messages = body.method === 'initialize'
+            ? [{ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } }]
+            : events(body.id);
+          return {
+            statusCode: 200,
+            data: messages.map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`).join(''),
+            responseOptions: { headers: { 'Content-Type': 'text/event-stream', 'mcp-session-id': 'session-1' } },
+          };
+        })
+        .persist();
+
+      return requests;
+    }
+
+    it('should parse data lines split across chunks', () => {
+      const parser = new SseDataParser();
+
+      expect(parser.push('event: message\nda')).toEqual([]);
+      expect(parser.push('ta: {"a":1}\n\n: comment\ndata: [DONE]\ndata: {"b"')).toEqual(['{"a":1}']);
+      expect(parser.push(':2}')).toEqual([]);
+      expect(parser.flush()).toEqual(['{"b":2}']);
+    });
+
+    it('should request progress and forward progress and log notifications to the listener', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockSseToolCall((id) => [
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: id, progress: 1, total: 2 } },
+        { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', logger: 'catalog', data: 'indexing' } },
+        { jsonrpc: '2.0', id, result: { items: ['a'] } },
+      ]);
+      const progress: McpProgressNotification[] = [];
+      const logs: McpLogNotification[] = [];
+
+      const result = await listenForMcpNotifications(
+        { onProgress: (n) => progress.push(n), onLog: (n) => logs.push(n) },
+        () => client.callTool(state, 'product.search', { query: 'shoes' }, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID)
+      );
+
+      expect(result).toEqual({ items: ['a'] });
+      expect(requests[2].params?._meta).toEqual({ progressToken: 2 });
+      expect(progress).toEqual([{ progressToken: 2, progress: 1, total: 2 }]);
+      expect(logs).toEqual([{ level: 'info', logger: 'catalog', data: 'indexing' }]);
+    });
+
+    it('should not request progress without a listener or treat trailing notifications as the response', async () => {
+      const client = createMcpClient();
+      const state = createMcpState();
+      const requests = mockSseToolCall((id) => [
+        { jsonrpc: '2.0', id: id + 100, result: { stale: true } },
+        { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'debug', data: 'done' } },
+      ]);
+
+      const result = await client.callTool(state, 'product.search', {}, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(requests[2].params).toEqual({ name: 'product.search', arguments: {} });
+      expect(result).toEqual({ stale: true });
+    });
+  });
+
+  describe('callToolsBatch', () => {
+    function mockBatchServer(options: { protocolVersion?: string; batchErrorStatus?: number } = {}) {
+      const bodies: unknown[] = [];
+
+      mockAgent.get('https://test.norce.tech')
+        .intercept({ path: '/mcp/commerce', method: 'POST' })
+        .reply((opts) => {
+          const body = JSON.parse(opts.body as string);
+          bodies.push(body);
+          const json = (data: unknown, statusCode = 200) => ({
+            statusCode,
+            data: JSON.stringify(data),
+            responseOptions: { headers: { 'Content-Type': 'application/json', 'mcp-session-id': 'session-1' } },
+          });
+          const callResult = (rpc: { id: number; params: { arguments: { productId: number } } }) =>
+            rpc.params.arguments.productId === 404
+              ? { jsonrpc: '2.0', id: rpc.id, error: { code: -32602, message: 'Product not found' } }
+              : { jsonrpc: '2.0', id: rpc.id, result: { productId: rpc.params.arguments.productId } };
+
+          if (Array.isArray(body)) {
+            return options.batchErrorStatus
+              ? json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } }, options.batchErrorStatus)
+              : json([...body].reverse().map(callResult));
+          }
+          if (body.method === 'notifications/initialized') {
+            return { statusCode: 202, data: '' };
+          }
+          if (body.method === 'initialize') {
+            return json({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: options.protocolVersion ?? '2025-03-26', capabilities: {} } });
+          }
+          return json(callResult(body));
+        })
+        .persist();
+
+      return bodies;
+    }
+
+    const calls = [1, 404, 3].map((productId) => ({ name: 'product.get', args: { productId } }));
+
+    it('should send one batch and isolate per-call errors', async () => {
+      const client = createMcpClient();
+      const bodies = mockBatchServer();
+
+      const outcomes = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(outcomes).toEqual([
+        { ok: true, result: { productId: 1 } },
+        { ok: false, error: 'MCP tool call failed: Product not found (code: -32602)' },
+        { ok: true, result: { productId: 3 } },
+      ]);
+      expect(bodies.filter(Array.isArray)).toHaveLength(1);
+      expect(bodies).toHaveLength(3);
+    });
+
+    it('should fall back to single calls when the server rejects batches and not batch again', async () => {
+      const client = createMcpClient();
+      const bodies = mockBatchServer({ batchErrorStatus: 405 });
+
+      const first = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+      const second = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(first.map((outcome) => outcome.ok)).toEqual([true, false, true]);
+      expect(second).toEqual(first);
+      expect(bodies.filter(Array.isArray)).toHaveLength(1);
+    });
+
+    it('should fall back for one call only when a batch fails with 400', async () => {
+      const client = createMcpClient();
+      const bodies = mockBatchServer({ batchErrorStatus: 400 });
+
+      const first = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+      const second = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(first.map((outcome) => outcome.ok)).toEqual([true, false, true]);
+      expect(second).toEqual(first);
+      expect(bodies.filter(Array.isArray)).toHaveLength(2);
+    });
+
+    it('should not batch on protocol versions without JSON-RPC batching', async () => {
+      const client = createMcpClient();
+      const bodies = mockBatchServer({ protocolVersion: '2025-06-18' });
+
+      const outcomes = await client.callToolsBatch(createMcpState(), calls, TEST_ACCESS_TOKEN, TEST_APPLICATION_ID);
+
+      expect(outcomes.map((outcome) => outcome.ok)).toEqual([true, false, true]);
+      expect(bodies.filter(Array.isArray)).toHaveLength(0);
+    });
+  });
 });
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MockAgent, setGlobalDispatcher, getGlobalDispatcher, Dispatcher } from 'undici';
+import RedisMock from 'ioredis-mock';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
 
 vi.mock('../config.js', () => ({
   config: {
@@ -48,6 +53,9 @@ vi.mock('../config.js', () => ({
 }));
 
 import { NorceTokenProvider } from '../norce/NorceTokenProvider.js';
+import { RedisSharedTokenStore } from '../norce/RedisSharedTokenStore.js';
+import type { ISharedTokenStore } from '../norce/ISharedTokenStore.js';
+import type { NorceTokenProviderOptions } from '../norce/norceTypes.js';
 
 const TEST_TOKEN_URL = 'https://test.norce.tech/oauth/token';
 const TEST_CLIENT_ID = 'test-client-id';
@@ -55,12 +63,13 @@ const TEST_CLIENT_SECRET = 'test-client-secret';
 const TEST_SCOPE = 'test-scope';
 const TEST_APPLICATION_ID = 'test-app-id';
 
-function createTokenProvider(): NorceTokenProvider {
+function createTokenProvider(options: Partial<NorceTokenProviderOptions> = {}): NorceTokenProvider {
   return new NorceTokenProvider({
     clientId: TEST_CLIENT_ID,
     clientSecret: TEST_CLIENT_SECRET,
     tokenUrl: TEST_TOKEN_URL,
     scope: TEST_SCOPE,
+    ...options,
   });
 }
 
@@ -320,4 +329,198 @@ describe('NorceTokenProvider', () => {
     await tokenProvider.getAccessToken(TEST_APPLICATION_ID);
     expect(requestCount).toBe(2);
   });
+
+  /** Token endpoint handing out token-1, token-2, ... with the given lifetime */
+  function mockSequentialTokens(expiresIn: number = 3600): { count: () => number } {
+    let requestCount = 0;
+    mockAgent.get('https://test.norce.tech')
+      .intercept({
+        path: '/oauth/token',
+        method: 'POST',
+      })
+      .reply(() => {
+        requestCount++;
+        return {
+          statusCode: 200,
+          data: JSON.stringify({ access_token: `token-${requestCount}`, expires_in: expiresIn, token_type: 'Bearer' }),
+          headers: { 'Content-Type': 'application/json' },
+        };
+      })
+      .persist();
+    return { count: () => requestCount };
+  }
+
+  describe('refresh-ahead and clock skew', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve the cached token and refresh in the background within the refresh-ahead window', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const tokenProvider = createTokenProvider({ refreshAheadMs: 10 * 60 * 1000, clockSkewMs: 0 });
+      const tokens = mockSequentialTokens(3600);
+
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+
+      // 55 minutes in: still valid, but inside the 10 minute refresh-ahead window
+      vi.advanceTimersByTime(55 * 60 * 1000);
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+
+      await vi.waitFor(() => expect(tokens.count()).toBe(2));
+      await vi.waitFor(async () => expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2'));
+      expect(tokens.count()).toBe(2);
+    });
+
+    it('should not refresh before the refresh-ahead window', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const tokenProvider = createTokenProvider({ refreshAheadMs: 10 * 60 * 1000, clockSkewMs: 0 });
+      const tokens = mockSequentialTokens(3600);
+
+      await tokenProvider.getAccessToken(TEST_APPLICATION_ID);
+      vi.advanceTimersByTime(45 * 60 * 1000);
+
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      expect(tokens.count()).toBe(1);
+    });
+
+    it('should shorten the token lifetime by the clock skew allowance', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const tokenProvider = createTokenProvider({ clockSkewMs: 60 * 1000 });
+      const tokens = mockSequentialTokens(400);
+
+      await tokenProvider.getAccessToken(TEST_APPLICATION_ID);
+
+      // 400s lifetime less 60s skew: 59s remain after 281s, below the 60s refresh buffer
+      vi.advanceTimersByTime(281 * 1000);
+
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2');
+      expect(tokens.count()).toBe(2);
+    });
+  });
+
+  describe('forceRefresh', () => {
+    it('should replace a rejected token', async () => {
+      const tokenProvider = createTokenProvider();
+      const tokens = mockSequentialTokens();
+
+      const rejected = await tokenProvider.getAccessToken(TEST_APPLICATION_ID);
+      const fresh = await tokenProvider.forceRefresh(TEST_APPLICATION_ID, rejected);
+
+      expect(fresh).toBe('token-2');
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2');
+      expect(tokens.count()).toBe(2);
+    });
+
+    it('should share one refresh between callers rejecting the same token', async () => {
+      const tokenProvider = createTokenProvider();
+      const tokens = mockSequentialTokens();
+
+      const rejected = await tokenProvider.getAccessToken(TEST_APPLICATION_ID);
+      const fresh = await Promise.all(
+        Array.from({ length: 5 }, () => tokenProvider.forceRefresh(TEST_APPLICATION_ID, rejected))
+      );
+
+      expect(new Set(fresh)).toEqual(new Set(['token-2']));
+      expect(tokens.count()).toBe(2);
+
+      // A late caller with the old token gets the replacement without another fetch
+      expect(await tokenProvider.forceRefresh(TEST_APPLICATION_ID, rejected)).toBe('token-2');
+      expect(tokens.count()).toBe(2);
+    });
+  });
+
+  describe('shared token store', () => {
+    function createRedisStore(prefix: string): RedisSharedTokenStore {
+      return new RedisSharedTokenStore({ redisUrl: 'redis://localhost:6379', prefix });
+    }
+
+    it('should let instances share a token with a single token endpoint call', async () => {
+      const storeA = createRedisStore('test:token:share:');
+      const storeB = createRedisStore('test:token:share:');
+      const providerA = createTokenProvider({ sharedStore: storeA });
+      const providerB = createTokenProvider({ sharedStore: storeB });
+      const tokens = mockSequentialTokens();
+
+      const [tokenA, tokenB] = await Promise.all([
+        providerA.getAccessToken(TEST_APPLICATION_ID),
+        providerB.getAccessToken(TEST_APPLICATION_ID),
+      ]);
+
+      expect(tokenA).toBe('token-1');
+      expect(tokenB).toBe('token-1');
+      expect(tokens.count()).toBe(1);
+
+      // A new instance starts with the shared token
+      const providerC = createTokenProvider({ sharedStore: storeA });
+      expect(await providerC.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      expect(tokens.count()).toBe(1);
+
+      await storeA.close();
+      await storeB.close();
+    });
+
+    it('should invalidate a rejected token for every instance', async () => {
+      const store = createRedisStore('test:token:reject:');
+      const providerA = createTokenProvider({ sharedStore: store });
+      const providerB = createTokenProvider({ sharedStore: store });
+      const tokens = mockSequentialTokens();
+
+      const rejected = await providerA.getAccessToken(TEST_APPLICATION_ID);
+      expect(await providerB.getAccessToken(TEST_APPLICATION_ID)).toBe(rejected);
+
+      expect(await providerB.forceRefresh(TEST_APPLICATION_ID, rejected)).toBe('token-2');
+      // providerA still caches the rejected token locally and picks up token-2 from the store
+      expect(await providerA.forceRefresh(TEST_APPLICATION_ID, rejected)).toBe('token-2');
+      expect(tokens.count()).toBe(2);
+
+      await store.close();
+    });
+
+    it('should fetch a new token when refreshing ahead instead of re-caching the shared one', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const store = createRedisStore('test:token:ahead:');
+      const options = { sharedStore: store, refreshAheadMs: 10 * 60 * 1000, clockSkewMs: 0 };
+      const providerA = createTokenProvider(options);
+      const providerB = createTokenProvider(options);
+      const tokens = mockSequentialTokens(3600);
+
+      expect(await providerA.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      expect(await providerB.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+
+      // 55 minutes in: the shared token-1 is inside the refresh-ahead window and must not be accepted
+      vi.advanceTimersByTime(55 * 60 * 1000);
+      expect(await providerA.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      await vi.waitFor(async () => expect(await providerA.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2'));
+
+      // providerB refreshes ahead from the store without another token endpoint call
+      expect(await providerB.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      await vi.waitFor(async () => expect(await providerB.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2'));
+      expect(tokens.count()).toBe(2);
+
+      // token-1 has expired; token-2 is served without a foreground refresh
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      expect(await providerA.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2');
+      expect(await providerB.getAccessToken(TEST_APPLICATION_ID)).toBe('token-2');
+      expect(tokens.count()).toBe(2);
+
+      vi.useRealTimers();
+      await store.close();
+    });
+
+    it('should fetch the token directly when the shared store fails', async () => {
+      const failingStore: ISharedTokenStore = {
+        get: vi.fn().mockRejectedValue(new Error('connection refused')),
+        set: vi.fn().mockRejectedValue(new Error('connection refused')),
+        invalidate: vi.fn().mockRejectedValue(new Error('connection refused')),
+        acquireLock: vi.fn().mockRejectedValue(new Error('connection refused')),
+        releaseLock: vi.fn().mockRejectedValue(new Error('connection refused')),
+        close: vi.fn().mockResolvedValue(undefined),
+      };
+      const tokenProvider = createTokenProvider({ sharedStore: failingStore });
+      const tokens = mockSequentialTokens();
+
+      expect(await tokenProvider.getAccessToken(TEST_APPLICATION_ID)).toBe('token-1');
+      expect(tokens.count()).toBe(1);
+    });
+  });
 });
@@ -351,5 +351,83 @@ describe('OpenAiClient', () => {
       expect(response.toolCalls).toEqual([]);
       expect(response.finishReason).toBeNull();
     });
+
+    it('should map usage including cached prompt tokens', async () => {
+      mockCreate.mockResolvedValue({
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }],
+        usage: {
+          prompt_tokens: 120,
+          completion_tokens: 30,
+          total_tokens: 150,
+          prompt_tokens_details: { cached_tokens: 64 },
+        },
+      });
+
+      const client = new OpenAiClient({ apiKey: 'test-api-key' });
+      const response = await client.runWithTools({
+        input: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(response.usage).toEqual({
+        promptTokens: 120,
+        completionTokens: 30,
+        totalTokens: 150,
+        cachedTokens: 64,
+      });
+      expect(response.model).toBe('gpt-4o-mini-2024-07-18');
+    });
+
+    it('should stream content deltas and accumulate tool call fragments when onDelta is provided', async () => {
+      async function* chunks() {
+        yield { model: 'gpt-4o-mini', choices: [{ delta: { content: 'Hel' }, finish_reason: null }] };
+        yield { model: 'gpt-4o-mini', choices: [{ delta: { content: 'lo' }, finish_reason: null }] };
+        yield {
+          model: 'gpt-4o-mini',
+          choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'product_', arguments: '{"query":' } }] }, finish_reason: null }],
+        };
+        yield {
+          model: 'gpt-4o-mini',
+          choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'search', arguments: '"shoes"}' } }] }, finish_reason: 'tool_calls' }],
+        };
+        yield { model: 'gpt-4o-mini', choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } };
+      }
+      mockCreate.mockResolvedValue(chunks());
+
+      const deltas: string[] = [];
+      const client = new OpenAiClient({ apiKey: 'test-api-key' });
+      const response = await client.runWithTools({
+        input: [{ role: 'user', content: 'Hello' }],
+        onDelta: (text) => deltas.push(text),
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+        expect.anything()
+      );
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(response.content).toBe('Hello');
+      expect(response.streamed).toBe(true);
+      expect(response.toolCalls).toEqual([
+        { id: 'call_1', name: 'product_search', arguments: '{"query":"shoes"}' },
+      ]);
+      expect(response.finishReason).toBe('tool_calls');
+      expect(response.usage?.totalTokens).toBe(15);
+    });
+  });
+
+  describe('provider options', () => {
+    it('should pass baseURL and report custom provider name', () => {
+      const client = new OpenAiClient({
+        apiKey: 'local-key',
+        baseURL: 'http://localhost:11434/v1',
+        providerName: 'openai-compatible',
+      });
+
+      expect(client.name).toBe('openai-compatible');
+      expect(MockOpenAIConstructor).toHaveBeenCalledWith(
+        expect.objectContaining({ baseURL: 'http://localhost:11434/v1' })
+      );
+    });
   });
 });
@@ -44,8 +44,10 @@ import {
 } from '../agent/agentRunner.js';
 import { Tool } from '../agent/tools.js';
 import { OpenAiClient, OpenAiResponse } from '../openai/OpenAiClient.js';
-import type { McpState } from '../session/sessionTypes.js';
+import type { McpState, WorkingMemory } from '../session/sessionTypes.js';
+import type { ProductBatchItem, ProductGetHandlerResult } from '../agent/toolHandlers.js';
 import { MAX_ROUNDS_FALLBACK_RESPONSE } from '../agent/prompts.js';
+import { getMcpNotificationListener } from '../norce/mcpNotifications.js';
 
 function createMockOpenAiClient() {
   return {
@@ -485,6 +487,116 @@ describe('AgentRunner', () => {
       expect(conversation.some((msg) => msg.role === 'tool')).toBe(true);
       expect(conversation.some((msg) => msg.tool_calls !== undefined)).toBe(true);
     });
+
+    it('should forward MCP progress as status and server logs as dev_status while a tool runs', async () => {
+      const mockTool = createMockTool('product_search', { items: [] });
+      (mockTool.execute as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        const listener = getMcpNotificationListener();
+        listener?.onProgress?.({ progressToken: 1, progress: 1, total: 4 });
+        listener?.onProgress?.({ progressToken: 1, progress: 1, total: 4, message: 'same percentage' });
+        listener?.onProgress?.({ progressToken: 1, progress: 3, total: 4 });
+        listener?.onLog?.({ level: 'warning', logger: 'catalog', data: 'slow index' });
+        return { items: [] };
+      });
+
+      const runWithToolsMock = mockOpenAiClient.runWithTools as ReturnType<typeof vi.fn>;
+      runWithToolsMock.mockResolvedValueOnce({
+        content: null,
+        toolCalls: [{ id: 'call_1', name: 'product_search', arguments: JSON.stringify({ query: 'shoes' }) }],
+        finishReason: 'tool_calls',
+      });
+      runWithToolsMock.mockResolvedValueOnce({ content: 'Done', toolCalls: [], finishReason: 'stop' });
+
+      const runner = new AgentRunner({
+        tools: [mockTool],
+        openaiClient: mockOpenAiClient,
+        maxRounds: 6,
+        maxToolCallsPerRound: 3,
+      });
+      const onStatus = vi.fn();
+      const onDevStatus = vi.fn();
+
+      await runner.runAgentTurn('Search', [], mcpState, undefined, { onStatus, onDevStatus }, undefined, undefined, 'en');
+
+      const statuses = onStatus.mock.calls.map(([message]) => message);
+      expect(statuses.filter((message: string) => message.endsWith('%)'))).toEqual([
+        'Searching the catalog (25%)',
+        'Searching the catalog (75%)',
+      ]);
+      expect(onDevStatus).toHaveBeenCalledWith(expect.objectContaining({
+        round: 1, tool: 'product_search', progress: 3, total: 4,
+      }));
+      expect(onDevStatus).toHaveBeenCalledWith(expect.objectContaining({
+        round: 1, tool: 'product_search', level: 'warning', logger: 'catalog', data: 'slow index',
+      }));
+    });
+  });
+
+  describe('getProductsBatch', () => {
+    const productResult = (productId: string, name: string) => ({
+      card: { productId, title: name, price: '499', currency: 'SEK' },
+      variantSummary: { buyableVariantCount: 2, inStockBuyableVariantCount: 1, availableDimensionValues: { Size: ['M'] } },
+    }) as unknown as ProductGetHandlerResult;
+
+    it('should enrich search results in one batch and skip products that fail', async () => {
+      const mockOpenAiClient = createMockOpenAiClient();
+      const searchTool = createMockTool('product_search', {
+        items: [],
+        cards: [
+          { productId: '1', title: 'Jacket A' },
+          { productId: '2', title: 'Jacket B' },
+          { productId: '3', title: 'Jacket C' },
+          { productId: '4', title: 'Jacket D' },
+        ],
+      });
+      const getProductsBatch = vi.fn().mockResolvedValue([
+        { productId: '1', ok: true, result: productResult('1', 'Jacket A') },
+        { productId: '2', ok: false, error: 'MCP tool call failed: Product not found (code: -32602)' },
+        { productId: '3', ok: true, result: productResult('3', 'Jacket C') },
+      ] satisfies ProductBatchItem[]);
+      (mockOpenAiClient.runWithTools as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          content: null,
+          toolCalls: [{ id: 'call_1', name: 'product_search', arguments: JSON.stringify({ query: 'jackets' }) }],
+          finishReason: 'tool_calls',
+        })
+        .mockResolvedValueOnce({ content: 'Here are some jackets.', toolCalls: [], finishReason: 'stop' });
+
+      const runner = new AgentRunner({ tools: [searchTool], openaiClient: mockOpenAiClient, getProductsBatch });
+      const mcpState = createMcpState();
+
+      const result = await runner.runAgentTurn('Which sizes do you have in jackets?', [], mcpState, undefined, undefined, undefined, 'app-1');
+
+      expect(getProductsBatch).toHaveBeenCalledTimes(1);
+      expect(getProductsBatch).toHaveBeenCalledWith(['1', '2', '3'], mcpState, undefined, 'app-1');
+      expect([...(result.variantSummaries?.keys() ?? [])]).toEqual(['1', '3']);
+      expect(result.message).toBe('Here are some jackets.');
+    });
+
+    it('should fetch compare candidates the model did not fetch', async () => {
+      const mockOpenAiClient = createMockOpenAiClient();
+      (mockOpenAiClient.runWithTools as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ content: 'Here is a comparison.', toolCalls: [], finishReason: 'stop' })
+        .mockRejectedValue(new Error('no highlights'));
+      const getProductsBatch = vi.fn().mockResolvedValue([
+        { productId: '1', ok: true, result: productResult('1', 'Jacket A') },
+        { productId: '2', ok: true, result: productResult('2', 'Jacket B') },
+      ] satisfies ProductBatchItem[]);
+      const workingMemory: WorkingMemory = {
+        lastResults: [
+          { index: 1, productId: '1', name: 'Jacket A' },
+          { index: 2, productId: '2', name: 'Jacket B' },
+        ],
+      };
+
+      const runner = new AgentRunner({ tools: [], openaiClient: mockOpenAiClient, getProductsBatch });
+      const result = await runner.runAgentTurn(
+        'Compare option 1 and 2', [], createMcpState(), undefined, undefined, workingMemory, 'app-1'
+      );
+
+      expect(getProductsBatch).toHaveBeenCalledWith(['1', '2'], expect.anything(), undefined, 'app-1');
+      expect(result.comparison?.items.map((item) => item.productId)).toEqual(['1', '2']);
+    });
   });
 
   describe('MalformedToolArgsError', () => {
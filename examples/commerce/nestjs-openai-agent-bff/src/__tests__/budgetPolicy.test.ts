@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    budget: {
+      defaults: {
+        sessionSoftTokens: 2000,
+        sessionHardTokens: 5000,
+        softModel: 'gpt-4o-mini',
+      },
+      overrides: {
+        'tenant-daily': { dailyHardUsd: 0.01 },
+        'tenant-capped': { maxRoundsPerTurn: 1 },
+      },
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { evaluateBudget, getBudgetLimits } from '../policy/budgetPolicy.js';
+import { AppError } from '../errors/index.js';
+import { appErrorToEnvelope } from '../http/errorEnvelope.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { handleChat } from '../routes/chatHandler.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import { UsageLedger, RedisUsageLedger, type SessionUsage } from '../usage/index.js';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  cachedTokens: 0,
+  totalTokens: promptTokens + completionTokens,
+});
+
+function sessionUsage(totalTokens: number, costUsd = 0): SessionUsage {
+  return { turns: 1, llmCalls: 1, promptTokens: totalTokens, completionTokens: 0, cachedTokens: 0, totalTokens, costUsd };
+}
+
+describe('evaluateBudget', () => {
+  it('should allow turns under every budget', () => {
+    expect(evaluateBudget({ session: sessionUsage(100) }, { sessionSoftTokens: 2000, dailyHardUsd: 1 })).toEqual({
+      status: 'ok',
+      maxRounds: undefined,
+    });
+  });
+
+  it('should switch to the soft model once a soft budget is reached', () => {
+    const decision = evaluateBudget(
+      { session: sessionUsage(2000) },
+      { sessionSoftTokens: 2000, sessionHardTokens: 5000, softModel: 'gpt-4o-mini' }
+    );
+
+    expect(decision).toMatchObject({
+      status: 'soft_exceeded',
+      model: 'gpt-4o-mini',
+      breach: { scope: 'session', metric: 'tokens', limit: 2000, used: 2000 },
+    });
+  });
+
+  it('should check hard budgets before soft budgets', () => {
+    const decision = evaluateBudget(
+      { session: sessionUsage(100), daily: { applicationId: 'a', day: '2026-01-01', turns: 9, llmCalls: 9, sessions: 3, ...sessionUsage(9000, 2.5) } },
+      { sessionSoftTokens: 50, dailyHardUsd: 2 }
+    );
+
+    expect(decision.status).toBe('hard_exceeded');
+    expect(decision.breach).toEqual({ scope: 'daily', metric: 'usd', limit: 2, used: 2.5 });
+    expect(decision.model).toBeUndefined();
+  });
+
+  it('should pass max rounds per turn through as a whole number', () => {
+    expect(evaluateBudget({}, { maxRoundsPerTurn: 2.7 }).maxRounds).toBe(2);
+    expect(evaluateBudget({}, { maxRoundsPerTurn: 0 }).maxRounds).toBeUndefined();
+  });
+});
+
+describe('getBudgetLimits', () => {
+  it('should merge per-application overrides over the defaults', () => {
+    expect(getBudgetLimits('tenant-daily')).toEqual({
+      sessionSoftTokens: 2000,
+      sessionHardTokens: 5000,
+      softModel: 'gpt-4o-mini',
+      dailyHardUsd: 0.01,
+    });
+    expect(getBudgetLimits('other').dailyHardUsd).toBeUndefined();
+  });
+});
+
+describe('AppError.budgetExceeded', () => {
+  it('should map to a non-retryable policy envelope', () => {
+    const envelope = appErrorToEnvelope(AppError.budgetExceeded('Limit reached', { scope: 'session' }), 'req-1', true);
+
+    expect(envelope).toEqual({
+      category: 'policy',
+      code: 'POLICY_BUDGET_EXCEEDED',
+      message: 'Limit reached',
+      retryable: false,
+      requestId: 'req-1',
+      details: { scope: 'session' },
+    });
+  });
+});
+
+describe('Budget enforcement through handleChat', () => {
+  let sessionStore: InMemorySessionStore;
+
+  beforeEach(() => {
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(() => {
+    sessionStore.destroy();
+  });
+
+  it('should downgrade the model past the soft budget and reject turns past the hard budget', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { content: 'Hello!', usage: usage(2400, 100) },
+        { content: 'Sure.', usage: usage(2900, 100), expect: { model: 'gpt-4o-mini' } },
+        { content: 'Never sent.' },
+      ],
+    });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+    const send = (message: string) => handleChat(
+      { applicationId: 'demo', sessionId: 'budget-session', message, context: { cultureCode: 'sv-SE' } },
+      { sessionStore, agentRunner }
+    );
+
+    await send('Hej');
+    const second = await send('Tack');
+    const third = await send('En fråga till');
+
+    expect(provider.calls.map((call) => call.model)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    expect(second.httpStatus).toBe(200);
+    expect(third.httpStatus).toBe(429);
+    expect(third.error?.code).toBe('POLICY_BUDGET_EXCEEDED');
+    expect(third.error?.details).toMatchObject({ scope: 'session', metric: 'tokens', limit: 5000, used: 5500 });
+    expect(third.body.text).toBe('Den här konversationen har nått sin användningsgräns. Starta en ny konversation för att fortsätta.');
+
+    const session = await sessionStore.get('demo:budget-session');
+    expect(session?.conversation.filter((m) => m.role === 'user')).toHaveLength(2);
+  });
+
+  it('should reject turns once the application spent its daily budget', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'Never sent.' }] });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+    const usageLedger = new UsageLedger();
+    usageLedger.record('tenant-daily', 'other-session', {
+      calls: [{ purpose: 'agent', model: 'gpt-4o', priced: true, ...usage(1000, 100), costUsd: 0.02 }],
+      ...usage(1000, 100),
+      costUsd: 0.02,
+    });
+
+    const result = await handleChat(
+      { applicationId: 'tenant-daily', sessionId: 'fresh-session', message: 'Hi', context: {} },
+      { sessionStore, agentRunner, usageLedger }
+    );
+
+    expect(result.httpStatus).toBe(429);
+    expect(result.error?.details).toMatchObject({ scope: 'daily', metric: 'usd' });
+    expect(result.body.text).toBe('The assistant has reached its usage limit for today. Please try again tomorrow.');
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('should enforce the daily budget across instances sharing the Redis ledger', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'Never sent.' }] });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+    const otherInstance = new RedisUsageLedger({ redisUrl: 'redis://localhost:6379', prefix: 'test:budget:daily:' });
+    const thisInstance = new RedisUsageLedger({ redisUrl: 'redis://localhost:6379', prefix: 'test:budget:daily:' });
+    await otherInstance.record('tenant-daily', 'other-session', {
+      calls: [{ purpose: 'agent', model: 'gpt-4o', priced: true, ...usage(1000, 100), costUsd: 0.02 }],
+      ...usage(1000, 100),
+      costUsd: 0.02,
+    });
+
+    const result = await handleChat(
+      { applicationId: 'tenant-daily', sessionId: 'fresh-session', message: 'Hi', context: {} },
+      { sessionStore, agentRunner, usageLedger: thisInstance }
+    );
+
+    expect(result.httpStatus).toBe(429);
+    expect(result.error?.details).toMatchObject({ scope: 'daily', metric: 'usd' });
+    expect(provider.calls).toHaveLength(0);
+    await Promise.all([otherInstance.close(), thisInstance.close()]);
+  });
+
+  it('should cap agent rounds with the per-application max rounds per turn', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'product_search', arguments: { query: 'boots' } }] },
+        { content: 'Never sent.' },
+      ],
+    });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+
+    const result = await handleChat(
+      { applicationId: 'tenant-capped', sessionId: 'capped-session', message: 'Find boots', context: {} },
+      { sessionStore, agentRunner }
+    );
+
+    expect(result.agentResult).toMatchObject({ roundsUsed: 1, hitMaxRounds: true });
+    expect(provider.calls).toHaveLength(1);
+  });
+});
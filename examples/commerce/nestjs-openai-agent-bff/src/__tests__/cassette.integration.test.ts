@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const mockCreate = vi.hoisted(() => vi.fn());
+
+vi.mock('openai', () => {
+  return {
+    default: class MockOpenAI {
+      chat = {
+        completions: {
+          create: mockCreate,
+        },
+      };
+    },
+  };
+});
+
+const testConfig = vi.hoisted(() => ({
+  port: 3000,
+  openai: {
+    apiKey: 'test-api-key',
+    model: 'gpt-4o-mini',
+  },
+  norce: {
+    mcp: {
+      baseUrl: 'http://127.0.0.1/mcp/commerce',
+      defaultApplicationId: 'demo',
+      allowedApplicationIds: [],
+      statusSeed: '',
+    },
+  },
+  session: {
+    ttlSeconds: 1800,
+  },
+  agent: {
+    maxRounds: 6,
+    maxToolCallsPerRound: 3,
+  },
+  timeouts: {
+    oauthMs: 5000,
+    mcpCallMs: 5000,
+    openaiMs: 120000,
+    openaiStreamMs: 300000,
+  },
+  retry: {
+    maxAttempts: 0,
+    baseDelayMs: 1,
+    jitterMs: 0,
+  },
+  openaiRetry: {
+    maxRetries: 0,
+    streamMaxRetries: 0,
+  },
+  debugRuns: {
+    cassetteMode: 'record',
+    cassetteDir: '',
+  },
+  debug: false,
+  limits: {
+    bodyLimitBytes: 131072,
+    maxMessageChars: 4000,
+    maxMessageTokensEst: 1200,
+  },
+}));
+
+vi.mock('../config.js', () => ({ config: testConfig }));
+
+import { MockMcpServer } from '../mock/mcp/index.js';
+import { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import { NorceTokenProvider } from '../norce/NorceTokenProvider.js';
+import { OpenAiClient } from '../openai/OpenAiClient.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { createTools } from '../agent/tools.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { handleChat, createRunTracer, replayChatFromCassette } from '../routes/chatHandler.js';
+import { loadCassette, CassetteMismatchError, CassettePlayer, type McpInteraction, type OpenAiInteraction } from '../debug/index.js';
+
+function toolCallCompletion() {
+  return {
+    model: 'gpt-4o-mini',
+    choices: [{
+      message: {
+        content: null,
+        tool_calls: [{
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'product_search', arguments: JSON.stringify({ query: 'running shoes' }) },
+        }],
+      },
+      finish_reason: 'tool_calls',
+    }],
+  };
+}
+
+function textCompletion(text: string) {
+  return {
+    model: 'gpt-4o-mini',
+    choices: [{ message: { content: text }, finish_reason: 'stop' }],
+  };
+}
+
+describe('Debug run cassettes', () => {
+  let server: MockMcpServer;
+  let agentRunner: AgentRunner;
+  let sessionStore: InMemorySessionStore;
+
+  beforeAll(async () => {
+    testConfig.debugRuns.cassetteDir = await mkdtemp(join(tmpdir(), 'cassettes-'));
+  });
+
+  afterAll(async () => {
+    await rm(testConfig.debugRuns.cassetteDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = new MockMcpServer();
+    await server.start();
+    const mcpClient = new NorceMcpClient({ baseUrl: server.baseUrl });
+    const tokenProvider = new NorceTokenProvider({
+      clientId: 'mock',
+      clientSecret: 'mock',
+      tokenUrl: server.tokenUrl,
+      scope: 'mock',
+    });
+    agentRunner = new AgentRunner({
+      tools: createTools({ tokenProvider, mcpClient }),
+      llmProvider: new OpenAiClient({ apiKey: 'test-api-key' }),
+    });
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(async () => {
+    sessionStore.destroy();
+    await server.stop();
+  });
+
+  async function recordRun() {
+    mockCreate
+      .mockResolvedValueOnce(toolCallCompletion())
+      .mockResolvedValueOnce(textCompletion('I found two running shoes for you.'));
+
+    const tracer = createRunTracer(crypto.randomUUID());
+    const result = await handleChat(
+      {
+        applicationId: 'demo',
+        sessionId: 'cassette-session',
+        message: 'Do you have running shoes?',
+        context: { cultureCode: 'sv-SE' },
+        debugEnabled: true,
+      },
+      { sessionStore, agentRunner },
+      tracer
+    );
+
+    expect(tracer.cassetteFile).toBe(join(testConfig.debugRuns.cassetteDir, `${tracer.runId}.json`));
+    return { result, cassette: await loadCassette(tracer.cassetteFile!) };
+  }
+
+  it('should record OpenAI and MCP traffic without tokens', async () => {
+    const { cassette } = await recordRun();
+
+    expect(cassette.applicationId).toBe('demo');
+    expect(cassette.initialSession).toBeNull();
+    expect(cassette.interactions.filter((i) => i.kind === 'openai')).toHaveLength(2);
+    const mcpMethods = cassette.interactions
+      .filter((i): i is McpInteraction => i.kind === 'mcp')
+      .map((i) => i.request.params?.name ?? i.request.method);
+    expect(mcpMethods).toEqual(['initialize', 'notifications/initialized', 'product.search']);
+    expect(JSON.stringify(cassette)).not.toContain('Bearer');
+  });
+
+  it('should replay a recorded run offline with the same response', async () => {
+    const { result: recorded, cassette } = await recordRun();
+
+    await server.stop();
+    mockCreate.mockRejectedValue(new Error('OpenAI must not be called during replay'));
+
+    const { result: replayed, unusedInteractions } = await replayChatFromCassette(cassette, agentRunner);
+
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(unusedInteractions).toBe(0);
+    expect(replayed.httpStatus).toBe(200);
+    expect(replayed.body.text).toBe(recorded.body.text);
+    expect(replayed.body.cards).toEqual(recorded.body.cards);
+  });
+
+  it('should fail replay when the agent diverges from the cassette', async () => {
+    const { cassette } = await recordRun();
+    const search = cassette.interactions.find(
+      (i): i is McpInteraction => i.kind === 'mcp' && i.request.method === 'tools/call'
+    )!;
+    search.request.params = { ...search.request.params, name: 'product.get' };
+
+    // The failed tool call changes the tool result the next OpenAI request carries
+    await expect(replayChatFromCassette(cassette, agentRunner)).rejects.toThrow(
+      'Cassette mismatch: OpenAI message content differs from the recording'
+    );
+  });
+
+  it('should fail replay when the OpenAI request differs from the recording', async () => {
+    const { cassette } = await recordRun();
+    const [first] = cassette.interactions.filter((i): i is OpenAiInteraction => i.kind === 'openai');
+    first.request.model = 'gpt-4o';
+
+    await expect(replayChatFromCassette(cassette, agentRunner)).rejects.toThrow(
+      'Cassette mismatch: expected OpenAI model gpt-4o, got gpt-4o-mini'
+    );
+  });
+
+  it('should throw CassetteMismatchError when recorded OpenAI responses run out', async () => {
+    const { cassette } = await recordRun();
+    cassette.interactions = cassette.interactions.filter((i) => i.kind === 'mcp');
+
+    await expect(replayChatFromCassette(cassette, agentRunner)).rejects.toThrow(CassetteMismatchError);
+  });
+});
+
+describe('CassettePlayer', () => {
+  function toolCall(id: number, productId: string): McpInteraction {
+    return {
+      kind: 'mcp',
+      request: { method: 'tools/call', id, params: { name: 'product.get', arguments: { productId } } },
+      response: { status: 200, body: { jsonrpc: '2.0', id, result: { productId } } },
+    };
+  }
+
+  function completion(request: Partial<OpenAiInteraction['request']> = {}): OpenAiInteraction {
+    return {
+      kind: 'openai',
+      request: {
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'system', content: 'Be helpful' }, { role: 'user', content: 'Hi' }],
+        tools: [{ type: 'function', function: { name: 'product_search' } }],
+        stream: false,
+        ...request,
+      },
+      completion: {},
+    };
+  }
+
+  it('should check the tools and messages of OpenAI requests', () => {
+    const live = completion().request;
+
+    expect(() => new CassettePlayer([completion()]).nextOpenAi(live)).not.toThrow();
+    expect(() => new CassettePlayer([completion({ tools: [] })]).nextOpenAi(live))
+      .toThrow('expected OpenAI tools [], got [product_search]');
+    expect(() => new CassettePlayer([completion({ messages: [{ role: 'user', content: 'Hi' }] })]).nextOpenAi(live))
+      .toThrow('expected OpenAI messages [user], got [system, user]');
+    expect(() => new CassettePlayer([completion({
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }],
+    })]).nextOpenAi(live)).toThrow('OpenAI message content differs from the recording');
+  });
+
+  it('should serve concurrently recorded tool calls by their arguments', () => {
+    // Recorded in completion order: 1002 finished before 1001
+    const player = new CassettePlayer([toolCall(3, '1002'), toolCall(2, '1001')]);
+
+    expect(player.nextMcp('tools/call', 'product.get', { productId: '1001' }).request.id).toBe(2);
+    expect(player.nextMcp('tools/call', 'product.get', { productId: '1002' }).request.id).toBe(3);
+    expect(player.remaining()).toBe(0);
+  });
+});
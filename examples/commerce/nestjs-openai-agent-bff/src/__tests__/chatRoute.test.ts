@@ -28,6 +28,8 @@ vi.mock('../config.js', () => ({
     agent: {
       maxRounds: 6,
       maxToolCallsPerRound: 3,
+      // OpenAI errors are asserted here; the search-only fallback is covered in searchOnlyFallback.test.ts
+      searchFallbackEnabled: false,
     },
     debug: false,
     limits: {
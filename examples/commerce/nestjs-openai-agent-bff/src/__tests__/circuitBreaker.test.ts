@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MockAgent, setGlobalDispatcher, getGlobalDispatcher, Dispatcher } from 'undici';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    timeouts: {
+      oauthMs: 5000,
+      mcpCallMs: 10000,
+      openaiMs: 20000,
+    },
+    retry: {
+      maxAttempts: 0,
+      baseDelayMs: 1,
+      jitterMs: 0,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { CircuitBreaker, getCircuitBreakerMetrics } from '../http/circuitBreaker.js';
+import { isOAuthOutage } from '../http/retryPolicy.js';
+import { appErrorToEnvelope } from '../http/errorEnvelope.js';
+import { AppError } from '../errors/AppError.js';
+import { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import { NorceTokenProvider } from '../norce/NorceTokenProvider.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { Tool } from '../agent/tools.js';
+import { z } from 'zod';
+
+function createClock(start = 1_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+const fail = () => Promise.reject(new Error('upstream down'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and fail fast with a retryable upstream error', async () => {
+    const clock = createClock();
+    const breaker = new CircuitBreaker({ name: 'mcp', failureThreshold: 3, openDurationMs: 10000, now: clock.now });
+    const fn = vi.fn(fail);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fn)).rejects.toThrow('upstream down');
+    }
+    expect(breaker.getState()).toBe('open');
+
+    const error = await breaker.execute(fn).catch((err: unknown) => err);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(AppError);
+    expect(appErrorToEnvelope(error as AppError)).toEqual({
+      category: 'upstream',
+      code: 'UPSTREAM_CIRCUIT_OPEN',
+      message: 'The service is temporarily unavailable. Please try again in a moment.',
+      retryable: true,
+    });
+    expect((error as AppError).details).toEqual({ upstream: 'mcp', retryAfterMs: 10000 });
+  });
+
+  it('should reset the failure count on success', async () => {
+    const breaker = new CircuitBreaker({ name: 'mcp', failureThreshold: 2 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should close after a successful trial call and reopen after a failed one', async () => {
+    const clock = createClock();
+    const breaker = new CircuitBreaker({ name: 'openai', failureThreshold: 1, openDurationMs: 5000, now: clock.now });
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    clock.advance(5000);
+    expect(breaker.getState()).toBe('half_open');
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getState()).toBe('open');
+    await expect(breaker.execute(succeed)).rejects.toThrow('temporarily unavailable');
+
+    clock.advance(5000);
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getMetrics()).toMatchObject({
+      name: 'openai',
+      state: 'closed',
+      totalCalls: 3,
+      totalFailures: 2,
+      rejectedCalls: 1,
+      openedCount: 2,
+    });
+  });
+
+  it('should allow only halfOpenMaxCalls concurrent trial calls', async () => {
+    const clock = createClock();
+    const breaker = new CircuitBreaker({ name: 'mcp', failureThreshold: 1, openDurationMs: 1000, halfOpenMaxCalls: 1, now: clock.now });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    clock.advance(1000);
+
+    let release: (value: string) => void = () => undefined;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => {
+      release = resolve;
+    }));
+    await expect(breaker.execute(succeed)).rejects.toThrow('temporarily unavailable');
+
+    release('ok');
+    await expect(trial).resolves.toBe('ok');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+
+  it('should not count errors that are not outages', async () => {
+    const breaker = new CircuitBreaker({
+      name: 'oauth',
+      failureThreshold: 1,
+      isFailure: isOAuthOutage,
+    });
+
+    await expect(breaker.execute(() => Promise.reject(new Error('Failed to fetch OAuth token: 401 Unauthorized. invalid_client'))))
+      .rejects.toThrow('401');
+    expect(breaker.getState()).toBe('closed');
+
+    await expect(breaker.execute(() => Promise.reject(new Error('Failed to fetch OAuth token: 503 Service Unavailable. '))))
+      .rejects.toThrow('503');
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should pass calls through when disabled', async () => {
+    const breaker = new CircuitBreaker({ name: 'mcp', enabled: false, failureThreshold: 1 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getMetrics()).toMatchObject({ state: 'closed', totalFailures: 1, rejectedCalls: 0 });
+  });
+});
+
+describe('upstream circuit breakers', () => {
+  const TEST_BASE_URL = 'https://test.norce.tech/mcp/commerce';
+  let mockAgent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  beforeEach(() => {
+    originalDispatcher = getGlobalDispatcher();
+    mockAgent = new MockAgent();
+    mockAgent.disableNetConnect();
+    setGlobalDispatcher(mockAgent);
+  });
+
+  afterEach(async () => {
+    await mockAgent.close();
+    setGlobalDispatcher(originalDispatcher);
+  });
+
+  it('should stop calling MCP while its circuit is open', async () => {
+    const reply = vi.fn(() => ({ statusCode: 503, data: 'Service Unavailable' }));
+    mockAgent.get('https://test.norce.tech').intercept({ path: '/mcp/commerce', method: 'POST' }).reply(reply).persist();
+    const mcpClient = new NorceMcpClient({
+      baseUrl: TEST_BASE_URL,
+      circuitBreaker: new CircuitBreaker({ name: 'mcp', failureThreshold: 2, isFailure: () => true }),
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(mcpClient.callTool({ nextRpcId: 1 }, 'product.search', { query: 'shoe' }, 'token', 'app-1'))
+        .rejects.toThrow('status=503');
+    }
+    await expect(mcpClient.callTool({ nextRpcId: 1 }, 'product.search', { query: 'shoe' }, 'token', 'app-1'))
+      .rejects.toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+
+    expect(reply).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail token refreshes fast while the OAuth circuit is open', async () => {
+    const reply = vi.fn(() => ({ statusCode: 502, data: 'Bad Gateway' }));
+    mockAgent.get('https://test.auth.norce.tech').intercept({ path: '/token', method: 'POST' }).reply(reply).persist();
+    const tokenProvider = new NorceTokenProvider({
+      clientId: 'client',
+      clientSecret: 'secret',
+      tokenUrl: 'https://test.auth.norce.tech/token',
+      scope: 'scope',
+      circuitBreaker: new CircuitBreaker({ name: 'oauth', failureThreshold: 1, isFailure: isOAuthOutage }),
+    });
+
+    await expect(tokenProvider.getAccessToken('app-1')).rejects.toThrow('502');
+    await expect(tokenProvider.getAccessToken('app-2')).rejects.toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+
+    expect(reply).toHaveBeenCalledTimes(1);
+  });
+
+  it('should register the default breakers for metrics', () => {
+    new NorceMcpClient({ baseUrl: TEST_BASE_URL });
+
+    expect(getCircuitBreakerMetrics()).toContainEqual(expect.objectContaining({ name: 'mcp', state: 'closed' }));
+  });
+
+  it('should end the agent turn when a tool hits an open circuit', async () => {
+    const tool: Tool = {
+      name: 'product_search',
+      description: 'Search products',
+      parameters: z.object({ query: z.string() }),
+      execute: vi.fn().mockRejectedValue(AppError.circuitOpen('mcp', 20000)),
+    };
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'product_search', arguments: { query: 'shoes' } }] },
+        { content: 'Sorry, search is not working.' },
+      ],
+    });
+    const runner = new AgentRunner({ tools: [tool], llmProvider: provider, compaction: false });
+
+    await expect(runner.runAgentTurn('Find shoes', [], { nextRpcId: 1 }, undefined, undefined, undefined, 'app-1'))
+      .rejects.toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+    expect(provider.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../config.js', () => ({
+  config: {
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+  },
+}));
+
+import {
+  compactConversation,
+  splitIntoTurns,
+  buildDeterministicSummary,
+  SUMMARY_PREFIX,
+  MAX_DETERMINISTIC_SUMMARY_CHARS,
+  type CompactionOptions,
+} from '../agent/compaction/index.js';
+import { AgentRunner, type ConversationMessage } from '../agent/agentRunner.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { LlmProvider } from '../llm/llmTypes.js';
+
+const options: CompactionOptions = {
+  triggerTokens: 50,
+  keepRecentTurns: 2,
+  summaryMode: 'deterministic',
+  summaryMaxTokens: 200,
+};
+
+function turn(n: number): ConversationMessage[] {
+  return [
+    { role: 'system', content: `PRODUCT_MEMORY:\n{"lastResults":[{"i":1,"id":"${n}"}]}` },
+    { role: 'user', content: `Question number ${n} about running shoes in size 42` },
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: `call_${n}`, type: 'function', function: { name: 'product_search', arguments: `{"query":"shoes ${n}"}` } }],
+    },
+    { role: 'tool', content: '{"items":[]}', tool_call_id: `call_${n}` },
+    { role: 'assistant', content: `Answer number ${n} with a few suggestions` },
+  ];
+}
+
+function conversationOf(turns: number): ConversationMessage[] {
+  return Array.from({ length: turns }, (_, i) => turn(i + 1)).flat();
+}
+
+describe('compactConversation', () => {
+  it('should drop stale hints but keep all turns when under budget', async () => {
+    const result = await compactConversation(conversationOf(3), { ...options, triggerTokens: 100000 });
+
+    expect(result.droppedHints).toBe(3);
+    expect(result.summarizedTurns).toBe(0);
+    expect(result.messages.some((m) => m.content.startsWith('PRODUCT_MEMORY:'))).toBe(false);
+    expect(result.messages.filter((m) => m.role === 'user')).toHaveLength(3);
+  });
+
+  it('should keep the last N turns verbatim and summarize older turns', async () => {
+    const result = await compactConversation(conversationOf(5), options);
+
+    expect(result.summarizedTurns).toBe(3);
+    expect(result.summarySource).toBe('deterministic');
+    expect(result.messages[0].role).toBe('system');
+    expect(result.messages[0].content).toContain(SUMMARY_PREFIX);
+    expect(result.messages[0].content).toContain('User: Question number 1');
+    expect(result.messages[0].content).toContain('Tools: product_search({"query":"shoes 3"})');
+    expect(result.messages.slice(1)).toEqual([...turn(4), ...turn(5)].filter((m) => m.role !== 'system'));
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it('should fold the previous summary into the rolling summary', async () => {
+    const first = await compactConversation(conversationOf(4), options);
+    const second = await compactConversation([...first.messages, ...turn(5), ...turn(6)], options);
+
+    const summaries = second.messages.filter((m) => m.content.startsWith(SUMMARY_PREFIX));
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].content).toContain('Question number 1');
+    expect(summaries[0].content).toContain('Question number 4');
+    expect(second.messages.filter((m) => m.role === 'user').map((m) => m.content)).toEqual([
+      'Question number 5 about running shoes in size 42',
+      'Question number 6 about running shoes in size 42',
+    ]);
+  });
+
+  it('should use the LLM summary when available', async () => {
+    const summarizer = vi.fn().mockResolvedValue('User wants size 42 running shoes.');
+
+    const result = await compactConversation(conversationOf(4), { ...options, summaryMode: 'llm' }, summarizer);
+
+    expect(summarizer).toHaveBeenCalledWith(undefined, [turn(1), turn(2)].map((t) => t.slice(1)));
+    expect(result.summarySource).toBe('llm');
+    expect(result.messages[0].content).toBe(`${SUMMARY_PREFIX}\nUser wants size 42 running shoes.`);
+  });
+
+  it('should fall back to the deterministic summary when the LLM summary fails', async () => {
+    const summarizer = vi.fn().mockResolvedValue(null);
+
+    const result = await compactConversation(conversationOf(4), { ...options, summaryMode: 'llm' }, summarizer);
+
+    expect(result.summarySource).toBe('deterministic');
+    expect(result.messages[0].content).toContain('User: Question number 1');
+  });
+});
+
+describe('splitIntoTurns', () => {
+  it('should keep tool results with the turn that requested them', () => {
+    const turns = splitIntoTurns(conversationOf(2).filter((m) => m.role !== 'system'));
+
+    expect(turns).toHaveLength(2);
+    expect(turns[0].map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+  });
+});
+
+describe('buildDeterministicSummary', () => {
+  it('should cap the summary by dropping the oldest lines', () => {
+    const summary = buildDeterministicSummary('x'.repeat(MAX_DETERMINISTIC_SUMMARY_CHARS), [turn(1)]);
+
+    expect(summary.length).toBeLessThanOrEqual(MAX_DETERMINISTIC_SUMMARY_CHARS);
+    expect(summary).toContain('Question number 1');
+  });
+});
+
+describe('AgentRunner compaction', () => {
+  it('should compact the conversation in place before the turn', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'Sure!' }] });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: options });
+    const conversation = conversationOf(4);
+
+    const result = await agentRunner.runAgentTurn('And in blue?', conversation, { nextRpcId: 1 });
+
+    expect(result.compaction).toMatchObject({ summarizedTurns: 2, droppedHints: 4, summarySource: 'deterministic' });
+    expect(conversation[0].content).toContain(SUMMARY_PREFIX);
+    expect(conversation.filter((m) => m.role === 'user').map((m) => m.content)).toEqual([
+      'Question number 3 about running shoes in size 42',
+      'Question number 4 about running shoes in size 42',
+      'And in blue?',
+    ]);
+  });
+
+  it('should summarize with the LLM provider in llm mode', async () => {
+    const runWithTools = vi.fn()
+      .mockResolvedValueOnce({ content: 'Earlier: size 42 shoes.', toolCalls: [], finishReason: 'stop' })
+      .mockResolvedValueOnce({ content: 'Sure!', toolCalls: [], finishReason: 'stop' });
+    const provider: LlmProvider = { name: 'fake', runWithTools };
+    const agentRunner = new AgentRunner({
+      tools: [],
+      llmProvider: provider,
+      compaction: { ...options, summaryMode: 'llm' },
+    });
+    const conversation = conversationOf(4);
+
+    await agentRunner.runAgentTurn('And in blue?', conversation, { nextRpcId: 1 });
+
+    expect(runWithTools).toHaveBeenCalledTimes(2);
+    expect(runWithTools.mock.calls[0][0]).toMatchObject({ tools: [], maxTokens: 200 });
+    expect(conversation[0].content).toBe(`${SUMMARY_PREFIX}\nEarlier: size 42 shoes.`);
+  });
+
+  it('should leave the conversation untouched when compaction is disabled', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'Sure!' }] });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+    const conversation = conversationOf(4);
+
+    const result = await agentRunner.runAgentTurn('And in blue?', conversation, { nextRpcId: 1 });
+
+    expect(result.compaction).toBeUndefined();
+    expect(conversation.slice(0, 20)).toEqual(conversationOf(4));
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../config.js', () => ({
+  config: {
+    norce: {
+      mcp: {
+        statusSeed: '',
+      },
+    },
+    debug: false,
+  },
+}));
+
+import {
+  jsonSchemaToZod,
+  createDynamicTools,
+  registerDynamicTools,
+  isMcpToolAllowed,
+} from '../agent/mcpTools/index.js';
+import { ToolRegistry, toolRequiresConfirmation } from '../agent/toolRegistry.js';
+import type { ToolHandlerDependencies } from '../agent/toolHandlers.js';
+import type { McpToolDefinition } from '../norce/NorceMcpClient.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+const STORE_FIND: McpToolDefinition = {
+  name: 'store.find',
+  title: 'Find stores',
+  description: 'Find stores near a city.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      city: { type: 'string', description: 'City name' },
+      radiusKm: { type: 'integer', minimum: 1 },
+      services: { type: 'array', items: { type: 'string', enum: ['pickup', 'returns'] } },
+      context: {
+        type: 'object',
+        properties: { cultureCode: { type: 'string' } },
+      },
+    },
+    required: ['city', 'context'],
+  },
+  annotations: { readOnlyHint: true },
+};
+
+const GIFT_CARD_REDEEM: McpToolDefinition = {
+  name: 'giftCard.redeem',
+  inputSchema: {
+    type: 'object',
+    properties: { code: { type: 'string' } },
+    required: ['code'],
+  },
+};
+
+function createMockDependencies(tools: McpToolDefinition[]) {
+  const tokenProvider = {
+    getAccessToken: vi.fn().mockResolvedValue('test-access-token'),
+  };
+  const mcpClient = {
+    listTools: vi.fn().mockResolvedValue({ tools }),
+    callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: '{"stores":["Malmö"]}' }] }),
+  };
+  return {
+    tokenProvider,
+    mcpClient,
+    asDeps: () => ({ tokenProvider, mcpClient }) as unknown as ToolHandlerDependencies,
+  };
+}
+
+function createMcpState(): McpState {
+  return { sessionId: undefined, nextRpcId: 1 };
+}
+
+describe('jsonSchemaToZod', () => {
+  it('should convert objects, required properties, enums and bounds', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1 },
+        page: { type: 'integer', minimum: 1 },
+        sort: { enum: ['price', 'name'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['query'],
+    });
+
+    expect(schema.parse({ query: 'boots', page: 2, sort: 'price', tags: ['a'], note: null })).toEqual({
+      query: 'boots', page: 2, sort: 'price', tags: ['a'], note: null,
+    });
+    expect(schema.safeParse({ page: 1 }).success).toBe(false);
+    expect(schema.safeParse({ query: 'boots', page: 1.5 }).success).toBe(false);
+    expect(schema.safeParse({ query: 'boots', sort: 'rating' }).success).toBe(false);
+    expect(schema.safeParse({ query: 'boots', tags: ['a', 'b', 'c'] }).success).toBe(false);
+  });
+
+  it('should fall back to unknown for unsupported constructs', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: { filter: { $ref: '#/definitions/Filter' } },
+    });
+
+    expect(schema.parse({ filter: { any: 'thing' } })).toEqual({ filter: { any: 'thing' } });
+    expect(() => z.toJSONSchema(schema)).not.toThrow();
+  });
+});
+
+describe('isMcpToolAllowed', () => {
+  it('should apply prefix patterns and let deny win over allow', () => {
+    const options = { allow: ['store.*', 'giftCard.redeem'], deny: ['store.delete'] };
+
+    expect(isMcpToolAllowed('store.find', options)).toBe(true);
+    expect(isMcpToolAllowed('giftCard.redeem', options)).toBe(true);
+    expect(isMcpToolAllowed('store.delete', options)).toBe(false);
+    expect(isMcpToolAllowed('customer.get', options)).toBe(false);
+    expect(isMcpToolAllowed('customer.get', {})).toBe(true);
+  });
+});
+
+describe('createDynamicTools', () => {
+  it('should skip hand-written tools and hide the caller-owned context from the LLM', () => {
+    const mocks = createMockDependencies([]);
+    const tools = createDynamicTools(
+      [{ name: 'product.search', inputSchema: { type: 'object' } }, STORE_FIND, GIFT_CARD_REDEEM],
+      mocks.asDeps()
+    );
+
+    expect(tools.map((tool) => tool.name)).toEqual(['store_find', 'giftCard_redeem']);
+    const storeFind = tools[0];
+    const jsonSchema = z.toJSONSchema(storeFind.parameters) as { properties: Record<string, unknown>; required: string[] };
+    expect(Object.keys(jsonSchema.properties)).toEqual(['city', 'radiusKm', 'services']);
+    expect(jsonSchema.required).toEqual(['city']);
+    expect(storeFind.displayName).toBe('Find stores');
+    expect(toolRequiresConfirmation(storeFind)).toBe(false);
+    expect(toolRequiresConfirmation(tools[1])).toBe(true);
+  });
+
+  it('should inject the caller context and unwrap JSON text results', async () => {
+    const mocks = createMockDependencies([]);
+    const [storeFind, giftCardRedeem] = createDynamicTools([STORE_FIND, GIFT_CARD_REDEEM], mocks.asDeps());
+
+    const result = await storeFind.execute(
+      { city: 'Malmö', context: { cultureCode: 'en-US' } },
+      createMcpState(),
+      { cultureCode: 'sv-SE' },
+      'app-1'
+    );
+    await giftCardRedeem.execute({ code: 'ABC' }, createMcpState(), { cultureCode: 'sv-SE' }, 'app-1');
+
+    expect(mocks.mcpClient.callTool.mock.calls[0].slice(1)).toEqual([
+      'store.find', { city: 'Malmö', context: { cultureCode: 'sv-SE' } }, 'test-access-token', 'app-1',
+    ]);
+    expect(mocks.mcpClient.callTool.mock.calls[1][2]).toEqual({ code: 'ABC' });
+    expect(result).toMatchObject({
+      result: { stores: ['Malmö'] },
+      contextInjection: { modelContextIgnored: true, effectiveContext: { cultureCode: 'sv-SE' } },
+    });
+  });
+
+  it('should surface MCP isError results as tool failures', async () => {
+    const mocks = createMockDependencies([]);
+    mocks.mcpClient.callTool.mockResolvedValue({ isError: true, content: [{ type: 'text', text: 'Unknown store' }] });
+    const [storeFind] = createDynamicTools([STORE_FIND], mocks.asDeps());
+
+    await expect(storeFind.execute({ city: 'X' }, createMcpState(), undefined, 'app-1'))
+      .rejects.toThrow('MCP tool store.find failed: Unknown store');
+  });
+});
+
+describe('registerDynamicTools', () => {
+  it('should register allowed tools next to existing tools without replacing them', async () => {
+    const mocks = createMockDependencies([STORE_FIND, GIFT_CARD_REDEEM]);
+    const registry = new ToolRegistry().register({
+      name: 'store_find',
+      description: 'Host implementation',
+      parameters: z.object({}),
+      handler: async () => ({}),
+      displayName: 'Stores',
+    });
+
+    const registered = await registerDynamicTools(registry, mocks.asDeps(), 'app-1', { deny: ['giftCard.*'] });
+
+    expect(registered).toEqual([]);
+    expect(registry.getTools().map((tool) => tool.description)).toEqual(['Host implementation']);
+    expect(mocks.mcpClient.listTools).toHaveBeenCalledWith(expect.anything(), 'test-access-token', 'app-1');
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    llm: {
+      provider: 'openai',
+      baseUrl: undefined,
+      apiKey: undefined,
+      modelOverrides: { 'premium-app': 'gpt-4o' },
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    timeouts: {
+      openaiMs: 120000,
+      openaiStreamMs: 300000,
+    },
+    openaiRetry: {
+      maxRetries: 2,
+      streamMaxRetries: 0,
+    },
+    debug: false,
+  },
+}));
+
+import { AgentRunner, ConversationMessage } from '../agent/agentRunner.js';
+import { Tool } from '../agent/tools.js';
+import {
+  ScriptedLlmProvider,
+  OpenAiCompatibleProvider,
+  createLlmProvider,
+  resolveModelForApplication,
+} from '../llm/index.js';
+import { OpenAiClient } from '../openai/OpenAiClient.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+function createMockTool(name: string, executeResult: unknown = { success: true }): Tool {
+  return {
+    name,
+    description: `Mock tool: ${name}`,
+    parameters: z.object({
+      query: z.string().optional(),
+      context: z.object({}).passthrough().optional(),
+    }),
+    execute: vi.fn().mockResolvedValue(executeResult),
+  };
+}
+
+function createMcpState(): McpState {
+  return { sessionId: undefined, nextRpcId: 1 };
+}
+
+describe('ScriptedLlmProvider', () => {
+  it('should replay steps in order and serialize tool call arguments', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'product_search', arguments: { query: 'shoes' } }] },
+        { content: 'Here are some shoes.' },
+      ],
+    });
+
+    const first = await provider.runWithTools({ input: [{ role: 'user', content: 'shoes' }] });
+    expect(first.toolCalls).toEqual([
+      { id: 'call_scripted_1_1_0', name: 'product_search', arguments: '{"query":"shoes"}' },
+    ]);
+    expect(first.finishReason).toBe('tool_calls');
+
+    const second = await provider.runWithTools({ input: [] });
+    expect(second.content).toBe('Here are some shoes.');
+    expect(second.finishReason).toBe('stop');
+    expect(provider.remaining()).toBe(0);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('should stream final content in chunks through onDelta', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [{ content: 'abcdefghij' }],
+      deltaChunkSize: 4,
+    });
+    const deltas: string[] = [];
+
+    const response = await provider.runWithTools({
+      input: [],
+      onDelta: (text) => deltas.push(text),
+    });
+
+    expect(deltas).toEqual(['abcd', 'efgh', 'ij']);
+    expect(response.streamed).toBe(true);
+  });
+
+  it('should throw when the script is exhausted', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [] });
+
+    await expect(provider.runWithTools({ input: [] })).rejects.toThrow(/exhausted/);
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('should create OpenAiClient by default', () => {
+    const provider = createLlmProvider();
+    expect(provider).toBeInstanceOf(OpenAiClient);
+    expect(provider.name).toBe('openai');
+  });
+
+  it('should create OpenAiCompatibleProvider with a base URL', () => {
+    const provider = createLlmProvider({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+    });
+    expect(provider).toBeInstanceOf(OpenAiCompatibleProvider);
+    expect(provider.name).toBe('openai-compatible');
+  });
+
+  it('should throw when openai-compatible has no base URL', () => {
+    expect(() => createLlmProvider({ provider: 'openai-compatible' })).toThrow(/LLM_BASE_URL/);
+  });
+
+  it('should create ScriptedLlmProvider for offline use', () => {
+    expect(createLlmProvider({ provider: 'scripted' })).toBeInstanceOf(ScriptedLlmProvider);
+  });
+});
+
+describe('resolveModelForApplication', () => {
+  it('should use per-application override when configured', () => {
+    expect(resolveModelForApplication('premium-app', 'gpt-4o-mini')).toBe('gpt-4o');
+  });
+
+  it('should fall back to default model', () => {
+    expect(resolveModelForApplication('other-app', 'gpt-4o-mini')).toBe('gpt-4o-mini');
+    expect(resolveModelForApplication(undefined, 'gpt-4o-mini')).toBe('gpt-4o-mini');
+  });
+});
+
+describe('AgentRunner with LlmProvider', () => {
+  let mcpState: McpState;
+
+  beforeEach(() => {
+    mcpState = createMcpState();
+  });
+
+  it('should run a full tool round offline with the scripted provider', async () => {
+    const searchTool = createMockTool('product_search', { items: [], totalCount: 0 });
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'product_search', arguments: { query: 'laptops' } }] },
+        { content: 'No laptops found.' },
+      ],
+    });
+    const runner = new AgentRunner({ tools: [searchTool], llmProvider: provider });
+
+    const conversation: ConversationMessage[] = [];
+    const result = await runner.runAgentTurn('Find laptops', conversation, mcpState, undefined, undefined, undefined, 'premium-app');
+
+    expect(result.message).toBe('No laptops found.');
+    expect(result.toolTrace).toHaveLength(1);
+    expect(searchTool.execute).toHaveBeenCalledTimes(1);
+    expect(provider.calls[0].model).toBe('gpt-4o');
+    // Second round sees the tool result
+    expect(provider.calls[1].input.some((m) => m.role === 'tool')).toBe(true);
+  });
+
+  it('should emit the final answer once without asking the provider to stream', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [{ content: 'Hello there, shopper!' }],
+      deltaChunkSize: 8,
+    });
+    const runner = new AgentRunner({ tools: [], llmProvider: provider });
+    const onDelta = vi.fn();
+
+    await runner.runAgentTurn('Hi', [], mcpState, undefined, { onDelta });
+
+    expect(provider.calls[0].onDelta).toBeUndefined();
+    expect(onDelta).toHaveBeenCalledTimes(1);
+    expect(onDelta).toHaveBeenCalledWith('Hello there, shopper!');
+  });
+
+  it('should not emit content from rounds that request tool calls', async () => {
+    const searchTool = createMockTool('product_search', { items: [], totalCount: 0 });
+    const streamedRound = async (options: { onDelta?: (text: string) => void }, content: string, toolCalls: unknown[]) => {
+      options.onDelta?.(content);
+      return { content, toolCalls, finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop', streamed: true };
+    };
+    const provider = {
+      name: 'custom',
+      runWithTools: vi.fn()
+        .mockImplementationOnce((options) => streamedRound(options, 'Let me search for that.', [
+          { id: 'call_1', name: 'product_search', arguments: '{"query":"laptops"}' },
+        ]))
+        .mockImplementationOnce((options) => streamedRound(options, 'No laptops found.', [])),
+    };
+    const runner = new AgentRunner({ tools: [searchTool], llmProvider: provider });
+    const onDelta = vi.fn();
+
+    await runner.runAgentTurn('Find laptops', [], mcpState, undefined, { onDelta });
+
+    expect(searchTool.execute).toHaveBeenCalledTimes(1);
+    expect(onDelta).toHaveBeenCalledTimes(1);
+    expect(onDelta).toHaveBeenCalledWith('No laptops found.');
+  });
+
+  it('should emit full content once when the provider did not stream', async () => {
+    const provider = {
+      name: 'custom',
+      runWithTools: vi.fn().mockResolvedValue({ content: 'Done', toolCalls: [], finishReason: 'stop' }),
+    };
+    const runner = new AgentRunner({ tools: [], llmProvider: provider });
+    const onDelta = vi.fn();
+
+    await runner.runAgentTurn('Hi', [], mcpState, undefined, { onDelta });
+
+    expect(onDelta).toHaveBeenCalledTimes(1);
+    expect(onDelta).toHaveBeenCalledWith('Done');
+  });
+});
@@ -39,6 +39,7 @@ vi.mock('../config.js', () => ({
 
 import { AppError, mapError, sanitizeForLogging } from '../errors/index.js';
 import { MalformedToolArgsError } from '../agent/agentRunner.js';
+import { SessionVersionConflictError } from '../session/SessionVersionConflictError.js';
 
 describe('mapError', () => {
   describe('AppError passthrough', () => {
@@ -100,6 +101,16 @@ describe('mapError', () => {
     });
   });
 
+  describe('SessionVersionConflictError', () => {
+    it('should map SessionVersionConflictError to SESSION_BUSY', () => {
+      const result = mapError(new SessionVersionConflictError('demo:s1', 3, 4));
+      expect(result.category).toBe('POLICY');
+      expect(result.code).toBe('SESSION_BUSY');
+      expect(result.httpStatus).toBe(409);
+      expect(result.details).toEqual({ reason: 'version_conflict', expectedVersion: 3, actualVersion: 4 });
+    });
+  });
+
   describe('OpenAI errors', () => {
     it('should map RateLimitError to OPENAI_RATE_LIMIT', () => {
       const error = new Error('Rate limit exceeded');
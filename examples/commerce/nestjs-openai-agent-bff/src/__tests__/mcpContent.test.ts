@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import {
+  createMcpPromptSource,
+  createStoreReferenceTool,
+  promptMessagesToText,
+  type StoreReferenceResult,
+} from '../agent/mcpContent/index.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { ToolHandlerDependencies } from '../agent/toolHandlers.js';
+import type { McpResource } from '../norce/NorceMcpClient.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+const RESOURCES: McpResource[] = [
+  { uri: 'store://policies/returns', name: 'returns', title: 'Return policy', description: '30 day returns' },
+  { uri: 'store://policies/shipping', name: 'shipping', title: 'Shipping and delivery' },
+  { uri: 'store://policies/warranty', name: 'warranty', title: 'Warranty terms' },
+];
+
+function createMockDependencies() {
+  const tokenProvider = {
+    getAccessToken: vi.fn().mockResolvedValue('test-access-token'),
+  };
+  const mcpClient = {
+    getPrompt: vi.fn().mockResolvedValue({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Always answer in a friendly tone.' } }],
+    }),
+    listResources: vi.fn().mockResolvedValue({ resources: RESOURCES }),
+    readResource: vi.fn().mockImplementation((_state: McpState, uri: string) => Promise.resolve({
+      contents: [{ uri, mimeType: 'text/plain', text: `Contents of ${uri}` }],
+    })),
+  };
+  return {
+    tokenProvider,
+    mcpClient,
+    asDeps: () => ({ tokenProvider, mcpClient }) as unknown as ToolHandlerDependencies,
+  };
+}
+
+describe('createMcpPromptSource', () => {
+  it('should load the configured prompts once per application', async () => {
+    const mocks = createMockDependencies();
+    const source = createMcpPromptSource(mocks.asDeps(), { promptNames: ['store-tone'], cacheTtlMs: 60000 });
+    const mcpState: McpState = { nextRpcId: 1, serverCapabilities: { prompts: {} } };
+
+    const first = await source(mcpState, 'app-1');
+    const second = await source(mcpState, 'app-1');
+
+    expect(first).toContain('STORE INSTRUCTIONS');
+    expect(first).toContain('Always answer in a friendly tone.');
+    expect(second).toBe(first);
+    expect(mocks.mcpClient.getPrompt).toHaveBeenCalledTimes(1);
+    expect(mocks.mcpClient.getPrompt).toHaveBeenCalledWith(mcpState, 'store-tone', {}, 'test-access-token', 'app-1');
+  });
+
+  it('should skip servers without the prompts capability and retry failed loads', async () => {
+    const mocks = createMockDependencies();
+    const source = createMcpPromptSource(mocks.asDeps(), { promptNames: ['store-tone'], cacheTtlMs: 60000 });
+
+    expect(await source({ nextRpcId: 1, serverCapabilities: { tools: {} } }, 'app-1')).toBeUndefined();
+    expect(mocks.mcpClient.getPrompt).not.toHaveBeenCalled();
+
+    mocks.mcpClient.getPrompt.mockRejectedValueOnce(new Error('MCP prompts/get failed'));
+    const mcpState: McpState = { nextRpcId: 1 };
+    expect(await source(mcpState, 'app-1')).toBeUndefined();
+    expect(await source(mcpState, 'app-1')).toContain('friendly tone');
+    expect(mocks.mcpClient.getPrompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should extract text and embedded text resources from prompt messages', () => {
+    const text = promptMessagesToText({
+      messages: [
+        { role: 'user', content: { type: 'text', text: ' First ' } },
+        { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+        { role: 'assistant', content: { type: 'resource', resource: { uri: 'store://tone', text: 'Second' } } },
+      ],
+    });
+
+    expect(text).toBe('First\n\nSecond');
+  });
+});
+
+describe('createStoreReferenceTool', () => {
+  const mcpState: McpState = { nextRpcId: 1 };
+
+  it('should read the documents matching the query', async () => {
+    const mocks = createMockDependencies();
+    const tool = createStoreReferenceTool(mocks.asDeps(), { cacheTtlMs: 60000 });
+
+    const result = await tool.execute({ query: 'what is your return policy?' }, mcpState, undefined, 'app-1') as StoreReferenceResult;
+
+    expect(result.documents).toEqual([{
+      uri: 'store://policies/returns',
+      title: 'Return policy',
+      text: 'Contents of store://policies/returns',
+      truncated: false,
+    }]);
+    expect(result.available).toBeUndefined();
+    expect(tool.requiredCapabilities).toEqual(['resources']);
+  });
+
+  it('should list available documents when nothing matches and cache the list', async () => {
+    const mocks = createMockDependencies();
+    const tool = createStoreReferenceTool(mocks.asDeps(), { cacheTtlMs: 60000 });
+
+    const result = await tool.execute({ query: 'gift cards' }, mcpState, undefined, 'app-1') as StoreReferenceResult;
+    await tool.execute({}, mcpState, undefined, 'app-1');
+
+    expect(result.documents).toEqual([]);
+    expect(result.available?.map((doc) => doc.title)).toEqual(['Return policy', 'Shipping and delivery', 'Warranty terms']);
+    expect(mocks.mcpClient.listResources).toHaveBeenCalledTimes(1);
+    expect(mocks.mcpClient.readResource).not.toHaveBeenCalled();
+  });
+
+  it('should only read listed URIs', async () => {
+    const mocks = createMockDependencies();
+    const tool = createStoreReferenceTool(mocks.asDeps(), { cacheTtlMs: 60000 });
+
+    const result = await tool.execute({ uri: 'store://policies/warranty' }, mcpState, undefined, 'app-1') as StoreReferenceResult;
+
+    expect(result.documents[0]?.title).toBe('Warranty terms');
+    await expect(tool.execute({ uri: 'file:///etc/passwd' }, mcpState, undefined, 'app-1'))
+      .rejects.toThrow('Unknown document: file:///etc/passwd');
+    expect(mocks.mcpClient.readResource).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentRunner systemPromptSource', () => {
+  it('should append the tenant instructions to the system prompt', async () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'Hello!' }] });
+    const systemPromptSource = vi.fn().mockResolvedValue('STORE INSTRUCTIONS: be brief.');
+    const runner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false, systemPromptSource });
+    const mcpState: McpState = { nextRpcId: 1 };
+
+    await runner.runAgentTurn('Hej', [], mcpState, undefined, undefined, undefined, 'app-1');
+
+    const systemMessage = provider.calls[0]?.input[0];
+    expect(systemMessage?.role).toBe('system');
+    expect(systemMessage?.content).toMatch(/\n\nSTORE INSTRUCTIONS: be brief\.$/);
+    expect(systemPromptSource).toHaveBeenCalledWith(mcpState, 'app-1');
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+
+vi.mock('../config.js', () => ({
+  config: {
+    norce: {
+      mcp: {
+        statusSeed: '',
+      },
+    },
+    timeouts: {
+      oauthMs: 5000,
+      mcpCallMs: 5000,
+    },
+    retry: {
+      maxAttempts: 0,
+      baseDelayMs: 1,
+      jitterMs: 0,
+    },
+    debug: false,
+  },
+}));
+
+import { MockMcpServer, MOCK_MCP_PATH } from '../mock/mcp/index.js';
+import { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import { collectMcpSessionRecoveries, type McpSessionRecovery } from '../norce/mcpSessionRecovery.js';
+import { listenForMcpNotifications } from '../norce/mcpNotifications.js';
+import { mcpServerSupports } from '../norce/mcpCapabilities.js';
+import { NorceTokenProvider } from '../norce/NorceTokenProvider.js';
+import { createProductSearchHandler, createProductGetHandler, createGetProductsBatch } from '../agent/toolHandlers.js';
+import {
+  createCartAddItemHandler,
+  createCartGetHandler,
+  createCartSetItemQuantityHandler,
+  createCartRemoveItemHandler,
+} from '../agent/cart/cartHandlers.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+const APP_ID = 'mock-app';
+
+function createMcpState(): McpState {
+  return { sessionId: undefined, nextRpcId: 1 };
+}
+
+describe.each([
+  { mode: 'json', sse: false },
+  { mode: 'sse', sse: true },
+])('MockMcpServer ($mode responses)', ({ sse }) => {
+  let server: MockMcpServer;
+  let mcpClient: NorceMcpClient;
+  let tokenProvider: NorceTokenProvider;
+
+  beforeAll(async () => {
+    server = new MockMcpServer({ sse });
+    await server.start();
+    mcpClient = new NorceMcpClient({ baseUrl: server.baseUrl });
+    tokenProvider = new NorceTokenProvider({
+      clientId: 'mock',
+      clientSecret: 'mock',
+      tokenUrl: server.tokenUrl,
+      scope: 'mock',
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should initialize a session and list the six tools', async () => {
+    const state = createMcpState();
+    const token = await tokenProvider.getAccessToken(APP_ID);
+
+    const result = await mcpClient.listTools(state, token, APP_ID);
+
+    expect(state.sessionId).toBeDefined();
+    expect(server.sessionCount).toBe(1);
+    expect(result.tools.map((t) => t.name)).toEqual([
+      'product.search',
+      'product.get',
+      'cart.get',
+      'cart.addItem',
+      'cart.setItemQuantity',
+      'cart.removeItem',
+    ]);
+  });
+
+  it('should serve product search results the BFF normalizes into cards', async () => {
+    const search = createProductSearchHandler({ tokenProvider, mcpClient });
+
+    const result = await search({ query: 'running shoes' }, createMcpState(), { cultureCode: 'sv-SE' }, APP_ID);
+
+    expect(result.items.length).toBe(2);
+    expect(result.cards.map((c) => c.title)).toContain('Trail Runner 2');
+    const trailRunner = result.items.find((i) => i.name === 'Trail Runner 2');
+    expect(trailRunner?.availability?.status).toBe('in_stock');
+  });
+
+  it('should stream search progress in SSE mode', async () => {
+    const state = createMcpState();
+    const token = await tokenProvider.getAccessToken(APP_ID);
+    const progress: number[] = [];
+    const logLevels: string[] = [];
+
+    await listenForMcpNotifications(
+      { onProgress: (n) => progress.push(n.progress), onLog: (n) => logLevels.push(n.level) },
+      () => mcpClient.callTool(state, 'product.search', { query: 'shoes' }, token, APP_ID)
+    );
+
+    expect(progress).toEqual(sse ? [1, 2] : []);
+    expect(logLevels).toEqual(sse ? ['info'] : []);
+    expect(mcpServerSupports(state, 'logging')).toBe(true);
+  });
+
+  it('should share one session initialization across concurrent tool calls', async () => {
+    const get = createProductGetHandler({ tokenProvider, mcpClient });
+    const state = createMcpState();
+
+    const results = await Promise.all(['1020', '1001'].map((productId) => get({ productId }, state, undefined, APP_ID)));
+
+    expect(results.every((result) => result.card)).toBe(true);
+    expect(server.sessionCount).toBe(1);
+  });
+
+  it('should serve product details with variants and onHand', async () => {
+    const get = createProductGetHandler({ tokenProvider, mcpClient });
+
+    const result = await get({ productId: '1020' }, createMcpState(), undefined, APP_ID);
+
+    expect(result.card?.title).toBe('Bear Slippers');
+    expect(result.normalized?.variants).toHaveLength(2);
+    expect(result.variantSummary).not.toBeNull();
+  });
+
+  it('should fetch several products in one batch and isolate unknown products', async () => {
+    const getProductsBatch = createGetProductsBatch({ tokenProvider, mcpClient });
+
+    const items = await getProductsBatch(['1020', '999999', '1001'], createMcpState(), undefined, APP_ID);
+
+    expect(items.map((item) => [item.productId, item.ok])).toEqual([['1020', true], ['999999', false], ['1001', true]]);
+    expect(items[0].ok && items[0].result.variantSummary).toBeTruthy();
+  });
+
+  it('should run a full cart lifecycle across handlers', async () => {
+    const deps = { tokenProvider, mcpClient };
+    const state = createMcpState();
+
+    const added = await createCartAddItemHandler(deps)({ partNo: 'RS-100-42', quantity: 1 }, state, undefined, APP_ID);
+    const basketId = added.cart.basketId;
+    expect(basketId).toBeDefined();
+    expect(added.cart.items[0]).toMatchObject({ partNo: 'RS-100-42', quantity: 1 });
+
+    const context = { basketId };
+    await createCartAddItemHandler(deps)({ partNo: 'HP-500', quantity: 1 }, state, context, APP_ID);
+    await createCartSetItemQuantityHandler(deps)({ productId: 'RS-100-42', quantity: 3 }, state, context, APP_ID);
+    await createCartRemoveItemHandler(deps)({ productId: 'HP-500' }, state, context, APP_ID);
+
+    const cart = await createCartGetHandler(deps)({}, state, context, APP_ID);
+    expect(cart.cart.items).toHaveLength(1);
+    expect(cart.cart.items[0]).toMatchObject({ partNo: 'RS-100-42', quantity: 3 });
+    expect(cart.cart.subtotal).toBe('2697');
+  });
+
+  it('should reject adding an inactive variant with a tool error', async () => {
+    const add = createCartAddItemHandler({ tokenProvider, mcpClient });
+
+    await expect(
+      add({ partNo: 'RS-200-42', quantity: 1 }, createMcpState(), undefined, APP_ID)
+    ).rejects.toThrow(/MCP tool call failed: Item RS-200-42 is not buyable/);
+  });
+
+  it('should re-initialize after the server expires the session', async () => {
+    const state = createMcpState();
+    const token = await tokenProvider.getAccessToken(APP_ID);
+    await mcpClient.listTools(state, token, APP_ID);
+    const expiredSessionId = state.sessionId!;
+
+    server.expireSession(expiredSessionId);
+
+    const recoveries: McpSessionRecovery[] = [];
+    const result = await collectMcpSessionRecoveries(recoveries, () => mcpClient.listTools(state, token, APP_ID));
+
+    expect(result.tools.length).toBeGreaterThan(0);
+    expect(state.sessionId).toBeDefined();
+    expect(state.sessionId).not.toBe(expiredSessionId);
+    expect(recoveries).toEqual([{ method: 'tools/list', reason: 'http_404', replayOk: true }]);
+  });
+});
+
+describe('MockMcpServer session semantics', () => {
+  let server: MockMcpServer;
+
+  beforeAll(async () => {
+    server = new MockMcpServer();
+  });
+
+  afterAll(async () => {
+    await server.fastify.close();
+  });
+
+  const headers = { authorization: 'Bearer t', 'application-id': APP_ID };
+
+  it('should require mcp-session-id for non-initialize requests', async () => {
+    const response = await server.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers,
+      payload: { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should reject JSON-RPC batches when batching is disabled', async () => {
+    const noBatchServer = new MockMcpServer({ batch: false });
+
+    const response = await noBatchServer.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers,
+      payload: [{ jsonrpc: '2.0', id: 1, method: 'tools/list' }],
+    });
+    await noBatchServer.fastify.close();
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe(-32600);
+  });
+
+  it('should reject sessions used with another application-id', async () => {
+    const init = await server.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers,
+      payload: { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    });
+    const sessionId = init.headers['mcp-session-id'] as string;
+
+    const response = await server.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers: { ...headers, 'application-id': 'other-app', 'mcp-session-id': sessionId },
+      payload: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should terminate a session on DELETE', async () => {
+    const init = await server.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers,
+      payload: { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    });
+    const sessionId = init.headers['mcp-session-id'] as string;
+
+    const del = await server.fastify.inject({
+      method: 'DELETE',
+      url: MOCK_MCP_PATH,
+      headers: { 'mcp-session-id': sessionId },
+    });
+
+    expect(del.statusCode).toBe(200);
+    expect(server.sessionCount).toBe(0);
+  });
+
+  it('should require a bearer token', async () => {
+    const response = await server.fastify.inject({
+      method: 'POST',
+      url: MOCK_MCP_PATH,
+      headers: { 'application-id': APP_ID },
+      payload: { jsonrpc: '2.0', id: 1, method: 'initialize' },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
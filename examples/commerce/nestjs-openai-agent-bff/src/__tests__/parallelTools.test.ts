@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../config.js', () => ({
+  config: {
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    agent: {
+      maxRounds: 4,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+  },
+}));
+
+import { runBounded, isReadOnlyTool } from '../agent/parallelTools.js';
+import { AgentRunner, type StreamingCallbacks } from '../agent/agentRunner.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { Tool } from '../agent/tools.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+interface Deferred {
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+function deferred(): Deferred {
+  let resolve!: (value: unknown) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<unknown>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Tool whose executions stay pending until the test settles them.
+ */
+function createControlledTool(name: string, log: string[]): Tool & { pending: Map<string, Deferred> } {
+  const pending = new Map<string, Deferred>();
+  return {
+    name,
+    description: name,
+    parameters: z.object({ id: z.string() }),
+    pending,
+    execute: (params) => {
+      const { id } = params as { id: string };
+      log.push(`start:${name}:${id}`);
+      const d = deferred();
+      pending.set(id, d);
+      return d.promise;
+    },
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function createMcpState(): McpState {
+  return { sessionId: undefined, nextRpcId: 1 };
+}
+
+describe('runBounded', () => {
+  it('should never run more than the limit and start tasks in order', async () => {
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = runBounded(gates.map((gate, i) => async () => {
+      started.push(i);
+      return gate.promise;
+    }), 2);
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    gates[1].resolve('b');
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[0].reject(new Error('boom'));
+    gates[2].resolve('c');
+    gates[3].resolve('d');
+
+    await expect(results[0]).rejects.toThrow('boom');
+    expect(await Promise.all(results.slice(1))).toEqual(['b', 'c', 'd']);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('isReadOnlyTool', () => {
+  it('should only treat product and cart reads as read-only', () => {
+    expect(['product_search', 'product_get', 'cart_get'].every(isReadOnlyTool)).toBe(true);
+    expect(isReadOnlyTool('cart_add_item')).toBe(false);
+    expect(isReadOnlyTool('cart_remove_item')).toBe(false);
+  });
+});
+
+describe('AgentRunner parallel tool execution', () => {
+  function createRunner(tools: Tool[], toolCalls: Array<{ name: string; id: string }>, maxParallelTools?: number) {
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: toolCalls.map((call) => ({ name: call.name, arguments: { id: call.id } })) },
+        { content: 'Done.' },
+      ],
+    });
+    return new AgentRunner({ tools, llmProvider: provider, compaction: false, maxParallelTools });
+  }
+
+  it('should run read-only tools concurrently and report them in request order', async () => {
+    const log: string[] = [];
+    const productGet = createControlledTool('product_get', log);
+    const runner = createRunner([productGet], [
+      { name: 'product_get', id: 'a' },
+      { name: 'product_get', id: 'b' },
+      { name: 'product_get', id: 'c' },
+    ]);
+    const callbacks: StreamingCallbacks = {
+      onToolStart: (_tool, _displayName, args) => log.push(`tool_start:${(args as { id: string }).id}`),
+      onToolEnd: (_tool, _displayName, ok) => log.push(`tool_end:${ok}`),
+    };
+    const conversation: Parameters<AgentRunner['runAgentTurn']>[1] = [];
+
+    const turn = runner.runAgentTurn('Compare a, b and c', conversation, createMcpState(), undefined, callbacks);
+    await flush();
+
+    // All three are in flight before any of them finishes
+    expect(log.filter((entry) => entry.startsWith('start:'))).toHaveLength(3);
+
+    productGet.pending.get('c')!.resolve({ id: 'c' });
+    productGet.pending.get('b')!.reject(new Error('b failed'));
+    await flush();
+    expect(log.filter((entry) => entry.startsWith('tool_end'))).toHaveLength(0);
+    productGet.pending.get('a')!.resolve({ id: 'a' });
+
+    const result = await turn;
+
+    expect(result.toolTrace.map((entry) => entry.args.id)).toEqual(['a', 'b', 'c']);
+    expect(result.toolTrace[1].error).toBe('b failed');
+    expect(log.filter((entry) => entry.startsWith('tool_'))).toEqual([
+      'tool_start:a', 'tool_start:b', 'tool_start:c', 'tool_end:true', 'tool_end:false', 'tool_end:true',
+    ]);
+    expect(conversation.filter((m) => m.role === 'tool').map((m) => m.content)).toEqual([
+      JSON.stringify({ id: 'a' }),
+      JSON.stringify({ error: 'b failed' }),
+      JSON.stringify({ id: 'c' }),
+    ]);
+  });
+
+  it('should not start a read-only tool ahead of a preceding non-read-only tool', async () => {
+    const log: string[] = [];
+    const productGet = createControlledTool('product_get', log);
+    const storeLookup = createControlledTool('store_lookup', log);
+    const runner = createRunner([productGet, storeLookup], [
+      { name: 'product_get', id: 'a' },
+      { name: 'store_lookup', id: 'x' },
+      { name: 'product_get', id: 'b' },
+    ]);
+
+    const turn = runner.runAgentTurn('Find a, then x, then b', [], createMcpState());
+    await flush();
+    expect(log).toEqual(['start:product_get:a']);
+
+    productGet.pending.get('a')!.resolve({});
+    await flush();
+    expect(log).toEqual(['start:product_get:a', 'start:store_lookup:x']);
+
+    storeLookup.pending.get('x')!.resolve({});
+    await flush();
+    productGet.pending.get('b')!.resolve({});
+
+    const result = await turn;
+    expect(result.toolTrace.map((entry) => entry.tool)).toEqual(['product_get', 'store_lookup', 'product_get']);
+  });
+
+  it('should run read-only tools one at a time when maxParallelTools is 1', async () => {
+    const log: string[] = [];
+    const productSearch = createControlledTool('product_search', log);
+    const runner = createRunner([productSearch], [
+      { name: 'product_search', id: 'boots' },
+      { name: 'product_search', id: 'socks' },
+    ], 1);
+
+    const turn = runner.runAgentTurn('Boots and socks', [], createMcpState());
+    await flush();
+    expect(log).toEqual(['start:product_search:boots']);
+
+    productSearch.pending.get('boots')!.resolve({ items: [] });
+    await flush();
+    expect(log).toEqual(['start:product_search:boots', 'start:product_search:socks']);
+    productSearch.pending.get('socks')!.resolve({ items: [] });
+
+    await expect(turn).resolves.toMatchObject({ message: 'Done.' });
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import Fastify, { FastifyInstance } from 'fastify';
+import RedisMock from 'ioredis-mock';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 const TEST_JWT_SECRET = 'test-secret-that-is-at-least-32-characters-long';
 
@@ -580,3 +584,245 @@ describe('Rate Limiting Integration - When Auth Disabled', () => {
     }
   });
 });
+
+describe('Rate Limiting Integration - Redis Store', () => {
+  const redisRateLimitConfig = {
+    chatPerMin: 3,
+    tokenPerMin: 2,
+    burst: 5,
+    maxKeys: 5000,
+    pruneIntervalMs: 60000,
+    windowMs: 60000,
+    store: 'redis',
+    algorithm: 'sliding-window',
+    redisUrl: 'redis://localhost:6379',
+    redisPrefix: 'test:rl:integration:',
+  };
+  const instances: FastifyInstance[] = [];
+
+  /** Build a server with fresh modules, like a separate BFF replica sharing the same Redis */
+  async function buildReplica(): Promise<FastifyInstance> {
+    vi.resetModules();
+    vi.doMock('ioredis', () => ({ Redis: RedisMock }));
+    vi.doMock('../config/simpleAuthConfig.js', () => ({
+      simpleAuthConfig: {
+        enabled: true,
+        jwtSecret: TEST_JWT_SECRET,
+        ttlSeconds: 600,
+        issuer: 'norce-agent-bff',
+        audience: 'norce-agent-widget',
+      },
+    }));
+    vi.doMock('../config/rateLimitConfig.js', () => ({ rateLimitConfig: redisRateLimitConfig }));
+
+    const { simpleTokenRoutes: routes } = await import('../routes/simpleTokenRoute.js');
+    const { closeRateLimiters } = await import('../policy/index.js');
+    const instance = Fastify({ logger: false });
+    instance.addHook('onClose', async () => {
+      await closeRateLimiters();
+    });
+    await instance.register(routes);
+    instances.push(instance);
+    return instance;
+  }
+
+  afterEach(async () => {
+    const { resetRateLimiters } = await import('../policy/index.js');
+    await resetRateLimiters();
+    for (const instance of instances.splice(0)) {
+      await instance.close();
+    }
+    vi.clearAllMocks();
+  });
+
+  it('should keep the rate limit headers and 429 envelope', async () => {
+    const fastify = await buildReplica();
+
+    for (let i = 0; i < 2; i++) {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/v1/auth/simple/token',
+        payload: { applicationId: 'demo' },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-ratelimit-remaining']).toBe(String(1 - i));
+      expect(response.headers['x-ratelimit-reset']).toBeDefined();
+    }
+
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/v1/auth/simple/token',
+      payload: { applicationId: 'demo' },
+    });
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['x-ratelimit-remaining']).toBe('0');
+    expect(parseInt(response.headers['retry-after'] as string)).toBeGreaterThan(0);
+    expect(JSON.parse(response.body).error.code).toBe('RATE_LIMITED');
+  });
+
+  it('should share the limit between replicas', async () => {
+    const replicaA = await buildReplica();
+    const replicaB = await buildReplica();
+    const request = {
+      method: 'POST' as const,
+      url: '/v1/auth/simple/token',
+      headers: { 'x-forwarded-for': '1.2.3.4' },
+      payload: { applicationId: 'demo' },
+    };
+
+    expect((await replicaA.inject(request)).statusCode).toBe(200);
+    expect((await replicaB.inject(request)).statusCode).toBe(200);
+    expect((await replicaA.inject(request)).statusCode).toBe(429);
+  });
+});
+
+describe('Rate Limiting Integration - Tenant Policies', () => {
+  let fastify: FastifyInstance;
+  let policyDir: string;
+  let policies: typeof import('../policy/index.js');
+
+  function chatRequest(applicationId: string, url = '/v1/chat', sid: string = crypto.randomUUID()) {
+    return fastify.inject({
+      method: 'POST',
+      url,
+      headers: { authorization: `Bearer ${createValidToken(applicationId, sid)}` },
+      payload: {
+        applicationId,
+        sessionId: 'test-session',
+        message: 'Hello',
+        context: {},
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    policyDir = mkdtempSync(join(tmpdir(), 'tenant-policies-'));
+    const policyPath = join(policyDir, 'tenants.json');
+    writeFileSync(policyPath, JSON.stringify({
+      defaultTier: 'demo',
+      tiers: {
+        demo: { requestsPerMinute: 2, dailyMessages: 3, concurrentStreams: 1 },
+        storefront: { requestsPerMinute: 5 },
+      },
+      tenants: {
+        'test-app': { tier: 'storefront' },
+      },
+    }));
+
+    vi.resetModules();
+    vi.doMock('../config/simpleAuthConfig.js', () => ({
+      simpleAuthConfig: {
+        enabled: true,
+        jwtSecret: TEST_JWT_SECRET,
+        ttlSeconds: 600,
+        issuer: 'norce-agent-bff',
+        audience: 'norce-agent-widget',
+      },
+    }));
+    vi.doMock('../config/rateLimitConfig.js', () => ({
+      rateLimitConfig: {
+        chatPerMin: 3,
+        tokenPerMin: 2,
+        burst: 5,
+        maxKeys: 5000,
+        pruneIntervalMs: 60000,
+        windowMs: 60000,
+        tenantPoliciesPath: policyPath,
+      },
+    }));
+
+    const { chatRoutes: routes } = await import('../routes/chat.js');
+    policies = await import('../policy/index.js');
+    fastify = Fastify({ logger: false });
+    await fastify.register(routes, {
+      sessionStore: new InMemorySessionStore({ ttlSeconds: 1800 }),
+      agentRunner: null,
+    });
+  });
+
+  afterEach(async () => {
+    await policies.closeRateLimiters();
+    await fastify.close();
+    rmSync(policyDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  it('should apply the requests per minute of the tenant tier', async () => {
+    const sid = crypto.randomUUID();
+    for (let i = 0; i < 2; i++) {
+      expect((await chatRequest('demo', '/v1/chat', sid)).statusCode).toBe(503);
+    }
+    const limited = await chatRequest('demo', '/v1/chat', sid);
+    expect(limited.statusCode).toBe(429);
+    expect(JSON.parse(limited.body).error.details).toMatchObject({
+      quota: 'requests_per_minute',
+      limit: 2,
+      windowSeconds: 60,
+      applicationId: 'demo',
+      tier: 'demo',
+    });
+
+    // The storefront tier allows more requests per session
+    const storefrontSid = crypto.randomUUID();
+    for (let i = 0; i < 5; i++) {
+      expect((await chatRequest('test-app', '/v1/chat', storefrontSid)).statusCode).toBe(503);
+    }
+    expect((await chatRequest('test-app', '/v1/chat', storefrontSid)).statusCode).toBe(429);
+  });
+
+  it('should return standard RateLimit headers for the quota closest to its limit', async () => {
+    const response = await chatRequest('demo');
+
+    expect(response.headers['ratelimit-limit']).toBe('2');
+    expect(response.headers['ratelimit-remaining']).toBe('1');
+    expect(parseInt(response.headers['ratelimit-reset'] as string)).toBeGreaterThan(0);
+    expect(response.headers['ratelimit-policy']).toBe('2;w=60, 3;w=86400');
+    expect(response.headers['x-ratelimit-remaining']).toBe('1');
+  });
+
+  it('should enforce the daily message quota per applicationId across sessions', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await chatRequest('demo')).statusCode).toBe(503);
+    }
+
+    const limited = await chatRequest('demo');
+    expect(limited.statusCode).toBe(429);
+    expect(parseInt(limited.headers['retry-after'] as string)).toBeGreaterThan(0);
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+    const error = JSON.parse(limited.body).error;
+    expect(error.code).toBe('RATE_LIMITED');
+    expect(error.details).toMatchObject({
+      quota: 'daily_messages',
+      limit: 3,
+      windowSeconds: 86400,
+      applicationId: 'demo',
+      tier: 'demo',
+    });
+
+    // Tenants without a daily quota are not affected
+    expect((await chatRequest('test-app')).statusCode).toBe(503);
+  });
+
+  it('should limit concurrent streams and release the slot when a stream ends', async () => {
+    const limiter = policies.getStreamConcurrencyLimiter();
+    const held = await limiter.acquire('app:demo', 1);
+    expect(held.allowed).toBe(true);
+
+    const limited = await chatRequest('demo', '/v1/chat/stream');
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['retry-after']).toBe('5');
+    expect(JSON.parse(limited.body).error.details).toMatchObject({
+      quota: 'concurrent_streams',
+      limit: 1,
+      tier: 'demo',
+    });
+
+    await limiter.release('app:demo', held.leaseId as string);
+    const response = await chatRequest('demo', '/v1/chat/stream');
+    expect(response.statusCode).not.toBe(429);
+
+    // The finished stream gave its slot back
+    expect((await limiter.acquire('app:demo', 1)).allowed).toBe(true);
+  });
+});
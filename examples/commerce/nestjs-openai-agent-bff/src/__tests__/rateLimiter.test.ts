@@ -1,5 +1,13 @@
 import { describe, it, expect, afterEach, vi, beforeEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
 import { FixedWindowRateLimiter } from '../policy/rateLimiter.js';
+import { RedisRateLimiter, type RedisRateLimiterOptions } from '../policy/RedisRateLimiter.js';
+import { InMemoryConcurrencyLimiter } from '../policy/concurrencyLimiter.js';
+import { RedisConcurrencyLimiter } from '../policy/RedisConcurrencyLimiter.js';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
 
 describe('FixedWindowRateLimiter', () => {
   let limiter: FixedWindowRateLimiter;
@@ -291,3 +299,193 @@ describe('FixedWindowRateLimiter', () => {
     });
   });
 });
+
+describe('RedisRateLimiter', () => {
+  const limiters: RedisRateLimiter[] = [];
+
+  function createLimiter(options: Partial<RedisRateLimiterOptions> & { prefix: string }): RedisRateLimiter {
+    const limiter = new RedisRateLimiter({
+      redisUrl: 'redis://localhost:6379',
+      algorithm: 'sliding-window',
+      windowMs: 60_000,
+      limit: 3,
+      ...options,
+    });
+    limiters.push(limiter);
+    return limiter;
+  }
+
+  afterEach(async () => {
+    for (const limiter of limiters.splice(0)) {
+      await limiter.reset();
+      await limiter.destroy();
+    }
+  });
+
+  describe('sliding-window', () => {
+    it('should allow requests up to the limit and block the next one', async () => {
+      const limiter = createLimiter({ prefix: 'test:rl:sw-basic:' });
+
+      for (let i = 0; i < 3; i++) {
+        const result = await limiter.hit('sid:abc');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(2 - i);
+      }
+
+      const blocked = await limiter.hit('sid:abc');
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.remaining).toBe(0);
+      expect(blocked.retryAfterMs).toBeGreaterThan(59_000);
+      expect(blocked.retryAfterMs).toBeLessThanOrEqual(60_000);
+      expect(blocked.resetAt).toBeGreaterThan(Date.now());
+
+      // Other keys have their own window
+      expect((await limiter.hit('sid:other')).allowed).toBe(true);
+    });
+
+    it('should share the limit between instances using the same Redis', async () => {
+      const instanceA = createLimiter({ prefix: 'test:rl:sw-shared:' });
+      const instanceB = createLimiter({ prefix: 'test:rl:sw-shared:' });
+
+      expect((await instanceA.hit('ip:1.2.3.4')).allowed).toBe(true);
+      expect((await instanceB.hit('ip:1.2.3.4')).allowed).toBe(true);
+      expect((await instanceA.hit('ip:1.2.3.4')).allowed).toBe(true);
+      expect((await instanceB.hit('ip:1.2.3.4')).allowed).toBe(false);
+    });
+
+    it('should allow requests again once earlier hits leave the window', async () => {
+      let now = 1_000_000;
+      const limiter = createLimiter({ prefix: 'test:rl:sw-slide:', windowMs: 200, limit: 2, now: () => now });
+
+      await limiter.hit('sid:abc');
+      now += 50;
+      await limiter.hit('sid:abc');
+      const blocked = await limiter.hit('sid:abc');
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.retryAfterMs).toBe(150);
+
+      now += 200;
+
+      const result = await limiter.hit('sid:abc');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(1);
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('should allow a burst and then refill at limit per window', async () => {
+      // 4 tokens per second: one token every 250ms, bursts of 3
+      let now = 1_000_000;
+      const limiter = createLimiter({
+        prefix: 'test:rl:tb:',
+        algorithm: 'token-bucket',
+        windowMs: 1000,
+        limit: 4,
+        burst: 3,
+        now: () => now,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        const result = await limiter.hit('sid:abc');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(2 - i);
+      }
+
+      const blocked = await limiter.hit('sid:abc');
+      expect(blocked).toEqual({ allowed: false, remaining: 0, resetAt: now + 750, retryAfterMs: 250 });
+
+      // Half a token is not enough
+      now += 125;
+      expect((await limiter.hit('sid:abc')).retryAfterMs).toBe(125);
+
+      now += 125;
+      const refilled = await limiter.hit('sid:abc');
+      expect(refilled).toEqual({ allowed: true, remaining: 0, resetAt: now + 750 });
+    });
+
+    it('should use the limit as bucket capacity without a burst', async () => {
+      const limiter = createLimiter({ prefix: 'test:rl:tb-capacity:', algorithm: 'token-bucket', limit: 4 });
+
+      const first = await limiter.hit('sid:abc');
+      expect(first.remaining).toBe(3);
+    });
+  });
+
+  describe('fixed-window', () => {
+    it('should count hits until the window boundary', async () => {
+      const limiter = createLimiter({ prefix: 'test:rl:fw:', algorithm: 'fixed-window', windowMs: 24 * 60 * 60 * 1000 });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await limiter.hit('app:demo')).remaining).toBe(2 - i);
+      }
+      const blocked = await limiter.hit('app:demo');
+
+      const nextUtcMidnight = new Date().setUTCHours(24, 0, 0, 0);
+      expect(blocked.allowed).toBe(false);
+      expect(Math.abs(blocked.resetAt - nextUtcMidnight)).toBeLessThan(5000);
+    });
+  });
+
+  describe('policy overrides', () => {
+    it('should use the limit passed with the hit', async () => {
+      const limiter = createLimiter({ prefix: 'test:rl:policy:', limit: 1 });
+
+      expect((await limiter.hit('sid:abc', { limit: 2 })).remaining).toBe(1);
+      expect((await limiter.hit('sid:abc', { limit: 2 })).allowed).toBe(true);
+      expect((await limiter.hit('sid:abc', { limit: 2 })).allowed).toBe(false);
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear counters under its prefix only', async () => {
+      const limiter = createLimiter({ prefix: 'test:rl:reset-a:', limit: 1 });
+      const otherLimiter = createLimiter({ prefix: 'test:rl:reset-b:', limit: 1 });
+
+      await limiter.hit('sid:abc');
+      await otherLimiter.hit('sid:abc');
+      await limiter.reset();
+
+      expect((await limiter.hit('sid:abc')).allowed).toBe(true);
+      expect((await otherLimiter.hit('sid:abc')).allowed).toBe(false);
+    });
+  });
+});
+
+describe('InMemoryConcurrencyLimiter', () => {
+  it('should hand out slots up to the limit and take them back on release', () => {
+    const limiter = new InMemoryConcurrencyLimiter();
+
+    const first = limiter.acquire('app:demo', 2);
+    const second = limiter.acquire('app:demo', 2);
+    expect(first).toMatchObject({ allowed: true, active: 1 });
+    expect(second).toMatchObject({ allowed: true, active: 2 });
+    expect(limiter.acquire('app:demo', 2)).toEqual({ allowed: false, active: 2 });
+
+    limiter.release('app:demo', first.leaseId as string);
+    expect(limiter.activeCount('app:demo')).toBe(1);
+    expect(limiter.acquire('app:demo', 2).allowed).toBe(true);
+  });
+});
+
+describe('RedisConcurrencyLimiter', () => {
+  it('should share slots between instances and free expired leases', async () => {
+    const instanceA = new RedisConcurrencyLimiter({ redisUrl: 'redis://localhost:6379', prefix: 'test:cl:', leaseMs: 100 });
+    const instanceB = new RedisConcurrencyLimiter({ redisUrl: 'redis://localhost:6379', prefix: 'test:cl:', leaseMs: 100 });
+
+    const held = await instanceA.acquire('app:demo', 1);
+    expect(held.allowed).toBe(true);
+    expect(await instanceB.acquire('app:demo', 1)).toEqual({ allowed: false, active: 1 });
+
+    await instanceA.release('app:demo', held.leaseId as string);
+    const next = await instanceB.acquire('app:demo', 1);
+    expect(next.allowed).toBe(true);
+
+    // Never released (e.g. the instance crashed): freed when the lease expires
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect((await instanceA.acquire('app:demo', 1)).allowed).toBe(true);
+
+    await instanceA.reset();
+    await instanceA.destroy();
+    await instanceB.destroy();
+  });
+});
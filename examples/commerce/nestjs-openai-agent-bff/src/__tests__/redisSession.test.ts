@@ -7,6 +7,7 @@ vi.mock('ioredis', () => ({
 }));
 
 import { RedisSessionStore } from '../session/RedisSessionStore.js';
+import { SessionVersionConflictError } from '../session/SessionVersionConflictError.js';
 
 function createSessionState(overrides: Partial<SessionState> = {}): SessionState {
   const now = Date.now();
@@ -207,4 +208,140 @@ describe('RedisSessionStore', () => {
     const result = await store.ping();
     expect(result).toBe(true);
   });
+
+  describe('versioning', () => {
+    it('should increment the version on every save', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:ver1:', ttlSeconds: 3600 });
+      const state = createSessionState();
+
+      await store.set('app:versioned', state);
+      expect(state.version).toBe(1);
+      await store.set('app:versioned', state, { expectedVersion: 1 });
+      expect((await store.get('app:versioned'))?.version).toBe(2);
+    });
+
+    it('should reject a save based on a stale version', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:ver2:', ttlSeconds: 3600 });
+      await store.set('app:versioned', createSessionState());
+      await store.set('app:versioned', createSessionState({ version: 1 }), { expectedVersion: 1 });
+
+      const stale = createSessionState({ conversation: [{ role: 'user', content: 'lost' }] });
+      await expect(store.set('app:versioned', stale, { expectedVersion: 1 })).rejects.toMatchObject({
+        name: 'SessionVersionConflictError',
+        expectedVersion: 1,
+        actualVersion: 2,
+      });
+      expect(stale.version).toBeUndefined();
+      expect((await store.get('app:versioned'))?.conversation).toEqual([]);
+    });
+
+    it('should expect version 0 for a new session', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:ver3:', ttlSeconds: 3600 });
+      await store.set('app:new', createSessionState(), { expectedVersion: 0 });
+      await expect(store.set('app:new', createSessionState(), { expectedVersion: 0 })).rejects.toBeInstanceOf(
+        SessionVersionConflictError
+      );
+    });
+
+    it('should treat sessions saved before versioning as version 0', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:ver4:', ttlSeconds: 3600 });
+      const redis = new RedisMock();
+      await redis.set('test:ver4:app:legacy', JSON.stringify(createSessionState()));
+
+      const state = (await store.get('app:legacy'))!;
+      await store.set('app:legacy', state, { expectedVersion: state.version ?? 0 });
+      expect((await store.get('app:legacy'))?.version).toBe(1);
+      redis.disconnect();
+    });
+  });
+
+  describe('session lock', () => {
+    it('should grant the lock to one holder at a time across instances', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:lock1:', ttlSeconds: 3600 });
+      const replica = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:lock1:', ttlSeconds: 3600 });
+      try {
+        const token = await store.acquireLock('app:locked', 60000);
+        expect(token).toEqual(expect.any(String));
+        expect(await replica.acquireLock('app:locked', 60000)).toBeNull();
+
+        await store.releaseLock('app:locked', token!);
+        expect(await replica.acquireLock('app:locked', 60000)).toEqual(expect.any(String));
+      } finally {
+        await replica.disconnect();
+      }
+    });
+
+    it('should ignore releases with another token', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:lock2:', ttlSeconds: 3600 });
+      await store.acquireLock('app:locked', 60000);
+
+      await store.releaseLock('app:locked', 'not-the-token');
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+
+    it('should let the lease expire', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:lock3:', ttlSeconds: 3600 });
+      await store.acquireLock('app:locked', 50);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(await store.acquireLock('app:locked', 50)).toEqual(expect.any(String));
+    });
+
+    it('should keep the lock apart from the session data', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:lock4:', ttlSeconds: 3600 });
+      const state = createSessionState();
+      await store.set('app:locked', state);
+      await store.acquireLock('app:locked', 60000);
+
+      expect(await store.get('app:locked')).toEqual(state);
+    });
+  });
+
+  describe('stored session schema', () => {
+    it('should migrate a session written by an older deploy', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:schema1:', ttlSeconds: 3600 });
+      const redis = new RedisMock();
+      const { schemaVersion: _schemaVersion, ...legacy } = createSessionState({
+        cartState: { basketId: '1234', itemCount: 0, items: [] },
+      });
+      await redis.set('test:schema1:app:legacy', JSON.stringify(legacy));
+
+      const session = await store.get('app:legacy');
+
+      expect(session?.schemaVersion).toBe(2);
+      expect(session?.cartState?.basketId).toBe('1234');
+      redis.disconnect();
+    });
+
+    it('should discard and delete a corrupt session instead of failing', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:schema2:', ttlSeconds: 3600 });
+      const redis = new RedisMock();
+      await redis.set('test:schema2:app:corrupt', JSON.stringify({ conversation: 'not an array', schemaVersion: 2 }));
+
+      expect(await store.get('app:corrupt')).toBeNull();
+      expect(await redis.exists('test:schema2:app:corrupt')).toBe(0);
+      redis.disconnect();
+    });
+
+    it('should discard a session from an unknown schema version', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:schema3:', ttlSeconds: 3600 });
+      const redis = new RedisMock();
+      await redis.set('test:schema3:app:future', JSON.stringify({ ...createSessionState(), schemaVersion: 99 }));
+
+      expect(await store.get('app:future')).toBeNull();
+      expect(await store.exists('app:future')).toBe(false);
+      redis.disconnect();
+    });
+
+    it('should write the current schema version', async () => {
+      store = new RedisSessionStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:schema4:', ttlSeconds: 3600 });
+      const redis = new RedisMock();
+      await store.set('app:current', createSessionState());
+
+      const stored = JSON.parse((await redis.get('test:schema4:app:current'))!);
+      expect(stored.schemaVersion).toBe(2);
+      expect(Object.keys(stored)[0]).toBe('version');
+      redis.disconnect();
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../config.js', () => ({
+  config: {
+    norce: {
+      mcp: {
+        statusSeed: '',
+      },
+    },
+    debug: false,
+  },
+}));
+
+import {
+  MCP_TOOL_CONTRACT,
+  detectSchemaDrift,
+  getSentArgs,
+  createSchemaSnapshot,
+  parseSchemaSnapshot,
+} from '../agent/mcpTools/index.js';
+import { MOCK_TOOL_DEFINITIONS } from '../mock/mcp/MockMcpServer.js';
+import {
+  createCartAddItemHandler,
+  createCartGetHandler,
+  createCartRemoveItemHandler,
+  createCartSetItemQuantityHandler,
+  type CartHandlerDependencies,
+} from '../agent/cart/cartHandlers.js';
+import { createProductGetHandler, type ToolHandlerDependencies } from '../agent/toolHandlers.js';
+import type { McpToolDefinition } from '../norce/NorceMcpClient.js';
+import type { McpState, ToolContext } from '../session/sessionTypes.js';
+
+function withTool(name: string, update: (tool: McpToolDefinition) => McpToolDefinition): McpToolDefinition[] {
+  return MOCK_TOOL_DEFINITIONS.map((tool) => (tool.name === name ? update(structuredClone(tool)) : tool));
+}
+
+function createMockDependencies() {
+  const tokenProvider = {
+    getAccessToken: vi.fn().mockResolvedValue('test-access-token'),
+  };
+  const mcpClient = {
+    callTool: vi.fn().mockResolvedValue({ items: [] }),
+  };
+  return {
+    mcpClient,
+    asDeps: () => ({ tokenProvider, mcpClient }) as unknown as ToolHandlerDependencies & CartHandlerDependencies,
+  };
+}
+
+describe('detectSchemaDrift', () => {
+  it('should report no drift for the mock MCP tool definitions', () => {
+    const report = detectSchemaDrift(MOCK_TOOL_DEFINITIONS);
+
+    expect(report.breaking).toBe(false);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('should report missing tools with a rename hint', () => {
+    const tools = withTool('cart.addItem', (tool) => ({ ...tool, name: 'basket.addItem' }));
+
+    const report = detectSchemaDrift(tools);
+
+    expect(report.breaking).toBe(true);
+    expect(report.findings).toContainEqual(expect.objectContaining({
+      severity: 'breaking',
+      kind: 'tool_missing',
+      tool: 'cart.addItem',
+      message: expect.stringContaining('possibly renamed to "basket.addItem"'),
+    }));
+    expect(report.findings).toContainEqual(expect.objectContaining({ kind: 'tool_added', tool: 'basket.addItem' }));
+  });
+
+  it('should report new required properties and type changes', () => {
+    let tools = withTool('cart.addItem', (tool) => {
+      tool.inputSchema!.properties!.storeId = { type: 'number' };
+      tool.inputSchema!.required = [...(tool.inputSchema!.required ?? []), 'storeId'];
+      return tool;
+    });
+    tools = tools.map((tool) => {
+      if (tool.name !== 'cart.removeItem') return tool;
+      const updated = structuredClone(tool);
+      updated.inputSchema!.properties!.basketId = { type: 'string' };
+      return updated;
+    });
+
+    const report = detectSchemaDrift(tools);
+
+    expect(report.breaking).toBe(true);
+    expect(report.findings).toContainEqual(expect.objectContaining({
+      severity: 'breaking', kind: 'required_not_sent', tool: 'cart.addItem', property: 'storeId',
+    }));
+    expect(report.findings).toContainEqual(expect.objectContaining({
+      severity: 'breaking', kind: 'type_changed', tool: 'cart.removeItem', property: 'basketId',
+    }));
+  });
+
+  it('should treat removed properties as breaking only when unknown properties are rejected', () => {
+    const removeClientIp = (additionalProperties?: boolean) => withTool('cart.addItem', (tool) => {
+      delete tool.inputSchema!.properties!.clientIp;
+      return { ...tool, inputSchema: { ...tool.inputSchema!, additionalProperties } };
+    });
+
+    const lenient = detectSchemaDrift(removeClientIp());
+    const strict = detectSchemaDrift(removeClientIp(false));
+
+    expect(lenient.breaking).toBe(false);
+    expect(lenient.findings).toContainEqual(expect.objectContaining({
+      severity: 'warning', kind: 'property_removed', property: 'clientIp',
+    }));
+    expect(strict.breaking).toBe(true);
+  });
+});
+
+describe('MCP_TOOL_CONTRACT', () => {
+  it('should cover every argument the handlers send', async () => {
+    const mocks = createMockDependencies();
+    const deps = mocks.asDeps();
+    const mcpState: McpState = { sessionId: undefined, nextRpcId: 1 };
+    const context: ToolContext = { cultureCode: 'sv-SE', basketId: '42', clientIp: '10.0.0.1' };
+
+    await createProductGetHandler(deps)({ productId: '123', partNo: 'P-1' }, mcpState, context, 'app-1');
+    await createCartGetHandler(deps)({}, mcpState, context, 'app-1');
+    await createCartAddItemHandler(deps)({ partNo: 'P-1', quantity: 2 }, mcpState, context, 'app-1');
+    await createCartSetItemQuantityHandler(deps)({ productId: '123', quantity: 3 }, mcpState, context, 'app-1');
+    await createCartRemoveItemHandler(deps)({ productId: '123' }, mcpState, context, 'app-1');
+
+    for (const [, mcpToolName, mcpArgs] of mocks.mcpClient.callTool.mock.calls) {
+      const sentArgs = getSentArgs(MCP_TOOL_CONTRACT[mcpToolName as keyof typeof MCP_TOOL_CONTRACT]);
+      expect(Object.keys(sentArgs)).toEqual(expect.arrayContaining(Object.keys(mcpArgs as object)));
+    }
+    expect(mocks.mcpClient.callTool).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe('schema snapshots', () => {
+  it('should round-trip tool definitions and reject invalid files', () => {
+    const snapshot = createSchemaSnapshot(MOCK_TOOL_DEFINITIONS, 'mock');
+
+    const parsed = parseSchemaSnapshot(JSON.stringify(snapshot));
+
+    expect(parsed.tools.map((tool) => tool.name)).toEqual([...MOCK_TOOL_DEFINITIONS.map((tool) => tool.name)].sort());
+    expect(detectSchemaDrift(parsed.tools)).toEqual(detectSchemaDrift(MOCK_TOOL_DEFINITIONS));
+    expect(() => parseSchemaSnapshot('{"version":2,"tools":[]}')).toThrow('Invalid MCP schema snapshot');
+  });
+});
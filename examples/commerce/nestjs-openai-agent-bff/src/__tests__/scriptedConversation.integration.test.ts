@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { handleChat } from '../routes/chatHandler.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { Tool } from '../agent/tools.js';
+import { ScriptedLlmProvider, ScriptMismatchError } from '../llm/index.js';
+
+const scriptsDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'scripts');
+
+function createProductSearchTool(): Tool {
+  return {
+    name: 'product_search',
+    description: 'Search for products',
+    parameters: z.object({
+      query: z.string().optional(),
+      context: z.object({}).passthrough().optional(),
+    }),
+    execute: vi.fn().mockResolvedValue({
+      items: [{ productId: '101', name: 'Trail Runner 2', price: 899, currency: 'SEK' }],
+      totalCount: 1,
+    }),
+  };
+}
+
+function createProductGetTool(): Tool {
+  return {
+    name: 'product_get',
+    description: 'Get product details',
+    parameters: z.object({
+      productId: z.string().optional(),
+      context: z.object({}).passthrough().optional(),
+    }),
+    execute: vi.fn().mockResolvedValue({ productId: '101', name: 'Trail Runner 2' }),
+  };
+}
+
+describe('Scripted conversations through handleChat', () => {
+  let sessionStore: InMemorySessionStore;
+
+  beforeEach(() => {
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(() => {
+    sessionStore.destroy();
+  });
+
+  function send(agentRunner: AgentRunner, message: string, onDelta?: (text: string) => void) {
+    return handleChat(
+      {
+        applicationId: 'demo',
+        sessionId: 'scripted-session',
+        message,
+        context: { cultureCode: 'sv-SE' },
+        callbacks: onDelta ? { onDelta } : undefined,
+      },
+      { sessionStore, agentRunner }
+    );
+  }
+
+  it('should replay a multi-turn YAML script with tool call assertions', async () => {
+    const provider = ScriptedLlmProvider.fromFile(join(scriptsDir, 'search-and-followup.yaml'));
+    const searchTool = createProductSearchTool();
+    const getTool = createProductGetTool();
+    const agentRunner = new AgentRunner({ tools: [searchTool, getTool], llmProvider: provider });
+
+    const first = await send(agentRunner, 'Do you have running shoes?');
+    expect(first.httpStatus).toBe(200);
+    expect(first.body.text).toBe('I found the Trail Runner 2 for 899 SEK.');
+    expect(searchTool.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'running shoes' }),
+      expect.anything(),
+      expect.anything(),
+      'demo'
+    );
+
+    const second = await send(agentRunner, 'Can you tell me more about it?');
+    expect(second.body.text).toBe('The Trail Runner 2 is a lightweight trail shoe.');
+    expect(getTool.execute).toHaveBeenCalledTimes(1);
+
+    provider.assertComplete();
+  });
+
+  it('should deliver the scripted answer through StreamingCallbacks', async () => {
+    const provider = ScriptedLlmProvider.fromFile(join(scriptsDir, 'greeting.json'));
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider });
+    const deltas: string[] = [];
+
+    const result = await send(agentRunner, 'Hello', (text) => deltas.push(text));
+
+    expect(deltas).toEqual(['Hi! What are you shopping for today?']);
+    expect(result.body.text).toBe('Hi! What are you shopping for today?');
+  });
+
+  it('should fail when the user message does not match the script', async () => {
+    const provider = ScriptedLlmProvider.fromFile(join(scriptsDir, 'greeting.json'));
+
+    await expect(
+      provider.runWithTools({ input: [{ role: 'user', content: 'Goodbye' }] })
+    ).rejects.toThrow(ScriptMismatchError);
+  });
+
+  it('should fail when expected tool results are missing', async () => {
+    const provider = new ScriptedLlmProvider({
+      script: {
+        name: 'inline',
+        turns: [{
+          steps: [
+            { toolCalls: [{ name: 'product_search', arguments: { query: 'x' } }] },
+            { expect: { toolResults: [{ name: 'product_get' }] }, content: 'done' },
+          ],
+        }],
+      },
+    });
+
+    await provider.runWithTools({ input: [{ role: 'user', content: 'x' }] });
+    await expect(
+      provider.runWithTools({
+        input: [
+          { role: 'user', content: 'x' },
+          { role: 'assistant', content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'product_search', arguments: '{}' } }] },
+          { role: 'tool', content: '{}', tool_call_id: 'c1' },
+        ],
+      })
+    ).rejects.toThrow(/expected tool results \[product_get\], got \[product_search\]/);
+  });
+
+  it('should report unconsumed steps in assertComplete', () => {
+    const provider = new ScriptedLlmProvider({ steps: [{ content: 'never used' }] });
+
+    expect(() => provider.assertComplete()).toThrow(/1 scripted step\(s\) were never requested/);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { handleChat } from '../routes/chatHandler.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { Tool } from '../agent/tools.js';
+import { AppError } from '../errors/index.js';
+import type { LlmProvider } from '../llm/index.js';
+
+function createFailingProvider(error: unknown): LlmProvider {
+  return {
+    name: 'failing',
+    runWithTools: vi.fn().mockRejectedValue(error),
+  };
+}
+
+function createProductSearchTool(result: unknown = {
+  items: [
+    { productId: '101', name: 'Trail Runner 2', price: 899, currency: 'SEK' },
+    { productId: '102', name: 'Road Runner', price: 799, currency: 'SEK' },
+  ],
+  totalCount: 2,
+  cards: [
+    { productId: '101', title: 'Trail Runner 2', price: '899', currency: 'SEK' },
+    { productId: '102', title: 'Road Runner', price: '799', currency: 'SEK' },
+  ],
+  querySimplification: { originalQuery: 'running shoes', effectiveQuery: 'running shoes', wasSimplified: false },
+}): Tool {
+  return {
+    name: 'product_search',
+    description: 'Search for products',
+    parameters: z.object({ query: z.string() }),
+    execute: vi.fn().mockResolvedValue(result),
+  };
+}
+
+describe('Search-only fallback', () => {
+  let sessionStore: InMemorySessionStore;
+
+  beforeEach(() => {
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(() => {
+    sessionStore.destroy();
+  });
+
+  function send(agentRunner: AgentRunner, message: string, cultureCode = 'en-US') {
+    return handleChat(
+      {
+        applicationId: 'demo',
+        sessionId: 'fallback-session',
+        message,
+        context: { cultureCode },
+        debugEnabled: true,
+      },
+      { sessionStore, agentRunner }
+    );
+  }
+
+  it('should answer with search results when the LLM times out', async () => {
+    const searchTool = createProductSearchTool();
+    const agentRunner = new AgentRunner({
+      tools: [searchTool],
+      llmProvider: createFailingProvider(AppError.openaiTimeout({ timeoutMs: 30000 })),
+      compaction: false,
+    });
+
+    const result = await send(agentRunner, 'running shoes');
+
+    expect(result.httpStatus).toBe(200);
+    expect(result.error).toBeUndefined();
+    expect(result.body.degraded).toBe(true);
+    expect(result.body.text).toContain('temporarily unavailable');
+    expect(result.body.text).toContain('"running shoes"');
+    expect(result.body.cards?.map((card) => card.productId)).toEqual(['101', '102']);
+    expect(result.body.debug?.toolTrace[0]).toMatchObject({ tool: 'product_search', args: { query: 'running shoes' } });
+    expect(searchTool.execute).toHaveBeenCalledWith({ query: 'running shoes' }, expect.anything(), expect.anything(), 'demo');
+  });
+
+  it('should store results for ordinal references and a clean conversation', async () => {
+    const agentRunner = new AgentRunner({
+      tools: [createProductSearchTool()],
+      llmProvider: createFailingProvider(AppError.circuitOpen('openai', 10000)),
+      compaction: false,
+    });
+
+    await send(agentRunner, 'running shoes', 'sv-SE');
+
+    const session = await sessionStore.get('demo:fallback-session');
+    expect(session?.workingMemory?.lastResults?.map((item) => [item.index, item.productId])).toEqual([[1, '101'], [2, '102']]);
+    expect(session?.conversation).toEqual([
+      { role: 'user', content: 'running shoes' },
+      { role: 'assistant', content: expect.stringContaining('tillfälligt otillgänglig') },
+    ]);
+  });
+
+  it('should return refinements when the search finds nothing', async () => {
+    const refinements = [{ id: 'broaden_search', label: 'Search for "running"', payload: { type: 'search_broaden', query: 'running' } }];
+    const agentRunner = new AgentRunner({
+      tools: [createProductSearchTool({ items: [], totalCount: 0, cards: [], refinements })],
+      llmProvider: createFailingProvider(AppError.openai('OpenAI service error', { status: 500 })),
+      compaction: false,
+    });
+
+    const result = await send(agentRunner, 'running shoes');
+
+    expect(result.body.degraded).toBe(true);
+    expect(result.body.text).toContain("couldn't find any products");
+    expect(result.body.refinements).toEqual(refinements);
+    expect(result.body.cards).toBeUndefined();
+  });
+
+  it('should keep the error when the failure is not the LLM or the search fails', async () => {
+    const searchTool = createProductSearchTool();
+    const mcpDown = new AgentRunner({
+      tools: [searchTool],
+      llmProvider: createFailingProvider(AppError.circuitOpen('mcp', 10000)),
+      compaction: false,
+    });
+    await expect(send(mcpDown, 'running shoes')).rejects.toMatchObject({ code: 'UPSTREAM_CIRCUIT_OPEN' });
+    expect(searchTool.execute).not.toHaveBeenCalled();
+
+    const failingSearch = createProductSearchTool();
+    vi.mocked(failingSearch.execute).mockRejectedValue(new Error('MCP transport error'));
+    const bothDown = new AgentRunner({
+      tools: [failingSearch],
+      llmProvider: createFailingProvider(AppError.openaiTimeout()),
+      compaction: false,
+    });
+    await expect(send(bothDown, 'running shoes')).rejects.toMatchObject({ code: 'OPENAI_TIMEOUT' });
+  });
+
+  it('should not search for references to earlier results', async () => {
+    const searchTool = createProductSearchTool();
+    const agentRunner = new AgentRunner({
+      tools: [searchTool],
+      llmProvider: createFailingProvider(AppError.openaiTimeout()),
+      compaction: false,
+    });
+    await send(agentRunner, 'running shoes');
+
+    await expect(send(agentRunner, 'Add option 2 to cart')).rejects.toMatchObject({ code: 'OPENAI_TIMEOUT' });
+    expect(searchTool.execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
 import { SessionState } from '../session/sessionTypes.js';
+import { SessionVersionConflictError } from '../session/SessionVersionConflictError.js';
 
 function createSessionState(overrides: Partial<SessionState> = {}): SessionState {
   const now = Date.now();
@@ -164,4 +165,77 @@ describe('InMemorySessionStore', () => {
       vi.useRealTimers();
     }
   });
+
+  describe('versioning', () => {
+    it('should increment the version on every save', async () => {
+      store = new InMemorySessionStore({ ttlSeconds: 1800 });
+      const state = createSessionState();
+
+      await store.set('app:versioned', state);
+      expect(state.version).toBe(1);
+      await store.set('app:versioned', state, { expectedVersion: 1 });
+      expect((await store.get('app:versioned'))?.version).toBe(2);
+    });
+
+    it('should reject a save based on a stale version', async () => {
+      store = new InMemorySessionStore({ ttlSeconds: 1800 });
+      await store.set('app:versioned', createSessionState());
+      await store.set('app:versioned', createSessionState({ version: 1 }), { expectedVersion: 1 });
+
+      const stale = createSessionState({ conversation: [{ role: 'user', content: 'lost' }] });
+      await expect(store.set('app:versioned', stale, { expectedVersion: 1 })).rejects.toBeInstanceOf(
+        SessionVersionConflictError
+      );
+      expect((await store.get('app:versioned'))?.conversation).toEqual([]);
+    });
+
+    it('should expect version 0 for a new session', async () => {
+      store = new InMemorySessionStore({ ttlSeconds: 1800 });
+      await store.set('app:new', createSessionState(), { expectedVersion: 0 });
+      await expect(store.set('app:new', createSessionState(), { expectedVersion: 0 })).rejects.toMatchObject({
+        expectedVersion: 0,
+        actualVersion: 1,
+      });
+    });
+  });
+
+  describe('session lock', () => {
+    it('should grant the lock to one holder at a time', async () => {
+      store = new InMemorySessionStore({ ttlSeconds: 1800 });
+      const token = await store.acquireLock('app:locked', 60000);
+
+      expect(token).toEqual(expect.any(String));
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+      expect(await store.acquireLock('app:other', 60000)).toEqual(expect.any(String));
+
+      await store.releaseLock('app:locked', token!);
+      expect(await store.acquireLock('app:locked', 60000)).toEqual(expect.any(String));
+    });
+
+    it('should ignore releases with another token', async () => {
+      store = new InMemorySessionStore({ ttlSeconds: 1800 });
+      await store.acquireLock('app:locked', 60000);
+
+      await store.releaseLock('app:locked', 'not-the-token');
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+
+    it('should let the lease expire', async () => {
+      vi.useFakeTimers();
+      try {
+        store = new InMemorySessionStore({ ttlSeconds: 1800 });
+        const expired = await store.acquireLock('app:locked', 1000);
+
+        vi.advanceTimersByTime(1001);
+        const token = await store.acquireLock('app:locked', 1000);
+        expect(token).toEqual(expect.any(String));
+
+        // The expired holder cannot release its successor's lock
+        await store.releaseLock('app:locked', expired!);
+        expect(await store.acquireLock('app:locked', 1000)).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
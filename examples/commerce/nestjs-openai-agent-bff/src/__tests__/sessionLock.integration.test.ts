@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+const lockConfig = vi.hoisted(() => ({
+  mode: 'reject' as 'reject' | 'queue',
+  ttlMs: 120000,
+  waitMs: 2000,
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+      oauth: {
+        tokenUrl: 'https://test.auth.norce.tech/token',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        scope: 'test-scope',
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+      lock: lockConfig,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+      searchFallbackEnabled: false,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { chatRoutes } from '../routes/chat.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { OpenAiClient } from '../openai/OpenAiClient.js';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+function createDeferred(): Deferred {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+function chatPayload(sessionId: string, message: string) {
+  return {
+    applicationId: 'demo',
+    sessionId,
+    message,
+    context: { cultureCode: 'sv-SE' },
+  };
+}
+
+describe('Single-flight turns per session', () => {
+  let fastify: FastifyInstance;
+  let sessionStore: InMemorySessionStore;
+  let runWithTools: ReturnType<typeof vi.fn>;
+  let firstTurnStarted: Deferred;
+  let releaseFirstTurn: Deferred;
+
+  beforeEach(async () => {
+    lockConfig.mode = 'reject';
+    firstTurnStarted = createDeferred();
+    releaseFirstTurn = createDeferred();
+
+    // The first LLM call blocks until the test releases it; later calls answer immediately
+    runWithTools = vi.fn()
+      .mockImplementationOnce(async () => {
+        firstTurnStarted.resolve();
+        await releaseFirstTurn.promise;
+        return { content: 'First answer', toolCalls: [], finishReason: 'stop' };
+      })
+      .mockResolvedValue({ content: 'Next answer', toolCalls: [], finishReason: 'stop' });
+
+    fastify = Fastify({ logger: false });
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+    const agentRunner = new AgentRunner({
+      tools: [],
+      openaiClient: { runWithTools } as unknown as OpenAiClient,
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    });
+    await fastify.register(chatRoutes, { sessionStore, agentRunner });
+  });
+
+  afterEach(async () => {
+    releaseFirstTurn.resolve();
+    sessionStore.destroy();
+    await fastify.close();
+    vi.clearAllMocks();
+  });
+
+  it('should reject a second message to a busy session with SESSION_BUSY', async () => {
+    const first = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+    await firstTurnStarted.promise;
+
+    const second = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+    expect(second.statusCode).toBe(409);
+    const body = second.json();
+    expect(body.sessionId).toBe('s1');
+    expect(body.error).toMatchObject({ category: 'policy', code: 'SESSION_BUSY', retryable: true });
+
+    releaseFirstTurn.resolve();
+    const firstResponse = await first;
+    expect(firstResponse.statusCode).toBe(200);
+    expect(firstResponse.json().text).toBe('First answer');
+    expect(runWithTools).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not block turns of other sessions', async () => {
+    const first = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+    await firstTurnStarted.promise;
+
+    const other = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s2', 'Hello') });
+    expect(other.statusCode).toBe(200);
+    expect(other.json().text).toBe('Next answer');
+
+    releaseFirstTurn.resolve();
+    expect((await first).statusCode).toBe(200);
+  });
+
+  it('should release the lock when the turn ends', async () => {
+    releaseFirstTurn.resolve();
+    const first = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+    const second = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+
+    expect(first.statusCode).toBe(200);
+    expect(second.statusCode).toBe(200);
+    const session = await sessionStore.get('demo:s1');
+    expect(session?.conversation).toHaveLength(4);
+    expect(session?.version).toBe(2);
+  });
+
+  it('should release the lock when the turn fails', async () => {
+    runWithTools.mockReset();
+    runWithTools
+      .mockRejectedValueOnce(new Error('Unexpected failure'))
+      .mockResolvedValue({ content: 'Recovered', toolCalls: [], finishReason: 'stop' });
+
+    const failed = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+    expect(failed.statusCode).toBe(500);
+
+    const next = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+    expect(next.statusCode).toBe(200);
+    expect(next.json().text).toBe('Recovered');
+  });
+
+  it('should queue the second message until the running turn ends when SESSION_LOCK_MODE=queue', async () => {
+    lockConfig.mode = 'queue';
+
+    const first = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+    await firstTurnStarted.promise;
+    const second = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(runWithTools).toHaveBeenCalledTimes(1);
+    releaseFirstTurn.resolve();
+
+    const [firstResponse, secondResponse] = await Promise.all([first, second]);
+    expect(firstResponse.statusCode).toBe(200);
+    expect(secondResponse.statusCode).toBe(200);
+    expect(secondResponse.json().text).toBe('Next answer');
+
+    // The queued turn saw the first turn's messages
+    const session = await sessionStore.get('demo:s1');
+    expect(session?.conversation.map((m) => (m as { content: string }).content)).toEqual([
+      'Hello',
+      'First answer',
+      'Hello again',
+      'Next answer',
+    ]);
+  });
+
+  it('should answer SESSION_BUSY when the queue wait expires', async () => {
+    lockConfig.mode = 'queue';
+    lockConfig.waitMs = 300;
+
+    try {
+      const first = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+      await firstTurnStarted.promise;
+
+      const second = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+      expect(second.statusCode).toBe(409);
+      expect(second.json().error.code).toBe('SESSION_BUSY');
+
+      releaseFirstTurn.resolve();
+      expect((await first).statusCode).toBe(200);
+    } finally {
+      lockConfig.waitMs = 2000;
+    }
+  });
+
+  it('should keep the lock for turns that outlast the lease', async () => {
+    lockConfig.ttlMs = 150;
+
+    try {
+      const first = fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+      await firstTurnStarted.promise;
+
+      // Several leases later the running turn still holds the lock
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      const second = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+      expect(second.statusCode).toBe(409);
+      expect(second.json().error.code).toBe('SESSION_BUSY');
+
+      releaseFirstTurn.resolve();
+      expect((await first).statusCode).toBe(200);
+      expect(await sessionStore.acquireLock('demo:s1', 1000)).toEqual(expect.any(String));
+    } finally {
+      lockConfig.ttlMs = 120000;
+    }
+  });
+
+  it('should fail a turn whose session was saved by another writer meanwhile', async () => {
+    releaseFirstTurn.resolve();
+    await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello') });
+
+    // Another writer (e.g. a turn whose lock lease expired) saves while this turn runs
+    runWithTools.mockImplementationOnce(async () => {
+      const stored = await sessionStore.get('demo:s1');
+      await sessionStore.set('demo:s1', { ...stored!, conversation: [] });
+      return { content: 'Lost answer', toolCalls: [], finishReason: 'stop' };
+    });
+
+    const response = await fastify.inject({ method: 'POST', url: '/v1/chat', payload: chatPayload('s1', 'Hello again') });
+    expect(response.statusCode).toBe(409);
+    expect(response.json().error.code).toBe('SESSION_BUSY');
+
+    const session = await sessionStore.get('demo:s1');
+    expect(session?.conversation).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { decodeSession, SESSION_SCHEMA_VERSION } from '../session/sessionSchema.js';
+
+function storedSession(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Date.now();
+  return {
+    version: 3,
+    conversation: [{ role: 'user', content: 'Hello' }],
+    mcp: { sessionId: 'mcp-1', nextRpcId: 4, protocolVersion: '2025-06-18' },
+    updatedAt: now,
+    expiresAt: now + 3600000,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    ...overrides,
+  };
+}
+
+describe('decodeSession', () => {
+  it('should return a current session unchanged', () => {
+    const session = storedSession({
+      context: { cultureCode: 'sv-SE' },
+      workingMemory: {
+        lastResults: [{ index: 1, productId: 'p1', name: 'Boot' }],
+        activeChoiceSet: {
+          id: 'variant-p1-1',
+          kind: 'variant',
+          options: [{ id: 'v1', label: 'Size 42' }],
+          createdAt: 1,
+          parentProductId: 'p1',
+        },
+      },
+      pendingAction: { id: 'a1', kind: 'cart_add_item', args: { partNo: 'X' }, createdAt: 1, status: 'pending' },
+      cartState: { basketId: '42', itemCount: 1, items: [{ productId: 'p1', quantity: 1 }] },
+      usage: { turns: 1, llmCalls: 1, promptTokens: 10, completionTokens: 5, cachedTokens: 0, totalTokens: 15, costUsd: 0 },
+    });
+
+    const result = decodeSession(JSON.stringify(session));
+
+    expect(result).toEqual({ ok: true, state: session });
+  });
+
+  it('should keep fields the schema does not know', () => {
+    const session = storedSession({ compactionSummary: 'Earlier: asked for boots', mcp: { nextRpcId: 1, extra: true } });
+
+    const result = decodeSession(JSON.stringify(session));
+
+    expect(result.ok && result.state).toEqual(session);
+  });
+
+  it('should migrate a session written before schemaVersion', () => {
+    const { schemaVersion: _schemaVersion, ...legacy } = storedSession({
+      pendingAction: { id: 'a1', kind: 'cart_add_item', args: {}, createdAt: 1, status: 'pending' },
+      cartState: { basketId: '1234', itemCount: 0, items: [] },
+    });
+
+    const result = decodeSession(JSON.stringify(legacy));
+
+    expect(result).toEqual({ ok: true, state: { ...legacy, schemaVersion: SESSION_SCHEMA_VERSION }, migratedFrom: 1 });
+  });
+
+  it('should migrate a legacy session without a cart or pending action', () => {
+    const { schemaVersion: _schemaVersion, ...legacy } = storedSession();
+
+    const result = decodeSession(JSON.stringify(legacy));
+
+    expect(result).toEqual({ ok: true, state: { ...legacy, schemaVersion: SESSION_SCHEMA_VERSION }, migratedFrom: 1 });
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(decodeSession('{"conversation": [')).toEqual({ ok: false, reason: 'invalid_json' });
+  });
+
+  it('should reject a session from a newer deploy', () => {
+    const result = decodeSession(JSON.stringify(storedSession({ schemaVersion: SESSION_SCHEMA_VERSION + 1 })));
+
+    expect(result).toMatchObject({ ok: false, reason: 'unknown_schema_version', schemaVersion: SESSION_SCHEMA_VERSION + 1 });
+  });
+
+  it('should reject a schemaVersion that is not a number', () => {
+    const result = decodeSession(JSON.stringify(storedSession({ schemaVersion: '2' })));
+
+    expect(result).toMatchObject({ ok: false, reason: 'unknown_schema_version', schemaVersion: '2' });
+  });
+
+  it('should reject a session missing required fields', () => {
+    const { mcp: _mcp, ...session } = storedSession();
+
+    const result = decodeSession(JSON.stringify(session));
+
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_session', schemaVersion: SESSION_SCHEMA_VERSION });
+    expect(!result.ok && result.issues).toContain('mcp');
+  });
+
+  it('should reject a session with a malformed optional field', () => {
+    const result = decodeSession(JSON.stringify(storedSession({ cartState: { itemCount: 'two', items: [] } })));
+
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_session' });
+    expect(!result.ok && result.issues).toContain('cartState.itemCount');
+  });
+
+  it('should reject a session with an unknown choice kind', () => {
+    const result = decodeSession(JSON.stringify(storedSession({
+      workingMemory: { activeChoiceSet: { id: 'c1', kind: 'size', options: [], createdAt: 1 } },
+    })));
+
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_session' });
+    expect(!result.ok && result.issues).toContain('workingMemory.activeChoiceSet.kind');
+  });
+
+  it('should reject a current session with an unknown pending action status', () => {
+    const result = decodeSession(JSON.stringify(storedSession({
+      pendingAction: { id: 'a1', kind: 'cart_add_item', args: {}, createdAt: 1, status: 'done' },
+    })));
+
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_session' });
+  });
+
+  it('should reject JSON that is not an object', () => {
+    expect(decodeSession('null')).toMatchObject({ ok: false, reason: 'invalid_session' });
+    expect(decodeSession('[1, 2]')).toMatchObject({ ok: false, reason: 'invalid_session' });
+  });
+});
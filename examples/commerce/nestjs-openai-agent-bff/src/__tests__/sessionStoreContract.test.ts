@@ -0,0 +1,263 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
+
+import { ISessionStore } from '../session/ISessionStore.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { RedisSessionStore } from '../session/RedisSessionStore.js';
+import { SqliteSessionStore } from '../session/SqliteSessionStore.js';
+import { SessionVersionConflictError } from '../session/SessionVersionConflictError.js';
+import { SessionState } from '../session/sessionTypes.js';
+
+interface StoreUnderTest {
+  store: ISessionStore;
+  close: () => Promise<void>;
+}
+
+let redisPrefixCounter = 0;
+
+/**
+ * Every ISessionStore implementation must pass the same suite.
+ */
+const implementations: Array<[string, (ttlSeconds: number) => StoreUnderTest]> = [
+  ['InMemorySessionStore', (ttlSeconds) => {
+    const store = new InMemorySessionStore({ ttlSeconds });
+    return { store, close: async () => store.destroy() };
+  }],
+  ['RedisSessionStore', (ttlSeconds) => {
+    // ioredis-mock instances share data: keep each test under its own prefix
+    const store = new RedisSessionStore({
+      redisUrl: 'redis://localhost:6379',
+      prefix: `test:contract:${++redisPrefixCounter}:`,
+      ttlSeconds,
+    });
+    return { store, close: () => store.disconnect() };
+  }],
+  ['SqliteSessionStore', (ttlSeconds) => {
+    const store = new SqliteSessionStore({ path: ':memory:', ttlSeconds });
+    return { store, close: async () => store.close() };
+  }],
+];
+
+function createSessionState(overrides: Partial<SessionState> = {}): SessionState {
+  const now = Date.now();
+  return {
+    conversation: [],
+    mcp: { nextRpcId: 1 },
+    updatedAt: now,
+    expiresAt: now + 3600000,
+    ...overrides,
+  };
+}
+
+describe.each(implementations)('%s (ISessionStore contract)', (_name, createStore) => {
+  let current: StoreUnderTest | undefined;
+
+  function open(ttlSeconds = 3600): ISessionStore {
+    current = createStore(ttlSeconds);
+    return current.store;
+  }
+
+  afterEach(async () => {
+    await current?.close();
+    current = undefined;
+  });
+
+  it('should store and retrieve session data', async () => {
+    const store = open();
+    const state = createSessionState({
+      conversation: [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there!' },
+      ],
+      cartState: { basketId: '42', itemCount: 1, items: [{ productId: 'p1', quantity: 1 }] },
+    });
+
+    await store.set('app:session-1', state);
+
+    expect(await store.get('app:session-1')).toEqual(state);
+  });
+
+  it('should return null for a missing session', async () => {
+    const store = open();
+    expect(await store.get('app:missing')).toBeNull();
+    expect(await store.exists('app:missing')).toBe(false);
+  });
+
+  it('should overwrite a session on set', async () => {
+    const store = open();
+    await store.set('app:session-1', createSessionState({ conversation: [{ role: 'user', content: 'first' }] }));
+    await store.set('app:session-1', createSessionState({ conversation: [{ role: 'user', content: 'second' }] }));
+
+    expect((await store.get('app:session-1'))?.conversation).toEqual([{ role: 'user', content: 'second' }]);
+  });
+
+  it('should keep sessions apart by key', async () => {
+    const store = open();
+    await store.set('app:a', createSessionState({ conversation: [{ role: 'user', content: 'a' }] }));
+    await store.set('app:b', createSessionState({ conversation: [{ role: 'user', content: 'b' }] }));
+
+    expect((await store.get('app:a'))?.conversation).toEqual([{ role: 'user', content: 'a' }]);
+    expect((await store.get('app:b'))?.conversation).toEqual([{ role: 'user', content: 'b' }]);
+  });
+
+  it('should delete a session', async () => {
+    const store = open();
+    await store.set('app:session-1', createSessionState());
+    expect(await store.exists('app:session-1')).toBe(true);
+
+    await store.delete('app:session-1');
+
+    expect(await store.get('app:session-1')).toBeNull();
+    expect(await store.exists('app:session-1')).toBe(false);
+  });
+
+  it('should not return an expired session', async () => {
+    const store = open();
+    const now = Date.now();
+    await store.set('app:expired', createSessionState({ updatedAt: now - 2000, expiresAt: now - 1000 }));
+
+    expect(await store.get('app:expired')).toBeNull();
+    expect(await store.exists('app:expired')).toBe(false);
+  });
+
+  it('should extend the expiry on touch', async () => {
+    const store = open(600);
+    const now = Date.now();
+    await store.set('app:session-1', createSessionState({ updatedAt: now - 60000, expiresAt: now + 1000 }));
+
+    expect(await store.touch('app:session-1')).toBe(true);
+
+    const touched = await store.get('app:session-1');
+    expect(touched?.updatedAt).toBeGreaterThanOrEqual(now);
+    expect(touched?.expiresAt).toBeGreaterThanOrEqual(now + 600000);
+  });
+
+  it('should not change the version on touch', async () => {
+    const store = open();
+    const state = createSessionState();
+    await store.set('app:session-1', state, { expectedVersion: 0 });
+
+    await store.touch('app:session-1');
+
+    expect((await store.get('app:session-1'))?.version).toBe(1);
+    // A turn that loaded before the touch can still save
+    await store.set('app:session-1', state, { expectedVersion: 1 });
+  });
+
+  it('should return false when touching a missing session', async () => {
+    const store = open();
+    expect(await store.touch('app:missing')).toBe(false);
+  });
+
+  describe('versioning', () => {
+    it('should increment the version on every save', async () => {
+      const store = open();
+      const state = createSessionState();
+
+      await store.set('app:versioned', state);
+      expect(state.version).toBe(1);
+      await store.set('app:versioned', state, { expectedVersion: 1 });
+      expect(state.version).toBe(2);
+      expect((await store.get('app:versioned'))?.version).toBe(2);
+    });
+
+    it('should accept expectedVersion 0 for a new session only', async () => {
+      const store = open();
+      await store.set('app:new', createSessionState(), { expectedVersion: 0 });
+
+      await expect(store.set('app:new', createSessionState(), { expectedVersion: 0 })).rejects.toMatchObject({
+        name: 'SessionVersionConflictError',
+        expectedVersion: 0,
+        actualVersion: 1,
+      });
+    });
+
+    it('should reject a stale save and keep the stored session', async () => {
+      const store = open();
+      await store.set('app:versioned', createSessionState({ conversation: [{ role: 'user', content: 'kept' }] }));
+
+      const stale = createSessionState({ conversation: [{ role: 'user', content: 'lost' }] });
+      await store.set('app:versioned', createSessionState({ version: 1, conversation: [{ role: 'user', content: 'kept' }] }), {
+        expectedVersion: 1,
+      });
+      await expect(store.set('app:versioned', stale, { expectedVersion: 1 })).rejects.toBeInstanceOf(
+        SessionVersionConflictError
+      );
+
+      const stored = await store.get('app:versioned');
+      expect(stored?.version).toBe(2);
+      expect(stored?.conversation).toEqual([{ role: 'user', content: 'kept' }]);
+    });
+  });
+
+  describe('session lock', () => {
+    it('should grant the lock to one holder at a time', async () => {
+      const store = open();
+      const token = await store.acquireLock('app:locked', 60000);
+
+      expect(token).toEqual(expect.any(String));
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+      expect(await store.acquireLock('app:other', 60000)).toEqual(expect.any(String));
+
+      await store.releaseLock('app:locked', token!);
+      expect(await store.acquireLock('app:locked', 60000)).toEqual(expect.any(String));
+    });
+
+    it('should ignore a release with another token', async () => {
+      const store = open();
+      await store.acquireLock('app:locked', 60000);
+
+      await store.releaseLock('app:locked', 'not-the-token');
+
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+
+    it('should free the lock when the lease expires', async () => {
+      const store = open();
+      const expired = await store.acquireLock('app:locked', 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const token = await store.acquireLock('app:locked', 60000);
+      expect(token).toEqual(expect.any(String));
+
+      // The expired holder cannot release its successor's lock
+      await store.releaseLock('app:locked', expired!);
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+
+    it('should renew the lease only for the holder', async () => {
+      const store = open();
+      const token = await store.acquireLock('app:locked', 100);
+
+      expect(await store.renewLock('app:locked', 'not-the-token', 60000)).toBe(false);
+      expect(await store.renewLock('app:locked', token!, 60000)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      // The renewed lease outlives the original 100ms
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+
+    it('should not renew an expired lease', async () => {
+      const store = open();
+      const token = await store.acquireLock('app:locked', 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(await store.renewLock('app:locked', token!, 60000)).toBe(false);
+    });
+
+    it('should keep the lock apart from the session data', async () => {
+      const store = open();
+      const state = createSessionState();
+      await store.set('app:locked', state);
+      await store.acquireLock('app:locked', 60000);
+
+      expect(await store.get('app:locked')).toEqual(state);
+      await store.delete('app:locked');
+      expect(await store.acquireLock('app:locked', 60000)).toBeNull();
+    });
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, afterEach, vi, beforeEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 describe('sessionStoreFactory', () => {
   beforeEach(async () => {
@@ -82,6 +85,39 @@ describe('sessionStoreFactory', () => {
       );
     });
 
+    it('should create a SQLite store in a new directory when SESSION_STORE=sqlite', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'session-factory-'));
+      const sqlitePath = join(dir, 'nested', 'sessions.db');
+      vi.doMock('../config.js', () => ({
+        config: {
+          session: {
+            store: 'sqlite',
+            ttlSeconds: 3600,
+            sqlite: { path: sqlitePath },
+            redis: {
+              url: undefined,
+              prefix: 'agent:sess:',
+            },
+          },
+        },
+      }));
+
+      try {
+        const { createSessionStore, destroySessionStore, resetSessionStoreForTesting } = await import('../session/sessionStoreFactory.js');
+        const { SqliteSessionStore } = await import('../session/SqliteSessionStore.js');
+        resetSessionStoreForTesting();
+
+        const result = await createSessionStore();
+
+        expect(result.type).toBe('sqlite');
+        expect(result.store).toBeInstanceOf(SqliteSessionStore);
+        expect(existsSync(sqlitePath)).toBe(true);
+        await destroySessionStore();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
     it('should return singleton instance on subsequent calls', async () => {
       vi.doMock('../config.js', () => ({
         config: {
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { SqliteSessionStore } from '../session/SqliteSessionStore.js';
+import { SessionState } from '../session/sessionTypes.js';
+
+function createSessionState(overrides: Partial<SessionState> = {}): SessionState {
+  const now = Date.now();
+  return {
+    conversation: [],
+    mcp: { nextRpcId: 1 },
+    updatedAt: now,
+    expiresAt: now + 3600000,
+    ...overrides,
+  };
+}
+
+describe('SqliteSessionStore', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: SqliteSessionStore | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sqlite-sessions-'));
+    dbPath = join(dir, 'sessions.db');
+  });
+
+  afterEach(() => {
+    store?.close();
+    store = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep sessions across restarts', async () => {
+    const state = createSessionState({ conversation: [{ role: 'user', content: 'Hello' }] });
+    store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+    await store.set('app:session-1', state);
+    store.close();
+
+    store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+
+    expect(await store.get('app:session-1')).toEqual(state);
+  });
+
+  it('should use WAL journal mode', () => {
+    store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+
+    const db = new Database(dbPath, { readonly: true });
+    try {
+      expect(db.pragma('journal_mode', { simple: true })).toBe('wal');
+    } finally {
+      db.close();
+    }
+  });
+
+  it('should share sessions and locks between processes using the same file', async () => {
+    store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+    const other = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+    try {
+      await store.set('app:session-1', createSessionState());
+      expect(await other.exists('app:session-1')).toBe(true);
+
+      const token = await store.acquireLock('app:session-1', 60000);
+      expect(token).toEqual(expect.any(String));
+      expect(await other.acquireLock('app:session-1', 60000)).toBeNull();
+    } finally {
+      other.close();
+    }
+  });
+
+  it('should sweep expired sessions periodically', async () => {
+    vi.useFakeTimers();
+    try {
+      store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 1, cleanupIntervalSeconds: 1 });
+      const now = Date.now();
+      await store.set('app:expiring', createSessionState({ updatedAt: now, expiresAt: now + 1000 }));
+      await store.set('app:kept', createSessionState());
+
+      vi.advanceTimersByTime(2000);
+
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const keys = db.prepare('SELECT key FROM sessions').all() as Array<{ key: string }>;
+        expect(keys.map((row) => row.key)).toEqual(['app:kept']);
+      } finally {
+        db.close();
+      }
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should discard a session that cannot be parsed', async () => {
+    store = new SqliteSessionStore({ path: dbPath, ttlSeconds: 3600 });
+    const db = new Database(dbPath);
+    try {
+      db.prepare('INSERT INTO sessions (key, data, version, expires_at) VALUES (?, ?, ?, ?)')
+        .run('app:poisoned', '{not json', 1, Date.now() + 60000);
+
+      expect(await store.get('app:poisoned')).toBeNull();
+      expect(db.prepare('SELECT COUNT(*) AS count FROM sessions').get()).toEqual({ count: 0 });
+    } finally {
+      db.close();
+    }
+  });
+});
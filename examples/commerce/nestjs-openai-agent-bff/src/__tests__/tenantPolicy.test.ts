@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../config/rateLimitConfig.js', () => ({
+  rateLimitConfig: {
+    chatPerMin: 20,
+    tokenPerMin: 10,
+    burst: 5,
+    maxKeys: 5000,
+    pruneIntervalMs: 60000,
+    windowMs: 60000,
+  },
+}));
+
+import { TenantPolicyRegistry, getTenantPolicy } from '../policy/tenantPolicy.js';
+
+const DEFAULTS = { requestsPerMinute: 20, burst: 5 };
+
+describe('TenantPolicyRegistry', () => {
+  let dir: string;
+
+  function writePolicyFile(content: unknown): string {
+    const filePath = join(dir, 'tenants.json');
+    writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+    return filePath;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tenant-policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should layer defaults, tier and tenant overrides', () => {
+    const registry = TenantPolicyRegistry.fromFile(writePolicyFile({
+      defaultTier: 'demo',
+      tiers: {
+        demo: { requestsPerMinute: 10, dailyMessages: 200 },
+        storefront: { requestsPerMinute: 120, burst: 30, concurrentStreams: 50 },
+      },
+      tenants: {
+        'acme-se': { tier: 'storefront', dailyMessages: 100000 },
+        'partner-demo': { concurrentStreams: 2 },
+      },
+    }), DEFAULTS);
+
+    expect(registry.resolve('acme-se')).toEqual({
+      tier: 'storefront',
+      requestsPerMinute: 120,
+      burst: 30,
+      concurrentStreams: 50,
+      dailyMessages: 100000,
+    });
+    expect(registry.resolve('partner-demo')).toEqual({
+      tier: 'demo',
+      requestsPerMinute: 10,
+      burst: 5,
+      dailyMessages: 200,
+      concurrentStreams: 2,
+    });
+    expect(registry.resolve('unknown')).toEqual({
+      tier: 'demo',
+      requestsPerMinute: 10,
+      burst: 5,
+      dailyMessages: 200,
+    });
+  });
+
+  it('should use the defaults without a default tier', () => {
+    const registry = TenantPolicyRegistry.fromFile(writePolicyFile({ tiers: {} }), DEFAULTS);
+
+    expect(registry.resolve('any-app')).toEqual({ tier: 'default', requestsPerMinute: 20, burst: 5 });
+    expect(registry.resolve(undefined)).toEqual({ tier: 'default', requestsPerMinute: 20, burst: 5 });
+  });
+
+  it('should reject unknown tiers and invalid limits', () => {
+    const filePath = writePolicyFile({
+      defaultTier: 'gold',
+      tiers: { demo: { requestsPerMinute: 0 } },
+      tenants: { 'acme-se': { tier: 'platinum' } },
+    });
+
+    expect(() => TenantPolicyRegistry.fromFile(filePath, DEFAULTS)).toThrow(/tiers\.demo\.requestsPerMinute/);
+  });
+
+  it('should reject tier references to missing tiers', () => {
+    const filePath = writePolicyFile({
+      defaultTier: 'gold',
+      tiers: { demo: { requestsPerMinute: 10 } },
+      tenants: { 'acme-se': { tier: 'platinum' } },
+    });
+
+    expect(() => TenantPolicyRegistry.fromFile(filePath, DEFAULTS)).toThrow(
+      /defaultTier: unknown tier 'gold'; tenants\.acme-se\.tier: unknown tier 'platinum'/
+    );
+  });
+
+  it('should reject files that are not valid JSON', () => {
+    expect(() => TenantPolicyRegistry.fromFile(writePolicyFile('{ tiers: '), DEFAULTS)).toThrow(
+      /Invalid tenant policy file/
+    );
+  });
+});
+
+describe('getTenantPolicy', () => {
+  it('should return the DEMO_RL_* defaults without TENANT_POLICIES_PATH', () => {
+    expect(getTenantPolicy('demo')).toEqual({ tier: 'default', requestsPerMinute: 20, burst: 5 });
+  });
+});
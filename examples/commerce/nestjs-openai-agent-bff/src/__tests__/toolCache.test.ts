@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import { z } from 'zod';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+        statusSeed: '',
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import {
+  McpToolCache,
+  InMemoryToolResultCacheStore,
+  RedisToolResultCacheStore,
+  buildToolCacheKey,
+  collectToolCacheEvents,
+  type IToolResultCacheStore,
+  type ToolCacheEvent,
+} from '../cache/index.js';
+import { createGetProductsBatch, createProductGetHandler, type ToolHandlerDependencies } from '../agent/toolHandlers.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import { CART_GET, PRODUCT_GET, PRODUCT_SEARCH } from '../norce/mcpToolNames.js';
+import type { Tool } from '../agent/tools.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+const TTLS = { [PRODUCT_SEARCH]: 60, [PRODUCT_GET]: 300 };
+
+function createMockDependencies(store: IToolResultCacheStore = new InMemoryToolResultCacheStore({ maxEntries: 100 })) {
+  const tokenProvider = {
+    getAccessToken: vi.fn().mockResolvedValue('test-access-token'),
+  };
+  const mcpClient = {
+    callTool: vi.fn().mockImplementation((_state: McpState, _name: string, args: Record<string, unknown>) =>
+      Promise.resolve({ productId: args.productId, name: `Product ${String(args.productId)}` })),
+    callToolsBatch: vi.fn().mockImplementation((_state: McpState, calls: Array<{ args: Record<string, unknown> }>) =>
+      Promise.resolve(calls.map((call) => ({ ok: true, result: { productId: call.args.productId, name: 'Batched' } })))),
+  };
+  const toolCache = new McpToolCache({ store, ttlSeconds: TTLS });
+  return {
+    tokenProvider,
+    mcpClient,
+    toolCache,
+    asDeps: () => ({ tokenProvider, mcpClient, toolCache }) as unknown as ToolHandlerDependencies,
+  };
+}
+
+describe('buildToolCacheKey', () => {
+  const context = { cultureCode: 'sv-SE', currencyCode: 'SEK', priceListIds: [2, 1], salesAreaId: 10 };
+
+  it('should separate price lists, currencies and applications', () => {
+    const key = buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jacket', context });
+
+    expect(buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jacket', context: { ...context, priceListIds: [3] } })).not.toBe(key);
+    expect(buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jacket', context: { ...context, currencyCode: 'EUR' } })).not.toBe(key);
+    expect(buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jacket', context: { ...context, salesAreaId: 11 } })).not.toBe(key);
+    expect(buildToolCacheKey('app-2', PRODUCT_SEARCH, { query: 'jacket', context })).not.toBe(key);
+    expect(buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jackets', context })).not.toBe(key);
+    expect(key.startsWith('app-1:product.search:')).toBe(true);
+  });
+
+  it('should ignore argument order, price list order and per-session context', () => {
+    const key = buildToolCacheKey('app-1', PRODUCT_SEARCH, { query: 'jacket', pageSize: 5, context });
+
+    expect(buildToolCacheKey('app-1', PRODUCT_SEARCH, {
+      context: { salesAreaId: 10, priceListIds: [1, 2], currencyCode: 'SEK', cultureCode: 'sv-SE', clientIp: '203.0.113.7', basketId: 'b-1' },
+      pageSize: 5,
+      query: 'jacket',
+    })).toBe(key);
+  });
+});
+
+describe('InMemoryToolResultCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryToolResultCacheStore({ maxEntries: 10 });
+
+    await store.set('a', { value: 1 }, 60);
+    expect(await store.get('a')).toEqual({ value: 1 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry and return copies', async () => {
+    const store = new InMemoryToolResultCacheStore({ maxEntries: 2 });
+    await store.set('a', { value: 1 }, 60);
+    await store.set('b', { value: 2 }, 60);
+
+    const a = await store.get('a') as { value: number };
+    a.value = 99;
+    await store.set('c', { value: 3 }, 60);
+
+    expect(await store.get('a')).toEqual({ value: 1 });
+    expect(await store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('RedisToolResultCacheStore', () => {
+  it('should store JSON results under its own prefix', async () => {
+    const store = new RedisToolResultCacheStore({ redisUrl: 'redis://localhost:6379', prefix: 'test:toolcache:' });
+
+    await store.set('app-1:product.get:abc', { productId: 1, name: 'Jacket' }, 300);
+
+    expect(await store.get('app-1:product.get:abc')).toEqual({ productId: 1, name: 'Jacket' });
+    expect(await store.get('app-1:product.get:missing')).toBeUndefined();
+    await store.close();
+  });
+});
+
+describe('McpToolCache', () => {
+  const mcpState: McpState = { nextRpcId: 1 };
+
+  it('should serve repeated calls from the cache and record hits and misses', async () => {
+    const mocks = createMockDependencies();
+    const events: ToolCacheEvent[] = [];
+    const args = { productId: 1, context: { cultureCode: 'sv-SE', priceListIds: [1] } };
+
+    const first = await collectToolCacheEvents(events, () =>
+      mocks.toolCache.callTool(mocks.asDeps().mcpClient, mcpState, PRODUCT_GET, args, 'token', 'app-1'));
+    const second = await collectToolCacheEvents(events, () =>
+      mocks.toolCache.callTool(mocks.asDeps().mcpClient, mcpState, PRODUCT_GET, args, 'token', 'app-1'));
+
+    expect(second).toEqual(first);
+    expect(mocks.mcpClient.callTool).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([{ mcpTool: PRODUCT_GET, hit: false }, { mcpTool: PRODUCT_GET, hit: true }]);
+  });
+
+  it('should bypass the cache for cart tools', async () => {
+    const mocks = createMockDependencies();
+    const events: ToolCacheEvent[] = [];
+
+    await collectToolCacheEvents(events, async () => {
+      await mocks.toolCache.callTool(mocks.asDeps().mcpClient, mcpState, CART_GET, { basketId: 'b-1' }, 'token', 'app-1');
+      await mocks.toolCache.callTool(mocks.asDeps().mcpClient, mcpState, CART_GET, { basketId: 'b-1' }, 'token', 'app-1');
+    });
+
+    expect(mocks.toolCache.isCacheable(CART_GET)).toBe(false);
+    expect(mocks.mcpClient.callTool).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([]);
+  });
+
+  it('should call MCP when the cache store fails', async () => {
+    const store: IToolResultCacheStore = {
+      get: vi.fn().mockRejectedValue(new Error('Connection is closed.')),
+      set: vi.fn().mockRejectedValue(new Error('Connection is closed.')),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    const mocks = createMockDependencies(store);
+
+    const result = await mocks.toolCache.callTool(mocks.asDeps().mcpClient, mcpState, PRODUCT_GET, { productId: 1 }, 'token', 'app-1');
+
+    expect(result).toEqual({ productId: 1, name: 'Product 1' });
+    expect(mocks.mcpClient.callTool).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('product handlers with the tool cache', () => {
+  const mcpState: McpState = { nextRpcId: 1 };
+
+  it('should not share cached products between price lists', async () => {
+    const mocks = createMockDependencies();
+    const handler = createProductGetHandler(mocks.asDeps());
+
+    await handler({ productId: '1' }, mcpState, { cultureCode: 'sv-SE', priceListIds: [1] }, 'app-1');
+    await handler({ productId: '1' }, mcpState, { cultureCode: 'sv-SE', priceListIds: [1] }, 'app-1');
+    await handler({ productId: '1' }, mcpState, { cultureCode: 'sv-SE', priceListIds: [2] }, 'app-1');
+
+    expect(mocks.mcpClient.callTool).toHaveBeenCalledTimes(2);
+    expect(mocks.mcpClient.callTool.mock.calls[1][2]).toEqual({ productId: 1, context: { cultureCode: 'sv-SE', priceListIds: [2] } });
+  });
+
+  it('should only batch the products that are not cached', async () => {
+    const mocks = createMockDependencies();
+    const getProductsBatch = createGetProductsBatch(mocks.asDeps());
+    await createProductGetHandler(mocks.asDeps())({ productId: '2' }, mcpState, undefined, 'app-1');
+
+    const items = await getProductsBatch(['1', '2', '3'], mcpState, undefined, 'app-1');
+
+    expect(items.map((item) => item.ok)).toEqual([true, true, true]);
+    expect(mocks.mcpClient.callToolsBatch).toHaveBeenCalledWith(
+      mcpState,
+      [{ name: PRODUCT_GET, args: { productId: 1 } }, { name: PRODUCT_GET, args: { productId: 3 } }],
+      'test-access-token',
+      'app-1'
+    );
+
+    await getProductsBatch(['1', '3'], mcpState, undefined, 'app-1');
+    expect(mocks.mcpClient.callToolsBatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentRunner tool trace', () => {
+  it('should include cache hits and misses per tool call', async () => {
+    const mocks = createMockDependencies();
+    const handler = createProductGetHandler(mocks.asDeps());
+    const tool = {
+      name: 'product_get',
+      description: 'Get a product',
+      parameters: z.object({ productId: z.string() }),
+      execute: (params: Record<string, unknown>, mcpState: McpState, context: undefined, applicationId?: string) =>
+        handler({ productId: params.productId as string }, mcpState, context, applicationId),
+    } as unknown as Tool;
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'product_get', arguments: { productId: '1' } }] },
+        { toolCalls: [{ name: 'product_get', arguments: { productId: '1' } }] },
+        { content: 'Here it is.' },
+      ],
+    });
+    const runner = new AgentRunner({ tools: [tool], llmProvider: provider, compaction: false });
+
+    const result = await runner.runAgentTurn('Show product 1', [], { nextRpcId: 1 }, undefined, undefined, undefined, 'app-1');
+
+    expect(result.toolTrace.map((entry) => entry.cache)).toEqual([
+      [{ mcpTool: PRODUCT_GET, hit: false }],
+      [{ mcpTool: PRODUCT_GET, hit: true }],
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 4,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import { ToolRegistry, isToolEnabled, isToolSupported, toolRequiresConfirmation } from '../agent/toolRegistry.js';
+import { AgentRunner, type StreamingCallbacks } from '../agent/agentRunner.js';
+import { handleChat } from '../routes/chatHandler.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { Tool } from '../agent/tools.js';
+
+function builtInTool(name: string): Tool {
+  return {
+    name,
+    description: name,
+    parameters: z.object({}),
+    execute: async () => ({ ok: true }),
+  };
+}
+
+function createRegistry(handler = vi.fn(async (args: { city: string }) => ({ stores: [`${args.city} City`] }))) {
+  const registry = new ToolRegistry([builtInTool('product_search'), builtInTool('cart_add_item')]);
+  registry
+    .register({
+      name: 'store_lookup',
+      description: 'Find stores near a city.',
+      parameters: z.object({ city: z.string() }),
+      handler,
+      displayName: 'Finding stores',
+      statusCopy: {
+        en: { start: 'Looking for stores...' },
+        sv: { displayName: 'Söker butiker', start: 'Letar efter butiker...' },
+      },
+      applicationIds: ['store-se'],
+    })
+    .register({
+      name: 'gift_wrap_order',
+      description: 'Add gift wrapping to the order.',
+      parameters: z.object({ message: z.string() }),
+      handler: async () => ({ wrapped: true }),
+      displayName: 'Gift wrapping',
+      mutating: true,
+    });
+  return { registry, handler };
+}
+
+describe('ToolRegistry', () => {
+  it('should reject duplicate and invalid tool names', () => {
+    const { registry } = createRegistry();
+    const plugin = {
+      description: 'x',
+      parameters: z.object({}),
+      handler: async () => ({}),
+      displayName: 'X',
+    };
+
+    expect(() => registry.register({ ...plugin, name: 'product_search' })).toThrow('already registered');
+    expect(() => registry.register({ ...plugin, name: 'store lookup' })).toThrow('Invalid tool name');
+    expect(registry.has('store lookup')).toBe(false);
+  });
+
+  it('should only enable tools for their applicationIds', () => {
+    const { registry } = createRegistry();
+
+    expect(registry.getToolsForApplication('store-se').map((tool) => tool.name)).toEqual([
+      'product_search', 'cart_add_item', 'store_lookup', 'gift_wrap_order',
+    ]);
+    expect(registry.getToolsForApplication('store-no').map((tool) => tool.name)).toEqual([
+      'product_search', 'cart_add_item', 'gift_wrap_order',
+    ]);
+    expect(isToolEnabled(registry.getTools()[2], undefined)).toBe(false);
+  });
+
+  it('should require confirmation for mutating tools and built-in cart mutations', () => {
+    const tools = new Map(createRegistry().registry.getTools().map((tool) => [tool.name, tool]));
+
+    expect(toolRequiresConfirmation(tools.get('cart_add_item')!)).toBe(true);
+    expect(toolRequiresConfirmation(tools.get('gift_wrap_order')!)).toBe(true);
+    expect(toolRequiresConfirmation(tools.get('store_lookup')!)).toBe(false);
+    expect(toolRequiresConfirmation(tools.get('product_search')!)).toBe(false);
+  });
+});
+
+describe('isToolSupported', () => {
+  it('should hide tools whose MCP capabilities the server did not advertise', () => {
+    const tool: Tool = { ...builtInTool('resource_read'), requiredCapabilities: ['resources'] };
+
+    expect(isToolSupported(tool, { nextRpcId: 1 })).toBe(true);
+    expect(isToolSupported(tool, { nextRpcId: 3, serverCapabilities: { tools: {} } })).toBe(false);
+    expect(isToolSupported(tool, { nextRpcId: 3, serverCapabilities: { tools: {}, resources: {} } })).toBe(true);
+    expect(isToolSupported(builtInTool('product_search'), { nextRpcId: 3, serverCapabilities: {} })).toBe(true);
+  });
+});
+
+describe('AgentRunner with registered tools', () => {
+  const mcpState = () => ({ sessionId: undefined, nextRpcId: 1 });
+
+  it('should offer and run a tool only for the applications it is enabled for', async () => {
+    const { registry, handler } = createRegistry();
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { toolCalls: [{ name: 'store_lookup', arguments: { city: 'Malmö' } }] },
+        { content: 'There is a store in Malmö.' },
+        { toolCalls: [{ name: 'store_lookup', arguments: { city: 'Oslo' } }] },
+        { content: 'No stores.' },
+      ],
+    });
+    const runner = new AgentRunner({ tools: registry.getTools(), llmProvider: provider, compaction: false });
+    const events: string[] = [];
+    const callbacks: StreamingCallbacks = {
+      onStatus: (message) => events.push(`status:${message}`),
+      onToolStart: (_tool, displayName) => events.push(`tool_start:${displayName}`),
+      onToolEnd: (_tool, displayName, ok) => events.push(`tool_end:${displayName}:${ok}`),
+    };
+
+    const enabled = await runner.runAgentTurn('Stores in Malmö?', [], mcpState(), undefined, callbacks, undefined, 'store-se', 'sv');
+    const disabled = await runner.runAgentTurn('Stores in Oslo?', [], mcpState(), undefined, undefined, undefined, 'store-no');
+
+    expect(provider.calls[0].tools?.map((tool) => tool.name)).toContain('store_lookup');
+    expect(provider.calls[2].tools?.map((tool) => tool.name)).not.toContain('store_lookup');
+    expect(enabled.toolTrace[0].result).toEqual({ stores: ['Malmö City'] });
+    expect(events).toContain('status:Letar efter butiker...');
+    expect(events).toContain('tool_start:Söker butiker');
+    expect(events).toContain('tool_end:Söker butiker:true');
+    expect(disabled.toolTrace[0].error).toBe('Unknown tool: store_lookup');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Mutating registered tools through handleChat', () => {
+  let sessionStore: InMemorySessionStore;
+
+  beforeEach(() => {
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(() => {
+    sessionStore.destroy();
+  });
+
+  it('should ask for confirmation by display name and run the handler on "ja"', async () => {
+    const handler = vi.fn(async () => ({ wrapped: true }));
+    const registry = new ToolRegistry().register({
+      name: 'gift_wrap_order',
+      description: 'Add gift wrapping to the order.',
+      parameters: z.object({ message: z.string() }),
+      handler,
+      displayName: 'Presentinslagning',
+      mutating: true,
+    });
+    const provider = new ScriptedLlmProvider({
+      steps: [{ toolCalls: [{ name: 'gift_wrap_order', arguments: { message: 'Grattis!' } }] }],
+    });
+    const agentRunner = new AgentRunner({ tools: registry.getTools(), llmProvider: provider, compaction: false });
+    const send = (message: string) => handleChat(
+      { applicationId: 'demo', sessionId: 'gift-session', message, context: { cultureCode: 'sv-SE' } },
+      { sessionStore, agentRunner }
+    );
+
+    const first = await send('Slå in paketet');
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(first.body.pendingAction?.tool).toBe('gift_wrap_order');
+    expect(first.body.text).toBe('Jag kan köra "Presentinslagning" åt dig. Vill du att jag fortsätter?');
+    expect(first.body.confirmation?.prompt).toBe(first.body.text);
+
+    const second = await send('ja');
+
+    expect(handler).toHaveBeenCalledWith({ message: 'Grattis!' }, expect.anything(), expect.anything(), 'demo');
+    expect(second.body.pendingAction).toBeUndefined();
+    expect(provider.calls).toHaveLength(1);
+  });
+});
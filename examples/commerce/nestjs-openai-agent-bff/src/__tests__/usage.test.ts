@@ -0,0 +1,346 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import { z } from 'zod';
+
+vi.mock('ioredis', () => ({
+  Redis: RedisMock,
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    port: 3000,
+    openai: {
+      apiKey: 'test-api-key',
+      model: 'gpt-4o-mini',
+    },
+    llm: {
+      priceTable: {
+        'local-llama': { input: 0, output: 0 },
+        'gpt-4o': { input: 5, output: 15 },
+      },
+    },
+    norce: {
+      mcp: {
+        baseUrl: 'https://test.api.norce.tech/mcp/commerce',
+        defaultApplicationId: 'test-app-id',
+        allowedApplicationIds: [],
+      },
+    },
+    session: {
+      ttlSeconds: 1800,
+    },
+    agent: {
+      maxRounds: 6,
+      maxToolCallsPerRound: 3,
+    },
+    debug: false,
+    limits: {
+      bodyLimitBytes: 131072,
+      maxMessageChars: 4000,
+      maxMessageTokensEst: 1200,
+    },
+  },
+}));
+
+import {
+  estimateCostUsd,
+  resolveModelPrice,
+  UsageMeter,
+  UsageLedger,
+  RedisUsageLedger,
+  addTurnToSessionUsage,
+  toUtcDay,
+  type TurnUsage,
+} from '../usage/index.js';
+import { AgentRunner } from '../agent/agentRunner.js';
+import { handleChat } from '../routes/chatHandler.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { ScriptedLlmProvider } from '../llm/index.js';
+import type { LlmProvider } from '../llm/llmTypes.js';
+import type { Tool } from '../agent/tools.js';
+import { AppError } from '../errors/index.js';
+
+const usage = (promptTokens: number, completionTokens: number, cachedTokens = 0) => ({
+  promptTokens,
+  completionTokens,
+  cachedTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+describe('pricing', () => {
+  it('should resolve dated model snapshots to the base model price', () => {
+    expect(resolveModelPrice('gpt-4o-mini-2024-07-18')).toEqual(resolveModelPrice('gpt-4o-mini'));
+    expect(resolveModelPrice('gpt-4o-2024-08-06')?.input).toBe(5);
+    expect(resolveModelPrice('unknown-model')).toBeUndefined();
+  });
+
+  it('should bill cached prompt tokens at the cached input price', () => {
+    // gpt-4o-mini: 0.15 input, 0.075 cached input, 0.6 output per 1M tokens
+    const cost = estimateCostUsd('gpt-4o-mini', usage(1_000_000, 1_000_000, 400_000));
+
+    expect(cost).toBeCloseTo(0.6 * 0.15 + 0.4 * 0.075 + 0.6, 10);
+  });
+
+  it('should honor configured price overrides', () => {
+    expect(estimateCostUsd('local-llama', usage(5000, 500))).toBe(0);
+    expect(estimateCostUsd('gpt-4o', usage(1_000_000, 0))).toBe(5);
+    expect(estimateCostUsd('unknown-model', usage(10, 10))).toBeUndefined();
+  });
+});
+
+describe('UsageMeter', () => {
+  it('should record each metered call with purpose, model and cost', async () => {
+    const provider: LlmProvider = {
+      name: 'fake',
+      runWithTools: vi.fn().mockResolvedValue({
+        content: 'ok',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: usage(1000, 100, 200),
+        model: 'gpt-4o-mini-2024-07-18',
+      }),
+    };
+    const meter = new UsageMeter();
+
+    await meter.wrap(provider, 'agent').runWithTools({ input: [] });
+    await meter.wrap(provider, 'comparison').runWithTools({ input: [] });
+
+    const turn = meter.summarize()!;
+    expect(turn.calls.map((c) => c.purpose)).toEqual(['agent', 'comparison']);
+    expect(turn.calls[0]).toMatchObject({ model: 'gpt-4o-mini-2024-07-18', cachedTokens: 200, priced: true });
+    expect(turn.promptTokens).toBe(2000);
+    expect(turn.totalTokens).toBe(2200);
+    expect(turn.costUsd).toBeCloseTo(2 * estimateCostUsd('gpt-4o-mini', usage(1000, 100, 200))!, 12);
+  });
+
+  it('should mark unknown models as unpriced and skip responses without usage', async () => {
+    const meter = new UsageMeter();
+    meter.record('agent', 'mystery', usage(10, 10));
+    const noUsage: LlmProvider = {
+      name: 'fake',
+      runWithTools: vi.fn().mockResolvedValue({ content: 'ok', toolCalls: [], finishReason: 'stop' }),
+    };
+    await meter.wrap(noUsage, 'agent').runWithTools({ input: [] });
+
+    const turn = meter.summarize()!;
+    expect(turn.calls).toHaveLength(1);
+    expect(turn.calls[0]).toMatchObject({ priced: false, costUsd: 0 });
+  });
+
+  it('should return undefined when nothing was metered', () => {
+    expect(new UsageMeter().summarize()).toBeUndefined();
+  });
+});
+
+describe('addTurnToSessionUsage', () => {
+  it('should sum turns into session totals', () => {
+    const meter = new UsageMeter();
+    meter.record('agent', 'gpt-4o-mini', usage(100, 10));
+    const turn = meter.summarize()!;
+
+    const first = addTurnToSessionUsage(undefined, turn);
+    const second = addTurnToSessionUsage(first, turn);
+
+    expect(second).toMatchObject({ turns: 2, llmCalls: 2, promptTokens: 200, completionTokens: 20, totalTokens: 220 });
+    expect(second.costUsd).toBeCloseTo(turn.costUsd * 2, 12);
+  });
+});
+
+describe('UsageLedger', () => {
+  function turnOf(costUsd: number): TurnUsage {
+    return {
+      calls: [{ purpose: 'agent', model: 'gpt-4o-mini', priced: true, ...usage(100, 10), costUsd }],
+      ...usage(100, 10),
+      costUsd,
+    };
+  }
+
+  it('should aggregate usage per applicationId and UTC day', () => {
+    const ledger = new UsageLedger();
+    const day1 = Date.UTC(2026, 0, 1, 12);
+    const day2 = Date.UTC(2026, 0, 2, 12);
+
+    ledger.record('app-a', 's1', turnOf(0.01), day1);
+    ledger.record('app-a', 's2', turnOf(0.02), day1);
+    ledger.record('app-a', 's1', turnOf(0.03), day2);
+    ledger.record('app-b', 's3', turnOf(0.5), day1);
+
+    const appA = ledger.get('app-a', '2026-01-01')!;
+    expect(appA).toMatchObject({ turns: 2, sessions: 2, llmCalls: 2, promptTokens: 200 });
+    expect(appA.costUsd).toBeCloseTo(0.03, 12);
+    expect(ledger.list({ applicationId: 'app-a' }).map((u) => u.day)).toEqual(['2026-01-02', '2026-01-01']);
+    expect(ledger.list({ day: '2026-01-01' }).map((u) => u.applicationId)).toEqual(['app-a', 'app-b']);
+  });
+
+  it('should drop days outside the retention window', () => {
+    const ledger = new UsageLedger({ retentionDays: 2 });
+
+    ledger.record('app-a', 's1', turnOf(0.01), Date.UTC(2026, 0, 1));
+    ledger.record('app-a', 's1', turnOf(0.01), Date.UTC(2026, 0, 3));
+
+    expect(ledger.get('app-a', '2026-01-01')).toBeNull();
+    expect(ledger.get('app-a', '2026-01-03')).not.toBeNull();
+  });
+});
+
+describe('RedisUsageLedger', () => {
+  const ledgers: RedisUsageLedger[] = [];
+
+  function open(prefix: string): RedisUsageLedger {
+    const ledger = new RedisUsageLedger({ redisUrl: 'redis://localhost:6379', prefix });
+    ledgers.push(ledger);
+    return ledger;
+  }
+
+  function turnOf(costUsd: number): TurnUsage {
+    return {
+      calls: [{ purpose: 'agent', model: 'gpt-4o-mini', priced: true, ...usage(100, 10, 40), costUsd }],
+      ...usage(100, 10, 40),
+      costUsd,
+    };
+  }
+
+  afterEach(async () => {
+    await Promise.all(ledgers.splice(0).map((ledger) => ledger.close()));
+  });
+
+  it('should share totals between instances', async () => {
+    const instanceA = open('test:usage:shared:');
+    const instanceB = open('test:usage:shared:');
+    await instanceA.record('app-a', 's1', turnOf(0.01));
+    await instanceB.record('app-a', 's2', turnOf(0.02));
+    await instanceB.record('app-a', 's1', turnOf(0.03));
+
+    const appA = await instanceA.get('app-a');
+    expect(appA).toMatchObject({
+      applicationId: 'app-a',
+      day: toUtcDay(Date.now()),
+      turns: 3,
+      sessions: 2,
+      llmCalls: 3,
+      promptTokens: 300,
+      completionTokens: 30,
+      cachedTokens: 120,
+      totalTokens: 330,
+    });
+    expect(appA!.costUsd).toBeCloseTo(0.06, 12);
+    expect(await instanceA.get('app-b')).toBeNull();
+  });
+
+  it('should list buckets newest day first with filters', async () => {
+    const ledger = open('test:usage:list:');
+    const today = Date.now();
+    const yesterday = today - 24 * 60 * 60 * 1000;
+
+    await ledger.record('app-a', 's1', turnOf(0.01), yesterday);
+    await ledger.record('app-a', 's1', turnOf(0.01), today);
+    await ledger.record('app-b', 's2', turnOf(0.01), yesterday);
+    // Older than the retention window: expires right away
+    await ledger.record('app-a', 's1', turnOf(0.01), today - 40 * 24 * 60 * 60 * 1000);
+
+    expect((await ledger.list({ applicationId: 'app-a' })).map((u) => u.day)).toEqual([toUtcDay(today), toUtcDay(yesterday)]);
+    expect((await ledger.list({ day: toUtcDay(yesterday) })).map((u) => u.applicationId)).toEqual(['app-a', 'app-b']);
+  });
+});
+
+describe('Usage accounting through handleChat', () => {
+  let sessionStore: InMemorySessionStore;
+
+  beforeEach(() => {
+    sessionStore = new InMemorySessionStore({ ttlSeconds: 1800 });
+  });
+
+  afterEach(() => {
+    sessionStore.destroy();
+  });
+
+  it('should capture per-round usage and accumulate it in the session and ledger', async () => {
+    const provider = new ScriptedLlmProvider({
+      steps: [
+        { content: 'Hello!', usage: usage(1200, 30, 1000) },
+        { content: 'Sure.', usage: usage(1500, 20, 1200) },
+      ],
+    });
+    const agentRunner = new AgentRunner({ tools: [], llmProvider: provider, compaction: false });
+    const usageLedger = new UsageLedger();
+    const send = (message: string) => handleChat(
+      { applicationId: 'demo', sessionId: 'usage-session', message, context: {}, debugEnabled: true },
+      { sessionStore, agentRunner, usageLedger }
+    );
+
+    const first = await send('Hi');
+    const second = await send('Thanks');
+
+    expect(first.agentResult?.usage?.calls).toEqual([
+      expect.objectContaining({ purpose: 'agent', model: 'gpt-4o-mini', promptTokens: 1200, cachedTokens: 1000 }),
+    ]);
+    expect(second.body.debug?.usage?.turn.promptTokens).toBe(1500);
+    expect(second.body.debug?.usage?.session).toMatchObject({ turns: 2, llmCalls: 2, promptTokens: 2700, completionTokens: 50 });
+
+    const session = await sessionStore.get('demo:usage-session');
+    expect(session?.usage?.totalTokens).toBe(2750);
+    expect(usageLedger.get('demo')).toMatchObject({ turns: 2, sessions: 1, totalTokens: 2750 });
+    expect(usageLedger.get('demo')!.costUsd).toBeCloseTo(session!.usage!.costUsd, 12);
+  });
+
+  describe('when a turn fails after metered calls', () => {
+    const searchTool: Tool = {
+      name: 'product_search',
+      description: 'Search for products',
+      parameters: z.object({ query: z.string() }),
+      execute: async () => ({
+        items: [{ productId: '101', name: 'Trail Runner 2' }],
+        totalCount: 1,
+        cards: [{ productId: '101', title: 'Trail Runner 2' }],
+      }),
+    };
+
+    function createRunner(error: unknown): AgentRunner {
+      const llmProvider: LlmProvider = {
+        name: 'failing',
+        runWithTools: vi.fn()
+          .mockResolvedValueOnce({
+            content: null,
+            toolCalls: [{ id: 'call_1', name: 'product_search', arguments: '{"query":"running shoes"}' }],
+            finishReason: 'tool_calls',
+            usage: usage(1000, 50),
+          })
+          .mockRejectedValue(error),
+      };
+      return new AgentRunner({ tools: [searchTool], llmProvider, compaction: false });
+    }
+
+    const send = (agentRunner: AgentRunner, usageLedger: UsageLedger) => handleChat(
+      { applicationId: 'demo', sessionId: 'failed-session', message: 'running shoes', context: {}, debugEnabled: true },
+      { sessionStore, agentRunner, usageLedger }
+    );
+
+    it('should record the usage when the search-only fallback answers', async () => {
+      const usageLedger = new UsageLedger();
+
+      const result = await send(createRunner(AppError.openaiTimeout({ timeoutMs: 30000 })), usageLedger);
+
+      expect(result.body.degraded).toBe(true);
+      expect(result.body.debug?.usage?.turn.totalTokens).toBe(1050);
+      expect((await sessionStore.get('demo:failed-session'))?.usage).toMatchObject({ turns: 1, llmCalls: 1, totalTokens: 1050 });
+      expect(usageLedger.get('demo')).toMatchObject({ turns: 1, totalTokens: 1050 });
+    });
+
+    it('should record the usage and keep the conversation when the turn throws', async () => {
+      const usageLedger = new UsageLedger();
+      await sessionStore.set('demo:failed-session', {
+        conversation: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }],
+        mcp: { nextRpcId: 1 },
+        updatedAt: Date.now(),
+        expiresAt: Date.now() + 60000,
+      });
+
+      await expect(send(createRunner(new Error('tool loop failed')), usageLedger)).rejects.toThrow('tool loop failed');
+
+      const session = await sessionStore.get('demo:failed-session');
+      expect(session?.usage).toMatchObject({ turns: 1, totalTokens: 1050 });
+      expect(session?.conversation).toEqual([{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }]);
+      expect(usageLedger.get('demo')).toMatchObject({ turns: 1, totalTokens: 1050 });
+    });
+  });
+});
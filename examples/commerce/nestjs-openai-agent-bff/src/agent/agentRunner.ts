@@ -1,9 +1,10 @@
 import { z } from 'zod';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import { OpenAiClient, ToolDefinition, OpenAiResponse } from '../openai/OpenAiClient.js';
+import { OpenAiResponse } from '../openai/OpenAiClient.js';
+import type { LlmProvider, LlmMessage, LlmToolDefinition } from '../llm/llmTypes.js';
+import { createLlmProvider, resolveModelForApplication } from '../llm/llmProviderFactory.js';
 import { Tool } from './tools.js';
 import { config } from '../config.js';
-import type { McpState, ToolContext, WorkingMemory, PendingAction } from '../session/sessionTypes.js';
+import type { McpState, ToolContext, WorkingMemory, PendingAction, PendingActionKind, LastResultItem } from '../session/sessionTypes.js';
 import type { ProductCard, ComparisonBlock, RefinementAction } from '../http/responseTypes.js';
 import { SYSTEM_PROMPT, MAX_ROUNDS_FALLBACK_RESPONSE, MALFORMED_TOOL_ARGS_ERROR, buildProductMemoryContext } from './prompts.js';
 import { resolveCandidate, looksLikeSelectionIntent, buildResolverHint, resolveVariantChoice, buildVariantResolverHint } from './referenceResolver.js';
@@ -18,8 +19,10 @@ import {
   MAX_COMPARE,
   CompareProductData,
 } from './compare/index.js';
-import { isCartMutationTool, buildConfirmationMessage } from './confirmation.js';
+import { buildConfirmationMessage } from './confirmation.js';
+import { isReadOnlyTool, runBounded, DEFAULT_MAX_PARALLEL_TOOLS } from './parallelTools.js';
 import { getToolDisplayName } from './toolDisplayNames.js';
+import { isToolEnabled, isToolSupported, toolRequiresConfirmation } from './toolRegistry.js';
 import { buildDevStatus } from './statusMessages.js';
 import { StageId } from './statusCopy.js';
 import {
@@ -27,17 +30,36 @@ import {
   getLocalizedToolDisplayName,
   getLocalizedToolStartMessage,
   getLocalizedToolEndMessage,
+  getLocalizedToolProgressMessage,
   getLocalizedRoundMessage,
   type StatusLanguage,
   DEFAULT_STATUS_LANGUAGE,
 } from '../i18n/statusI18n.js';
-import type { VariantAvailabilitySummary, NormalizedProductDetails } from './product/index.js';
+import {
+  shouldEnrichSearchResults,
+  selectProductsToEnrich,
+  type VariantAvailabilitySummary,
+  type NormalizedProductDetails,
+} from './product/index.js';
+import type { GetProductsBatch } from './toolHandlers.js';
 import { normalizeProductGet } from './product/normalizeProductGet.js';
 import {
   checkVariantPreflight,
   type VariantPreflightResult,
 } from './variants/index.js';
 import type { VariantChoice } from '../session/sessionTypes.js';
+import {
+  compactConversation,
+  createLlmSummarizer,
+  type CompactionOptions,
+  type CompactionResult,
+} from './compaction/index.js';
+import { UsageMeter, attachTurnUsage, type TurnUsage } from '../usage/index.js';
+import { collectMcpSessionRecoveries, type McpSessionRecovery } from '../norce/mcpSessionRecovery.js';
+import { listenForMcpNotifications, type McpNotificationListener } from '../norce/mcpNotifications.js';
+import { collectToolCacheEvents, type ToolCacheEvent } from '../cache/McpToolCache.js';
+import { simplifySearchQueryWithDetails } from './search/index.js';
+import { AppError } from '../errors/AppError.js';
 import pino from 'pino';
 
 const logger = pino({ name: 'agentRunner' });
@@ -99,13 +121,17 @@ export interface ToolTraceEntry {
   };
   /** Count of results with thumbnailImageKey present (for debugging) */
   thumbnailsPresentCount?: number;
+  /** MCP sessions re-initialized (and the request replayed) during this tool call */
+  mcpSessionRecoveries?: McpSessionRecovery[];
+  /** Shared tool result cache lookups (hit/miss per MCP call) during this tool call */
+  cache?: ToolCacheEvent[];
 }
 
 /**
- * Information about a blocked cart mutation that needs confirmation.
+ * Information about a blocked cart mutation (or mutating registered tool) that needs confirmation.
  */
 export interface BlockedCartMutation {
-  kind: 'cart_add_item' | 'cart_set_item_quantity' | 'cart_remove_item';
+  kind: PendingActionKind;
   args: Record<string, unknown>;
 }
 
@@ -146,6 +172,10 @@ export interface AgentTurnResult {
   variantSummaries?: Map<string, VariantAvailabilitySummary>;
   /** Structured refinement actions for search fallback scenarios */
   refinements?: RefinementAction[];
+  /** Conversation compaction stats for this turn (only when history changed) */
+  compaction?: Omit<CompactionResult, 'messages'>;
+  /** Token usage and estimated cost of every LLM call in this turn (when the provider reports usage) */
+  usage?: TurnUsage;
 }
 
 /**
@@ -179,17 +209,47 @@ export class MalformedToolArgsError extends Error {
   }
 }
 
+/**
+ * Supplies per-turn additions to the system prompt (e.g. tenant instructions from MCP prompts).
+ * Returning undefined adds nothing; errors are logged and the turn continues without the addition.
+ */
+export type SystemPromptSource = (mcpState: McpState, applicationId?: string) => Promise<string | undefined>;
+
 /**
  * Options for creating an AgentRunner.
  */
 export interface AgentRunnerOptions {
   tools: Tool[];
-  openaiClient?: OpenAiClient;
+  /** LLM provider used for the agent loop (defaults to the configured provider) */
+  llmProvider?: LlmProvider;
+  /** @deprecated Use llmProvider. Kept for backward compatibility; any LlmProvider is accepted. */
+  openaiClient?: LlmProvider;
   openaiApiKey?: string;
   model?: string;
   systemPrompt?: string;
+  /** Per-turn text appended to the system prompt */
+  systemPromptSource?: SystemPromptSource;
   maxRounds?: number;
   maxToolCallsPerRound?: number;
+  /** Max read-only tool calls executed concurrently within a round (1 = sequential) */
+  maxParallelTools?: number;
+  /** Conversation compaction settings (defaults to config.compaction; false disables) */
+  compaction?: CompactionOptions | false;
+  /**
+   * Batched product.get, used to enrich search results with variant availability and to
+   * fetch compare candidates the model did not fetch (both skipped when not set)
+   */
+  getProductsBatch?: GetProductsBatch;
+}
+
+/**
+ * Per-turn limits applied on top of the runner's defaults (see policy/budgetPolicy).
+ */
+export interface AgentTurnLimits {
+  /** Model for this turn (e.g. a cheaper model once a soft budget is exceeded) */
+  model?: string;
+  /** Max agent rounds for this turn (overrides maxRounds) */
+  maxRounds?: number;
 }
 
 /**
@@ -223,27 +283,35 @@ export interface StreamingCallbacks {
  * - Debug tool trace collection
  */
 export class AgentRunner {
-  private readonly openaiClient: OpenAiClient;
+  private readonly llmProvider: LlmProvider;
   private readonly tools: Map<string, Tool>;
-  private readonly toolDefinitions: ToolDefinition[];
+  private readonly toolDefinitions: LlmToolDefinition[];
   private readonly model: string;
   private readonly systemPrompt: string;
+  private readonly systemPromptSource: SystemPromptSource | undefined;
   private readonly maxRounds: number;
   private readonly maxToolCallsPerRound: number;
+  private readonly maxParallelTools: number;
+  private readonly compaction: CompactionOptions | undefined;
+  private readonly getProductsBatch: GetProductsBatch | undefined;
 
   constructor(options: AgentRunnerOptions) {
-    const apiKey = options.openaiApiKey || config.openai.apiKey;
-    
-    this.openaiClient = options.openaiClient || new OpenAiClient({
-      apiKey,
-      defaultModel: options.model || config.openai.model,
+    this.llmProvider = options.llmProvider || options.openaiClient || createLlmProvider({
+      apiKey: options.openaiApiKey,
+      model: options.model,
     });
     
     this.tools = new Map(options.tools.map((tool) => [tool.name, tool]));
     this.model = options.model || config.openai.model;
     this.systemPrompt = options.systemPrompt || SYSTEM_PROMPT;
+    this.systemPromptSource = options.systemPromptSource;
+    this.getProductsBatch = options.getProductsBatch;
     this.maxRounds = options.maxRounds ?? config.agent.maxRounds;
     this.maxToolCallsPerRound = options.maxToolCallsPerRound ?? config.agent.maxToolCallsPerRound;
+    this.maxParallelTools = options.maxParallelTools ?? config.agent.maxParallelTools ?? DEFAULT_MAX_PARALLEL_TOOLS;
+    this.compaction = options.compaction === false
+      ? undefined
+      : options.compaction ?? (config.compaction?.enabled ? config.compaction : undefined);
 
     this.toolDefinitions = options.tools.map((tool) => {
       const jsonSchema = z.toJSONSchema(tool.parameters);
@@ -270,18 +338,32 @@ export class AgentRunner {
     return this.tools;
   }
 
+  /**
+   * Get a tool if it is enabled for the applicationId.
+   * Tools disabled for the application are treated as unknown.
+   *
+   * @param name - The tool name
+   * @param applicationId - The applicationId of the request
+   * @returns The tool, or undefined if unknown or disabled
+   */
+  getTool(name: string, applicationId?: string): Tool | undefined {
+    const tool = this.tools.get(name);
+    return tool && isToolEnabled(tool, applicationId) ? tool : undefined;
+  }
+
   /**
    * Run a single agent turn with bounded iterations.
    * 
    * This method:
-   * 1. Appends the user message to the conversation
-   * 2. Injects PRODUCT_MEMORY context if available
-   * 3. Injects resolver hint if deterministic resolution succeeds
-   * 4. Loops up to maxRounds times
-   * 5. Calls OpenAI with tool definitions
-   * 6. Executes any tool calls (up to maxToolCallsPerRound)
-   * 7. Appends tool outputs to conversation
-   * 8. Returns when no tool calls or bounds are hit
+   * 1. Compacts the conversation history (stale hints, rolling summary) when enabled
+   * 2. Appends the user message to the conversation
+   * 3. Injects PRODUCT_MEMORY context if available
+   * 4. Injects resolver hint if deterministic resolution succeeds
+   * 5. Loops up to maxRounds times
+   * 6. Calls OpenAI with tool definitions
+   * 7. Executes any tool calls (up to maxToolCallsPerRound)
+   * 8. Appends tool outputs to conversation
+   * 9. Returns when no tool calls or bounds are hit
    * 
    * @param userMessage - The user's message
    * @param conversation - The conversation history (will be mutated)
@@ -291,7 +373,9 @@ export class AgentRunner {
    * @param workingMemory - Optional working memory for reference resolution
    * @param applicationId - Optional application ID
    * @param statusLang - Optional language code for localized status messages
+   * @param limits - Optional per-turn model and round limits from the budget policy
    * @returns Result containing the assistant message and debug info
+   * @throws The turn's error, with the usage of calls made before it attached (see getTurnUsage)
    */
   async runAgentTurn(
     userMessage: string,
@@ -301,8 +385,188 @@ export class AgentRunner {
     callbacks?: StreamingCallbacks,
     workingMemory?: WorkingMemory,
     applicationId?: string,
+    statusLang?: 'en' | 'sv',
+    limits?: AgentTurnLimits
+  ): Promise<AgentTurnResult> {
+    const meter = new UsageMeter();
+    const model = limits?.model ?? resolveModelForApplication(applicationId, this.model);
+
+    let compaction: Omit<CompactionResult, 'messages'> | undefined;
+    let result: AgentTurnResult;
+    try {
+      // Compact history before this turn's hints are injected
+      compaction = await this.compactHistory(
+        conversation,
+        meter.wrap(this.llmProvider, 'compaction', model),
+        model
+      );
+
+      result = await this.runTurn(
+        userMessage,
+        conversation,
+        mcpState,
+        context,
+        callbacks,
+        workingMemory,
+        applicationId,
+        statusLang,
+        meter,
+        limits
+      );
+    } catch (error) {
+      // Calls made before the failure were still billed
+      attachTurnUsage(error, meter.summarize());
+      throw error;
+    }
+
+    const usage = meter.summarize();
+    return {
+      ...result,
+      ...(compaction && { compaction }),
+      ...(usage && { usage }),
+    };
+  }
+
+  /**
+   * Run product_search on the simplified user message without calling the model.
+   * Used by the chat handler as a search-only fallback while the LLM is unavailable,
+   * so users can still browse (and add results to the cart by ordinal later).
+   *
+   * The result has an empty message; the caller supplies the text.
+   *
+   * @param userMessage - The user's message
+   * @param mcpState - MCP session state for tool execution
+   * @param context - Optional context for tool execution
+   * @param callbacks - Optional callbacks for streaming events
+   * @param applicationId - Optional application ID
+   * @param statusLang - Optional language code for localized status messages
+   * @returns Result with cards, search candidates and refinements, or undefined when
+   *   product_search is not enabled or the message has no searchable words
+   * @throws The product_search error if the search fails
+   */
+  async runSearchOnlyTurn(
+    userMessage: string,
+    mcpState: McpState,
+    context?: ToolContext,
+    callbacks?: StreamingCallbacks,
+    applicationId?: string,
     statusLang?: 'en' | 'sv'
+  ): Promise<AgentTurnResult | undefined> {
+    const tool = this.getTool('product_search', applicationId);
+    const query = simplifySearchQueryWithDetails(userMessage).simplified;
+    if (!tool || !query) {
+      return undefined;
+    }
+
+    const lang: StatusLanguage = statusLang ?? DEFAULT_STATUS_LANGUAGE;
+    const args = { query };
+    const traceEntry: ToolTraceEntry = { tool: tool.name, args };
+    const recoveries: McpSessionRecovery[] = [];
+    const lookups: ToolCacheEvent[] = [];
+
+    callbacks?.onStatus?.(getLocalizedToolStartMessage(lang, tool.name, tool.statusCopy));
+    callbacks?.onToolStart?.(tool.name, this.localizedDisplayName(lang, tool), args);
+    let result: unknown;
+    try {
+      result = await collectMcpSessionRecoveries(recoveries, () =>
+        collectToolCacheEvents(lookups, () => tool.execute(args, mcpState, context, applicationId))
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      callbacks?.onToolEnd?.(tool.name, this.localizedDisplayName(lang, tool), false, undefined, errorMessage);
+      throw error;
+    }
+    callbacks?.onToolEnd?.(tool.name, this.localizedDisplayName(lang, tool), true, this.summarizeToolResult(result));
+
+    traceEntry.result = result;
+    if (recoveries.length > 0) {
+      traceEntry.mcpSessionRecoveries = recoveries;
+    }
+    if (lookups.length > 0) {
+      traceEntry.cache = lookups;
+    }
+
+    const collectedCards: ProductCard[] = [];
+    const searchCandidates: SearchCandidate[] = [];
+    this.extractCardsFromResult(result, collectedCards);
+    this.extractSearchCandidates(result, searchCandidates);
+
+    let refinements: RefinementAction[] | undefined;
+    if (result && typeof result === 'object') {
+      const searchResult = result as { refinements?: RefinementAction[]; querySimplification?: ToolTraceEntry['querySimplification'] };
+      if (searchResult.refinements && searchResult.refinements.length > 0) {
+        refinements = searchResult.refinements;
+      }
+      if (searchResult.querySimplification) {
+        traceEntry.querySimplification = searchResult.querySimplification;
+      }
+    }
+
+    return {
+      message: '',
+      toolTrace: [traceEntry],
+      roundsUsed: 0,
+      hitMaxRounds: false,
+      collectedCards,
+      selectedProductIds: [],
+      searchCandidates,
+      refinements,
+    };
+  }
+
+  /**
+   * Compact the conversation in place when compaction is enabled.
+   *
+   * @param conversation - The conversation history (will be mutated)
+   * @param llmProvider - Provider for LLM summaries
+   * @param model - Model for LLM summaries
+   * @returns Compaction stats, or undefined when compaction is disabled or changed nothing
+   */
+  private async compactHistory(
+    conversation: ConversationMessage[],
+    llmProvider: LlmProvider,
+    model: string
+  ): Promise<Omit<CompactionResult, 'messages'> | undefined> {
+    if (!this.compaction || conversation.length === 0) {
+      return undefined;
+    }
+
+    const summarizer = createLlmSummarizer(llmProvider, {
+      model,
+      maxTokens: this.compaction.summaryMaxTokens,
+    });
+    const { messages, ...stats } = await compactConversation(conversation, this.compaction, summarizer);
+
+    if (stats.droppedHints === 0 && stats.summarizedTurns === 0) {
+      return undefined;
+    }
+
+    conversation.splice(0, conversation.length, ...messages);
+    if (config.debug) {
+      logger.debug({ ...stats }, 'Conversation compacted');
+    }
+    return stats;
+  }
+
+  /**
+   * Run the agent loop for one turn (see runAgentTurn).
+   */
+  private async runTurn(
+    userMessage: string,
+    conversation: ConversationMessage[],
+    mcpState: McpState,
+    context?: ToolContext,
+    callbacks?: StreamingCallbacks,
+    workingMemory?: WorkingMemory,
+    applicationId?: string,
+    statusLang?: 'en' | 'sv',
+    meter: UsageMeter = new UsageMeter(),
+    limits?: AgentTurnLimits
   ): Promise<AgentTurnResult> {
+    const model = limits?.model ?? resolveModelForApplication(applicationId, this.model);
+    const maxRounds = limits?.maxRounds ?? this.maxRounds;
+    const llmProvider = meter.wrap(this.llmProvider, 'agent', model);
+    const comparisonProvider = meter.wrap(this.llmProvider, 'comparison', limits?.model ?? this.model);
     const toolTrace: ToolTraceEntry[] = [];
     const collectedCards: ProductCard[] = [];
     const selectedProductIds: string[] = [];
@@ -311,6 +575,7 @@ export class AgentRunner {
     const variantSummaries: Map<string, VariantAvailabilitySummary> = new Map(); // Track variant summaries per productId
     const normalizedProductDetails: Map<string, NormalizedProductDetails> = new Map(); // Track normalized product details for variant preflight
     let collectedRefinements: RefinementAction[] | undefined; // Track refinements from product_search
+    let searchEnriched = false;
     let roundsUsed = 0;
 
     // Inject PRODUCT_MEMORY context if available (before user message)
@@ -423,8 +688,15 @@ export class AgentRunner {
     });
 
     let lastToolName: string | undefined;
+    const systemPrompt = await this.resolveSystemPrompt(mcpState, applicationId);
+
+    // Only offer the tools enabled for this application and supported by the MCP server
+    const toolDefinitions = this.toolDefinitions.filter((definition) => {
+      const tool = this.getTool(definition.name, applicationId);
+      return tool !== undefined && isToolSupported(tool, mcpState);
+    });
     
-    for (let round = 0; round < this.maxRounds; round++) {
+    for (let round = 0; round < maxRounds; round++) {
       roundsUsed = round + 1;
       const isFirstRound = round === 0;
 
@@ -436,12 +708,14 @@ export class AgentRunner {
       // Emit developer status when debug mode is enabled (via onDevStatus callback)
       callbacks?.onDevStatus?.(buildDevStatus(roundsUsed));
 
-      const chatMessages = this.buildChatMessages(conversation);
+      const chatMessages = this.buildChatMessages(conversation, systemPrompt);
 
-      const response = await this.openaiClient.runWithTools({
+      // Not streamed: whether a round ends in tool calls is only known once the
+      // response is complete, and text from tool-call rounds must not reach the client
+      const response = await llmProvider.runWithTools({
         input: chatMessages,
-        tools: this.toolDefinitions,
-        model: this.model,
+        tools: toolDefinitions,
+        model,
       });
 
       if (response.toolCalls.length === 0) {
@@ -458,7 +732,10 @@ export class AgentRunner {
           compareIntentDetected,
           compareCandidateIds,
           productGetResults,
-          selectedProductIds
+          selectedProductIds,
+          comparisonProvider,
+          limits?.model,
+          { mcpState, context, applicationId }
         );
 
         return {
@@ -492,17 +769,22 @@ export class AgentRunner {
       };
       conversation.push(assistantMessage);
 
-      for (const toolCall of toolCallsToExecute) {
+      // Executions started ahead of their turn in the loop (consecutive read-only tools run concurrently)
+      const pendingExecutions = new Map<number, Promise<unknown>>();
+      const sessionRecoveries = new Map<number, McpSessionRecovery[]>();
+      const cacheEvents = new Map<number, ToolCacheEvent[]>();
+
+      for (const [index, toolCall] of toolCallsToExecute.entries()) {
         const traceEntry: ToolTraceEntry = {
           tool: toolCall.name,
           args: {},
         };
 
         try {
-          const parsedArgs = this.parseToolArguments(toolCall.name, toolCall.arguments);
+          const parsedArgs = this.parseToolArguments(toolCall.name, toolCall.arguments, applicationId);
           traceEntry.args = parsedArgs;
 
-          const tool = this.tools.get(toolCall.name);
+          const tool = this.getTool(toolCall.name, applicationId);
           if (!tool) {
             traceEntry.error = `Unknown tool: ${toolCall.name}`;
             callbacks?.onToolEnd?.(toolCall.name, getToolDisplayName(toolCall.name), false, undefined, `Unknown tool: ${toolCall.name}`);
@@ -515,9 +797,9 @@ export class AgentRunner {
             continue;
           }
 
-          // Check if this is a cart mutation tool that requires confirmation
-          if (isCartMutationTool(toolCall.name)) {
-            const kind = toolCall.name as 'cart_add_item' | 'cart_set_item_quantity' | 'cart_remove_item';
+          // Check if this is a cart mutation (or mutating registered tool) that requires confirmation
+          if (toolRequiresConfirmation(tool)) {
+            const kind: PendingActionKind = toolCall.name;
             
             // For cart_add_item, perform variant preflight check
             // NOTE: cart_add_item now uses partNo instead of productId
@@ -617,7 +899,7 @@ export class AgentRunner {
             }
             
             // Block the tool execution and return early with confirmation request
-            const confirmationMessage = buildConfirmationMessage(kind, parsedArgs);
+            const confirmationMessage = buildConfirmationMessage(kind, parsedArgs, getToolDisplayName(kind, tool));
             
             traceEntry.blockedByPolicy = true;
             traceEntry.pendingActionCreated = true;
@@ -650,12 +932,35 @@ export class AgentRunner {
             };
           }
 
-          // Emit user-friendly status message for tool start using localized statusCopy
-          callbacks?.onStatus?.(getLocalizedToolStartMessage(lang, toolCall.name));
-          
-          callbacks?.onToolStart?.(toolCall.name, getLocalizedToolDisplayName(lang, toolCall.name), parsedArgs);
+          if (!pendingExecutions.has(index)) {
+            // Start this call, plus any consecutive read-only calls after it
+            const batch = isReadOnlyTool(toolCall.name)
+              ? this.collectReadOnlyBatch(toolCallsToExecute, index, applicationId)
+              : [{ index, tool, args: parsedArgs }];
+            const executions = runBounded(batch.map((call) => async () => {
+              // Emit user-friendly status message for tool start using localized statusCopy
+              callbacks?.onStatus?.(getLocalizedToolStartMessage(lang, call.tool.name, call.tool.statusCopy));
+
+              callbacks?.onToolStart?.(call.tool.name, this.localizedDisplayName(lang, call.tool), call.args);
+
+              const recoveries: McpSessionRecovery[] = [];
+              sessionRecoveries.set(call.index, recoveries);
+              const lookups: ToolCacheEvent[] = [];
+              cacheEvents.set(call.index, lookups);
+              const execute = () => collectMcpSessionRecoveries(recoveries, () =>
+                collectToolCacheEvents(lookups, () => call.tool.execute(call.args, mcpState, context, applicationId))
+              );
+              const listener = this.createMcpNotificationListener(call.tool, lang, roundsUsed, callbacks);
+              return listener ? listenForMcpNotifications(listener, execute) : execute();
+            }), this.maxParallelTools);
+            batch.forEach((call, i) => {
+              // Failures surface when the result is awaited in order below
+              executions[i].catch(() => undefined);
+              pendingExecutions.set(call.index, executions[i]);
+            });
+          }
 
-          const result = await tool.execute(parsedArgs, mcpState, context, applicationId);
+          const result = await pendingExecutions.get(index);
           traceEntry.result = result;
 
           // Extract context injection metadata from result if available
@@ -682,18 +987,26 @@ export class AgentRunner {
           }
 
           const resultSummary = this.summarizeToolResult(result);
-          callbacks?.onToolEnd?.(toolCall.name, getLocalizedToolDisplayName(lang, toolCall.name), true, resultSummary);
+          callbacks?.onToolEnd?.(toolCall.name, this.localizedDisplayName(lang, tool), true, resultSummary);
           
           // Emit user-friendly status message on tool_end when it adds value
-          // For product_search, emit "Found some options." to provide feedback
-          if (toolCall.name === 'product_search') {
-            callbacks?.onStatus?.(getLocalizedToolEndMessage(lang, toolCall.name, true));
+          // For product_search, emit "Found some options." to provide feedback;
+          // registered tools opt in by providing endOk copy
+          const endOkCopy = tool.statusCopy?.[lang]?.endOk ?? tool.statusCopy?.[DEFAULT_STATUS_LANGUAGE]?.endOk;
+          if (toolCall.name === 'product_search' || endOkCopy) {
+            callbacks?.onStatus?.(getLocalizedToolEndMessage(lang, toolCall.name, true, tool.statusCopy));
           }
 
           this.extractCardsFromResult(result, collectedCards);
           this.extractSearchCandidates(result, searchCandidates);
           this.extractSelectedProductId(toolCall.name, parsedArgs, selectedProductIds);
 
+          // Enrich the first search of the turn with variant availability (enrichment policy)
+          if (toolCall.name === 'product_search' && !searchEnriched) {
+            searchEnriched = true;
+            await this.enrichSearchResults(userMessage, result, variantSummaries, mcpState, context, applicationId);
+          }
+
           // Extract refinements and querySimplification from product_search results
           if (toolCall.name === 'product_search') {
             if (result && typeof result === 'object') {
@@ -768,14 +1081,26 @@ export class AgentRunner {
           if (error instanceof MalformedToolArgsError) {
             throw error;
           }
+          // An incompatible MCP server or an open circuit fails every tool call; end the turn with an upstream error
+          if (error instanceof AppError
+            && (error.code === 'MCP_PROTOCOL_VERSION_UNSUPPORTED' || error.code === 'UPSTREAM_CIRCUIT_OPEN')) {
+            throw error;
+          }
 
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           traceEntry.error = errorMessage;
 
-          callbacks?.onToolEnd?.(toolCall.name, getLocalizedToolDisplayName(lang, toolCall.name), false, undefined, errorMessage);
+          const failedTool = this.tools.get(toolCall.name);
+          callbacks?.onToolEnd?.(
+            toolCall.name,
+            failedTool ? this.localizedDisplayName(lang, failedTool) : getLocalizedToolDisplayName(lang, toolCall.name),
+            false,
+            undefined,
+            errorMessage
+          );
           
           // Emit user-friendly status message on tool_end when ok=false
-          callbacks?.onStatus?.(getLocalizedToolEndMessage(lang, toolCall.name, false));
+          callbacks?.onStatus?.(getLocalizedToolEndMessage(lang, toolCall.name, false, failedTool?.statusCopy));
 
           conversation.push({
             role: 'tool',
@@ -784,6 +1109,15 @@ export class AgentRunner {
           });
         }
 
+        const recoveries = sessionRecoveries.get(index);
+        if (recoveries && recoveries.length > 0) {
+          traceEntry.mcpSessionRecoveries = recoveries;
+        }
+        const lookups = cacheEvents.get(index);
+        if (lookups && lookups.length > 0) {
+          traceEntry.cache = lookups;
+        }
+
         toolTrace.push(traceEntry);
         
         // Track last tool name for status stage determination in next round
@@ -809,7 +1143,10 @@ export class AgentRunner {
       compareIntentDetected,
       compareCandidateIds,
       productGetResults,
-      selectedProductIds
+      selectedProductIds,
+      comparisonProvider,
+      limits?.model,
+      { mcpState, context, applicationId }
     );
 
     return {
@@ -827,15 +1164,47 @@ export class AgentRunner {
     };
   }
 
+  /**
+   * Collect the run of consecutive read-only tool calls starting at `startIndex`.
+   * The run ends at the first call that is not read-only, unknown or has malformed
+   * arguments; those are handled one at a time by the tool loop.
+   *
+   * @param toolCalls - Tool calls of the current round
+   * @param startIndex - Index of the first (read-only) call
+   * @param applicationId - The applicationId of the request
+   * @returns Calls to start together, with their parsed arguments
+   */
+  private collectReadOnlyBatch(
+    toolCalls: Array<{ name: string; arguments: string }>,
+    startIndex: number,
+    applicationId?: string
+  ): Array<{ index: number; tool: Tool; args: Record<string, unknown> }> {
+    const batch: Array<{ index: number; tool: Tool; args: Record<string, unknown> }> = [];
+    for (let index = startIndex; index < toolCalls.length; index++) {
+      const toolCall = toolCalls[index];
+      const tool = this.getTool(toolCall.name, applicationId);
+      if (!tool || !isReadOnlyTool(toolCall.name) || toolRequiresConfirmation(tool)) {
+        break;
+      }
+      try {
+        batch.push({ index, tool, args: this.parseToolArguments(toolCall.name, toolCall.arguments, applicationId) });
+      } catch {
+        break;
+      }
+    }
+    return batch;
+  }
+
   /**
    * Parse and validate tool arguments.
    * 
    * @param toolName - Name of the tool
    * @param rawArgs - Raw JSON string of arguments
+   * @param applicationId - The applicationId of the request
    * @returns Parsed arguments object
    * @throws MalformedToolArgsError if parsing fails
    */
-  private parseToolArguments(toolName: string, rawArgs: string): Record<string, unknown> {
+  private parseToolArguments(toolName: string, rawArgs: string, applicationId?: string): Record<string, unknown> {
     let parsed: unknown;
     
     try {
@@ -853,7 +1222,7 @@ export class AgentRunner {
       );
     }
 
-    const tool = this.tools.get(toolName);
+    const tool = this.getTool(toolName, applicationId);
     if (tool) {
       const result = tool.parameters.safeParse(parsed);
       if (!result.success) {
@@ -869,16 +1238,150 @@ export class AgentRunner {
   }
 
   /**
-   * Build chat messages array for OpenAI API.
+   * Get the localized display name for a tool: status copy and status JSON first,
+   * then the display name declared by the tool.
+   *
+   * @param lang - The status language
+   * @param tool - The tool
+   * @returns The display name for streamed tool events
+   */
+  private localizedDisplayName(lang: StatusLanguage, tool: Tool): string {
+    const displayName = getLocalizedToolDisplayName(lang, tool.name, tool.statusCopy);
+    return displayName === tool.name ? getToolDisplayName(tool.name, tool) : displayName;
+  }
+
+  /**
+   * Enrich search results with variant availability when the enrichment policy asks for it.
+   * The selected products are fetched in one getProductsBatch call; products that fail
+   * are skipped and the search result is used as is.
+   *
+   * @param userMessage - The user's message (drives the policy)
+   * @param searchResult - The product_search result
+   * @param variantSummaries - Variant summaries of this turn (enriched in place)
+   */
+  private async enrichSearchResults(
+    userMessage: string,
+    searchResult: unknown,
+    variantSummaries: Map<string, VariantAvailabilitySummary>,
+    mcpState: McpState,
+    context?: ToolContext,
+    applicationId?: string
+  ): Promise<void> {
+    const cards = (searchResult as { cards?: ProductCard[] } | undefined)?.cards;
+    if (!this.getProductsBatch || !cards || cards.length === 0) {
+      return;
+    }
+
+    const lastResults: LastResultItem[] = cards.map((card, idx) => ({
+      index: idx + 1,
+      productId: card.productId,
+      name: card.title,
+      buyableVariantCount: variantSummaries.get(card.productId)?.buyableVariantCount,
+    }));
+    const decision = shouldEnrichSearchResults(userMessage, lastResults);
+    if (!decision.shouldEnrich) {
+      return;
+    }
+
+    const known = new Map(cards.map((card) => [card.productId, variantSummaries.has(card.productId)]));
+    const productIds = selectProductsToEnrich(cards.map((card) => card.productId), known)
+      .filter((productId) => !variantSummaries.has(productId));
+    if (productIds.length === 0) {
+      return;
+    }
+
+    try {
+      const items = await this.getProductsBatch(productIds, mcpState, context, applicationId);
+      for (const item of items) {
+        if (item.ok && item.result.variantSummary) {
+          variantSummaries.set(item.productId, item.result.variantSummary);
+        } else if (!item.ok) {
+          logger.warn({ productId: item.productId, error: item.error }, 'Search enrichment failed for product');
+        }
+      }
+      if (config.debug) {
+        logger.debug({ reason: decision.reason, productIds }, 'Search results enriched');
+      }
+    } catch (error) {
+      logger.warn({ err: error }, 'Search enrichment failed');
+    }
+  }
+
+  /**
+   * Forward MCP notifications of a running tool to the stream: progress with a known
+   * total as status (once per percentage), progress and server log messages as dev_status.
+   *
+   * @returns The listener, or undefined when nothing is streamed
+   */
+  private createMcpNotificationListener(
+    tool: Tool,
+    lang: StatusLanguage,
+    round: number,
+    callbacks?: StreamingCallbacks
+  ): McpNotificationListener | undefined {
+    if (!callbacks?.onStatus && !callbacks?.onDevStatus) {
+      return undefined;
+    }
+
+    let lastPercent: number | undefined;
+    return {
+      onProgress: (notification) => {
+        const { progress, total, message } = notification;
+        if (total && total > 0) {
+          const percent = Math.min(100, Math.round((progress / total) * 100));
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            callbacks.onStatus?.(getLocalizedToolProgressMessage(lang, tool.name, percent, tool.statusCopy));
+          }
+        }
+        callbacks.onDevStatus?.(buildDevStatus(round, {
+          message: `MCP progress for ${tool.name}: ${progress}${total ? `/${total}` : ''}`,
+          tool: tool.name,
+          progress,
+          total,
+          progressMessage: message,
+        }));
+      },
+      onLog: (notification) => {
+        callbacks.onDevStatus?.(buildDevStatus(round, {
+          message: `MCP ${notification.level} log during ${tool.name}`,
+          tool: tool.name,
+          level: notification.level,
+          logger: notification.logger,
+          data: notification.data,
+        }));
+      },
+    };
+  }
+
+  /**
+   * The system prompt for a turn: the base prompt plus the systemPromptSource addition, if any.
+   */
+  private async resolveSystemPrompt(mcpState: McpState, applicationId?: string): Promise<string> {
+    if (!this.systemPromptSource) {
+      return this.systemPrompt;
+    }
+    try {
+      const addition = await this.systemPromptSource(mcpState, applicationId);
+      return addition ? `${this.systemPrompt}\n\n${addition}` : this.systemPrompt;
+    } catch (error) {
+      logger.warn({ err: error, applicationId }, 'System prompt source failed - using the base prompt');
+      return this.systemPrompt;
+    }
+  }
+
+  /**
+   * Build chat messages array for the LLM provider.
    * 
    * @param conversation - The conversation history
-   * @returns Array of ChatCompletionMessageParam
+   * @param systemPrompt - The system prompt for this turn
+   * @returns Array of LlmMessage
    */
-  private buildChatMessages(conversation: ConversationMessage[]): ChatCompletionMessageParam[] {
-    const messages: ChatCompletionMessageParam[] = [
+  private buildChatMessages(conversation: ConversationMessage[], systemPrompt: string): LlmMessage[] {
+    const messages: LlmMessage[] = [
       {
         role: 'system',
-        content: this.systemPrompt,
+        content: systemPrompt,
       },
     ];
 
@@ -1170,14 +1673,39 @@ export class AgentRunner {
    * @param compareCandidateIds - Product IDs selected for comparison
    * @param productGetResults - Map of productId to raw product_get results
    * @param selectedProductIds - All product IDs selected via product_get
+   * @param llmProvider - Provider for comparison highlights (metered per turn)
+   * @param model - Optional model override for highlights (soft budget model)
+   * @param fetchScope - Session and context for fetching compare candidates with getProductsBatch
    * @returns Comparison result with comparison block and debug info, or null
    */
   private async buildComparisonIfNeeded(
     compareIntentDetected: boolean,
     compareCandidateIds: string[],
     productGetResults: Map<string, unknown>,
-    selectedProductIds: string[]
+    selectedProductIds: string[],
+    llmProvider: LlmProvider,
+    model?: string,
+    fetchScope?: { mcpState: McpState; context?: ToolContext; applicationId?: string }
   ): Promise<{ comparison: ComparisonBlock; debug: { productIds: string[]; productGetCallCount: number } } | null> {
+    // Fetch compare candidates the model did not fetch itself, in one batch
+    if (compareIntentDetected && compareCandidateIds.length >= 2 && this.getProductsBatch && fetchScope) {
+      const missingIds = compareCandidateIds.slice(0, MAX_COMPARE).filter(id => !productGetResults.has(id));
+      if (missingIds.length > 0) {
+        try {
+          const items = await this.getProductsBatch(missingIds, fetchScope.mcpState, fetchScope.context, fetchScope.applicationId);
+          for (const item of items) {
+            if (item.ok) {
+              productGetResults.set(item.productId, item.result);
+            } else {
+              logger.warn({ productId: item.productId, error: item.error }, 'Compare candidate fetch failed');
+            }
+          }
+        } catch (error) {
+          logger.warn({ err: error }, 'Compare candidate batch fetch failed');
+        }
+      }
+    }
+
     // Determine which product IDs to use for comparison
     let productIdsToCompare: string[] = [];
     
@@ -1218,7 +1746,7 @@ export class AgentRunner {
 
       // Try to add highlights via summarization (optional, fails safely)
       try {
-        const summaryResult = await summarizeComparison(normalizedProducts, this.openaiClient);
+        const summaryResult = await summarizeComparison(normalizedProducts, llmProvider, model);
         if (summaryResult) {
           applyHighlightsToItems(comparison.items, summaryResult);
         }
@@ -3,7 +3,7 @@ import { z } from 'zod';
 /**
  * Context schema for Norce API calls.
  * Contains tenant-specific data that is passed through unchanged to MCP tool arguments.
- * Matches the contextSchema in tools.ts for consistency.
+ * Matches the contextSchema in product/productSchemas.ts for consistency.
  * 
  * IMPORTANT: This schema is used for runtime validation only.
  * Context is NEVER exposed to the LLM - it is caller-owned and injected server-side.
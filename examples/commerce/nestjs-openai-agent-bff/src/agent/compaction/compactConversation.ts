@@ -0,0 +1,139 @@
+/**
+ * Conversation compaction for long sessions.
+ *
+ * SessionState.conversation grows every turn. Compaction keeps it bounded:
+ * 1. Stale injected hints (PRODUCT_MEMORY, resolver/compare hints) are dropped,
+ *    since AgentRunner re-injects fresh ones from session state each turn.
+ * 2. When the estimated history size exceeds the token budget, all but the
+ *    last N turns are folded into a single rolling summary system message.
+ *
+ * Only the conversation is touched. Working memory, pending actions and cart
+ * state live in their own SessionState fields and are never compacted.
+ */
+
+import type { ConversationMessage } from '../agentRunner.js';
+import { estimateTokens } from '../../validation/index.js';
+import {
+  SUMMARY_PREFIX,
+  INJECTED_HINT_PREFIXES,
+  type CompactionOptions,
+  type CompactionResult,
+  type HistorySummarizer,
+} from './compactionTypes.js';
+import { buildDeterministicSummary } from './summarizeHistory.js';
+
+/**
+ * Check whether a message is a per-turn hint injected by AgentRunner.
+ */
+export function isInjectedHint(message: ConversationMessage): boolean {
+  return message.role === 'system' &&
+    INJECTED_HINT_PREFIXES.some((prefix) => message.content.startsWith(prefix));
+}
+
+/**
+ * Estimate the token footprint of a conversation, including tool call arguments.
+ */
+export function estimateConversationTokens(conversation: ConversationMessage[]): number {
+  let total = 0;
+  for (const msg of conversation) {
+    total += estimateTokens(msg.content);
+    for (const tc of msg.tool_calls ?? []) {
+      total += estimateTokens(tc.function.name) + estimateTokens(tc.function.arguments);
+    }
+  }
+  return total;
+}
+
+/**
+ * Split a conversation into turns. Each turn starts at a user message;
+ * messages before the first user message form a leading turn of their own.
+ * Tool results therefore always stay with the assistant message that requested them.
+ */
+export function splitIntoTurns(conversation: ConversationMessage[]): ConversationMessage[][] {
+  const turns: ConversationMessage[][] = [];
+  for (const msg of conversation) {
+    if (msg.role === 'user' || turns.length === 0) {
+      turns.push([msg]);
+    } else {
+      turns[turns.length - 1].push(msg);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Compact a conversation history.
+ *
+ * Intended to run at the start of a turn, before new hints are injected,
+ * so every hint found in the history is stale.
+ *
+ * @param conversation - The stored conversation (not mutated)
+ * @param options - Token budget and summary settings
+ * @param summarizer - Optional LLM summarizer; null results fall back to the deterministic summary
+ * @returns The compacted messages and compaction stats
+ */
+export async function compactConversation(
+  conversation: ConversationMessage[],
+  options: CompactionOptions,
+  summarizer?: HistorySummarizer
+): Promise<CompactionResult> {
+  const tokensBefore = estimateConversationTokens(conversation);
+
+  let previousSummary: string | undefined;
+  const body: ConversationMessage[] = [];
+  let droppedHints = 0;
+  for (const msg of conversation) {
+    if (msg.role === 'system' && msg.content.startsWith(SUMMARY_PREFIX)) {
+      previousSummary = msg.content.slice(SUMMARY_PREFIX.length).trim();
+    } else if (isInjectedHint(msg)) {
+      droppedHints++;
+    } else {
+      body.push(msg);
+    }
+  }
+
+  const turns = splitIntoTurns(body);
+  const keepRecentTurns = Math.max(1, options.keepRecentTurns);
+  const overBudget = tokensBefore > options.triggerTokens;
+
+  if (!overBudget || turns.length <= keepRecentTurns) {
+    const messages = previousSummary !== undefined ? [toSummaryMessage(previousSummary), ...body] : body;
+    return {
+      messages,
+      droppedHints,
+      summarizedTurns: 0,
+      tokensBefore,
+      tokensAfter: estimateConversationTokens(messages),
+    };
+  }
+
+  const olderTurns = turns.slice(0, turns.length - keepRecentTurns);
+  const recentTurns = turns.slice(turns.length - keepRecentTurns);
+
+  let summary: string | null = null;
+  let summarySource: CompactionResult['summarySource'] = 'deterministic';
+  if (options.summaryMode === 'llm' && summarizer) {
+    summary = await summarizer(previousSummary, olderTurns);
+    if (summary) {
+      summarySource = 'llm';
+    }
+  }
+  summary = summary ?? buildDeterministicSummary(previousSummary, olderTurns);
+
+  const messages = [toSummaryMessage(summary), ...recentTurns.flat()];
+  return {
+    messages,
+    droppedHints,
+    summarizedTurns: olderTurns.length,
+    tokensBefore,
+    tokensAfter: estimateConversationTokens(messages),
+    summarySource,
+  };
+}
+
+function toSummaryMessage(summary: string): ConversationMessage {
+  return {
+    role: 'system',
+    content: `${SUMMARY_PREFIX}\n${summary}`,
+  };
+}
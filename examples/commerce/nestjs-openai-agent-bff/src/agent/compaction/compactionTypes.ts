@@ -0,0 +1,66 @@
+/**
+ * Type definitions for conversation compaction.
+ */
+
+import type { ConversationMessage } from '../agentRunner.js';
+
+/**
+ * Prefix of the rolling summary system message.
+ * Always the first message of a compacted conversation.
+ */
+export const SUMMARY_PREFIX = 'CONVERSATION_SUMMARY:';
+
+/**
+ * Prefixes of system messages injected per turn by AgentRunner.
+ * They describe the state of the turn they were injected for and are
+ * rebuilt from session state on every turn, so older copies are stale.
+ */
+export const INJECTED_HINT_PREFIXES = [
+  'PRODUCT_MEMORY:',
+  'ResolverHint:',
+  'VariantResolverHint:',
+  'ActiveChoiceResolverHint:',
+  'CompareHint:',
+  'Note: ',
+] as const;
+
+/**
+ * Maximum characters kept in a deterministic summary.
+ * Oldest lines are dropped first when the cap is exceeded.
+ */
+export const MAX_DETERMINISTIC_SUMMARY_CHARS = 4000;
+
+export type SummaryMode = 'llm' | 'deterministic';
+
+/**
+ * Produces a new rolling summary from the previous one and the turns being folded in.
+ */
+export type HistorySummarizer = (
+  previousSummary: string | undefined,
+  turns: ConversationMessage[][]
+) => Promise<string | null>;
+
+export interface CompactionOptions {
+  /** Estimated history tokens above which older turns are summarized */
+  triggerTokens: number;
+  /** Number of most recent turns kept verbatim */
+  keepRecentTurns: number;
+  summaryMode: SummaryMode;
+  /** Maximum tokens for an LLM-generated summary */
+  summaryMaxTokens: number;
+}
+
+/**
+ * Outcome of a compaction pass, surfaced for debugging.
+ */
+export interface CompactionResult {
+  messages: ConversationMessage[];
+  /** Stale injected hints removed */
+  droppedHints: number;
+  /** Turns folded into the rolling summary (0 when under budget) */
+  summarizedTurns: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** How the summary was produced (only when turns were summarized) */
+  summarySource?: SummaryMode;
+}
@@ -0,0 +1,15 @@
+/**
+ * Conversation compaction module exports.
+ */
+
+export { SUMMARY_PREFIX, INJECTED_HINT_PREFIXES, MAX_DETERMINISTIC_SUMMARY_CHARS } from './compactionTypes.js';
+export type { CompactionOptions, CompactionResult, HistorySummarizer, SummaryMode } from './compactionTypes.js';
+
+export {
+  compactConversation,
+  isInjectedHint,
+  estimateConversationTokens,
+  splitIntoTurns,
+} from './compactConversation.js';
+
+export { buildDeterministicSummary, createLlmSummarizer } from './summarizeHistory.js';
@@ -0,0 +1,122 @@
+/**
+ * Rolling summary builders for conversation compaction.
+ *
+ * The LLM summarizer MUST fail safely: on any error it returns null and the
+ * caller falls back to the deterministic summary.
+ */
+
+import type { LlmProvider } from '../../llm/llmTypes.js';
+import type { ConversationMessage } from '../agentRunner.js';
+import { MAX_DETERMINISTIC_SUMMARY_CHARS, type HistorySummarizer } from './compactionTypes.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'summarizeHistory' });
+
+/**
+ * Maximum characters of a single message quoted into a summary line or prompt.
+ */
+const MAX_QUOTE_CHARS = 200;
+
+/**
+ * Build a deterministic summary: one line per user message, assistant reply
+ * and tool call, appended to the previous summary and capped in size.
+ *
+ * @param previousSummary - Rolling summary from an earlier compaction, if any
+ * @param turns - Turns being folded into the summary, oldest first
+ * @returns The new summary text
+ */
+export function buildDeterministicSummary(
+  previousSummary: string | undefined,
+  turns: ConversationMessage[][]
+): string {
+  const lines = previousSummary ? previousSummary.split('\n') : [];
+
+  for (const turn of turns) {
+    for (const msg of turn) {
+      if (msg.role === 'user') {
+        lines.push(`- User: ${quote(msg.content)}`);
+      } else if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+        const calls = msg.tool_calls.map((tc) => `${tc.function.name}(${quote(tc.function.arguments, 80)})`);
+        lines.push(`- Tools: ${calls.join(', ')}`);
+      } else if (msg.role === 'assistant' && msg.content) {
+        lines.push(`- Assistant: ${quote(msg.content)}`);
+      }
+    }
+  }
+
+  // Drop the oldest lines until the summary fits
+  while (lines.length > 1 && lines.join('\n').length > MAX_DETERMINISTIC_SUMMARY_CHARS) {
+    lines.shift();
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Create a summarizer that asks the LLM to merge older turns into the rolling summary.
+ *
+ * @param provider - LLM provider used for the summary call
+ * @param options - Model and token cap for the summary call
+ * @returns Summarizer returning null when summarization fails
+ */
+export function createLlmSummarizer(
+  provider: LlmProvider,
+  options: { model?: string; maxTokens: number }
+): HistorySummarizer {
+  return async (previousSummary, turns) => {
+    try {
+      const response = await provider.runWithTools({
+        input: [
+          {
+            role: 'system',
+            content: 'You maintain a running summary of a shopping assistant conversation. ' +
+              'Merge the previous summary with the new turns. Keep user preferences, constraints, products ' +
+              'discussed (with productIds), cart changes and open questions. Be concise. Respond with plain text only.',
+          },
+          {
+            role: 'user',
+            content: buildSummaryPrompt(previousSummary, turns),
+          },
+        ],
+        tools: [],
+        model: options.model,
+        maxTokens: options.maxTokens,
+      });
+
+      if (!response.content || response.content.trim().length === 0) {
+        logger.warn('Empty response from history summarization');
+        return null;
+      }
+      return response.content.trim();
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : 'Unknown error' }, 'History summarization failed, using deterministic summary');
+      return null;
+    }
+  };
+}
+
+/**
+ * Build the summarization prompt from the previous summary and a transcript of the turns.
+ */
+function buildSummaryPrompt(previousSummary: string | undefined, turns: ConversationMessage[][]): string {
+  const transcript = turns
+    .flat()
+    .map((msg) => {
+      if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+        return `assistant called ${msg.tool_calls.map((tc) => `${tc.function.name}(${quote(tc.function.arguments, 80)})`).join(', ')}`;
+      }
+      return msg.content ? `${msg.role}: ${quote(msg.content)}` : null;
+    })
+    .filter((line): line is string => line !== null)
+    .join('\n');
+
+  return `Previous summary:
+${previousSummary ?? '(none)'}
+
+New turns:
+${transcript}`;
+}
+
+function quote(text: string, maxChars: number = MAX_QUOTE_CHARS): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxChars ? `${singleLine.substring(0, maxChars)}...` : singleLine;
+}
@@ -8,7 +8,7 @@
  * the comparison table should still be returned without highlights.
  */
 
-import { OpenAiClient } from '../../openai/OpenAiClient.js';
+import type { LlmProvider } from '../../llm/llmTypes.js';
 import { CompareProductData, ComparisonSummaryResult } from './compareTypes.js';
 import pino from 'pino';
 
@@ -31,12 +31,14 @@ const MAX_SUMMARY_TOKENS = 300;
  * it returns null and the caller should proceed without highlights.
  * 
  * @param products - Array of normalized product data
- * @param openaiClient - OpenAI client instance
+ * @param openaiClient - LLM provider instance (OpenAiClient or any other adapter)
+ * @param model - Optional model override (defaults to the provider's model)
  * @returns ComparisonSummaryResult or null if summarization fails
  */
 export async function summarizeComparison(
   products: CompareProductData[],
-  openaiClient: OpenAiClient
+  openaiClient: LlmProvider,
+  model?: string
 ): Promise<ComparisonSummaryResult | null> {
   try {
     const prompt = buildSummarizationPrompt(products);
@@ -53,7 +55,7 @@ export async function summarizeComparison(
         },
       ],
       tools: [],
-      model: undefined, // Use default model
+      model, // undefined uses the default model
       maxTokens: MAX_SUMMARY_TOKENS,
     });
 
@@ -3,6 +3,8 @@
  * Used for safe gating - does not use OpenAI, just simple pattern matching.
  */
 
+import type { PendingActionKind } from '../session/sessionTypes.js';
+
 /**
  * Patterns that indicate user affirmation/confirmation.
  * Case-insensitive matching.
@@ -104,16 +106,19 @@ export function isCartMutationTool(toolName: string): boolean {
 }
 
 /**
- * Builds a deterministic confirmation message for a pending cart action.
+ * Builds a deterministic confirmation message for a pending cart action
+ * or a mutating registered tool.
  * Does not use LLM - generates a simple, clear message.
  * 
- * @param kind - The type of cart mutation
+ * @param kind - The type of cart mutation, or the registered tool name
  * @param args - The arguments for the mutation
+ * @param displayName - Display name of a registered tool (non-cart kinds)
  * @returns A confirmation message string
  */
 export function buildConfirmationMessage(
-  kind: 'cart_add_item' | 'cart_set_item_quantity' | 'cart_remove_item',
-  args: Record<string, unknown>
+  kind: PendingActionKind,
+  args: Record<string, unknown>,
+  displayName?: string
 ): string {
   // NOTE: cart_add_item uses partNo as the item identifier (not productId)
   // Other cart tools may still use productId or lineItemId
@@ -144,6 +149,9 @@ export function buildConfirmationMessage(
       return `I can remove an item from your cart. Confirm? (yes/no)`;
     }
     default:
+      if (displayName) {
+        return `I can run "${displayName}" for you. Confirm? (yes/no)`;
+      }
       return `I need your confirmation to proceed with this cart action. Confirm? (yes/no)`;
   }
 }
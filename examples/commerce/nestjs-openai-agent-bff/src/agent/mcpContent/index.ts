@@ -0,0 +1,20 @@
+/**
+ * Tenant content from MCP prompts and resources.
+ */
+
+export {
+  createMcpPromptSource,
+  promptMessagesToText,
+  MAX_PROMPT_FRAGMENT_CHARS,
+  type McpPromptSourceOptions,
+} from './promptFragments.js';
+export {
+  createStoreReferenceTool,
+  rankResources,
+  storeReferenceSchema,
+  STORE_REFERENCE_TOOL,
+  type StoreReferenceArgs,
+  type StoreReferenceResult,
+  type StoreReferenceToolOptions,
+  type ReferenceDocument,
+} from './referenceTool.js';
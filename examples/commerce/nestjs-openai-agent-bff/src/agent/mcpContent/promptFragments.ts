@@ -0,0 +1,100 @@
+/**
+ * Tenant instructions from MCP prompts, appended to the system prompt.
+ *
+ * The configured prompts (MCP_SYSTEM_PROMPTS) are fetched with prompts/get on the
+ * session's MCP connection and cached per applicationId. Nothing is added when the
+ * server does not advertise the prompts capability.
+ */
+
+import pino from 'pino';
+import type { McpPromptGetResult } from '../../norce/NorceMcpClient.js';
+import { mcpServerSupports } from '../../norce/mcpCapabilities.js';
+import type { ToolHandlerDependencies } from '../toolHandlers.js';
+import type { SystemPromptSource } from '../agentRunner.js';
+
+const logger = pino({ name: 'mcpPromptFragments' });
+
+/** Max characters of tenant instructions added to the system prompt */
+export const MAX_PROMPT_FRAGMENT_CHARS = 4000;
+
+/**
+ * Options for the MCP prompt source.
+ */
+export interface McpPromptSourceOptions {
+  /** MCP prompt names, in the order they are added */
+  promptNames: readonly string[];
+  /** How long loaded prompts are cached per applicationId */
+  cacheTtlMs: number;
+}
+
+/**
+ * Text of a prompts/get result: text content and embedded text resources, in message order.
+ */
+export function promptMessagesToText(result: McpPromptGetResult): string {
+  return result.messages
+    .map((message) => {
+      const content = message.content as { type: string; text?: unknown; resource?: { text?: unknown } };
+      const text = content.type === 'resource' ? content.resource?.text : content.text;
+      return typeof text === 'string' ? text.trim() : '';
+    })
+    .filter((text) => text.length > 0)
+    .join('\n\n');
+}
+
+function formatTenantInstructions(sections: string[]): string {
+  const text = sections.join('\n\n');
+  const capped = text.length > MAX_PROMPT_FRAGMENT_CHARS ? `${text.slice(0, MAX_PROMPT_FRAGMENT_CHARS)}…` : text;
+  return 'STORE INSTRUCTIONS (provided by the store; follow them unless they conflict with the rules above):\n' + capped;
+}
+
+/**
+ * Create a system prompt source that adds the configured MCP prompts.
+ * Prompts that fail to load are skipped (and retried on the next turn).
+ *
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @param options - Prompt names and cache TTL
+ * @returns The system prompt source for AgentRunner
+ */
+export function createMcpPromptSource(
+  deps: ToolHandlerDependencies,
+  options: McpPromptSourceOptions
+): SystemPromptSource {
+  const cache = new Map<string, { text: string | undefined; expiresAt: number }>();
+
+  return async (mcpState, applicationId) => {
+    if (options.promptNames.length === 0 || !applicationId) {
+      return undefined;
+    }
+
+    const cached = cache.get(applicationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.text;
+    }
+
+    if (mcpServerSupports(mcpState, 'prompts') === false) {
+      return undefined;
+    }
+
+    const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+    const sections: string[] = [];
+    let failed = false;
+    for (const name of options.promptNames) {
+      try {
+        const result = await deps.mcpClient.getPrompt(mcpState, name, {}, accessToken, applicationId);
+        const text = promptMessagesToText(result);
+        if (text) {
+          sections.push(text);
+        }
+      } catch (error) {
+        failed = true;
+        logger.warn({ err: error, prompt: name, applicationId }, 'Failed to load MCP prompt');
+      }
+    }
+
+    const text = sections.length > 0 ? formatTenantInstructions(sections) : undefined;
+    if (!failed) {
+      cache.set(applicationId, { text, expiresAt: Date.now() + options.cacheTtlMs });
+    }
+    return text;
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * store_reference: a retrieval tool over MCP resources (opt-in).
+ *
+ * Tenants publish reference documents (store policies, shipping and return terms, ...)
+ * as MCP resources. The tool lists them (cached per applicationId), picks the documents
+ * matching the model's query and reads them with resources/read.
+ *
+ * Only listed resources can be read, so the model cannot fetch arbitrary URIs.
+ */
+
+import { z } from 'zod';
+import type { McpState } from '../../session/sessionTypes.js';
+import type { McpResource, McpResourceContents } from '../../norce/NorceMcpClient.js';
+import type { ToolHandlerDependencies } from '../toolHandlers.js';
+import type { Tool } from '../tools.js';
+
+export const STORE_REFERENCE_TOOL = 'store_reference';
+
+/** Max documents read per call */
+const MAX_DOCUMENTS = 2;
+/** Max characters returned per document */
+const MAX_DOCUMENT_CHARS = 6000;
+/** Max documents listed when nothing matches */
+const MAX_AVAILABLE = 20;
+/** Max resources/list pages loaded */
+const MAX_LIST_PAGES = 5;
+
+export const storeReferenceSchema = z.object({
+  query: z.string().optional().describe('What to look up, e.g. "return policy" or "shipping to Norway"'),
+  uri: z.string().optional().describe('URI of a document listed in a previous store_reference result'),
+});
+
+export type StoreReferenceArgs = z.infer<typeof storeReferenceSchema>;
+
+/**
+ * A document returned to the model.
+ */
+export interface ReferenceDocument {
+  uri: string;
+  title: string;
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * Result of a store_reference call.
+ */
+export interface StoreReferenceResult {
+  documents: ReferenceDocument[];
+  /** Listed when no document matched the query (or no query was given) */
+  available?: Array<{ uri: string; title: string; description?: string }>;
+}
+
+/**
+ * Options for the store_reference tool.
+ */
+export interface StoreReferenceToolOptions {
+  /** How long the resource list is cached per applicationId */
+  cacheTtlMs: number;
+}
+
+function resourceTitle(resource: McpResource): string {
+  return resource.title ?? resource.name;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((token) => token.length >= 3);
+}
+
+/**
+ * Rank resources by how many query words appear in their name, title, description and URI.
+ *
+ * @returns Matching resources, best match first
+ */
+export function rankResources(resources: McpResource[], query: string): McpResource[] {
+  const queryTokens = tokenize(query);
+  return resources
+    .map((resource) => {
+      const haystack = [resource.name, resource.title, resource.description, resource.uri].join(' ').toLowerCase();
+      return { resource, score: queryTokens.filter((token) => haystack.includes(token)).length };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ resource }) => resource);
+}
+
+function toDocument(resource: McpResource, contents: McpResourceContents[]): ReferenceDocument {
+  const text = contents
+    .map((content) => content.text)
+    .filter((value): value is string => typeof value === 'string')
+    .join('\n\n');
+  return {
+    uri: resource.uri,
+    title: resourceTitle(resource),
+    text: text.slice(0, MAX_DOCUMENT_CHARS),
+    truncated: text.length > MAX_DOCUMENT_CHARS,
+  };
+}
+
+/**
+ * Create the store_reference tool.
+ *
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @param options - Cache TTL
+ * @returns The tool (needs the MCP resources capability)
+ */
+export function createStoreReferenceTool(deps: ToolHandlerDependencies, options: StoreReferenceToolOptions): Tool {
+  const cache = new Map<string, { resources: McpResource[]; expiresAt: number }>();
+
+  async function listResources(mcpState: McpState, accessToken: string, applicationId: string): Promise<McpResource[]> {
+    const cached = cache.get(applicationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.resources;
+    }
+
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await deps.mcpClient.listResources(mcpState, accessToken, applicationId, cursor);
+      resources.push(...result.resources);
+      cursor = result.nextCursor;
+      if (!cursor) {
+        break;
+      }
+    }
+
+    cache.set(applicationId, { resources, expiresAt: Date.now() + options.cacheTtlMs });
+    return resources;
+  }
+
+  async function readDocument(
+    mcpState: McpState,
+    resource: McpResource,
+    accessToken: string,
+    applicationId: string
+  ): Promise<ReferenceDocument> {
+    const { contents } = await deps.mcpClient.readResource(mcpState, resource.uri, accessToken, applicationId);
+    return toDocument(resource, contents);
+  }
+
+  return {
+    name: STORE_REFERENCE_TOOL,
+    description:
+      'Look up store reference documents such as return, shipping, warranty and payment policies. ' +
+      'Pass a query to find matching documents, or the uri of a listed document to read it. ' +
+      'Use this for store policy questions instead of guessing.',
+    parameters: storeReferenceSchema,
+    displayName: 'Reading store information',
+    statusCopy: {
+      sv: { displayName: 'Läser butiksinformation', start: 'Läser butikens information...' },
+      en: { start: 'Reading store information...' },
+    },
+    mutating: false,
+    requiredCapabilities: ['resources'],
+    execute: async (params, mcpState, _context, applicationId): Promise<StoreReferenceResult> => {
+      if (!applicationId) {
+        throw new Error(`applicationId is required for ${STORE_REFERENCE_TOOL}`);
+      }
+      const args = params as StoreReferenceArgs;
+      const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+      const resources = await listResources(mcpState, accessToken, applicationId);
+
+      if (args.uri) {
+        const resource = resources.find((candidate) => candidate.uri === args.uri);
+        if (!resource) {
+          throw new Error(`Unknown document: ${args.uri}`);
+        }
+        return { documents: [await readDocument(mcpState, resource, accessToken, applicationId)] };
+      }
+
+      const matches = args.query ? rankResources(resources, args.query).slice(0, MAX_DOCUMENTS) : [];
+      if (matches.length === 0) {
+        return {
+          documents: [],
+          available: resources.slice(0, MAX_AVAILABLE).map((resource) => ({
+            uri: resource.uri,
+            title: resourceTitle(resource),
+            description: resource.description,
+          })),
+        };
+      }
+
+      const documents: ReferenceDocument[] = [];
+      for (const resource of matches) {
+        documents.push(await readDocument(mcpState, resource, accessToken, applicationId));
+      }
+      return { documents };
+    },
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Dynamic agent tools generated from MCP tools/list (opt-in).
+ *
+ * Each MCP tool that passes the allow/deny list becomes an agent Tool:
+ * - The input schema is converted to zod (see jsonSchemaToZod.ts)
+ * - The caller-owned `context` property is removed from the schema the LLM sees,
+ *   and injected server-side from the request context (see injectContext.ts)
+ * - Tools are mutating (confirmation required) unless the server marks them readOnlyHint
+ *
+ * MCP tools already covered by the hand-written tools (mcpToolNames.ts) are skipped.
+ */
+
+import pino from 'pino';
+import type { McpState, ToolContext } from '../../session/sessionTypes.js';
+import type { McpToolDefinition } from '../../norce/NorceMcpClient.js';
+import { ALL_MCP_TOOLS } from '../../norce/mcpToolNames.js';
+import { buildMcpArgs } from '../context/index.js';
+import type { ToolHandlerDependencies } from '../toolHandlers.js';
+import type { Tool } from '../tools.js';
+import type { ToolRegistry } from '../toolRegistry.js';
+import { jsonSchemaToZod } from './jsonSchemaToZod.js';
+
+const logger = pino({ name: 'dynamicTools' });
+
+/**
+ * Options for dynamic MCP tools.
+ */
+export interface DynamicToolOptions {
+  /** MCP tool names (or prefix patterns ending in *) to expose; empty allows all */
+  allow?: readonly string[];
+  /** MCP tool names (or prefix patterns ending in *) never exposed; wins over allow */
+  deny?: readonly string[];
+}
+
+/**
+ * Result of a dynamic tool call.
+ */
+export interface DynamicToolResult {
+  /** Tool output: structuredContent, JSON parsed from text content, or the raw MCP result */
+  result: unknown;
+  /** Metadata about context injection (only for tools that accept context) */
+  contextInjection?: {
+    effectiveContext?: ToolContext;
+    modelContextIgnored: boolean;
+    modelProvidedContextPreview?: { cultureCode?: string; currencyCode?: string };
+  };
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+/**
+ * Checks if an MCP tool passes the allow/deny list.
+ *
+ * @param mcpToolName - MCP tool name (e.g. "store.find")
+ * @param options - Allow/deny list
+ * @returns true if the tool may be exposed to the agent
+ */
+export function isMcpToolAllowed(mcpToolName: string, options: DynamicToolOptions = {}): boolean {
+  const { allow = [], deny = [] } = options;
+  if (deny.some((pattern) => matchesPattern(mcpToolName, pattern))) {
+    return false;
+  }
+  return allow.length === 0 || allow.some((pattern) => matchesPattern(mcpToolName, pattern));
+}
+
+/**
+ * Agent tool name for an MCP tool name: characters that are not allowed in
+ * LLM function names are replaced with "_" (e.g. "store.find" => "store_find").
+ */
+export function toAgentToolName(mcpToolName: string): string {
+  return mcpToolName.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+/**
+ * Unwrap an MCP tools/call result for the LLM.
+ * Prefers structuredContent, then JSON text content, and throws on isError results.
+ */
+function unwrapToolResult(mcpToolName: string, raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object') {
+    return raw;
+  }
+  const result = raw as { content?: unknown; structuredContent?: unknown; isError?: boolean };
+  const texts = Array.isArray(result.content)
+    ? (result.content as Array<{ type?: string; text?: string }>)
+        .filter((item) => item.type === 'text' && typeof item.text === 'string')
+        .map((item) => item.text as string)
+    : [];
+
+  if (result.isError) {
+    throw new Error(`MCP tool ${mcpToolName} failed: ${texts.join(' ') || 'unknown error'}`);
+  }
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  if (texts.length === 0) {
+    return raw;
+  }
+  const values = texts.map((text) => {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  });
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Create an agent tool for one MCP tool definition.
+ *
+ * @param definition - Tool definition from tools/list
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @returns The agent tool
+ */
+export function createDynamicTool(definition: McpToolDefinition, deps: ToolHandlerDependencies): Tool {
+  const mcpToolName = definition.name;
+  const { context: contextSchema, ...properties } = definition.inputSchema?.properties ?? {};
+  const acceptsContext = contextSchema !== undefined;
+  const parameters = jsonSchemaToZod({
+    ...definition.inputSchema,
+    type: 'object',
+    properties,
+    required: (definition.inputSchema?.required ?? []).filter((name) => name !== 'context'),
+  });
+
+  return {
+    name: toAgentToolName(mcpToolName),
+    description: definition.description ?? `Norce MCP tool ${mcpToolName}.`,
+    parameters,
+    displayName: definition.annotations?.title ?? definition.title ?? mcpToolName,
+    mutating: definition.annotations?.readOnlyHint !== true,
+    execute: async (params, mcpState, httpContext, applicationId): Promise<DynamicToolResult> => {
+      if (!applicationId) {
+        throw new Error(`applicationId is required for ${mcpToolName}`);
+      }
+      const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+
+      // Context is caller-owned: never taken from the model, injected only if the tool accepts it
+      const contextResult = buildMcpArgs(params as Record<string, unknown>, acceptsContext ? httpContext : undefined);
+
+      const raw = await deps.mcpClient.callTool(
+        mcpState,
+        mcpToolName,
+        contextResult.mcpArgs,
+        accessToken,
+        applicationId
+      );
+
+      return {
+        result: unwrapToolResult(mcpToolName, raw),
+        contextInjection: acceptsContext ? {
+          effectiveContext: contextResult.effectiveContext,
+          modelContextIgnored: contextResult.modelContextIgnored,
+          modelProvidedContextPreview: contextResult.modelProvidedContextPreview,
+        } : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Create agent tools from MCP tool definitions.
+ * Skips tools covered by the hand-written tools and tools rejected by the allow/deny list.
+ *
+ * @param definitions - Tool definitions from tools/list
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @param options - Allow/deny list
+ * @returns The agent tools
+ */
+export function createDynamicTools(
+  definitions: McpToolDefinition[],
+  deps: ToolHandlerDependencies,
+  options: DynamicToolOptions = {}
+): Tool[] {
+  return definitions
+    .filter((definition) => !(ALL_MCP_TOOLS as readonly string[]).includes(definition.name))
+    .filter((definition) => isMcpToolAllowed(definition.name, options))
+    .map((definition) => createDynamicTool(definition, deps));
+}
+
+/**
+ * List the MCP server's tools and register the allowed ones in the registry.
+ * Tools whose agent name is already registered are skipped.
+ *
+ * @param registry - The tool registry
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @param applicationId - applicationId used for the tools/list request
+ * @param options - Allow/deny list
+ * @returns Names of the registered agent tools
+ */
+export async function registerDynamicTools(
+  registry: ToolRegistry,
+  deps: ToolHandlerDependencies,
+  applicationId: string,
+  options: DynamicToolOptions = {}
+): Promise<string[]> {
+  const mcpState: McpState = { sessionId: undefined, nextRpcId: 1 };
+  const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+  const { tools } = await deps.mcpClient.listTools(mcpState, accessToken, applicationId);
+
+  const registered: string[] = [];
+  for (const tool of createDynamicTools(tools ?? [], deps, options)) {
+    if (registry.has(tool.name)) {
+      logger.warn({ tool: tool.name }, 'Skipping dynamic MCP tool: name already registered');
+      continue;
+    }
+    registry.add(tool);
+    registered.push(tool.name);
+  }
+  return registered;
+}
@@ -0,0 +1,27 @@
+/**
+ * MCP tool module exports (dynamic tools and schema drift detection).
+ */
+
+export { jsonSchemaToZod } from './jsonSchemaToZod.js';
+export {
+  createDynamicTool,
+  createDynamicTools,
+  registerDynamicTools,
+  isMcpToolAllowed,
+  toAgentToolName,
+  type DynamicToolOptions,
+  type DynamicToolResult,
+} from './dynamicTools.js';
+export {
+  MCP_TOOL_CONTRACT,
+  detectSchemaDrift,
+  formatDriftReport,
+  getSentArgs,
+  createSchemaSnapshot,
+  parseSchemaSnapshot,
+  type McpToolContract,
+  type HandlerArg,
+  type DriftFinding,
+  type DriftReport,
+  type SchemaSnapshot,
+} from './schemaDrift.js';
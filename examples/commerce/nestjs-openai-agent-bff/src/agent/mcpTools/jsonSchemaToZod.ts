@@ -0,0 +1,174 @@
+import { z } from 'zod';
+
+/**
+ * JSON Schema (the subset used by MCP tool input schemas) to zod conversion.
+ *
+ * Supported: type (including type arrays such as ["string", "null"]), properties,
+ * required, additionalProperties, items, enum, const, anyOf/oneOf, allOf,
+ * description and the common string/number/array bounds.
+ * Anything else ($ref, not, if/then/else, ...) becomes z.unknown(), so an
+ * unexpected schema never blocks a tool; the MCP server still validates its input.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const JSON_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'object', 'array'] as const;
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function union(options: z.ZodType[]): z.ZodType {
+  if (options.length === 0) {
+    return z.never();
+  }
+  if (options.length === 1) {
+    return options[0];
+  }
+  return z.union(options as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+}
+
+function literalUnion(values: unknown[]): z.ZodType {
+  if (values.length > 0 && values.every((value) => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  const literals = values
+    .filter((value): value is string | number | boolean | null =>
+      value === null || ['string', 'number', 'boolean'].includes(typeof value))
+    .map((value) => z.literal(value));
+  return literals.length === values.length ? union(literals) : z.unknown();
+}
+
+function convertString(schema: JsonSchema): z.ZodType {
+  let result = z.string();
+  const minLength = asNumber(schema.minLength);
+  const maxLength = asNumber(schema.maxLength);
+  if (minLength !== undefined) result = result.min(minLength);
+  if (maxLength !== undefined) result = result.max(maxLength);
+  if (typeof schema.pattern === 'string') {
+    try {
+      result = result.regex(new RegExp(schema.pattern));
+    } catch {
+      // Patterns that are not valid JavaScript regular expressions are left to the server
+    }
+  }
+  return result;
+}
+
+function convertNumber(schema: JsonSchema, integer: boolean): z.ZodType {
+  let result = integer ? z.number().int() : z.number();
+  const minimum = asNumber(schema.minimum);
+  const maximum = asNumber(schema.maximum);
+  const exclusiveMinimum = asNumber(schema.exclusiveMinimum);
+  const exclusiveMaximum = asNumber(schema.exclusiveMaximum);
+  if (minimum !== undefined) result = result.gte(minimum);
+  if (maximum !== undefined) result = result.lte(maximum);
+  if (exclusiveMinimum !== undefined) result = result.gt(exclusiveMinimum);
+  if (exclusiveMaximum !== undefined) result = result.lt(exclusiveMaximum);
+  return result;
+}
+
+function convertArray(schema: JsonSchema): z.ZodType {
+  let result = z.array(isSchema(schema.items) ? jsonSchemaToZod(schema.items) : z.unknown());
+  const minItems = asNumber(schema.minItems);
+  const maxItems = asNumber(schema.maxItems);
+  if (minItems !== undefined) result = result.min(minItems);
+  if (maxItems !== undefined) result = result.max(maxItems);
+  return result;
+}
+
+function convertObject(schema: JsonSchema): z.ZodType {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  const shape: Record<string, z.ZodType> = {};
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const property = isSchema(propertySchema) ? jsonSchemaToZod(propertySchema) : z.unknown();
+    shape[key] = required.has(key) ? property : property.optional();
+  }
+
+  const object = z.object(shape);
+  if (isSchema(schema.additionalProperties)) {
+    return object.catchall(jsonSchemaToZod(schema.additionalProperties));
+  }
+  // JSON Schema allows extra properties unless additionalProperties is false;
+  // an object without declared properties is a free-form map
+  if (schema.additionalProperties === true || Object.keys(properties).length === 0) {
+    return object.loose();
+  }
+  return object;
+}
+
+function convertType(type: string, schema: JsonSchema): z.ZodType {
+  switch (type) {
+    case 'string':
+      return convertString(schema);
+    case 'number':
+      return convertNumber(schema, false);
+    case 'integer':
+      return convertNumber(schema, true);
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array':
+      return convertArray(schema);
+    case 'object':
+      return convertObject(schema);
+    default:
+      return z.unknown();
+  }
+}
+
+function convert(schema: JsonSchema): z.ZodType {
+  if ('const' in schema) {
+    return literalUnion([schema.const]);
+  }
+  if (Array.isArray(schema.enum)) {
+    return literalUnion(schema.enum);
+  }
+
+  const variants = Array.isArray(schema.anyOf) ? schema.anyOf : schema.oneOf;
+  if (Array.isArray(variants)) {
+    return union(variants.map((variant) => (isSchema(variant) ? jsonSchemaToZod(variant) : z.unknown())));
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.filter(isSchema).map((part) => jsonSchemaToZod(part));
+    return parts.length === 0
+      ? z.unknown()
+      : parts.reduce((left, right) => z.intersection(left, right));
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type): type is string =>
+      typeof type === 'string' && (JSON_TYPES as readonly string[]).includes(type));
+    return types.length === 0 ? z.unknown() : union(types.map((type) => convertType(type, schema)));
+  }
+
+  if (typeof schema.type === 'string') {
+    return convertType(schema.type, schema);
+  }
+
+  // Untyped schemas with properties are objects
+  if (isSchema(schema.properties)) {
+    return convertObject(schema);
+  }
+
+  return z.unknown();
+}
+
+/**
+ * Convert a JSON Schema to a zod schema.
+ *
+ * @param schema - JSON Schema object
+ * @returns Equivalent zod schema (z.unknown() for unsupported constructs)
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodType {
+  const result = convert(schema);
+  return typeof schema.description === 'string' ? result.describe(schema.description) : result;
+}
@@ -0,0 +1,396 @@
+/**
+ * MCP tool schema drift detection.
+ *
+ * Compares MCP tools/list input schemas (live, mocked or from a snapshot file)
+ * with what the BFF sends for the hand-written tools:
+ * - LLM arguments passed through unchanged (zod schemas in product/productSchemas.ts
+ *   and cart/cartSchemas.ts)
+ * - Arguments added by the handlers (toolHandlers.ts, cart/cartHandlers.ts)
+ *
+ * Breaking drift (exit non-zero in `npm run mcp:drift`):
+ * - A tool from mcpToolNames.ts is missing (possibly renamed)
+ * - A property the MCP schema requires is never sent by the BFF
+ * - A property the BFF sends changed to an incompatible type
+ * - A property the BFF sends was removed from a schema that rejects unknown properties
+ */
+
+import { z } from 'zod';
+import type { McpToolDefinition } from '../../norce/NorceMcpClient.js';
+import {
+  PRODUCT_SEARCH,
+  PRODUCT_GET,
+  CART_GET,
+  CART_ADD_ITEM,
+  CART_SET_ITEM_QUANTITY,
+  CART_REMOVE_ITEM,
+  type McpToolName,
+} from '../../norce/mcpToolNames.js';
+import { productSearchLlmSchema, productGetLlmSchema } from '../product/productSchemas.js';
+import {
+  cartGetLlmSchema,
+  cartAddItemLlmSchema,
+  cartSetItemQuantityLlmSchema,
+  cartRemoveItemLlmSchema,
+} from '../cart/cartSchemas.js';
+
+/**
+ * JSON types of argument values sent to MCP.
+ */
+export type JsonValueType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * An argument added by a handler (not taken from the LLM arguments).
+ */
+export interface HandlerArg {
+  /** JSON types the handler may send */
+  types: JsonValueType[];
+  /** Whether the handler always sends the argument */
+  always: boolean;
+}
+
+/**
+ * What the BFF sends to one MCP tool.
+ */
+export interface McpToolContract {
+  /** Agent tool that calls the MCP tool */
+  agentTool: string;
+  /** Zod schema of the LLM arguments */
+  llmSchema: z.ZodType;
+  /** LLM arguments the handler passes through unchanged */
+  passThrough: string[];
+  /** Arguments the handler adds or converts */
+  handlerArgs: Record<string, HandlerArg>;
+}
+
+const CONTEXT_ARG: HandlerArg = { types: ['object'], always: false };
+const BASKET_ID_ARG: HandlerArg = { types: ['number'], always: false };
+
+/**
+ * Argument shapes built by the hand-written tool handlers.
+ * Keep in sync with toolHandlers.ts and cart/cartHandlers.ts (covered by schemaDrift tests).
+ */
+export const MCP_TOOL_CONTRACT: Record<McpToolName, McpToolContract> = {
+  [PRODUCT_SEARCH]: {
+    agentTool: 'product_search',
+    llmSchema: productSearchLlmSchema,
+    passThrough: ['filters', 'pageSize'],
+    handlerArgs: {
+      // The query is simplified before it is sent
+      query: { types: ['string'], always: true },
+      statusSeed: { types: ['string'], always: false },
+      context: CONTEXT_ARG,
+    },
+  },
+  [PRODUCT_GET]: {
+    agentTool: 'product_get',
+    llmSchema: productGetLlmSchema,
+    passThrough: ['partNo'],
+    handlerArgs: {
+      // Converted to a number (non-numeric IDs are passed through as a best-effort fallback)
+      productId: { types: ['number'], always: false },
+      context: CONTEXT_ARG,
+    },
+  },
+  [CART_GET]: {
+    agentTool: 'cart_get',
+    llmSchema: cartGetLlmSchema,
+    passThrough: [],
+    handlerArgs: {
+      // cart_get returns an empty cart without calling MCP when there is no basket
+      basketId: { types: ['number'], always: true },
+      context: CONTEXT_ARG,
+    },
+  },
+  [CART_ADD_ITEM]: {
+    agentTool: 'cart_add_item',
+    llmSchema: cartAddItemLlmSchema,
+    passThrough: ['partNo', 'quantity'],
+    handlerArgs: {
+      basketId: BASKET_ID_ARG,
+      clientIp: { types: ['string'], always: false },
+      context: CONTEXT_ARG,
+    },
+  },
+  [CART_SET_ITEM_QUANTITY]: {
+    agentTool: 'cart_set_item_quantity',
+    llmSchema: cartSetItemQuantityLlmSchema,
+    passThrough: ['productId', 'quantity'],
+    handlerArgs: {
+      basketId: BASKET_ID_ARG,
+      context: CONTEXT_ARG,
+    },
+  },
+  [CART_REMOVE_ITEM]: {
+    agentTool: 'cart_remove_item',
+    llmSchema: cartRemoveItemLlmSchema,
+    passThrough: ['productId'],
+    handlerArgs: {
+      basketId: BASKET_ID_ARG,
+      context: CONTEXT_ARG,
+    },
+  },
+};
+
+export type DriftSeverity = 'breaking' | 'warning' | 'info';
+
+export type DriftKind =
+  | 'tool_missing'
+  | 'tool_added'
+  | 'required_not_sent'
+  | 'type_changed'
+  | 'property_removed'
+  | 'property_added';
+
+/**
+ * One difference between an MCP schema and the BFF.
+ */
+export interface DriftFinding {
+  severity: DriftSeverity;
+  kind: DriftKind;
+  tool: string;
+  property?: string;
+  message: string;
+}
+
+/**
+ * Result of a drift check.
+ */
+export interface DriftReport {
+  findings: DriftFinding[];
+  /** True if any finding is breaking */
+  breaking: boolean;
+}
+
+type SchemaObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is SchemaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON types accepted by a property schema (undefined = any type).
+ */
+function schemaTypes(schema: unknown): JsonValueType[] | undefined {
+  if (!isObject(schema)) {
+    return undefined;
+  }
+  if (typeof schema.type === 'string') {
+    return [schema.type as JsonValueType];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type as JsonValueType[];
+  }
+  const variants = Array.isArray(schema.anyOf) ? schema.anyOf : schema.oneOf;
+  if (Array.isArray(variants)) {
+    const types = variants.map(schemaTypes);
+    return types.some((variant) => variant === undefined) ? undefined : types.flat() as JsonValueType[];
+  }
+  return undefined;
+}
+
+function isTypeCompatible(sent: JsonValueType[], accepted: JsonValueType[] | undefined): boolean {
+  if (!accepted) {
+    return true;
+  }
+  // Whole numbers satisfy both "number" and "integer"
+  const normalize = (type: JsonValueType) => (type === 'integer' ? 'number' : type);
+  const acceptedSet = new Set(accepted.map(normalize));
+  return sent.every((type) => acceptedSet.has(normalize(type)));
+}
+
+/**
+ * Everything the BFF sends to an MCP tool, with types.
+ */
+export function getSentArgs(contract: McpToolContract): Record<string, HandlerArg> {
+  const llmJsonSchema = z.toJSONSchema(contract.llmSchema, { io: 'input', unrepresentable: 'any' }) as SchemaObject;
+  const llmProperties = isObject(llmJsonSchema.properties) ? llmJsonSchema.properties : {};
+  const llmRequired = new Set(Array.isArray(llmJsonSchema.required) ? llmJsonSchema.required : []);
+
+  const sent: Record<string, HandlerArg> = {};
+  for (const name of contract.passThrough) {
+    sent[name] = {
+      types: schemaTypes(llmProperties[name]) ?? ['string', 'number', 'boolean', 'object', 'array'],
+      always: llmRequired.has(name),
+    };
+  }
+  return { ...sent, ...contract.handlerArgs };
+}
+
+function normalizeToolName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function lastSegment(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+}
+
+function findRenameCandidate(missing: string, unknownTools: McpToolDefinition[]): string | undefined {
+  return unknownTools.find((tool) =>
+    normalizeToolName(tool.name) === normalizeToolName(missing) || lastSegment(tool.name) === lastSegment(missing)
+  )?.name;
+}
+
+function compareTool(mcpToolName: string, contract: McpToolContract, definition: McpToolDefinition): DriftFinding[] {
+  const findings: DriftFinding[] = [];
+  const schema = definition.inputSchema ?? { type: 'object' };
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  const sentArgs = getSentArgs(contract);
+  const declaresProperties = Object.keys(properties).length > 0;
+
+  for (const name of required) {
+    if (!(name in sentArgs)) {
+      findings.push({
+        severity: 'breaking',
+        kind: 'required_not_sent',
+        tool: mcpToolName,
+        property: name,
+        message: `requires "${name}", which ${contract.agentTool} never sends`,
+      });
+    }
+  }
+
+  for (const [name, sent] of Object.entries(sentArgs)) {
+    if (!(name in properties)) {
+      if (declaresProperties) {
+        const rejectsUnknown = schema.additionalProperties === false;
+        findings.push({
+          severity: rejectsUnknown ? 'breaking' : 'warning',
+          kind: 'property_removed',
+          tool: mcpToolName,
+          property: name,
+          message: `does not declare "${name}", which ${contract.agentTool} sends` +
+            (rejectsUnknown ? ' (unknown properties are rejected)' : ''),
+        });
+      }
+      continue;
+    }
+    const accepted = schemaTypes(properties[name]);
+    if (!isTypeCompatible(sent.types, accepted)) {
+      findings.push({
+        severity: 'breaking',
+        kind: 'type_changed',
+        tool: mcpToolName,
+        property: name,
+        message: `"${name}" accepts ${accepted?.join(' | ')}, but ${contract.agentTool} sends ${sent.types.join(' | ')}`,
+      });
+    }
+  }
+
+  for (const name of Object.keys(properties)) {
+    if (!(name in sentArgs) && !required.includes(name)) {
+      findings.push({
+        severity: 'info',
+        kind: 'property_added',
+        tool: mcpToolName,
+        property: name,
+        message: `declares optional "${name}", which ${contract.agentTool} does not send`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compare MCP tool definitions with the BFF's tool contract.
+ *
+ * @param tools - Tool definitions from tools/list (or a snapshot)
+ * @param contract - BFF contract (defaults to MCP_TOOL_CONTRACT)
+ * @returns The drift report
+ */
+export function detectSchemaDrift(
+  tools: McpToolDefinition[],
+  contract: Record<string, McpToolContract> = MCP_TOOL_CONTRACT
+): DriftReport {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  const unknownTools = tools.filter((tool) => !(tool.name in contract));
+  const findings: DriftFinding[] = [];
+
+  for (const [mcpToolName, toolContract] of Object.entries(contract)) {
+    const definition = byName.get(mcpToolName);
+    if (!definition) {
+      const candidate = findRenameCandidate(mcpToolName, unknownTools);
+      findings.push({
+        severity: 'breaking',
+        kind: 'tool_missing',
+        tool: mcpToolName,
+        message: `is missing (used by ${toolContract.agentTool})` + (candidate ? `; possibly renamed to "${candidate}"` : ''),
+      });
+      continue;
+    }
+    findings.push(...compareTool(mcpToolName, toolContract, definition));
+  }
+
+  for (const tool of unknownTools) {
+    findings.push({
+      severity: 'info',
+      kind: 'tool_added',
+      tool: tool.name,
+      message: 'is not used by the hand-written tools',
+    });
+  }
+
+  return { findings, breaking: findings.some((finding) => finding.severity === 'breaking') };
+}
+
+/**
+ * Format a drift report for the console.
+ */
+export function formatDriftReport(report: DriftReport): string {
+  if (report.findings.length === 0) {
+    return 'No drift detected.';
+  }
+  const lines = report.findings.map((finding) =>
+    `${finding.severity.toUpperCase().padEnd(8)} ${finding.tool} ${finding.message}`
+  );
+  const counts = (['breaking', 'warning', 'info'] as const)
+    .map((severity) => `${report.findings.filter((finding) => finding.severity === severity).length} ${severity}`)
+    .join(', ');
+  return [...lines, '', `Summary: ${counts}`].join('\n');
+}
+
+/**
+ * Schema snapshot file written by `npm run mcp:drift -- --snapshot <file>`.
+ */
+export const schemaSnapshotSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  source: z.string(),
+  tools: z.array(z.object({
+    name: z.string(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    inputSchema: z.object({ type: z.string() }).loose().optional(),
+    annotations: z.record(z.string(), z.unknown()).optional(),
+  })),
+});
+
+export type SchemaSnapshot = z.infer<typeof schemaSnapshotSchema>;
+
+/**
+ * Create a snapshot of MCP tool definitions.
+ *
+ * @param tools - Tool definitions from tools/list
+ * @param source - Where the definitions came from (e.g. the MCP base URL)
+ */
+export function createSchemaSnapshot(tools: McpToolDefinition[], source: string): SchemaSnapshot {
+  const sorted = [...tools].sort((a, b) => a.name.localeCompare(b.name));
+  return { version: 1, createdAt: new Date().toISOString(), source, tools: sorted };
+}
+
+/**
+ * Parse and validate a snapshot file's contents.
+ *
+ * @param json - File contents
+ * @returns The snapshot
+ * @throws Error if the contents are not a valid snapshot
+ */
+export function parseSchemaSnapshot(json: string): SchemaSnapshot {
+  const result = schemaSnapshotSchema.safeParse(JSON.parse(json));
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid MCP schema snapshot: ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,67 @@
+/**
+ * Concurrent execution of read-only tool calls within an agent round.
+ *
+ * Read-only tools have no side effects on the cart or session, so consecutive
+ * calls can run at the same time. Results are still consumed in the order the
+ * model requested them, which keeps tool_end events, the tool trace and the
+ * conversation identical to sequential execution.
+ */
+
+/**
+ * Default number of read-only tool calls executed at the same time.
+ */
+export const DEFAULT_MAX_PARALLEL_TOOLS = 3;
+
+/**
+ * Tools that only read data and may run concurrently.
+ * Cart mutations are never listed here; they keep strict ordering.
+ */
+export const READ_ONLY_TOOLS = ['product_search', 'product_get', 'cart_get'] as const;
+
+/**
+ * Checks if a tool name is a read-only tool that may run concurrently.
+ *
+ * @param toolName - The name of the tool
+ * @returns true if the tool is read-only
+ */
+export function isReadOnlyTool(toolName: string): boolean {
+  return (READ_ONLY_TOOLS as readonly string[]).includes(toolName);
+}
+
+/**
+ * Start tasks with at most `limit` running at once.
+ *
+ * Tasks start in array order, and a waiting task takes the slot of the first
+ * one to settle. Each returned promise settles with its own task.
+ *
+ * @param tasks - Task factories, started lazily
+ * @param limit - Max concurrent tasks (values below 1 run tasks one at a time)
+ * @returns One promise per task, in the same order
+ */
+export function runBounded<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T>[] {
+  const max = Math.max(1, Math.floor(limit));
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return tasks.map(async (task) => {
+    if (active < max) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  });
+}
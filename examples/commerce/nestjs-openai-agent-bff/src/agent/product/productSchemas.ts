@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+/**
+ * Context schema for Norce API calls.
+ * Contains tenant-specific data that is passed through unchanged to MCP tool arguments.
+ * 
+ * IMPORTANT: This schema is used for runtime validation only.
+ * Context is NEVER exposed to the LLM - it is caller-owned and injected server-side.
+ */
+export const contextSchema = z.object({
+  cultureCode: z.string().optional().describe('Culture code (e.g., "sv-SE")'),
+  currencyCode: z.string().optional().describe('Currency code (e.g., "SEK")'),
+  priceListIds: z.array(z.number()).optional().describe('Price list IDs'),
+  salesAreaId: z.number().optional().describe('Sales area ID'),
+  customerId: z.number().optional().describe('Customer ID'),
+  companyId: z.number().optional().describe('Company ID'),
+});
+
+/**
+ * LLM args schema for product_search (exposed to OpenAI).
+ * IMPORTANT: Does NOT include context - context is caller-owned and injected server-side.
+ */
+export const productSearchLlmSchema = z.object({
+  query: z.string().describe('Search query for products'),
+  filters: z.record(z.string(), z.unknown()).optional().describe('Optional filters for the search'),
+  pageSize: z.number().optional().describe('Number of results to return'),
+});
+
+/**
+ * Full schema for product_search including context (for runtime validation).
+ * @deprecated Use productSearchLlmSchema for OpenAI tool definitions.
+ */
+export const productSearchSchema = z.object({
+  query: z.string().describe('Search query for products'),
+  filters: z.record(z.string(), z.unknown()).optional().describe('Optional filters for the search'),
+  pageSize: z.number().optional().describe('Number of results to return'),
+  context: contextSchema.optional().describe('Context object with tenant-specific data'),
+});
+
+/**
+ * LLM args schema for product_get (exposed to OpenAI).
+ * IMPORTANT: Does NOT include context - context is caller-owned and injected server-side.
+ * Uses z.coerce.string() to accept productId as string or number (coerced to string).
+ * Requires either productId or partNo to be provided.
+ */
+export const productGetLlmSchema = z.object({
+  productId: z.coerce.string().optional().describe('Product ID to retrieve (accepts string or number)'),
+  partNo: z.string().optional().describe('Part number to retrieve'),
+}).refine(
+  (data) => data.productId !== undefined || data.partNo !== undefined,
+  { message: 'Either productId or partNo must be provided' }
+);
+
+/**
+ * Full schema for product_get including context (for runtime validation).
+ * @deprecated Use productGetLlmSchema for OpenAI tool definitions.
+ */
+export const productGetSchema = z.object({
+  productId: z.coerce.string().optional().describe('Product ID to retrieve (accepts string or number)'),
+  partNo: z.string().optional().describe('Part number to retrieve'),
+  context: contextSchema.optional().describe('Context object with tenant-specific data'),
+}).refine(
+  (data) => data.productId !== undefined || data.partNo !== undefined,
+  { message: 'Either productId or partNo must be provided' }
+);
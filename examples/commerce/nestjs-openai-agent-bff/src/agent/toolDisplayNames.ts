@@ -1,3 +1,5 @@
+import type { Tool } from './tools.js';
+
 /**
  * Tool display name registry for UI-friendly names.
  * Maps internal tool names to user-facing display names for streamed events.
@@ -16,11 +18,13 @@ export const TOOL_DISPLAY_NAME: Record<string, string> = {
 
 /**
  * Get the UI-friendly display name for a tool.
- * Falls back to the original tool name if no display name is defined.
+ * Prefers the display name declared by a registered tool, then the built-in names,
+ * and falls back to the original tool name if no display name is defined.
  *
  * @param toolName - The internal tool name
+ * @param tool - The tool definition, if available
  * @returns The UI-friendly display name, or the original tool name if unknown
  */
-export function getToolDisplayName(toolName: string): string {
-  return TOOL_DISPLAY_NAME[toolName] ?? toolName;
+export function getToolDisplayName(toolName: string, tool?: Pick<Tool, 'displayName'>): string {
+  return tool?.displayName ?? TOOL_DISPLAY_NAME[toolName] ?? toolName;
 }
@@ -1,5 +1,5 @@
 import { NorceTokenProvider } from '../norce/NorceTokenProvider.js';
-import { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import { NorceMcpClient, type McpToolCallOutcome } from '../norce/NorceMcpClient.js';
 import { PRODUCT_SEARCH, PRODUCT_GET } from '../norce/mcpToolNames.js';
 import type { McpState, ToolContext } from '../session/sessionTypes.js';
 import { config } from '../config.js';
@@ -29,6 +29,7 @@ import {
   type SearchAttemptInfo,
 } from './search/index.js';
 import type { RefinementAction } from '../http/refinementTypes.js';
+import type { McpToolCache } from '../cache/McpToolCache.js';
 
 export type { ToolContext };
 
@@ -84,6 +85,24 @@ export interface ProductGetArgs {
 export interface ToolHandlerDependencies {
   tokenProvider: NorceTokenProvider;
   mcpClient: NorceMcpClient;
+  /** Shared product.search/product.get result cache (TOOL_CACHE); omitted = no caching */
+  toolCache?: McpToolCache;
+}
+
+/**
+ * Call a catalog MCP tool, through the shared result cache when one is configured.
+ */
+function callCatalogTool(
+  deps: ToolHandlerDependencies,
+  mcpState: McpState,
+  toolName: string,
+  args: Record<string, unknown>,
+  accessToken: string,
+  applicationId: string
+): Promise<unknown> {
+  return deps.toolCache
+    ? deps.toolCache.callTool(deps.mcpClient, mcpState, toolName, args, accessToken, applicationId)
+    : deps.mcpClient.callTool(mcpState, toolName, args, accessToken, applicationId);
 }
 
 /**
@@ -193,7 +212,8 @@ export function createProductSearchHandler(deps: ToolHandlerDependencies) {
       mcpArgsWithStatusSeed.statusSeed = configuredStatusSeed;
     }
 
-    let result = await deps.mcpClient.callTool(
+    let result = await callCatalogTool(
+      deps,
       mcpState,
       PRODUCT_SEARCH,
       mcpArgsWithStatusSeed,
@@ -241,7 +261,8 @@ export function createProductSearchHandler(deps: ToolHandlerDependencies) {
         }
 
         // Retry with broadened query
-        result = await deps.mcpClient.callTool(
+        result = await callCatalogTool(
+          deps,
           mcpState,
           PRODUCT_SEARCH,
           broadenedMcpArgsWithStatusSeed,
@@ -314,6 +335,66 @@ export interface ProductGetHandlerResult extends ProductGetResult {
   };
 }
 
+/**
+ * Build MCP product.get args from product_get args, with context from httpContext only.
+ */
+function buildProductGetArgs(args: ProductGetArgs, httpContext?: ToolContext): BuildMcpArgsResult<Record<string, unknown>> {
+  // Build base args without context
+  const baseArgs: Record<string, unknown> = {};
+
+  if (args.productId) {
+    // MCP expects productId as number, but we keep it as string for our API
+    const numericId = Number(args.productId);
+    if (!isNaN(numericId)) {
+      baseArgs.productId = numericId;
+    } else {
+      // If not a valid number, pass as-is (might be a string ID)
+      baseArgs.productId = args.productId;
+    }
+  }
+
+  if (args.partNo) {
+    baseArgs.partNo = args.partNo;
+  }
+
+  // Use buildMcpArgs to inject context from httpContext only (ignores any context in args)
+  return buildMcpArgs(
+    { ...baseArgs, context: args.context },
+    httpContext
+  );
+}
+
+/**
+ * Shape an MCP product.get result into the product_get handler result.
+ */
+function toProductGetHandlerResult(
+  result: unknown,
+  args: ProductGetArgs,
+  contextResult: BuildMcpArgsResult<Record<string, unknown>>
+): ProductGetHandlerResult {
+  const raw = normalizeProductGetResult(result);
+  const card = normalizeProductGetResultToCard(result);
+
+  // Normalize product with variant-level data
+  const normalized = normalizeProductGet(result);
+  // Pass the requested productId to extractVariantAvailabilitySummary to select the correct onHand source
+  // (matching variant's onHand preferred, then root onHand)
+  const requestedProductId = args.productId ? String(args.productId) : undefined;
+  const variantSummary = normalized ? extractVariantAvailabilitySummary(normalized, requestedProductId) : null;
+
+  return {
+    raw,
+    card,
+    normalized,
+    variantSummary,
+    contextInjection: {
+      effectiveContext: contextResult.effectiveContext,
+      modelContextIgnored: contextResult.modelContextIgnored,
+      modelProvidedContextPreview: contextResult.modelProvidedContextPreview,
+    },
+  };
+}
+
 /**
  * Creates a product_get handler that fetches Norce token and calls MCP product.get tool.
  * 
@@ -336,32 +417,10 @@ export function createProductGetHandler(deps: ToolHandlerDependencies) {
     }
 
     const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+    const contextResult = buildProductGetArgs(args, httpContext);
 
-    // Build base args without context
-    const baseArgs: Record<string, unknown> = {};
-
-    if (args.productId) {
-      // MCP expects productId as number, but we keep it as string for our API
-      const numericId = Number(args.productId);
-      if (!isNaN(numericId)) {
-        baseArgs.productId = numericId;
-      } else {
-        // If not a valid number, pass as-is (might be a string ID)
-        baseArgs.productId = args.productId;
-      }
-    }
-
-    if (args.partNo) {
-      baseArgs.partNo = args.partNo;
-    }
-
-    // Use buildMcpArgs to inject context from httpContext only (ignores any context in args)
-    const contextResult = buildMcpArgs(
-      { ...baseArgs, context: args.context },
-      httpContext
-    );
-
-    const result = await deps.mcpClient.callTool(
+    const result = await callCatalogTool(
+      deps,
       mcpState,
       PRODUCT_GET,
       contextResult.mcpArgs,
@@ -369,26 +428,85 @@ export function createProductGetHandler(deps: ToolHandlerDependencies) {
       applicationId
     );
 
-    const raw = normalizeProductGetResult(result);
-    const card = normalizeProductGetResultToCard(result);
+    return toProductGetHandlerResult(result, args, contextResult);
+  };
+}
 
-    // Normalize product with variant-level data
-    const normalized = normalizeProductGet(result);
-    // Pass the requested productId to extractVariantAvailabilitySummary to select the correct onHand source
-    // (matching variant's onHand preferred, then root onHand)
-    const requestedProductId = args.productId ? String(args.productId) : undefined;
-    const variantSummary = normalized ? extractVariantAvailabilitySummary(normalized, requestedProductId) : null;
+/**
+ * Outcome of one product in getProductsBatch.
+ */
+export type ProductBatchItem =
+  | { productId: string; ok: true; result: ProductGetHandlerResult }
+  | { productId: string; ok: false; error: string };
 
-    return {
-      raw,
-      card,
-      normalized,
-      variantSummary,
-      contextInjection: {
-        effectiveContext: contextResult.effectiveContext,
-        modelContextIgnored: contextResult.modelContextIgnored,
-        modelProvidedContextPreview: contextResult.modelProvidedContextPreview,
-      },
-    };
+/**
+ * Fetch several products with product.get in one MCP batch.
+ */
+export type GetProductsBatch = (
+  productIds: string[],
+  mcpState: McpState,
+  httpContext?: ToolContext,
+  applicationId?: string
+) => Promise<ProductBatchItem[]>;
+
+/**
+ * Creates getProductsBatch: product.get for several products in one JSON-RPC batch
+ * (or bounded concurrent calls if the server does not accept batches).
+ *
+ * Same args and results as product_get, per product. A failing product is returned
+ * with its error and does not fail the others.
+ *
+ * @param deps - Dependencies (tokenProvider, mcpClient)
+ * @returns getProductsBatch function
+ */
+export function createGetProductsBatch(deps: ToolHandlerDependencies): GetProductsBatch {
+  return async (productIds, mcpState, httpContext, applicationId) => {
+    if (!applicationId) {
+      throw new Error('applicationId is required for product_get');
+    }
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    const accessToken = await deps.tokenProvider.getAccessToken(applicationId);
+    const requests = productIds.map((productId) => {
+      const args: ProductGetArgs = { productId };
+      return { productId, args, contextResult: buildProductGetArgs(args, httpContext) };
+    });
+
+    // Cached products are served from the shared cache; only the misses are batched
+    const toolCache = deps.toolCache;
+    const cached = toolCache
+      ? await Promise.all(requests.map((request) => toolCache.get(applicationId, PRODUCT_GET, request.contextResult.mcpArgs)))
+      : requests.map(() => undefined);
+    const misses = requests.filter((_request, index) => cached[index] === undefined);
+
+    const missOutcomes = misses.length > 0
+      ? await deps.mcpClient.callToolsBatch(
+        mcpState,
+        misses.map((request) => ({ name: PRODUCT_GET, args: request.contextResult.mcpArgs })),
+        accessToken,
+        applicationId
+      )
+      : [];
+
+    let missIndex = 0;
+    const outcomes = await Promise.all(requests.map(async (request, index): Promise<McpToolCallOutcome> => {
+      if (cached[index] !== undefined) {
+        return { ok: true, result: cached[index] };
+      }
+      const outcome = missOutcomes[missIndex++];
+      if (outcome.ok) {
+        await toolCache?.set(applicationId, PRODUCT_GET, request.contextResult.mcpArgs, outcome.result);
+      }
+      return outcome;
+    }));
+
+    return requests.map(({ productId, args, contextResult }, index): ProductBatchItem => {
+      const outcome = outcomes[index];
+      return outcome.ok
+        ? { productId, ok: true, result: toProductGetHandlerResult(outcome.result, args, contextResult) }
+        : { productId, ok: false, error: outcome.error };
+    });
   };
 }
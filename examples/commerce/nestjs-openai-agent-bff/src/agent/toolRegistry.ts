@@ -0,0 +1,181 @@
+/**
+ * Tool registry for built-in and host-provided tools.
+ *
+ * Host teams register store-specific tools as plugins instead of forking
+ * createTools. A plugin declares its schema, handler, display name, localized
+ * status copy, whether it mutates state (and so needs user confirmation) and
+ * which applicationIds it is enabled for.
+ *
+ * Tools without explicit metadata keep the built-in behavior: cart mutations
+ * (CART_MUTATION_TOOLS) need confirmation and every application can use them.
+ */
+
+import type { z } from 'zod';
+import type { McpState, ToolContext } from '../session/sessionTypes.js';
+import type { LocalizedToolStatusCopy } from '../i18n/statusI18n.js';
+import { mcpServerSupports, type McpCapabilityName } from '../norce/mcpCapabilities.js';
+import type { Tool } from './tools.js';
+import { isCartMutationTool } from './confirmation.js';
+
+/**
+ * Tool names are sent to the LLM as function names, so they follow the
+ * OpenAI function name rules.
+ */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * A custom tool registered by the host application.
+ */
+export interface ToolPlugin<TArgs = unknown> {
+  /** Tool name exposed to the LLM (letters, digits, "_" and "-", max 64 chars) */
+  name: string;
+  /** Tool description exposed to the LLM */
+  description: string;
+  /** Zod schema for the tool arguments; also used to validate LLM arguments */
+  parameters: z.ZodType<TArgs>;
+  /** Executes the tool with validated arguments */
+  handler: (args: TArgs, mcpState: McpState, context?: ToolContext, applicationId?: string) => Promise<unknown>;
+  /** UI-friendly display name for streamed tool events and confirmation prompts */
+  displayName: string;
+  /** Localized status copy (falls back to the display name and default status strings) */
+  statusCopy?: LocalizedToolStatusCopy;
+  /** Whether the tool mutates state; mutating tools run only after user confirmation */
+  mutating?: boolean;
+  /** applicationIds the tool is enabled for (all applications when unset) */
+  applicationIds?: readonly string[];
+  /** MCP server capabilities the tool needs (e.g. ['resources']) */
+  requiredCapabilities?: readonly McpCapabilityName[];
+}
+
+/**
+ * Checks if a tool is enabled for an applicationId.
+ * Tools without applicationIds are enabled for every application.
+ *
+ * @param tool - The tool
+ * @param applicationId - The applicationId of the request
+ * @returns true if the tool may be offered to and executed for the application
+ */
+export function isToolEnabled(tool: Tool, applicationId?: string): boolean {
+  if (!tool.applicationIds) {
+    return true;
+  }
+  return applicationId !== undefined && tool.applicationIds.includes(applicationId);
+}
+
+/**
+ * Checks if the MCP server supports everything a tool needs.
+ * Before the MCP session is initialized, capabilities are unknown and the tool is offered.
+ *
+ * @param tool - The tool
+ * @param mcpState - The MCP state of the session
+ * @returns false if the server advertised capabilities without one the tool requires
+ */
+export function isToolSupported(tool: Tool, mcpState: McpState): boolean {
+  return (tool.requiredCapabilities ?? []).every((capability) => mcpServerSupports(mcpState, capability) !== false);
+}
+
+/**
+ * Checks if a tool must be confirmed by the user before it runs.
+ *
+ * @param tool - The tool
+ * @returns true for mutating tools and built-in cart mutations
+ */
+export function toolRequiresConfirmation(tool: Tool): boolean {
+  return tool.mutating ?? isCartMutationTool(tool.name);
+}
+
+/**
+ * Registry of the tools available to the agent.
+ *
+ * @example
+ * ```typescript
+ * const registry = new ToolRegistry(createTools(deps));
+ * registry.register({
+ *   name: 'store_lookup',
+ *   description: 'Find physical stores near a city.',
+ *   parameters: z.object({ city: z.string() }),
+ *   handler: async ({ city }) => findStores(city),
+ *   displayName: 'Finding stores',
+ *   statusCopy: { sv: { displayName: 'Söker butiker', start: 'Letar efter butiker...' } },
+ *   applicationIds: ['store-se'],
+ * });
+ * const agentRunner = new AgentRunner({ tools: registry.getTools() });
+ * ```
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+
+  /**
+   * @param tools - Initial tools, typically the built-in tools from createTools
+   */
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) {
+      this.add(tool);
+    }
+  }
+
+  /**
+   * Register a custom tool.
+   *
+   * @param plugin - The tool plugin
+   * @returns The registry, for chaining
+   * @throws Error if the name is invalid or already registered
+   */
+  register<TArgs>(plugin: ToolPlugin<TArgs>): this {
+    const { handler } = plugin;
+    this.add({
+      name: plugin.name,
+      description: plugin.description,
+      parameters: plugin.parameters,
+      execute: (params, mcpState, context, applicationId) =>
+        handler(params as TArgs, mcpState, context, applicationId),
+      displayName: plugin.displayName,
+      statusCopy: plugin.statusCopy,
+      mutating: plugin.mutating ?? false,
+      applicationIds: plugin.applicationIds,
+      requiredCapabilities: plugin.requiredCapabilities,
+    });
+    return this;
+  }
+
+  /**
+   * Check if a tool name is registered.
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get all registered tools, in registration order.
+   */
+  getTools(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Get the tools enabled for an applicationId.
+   *
+   * @param applicationId - The applicationId of the request
+   */
+  getToolsForApplication(applicationId?: string): Tool[] {
+    return this.getTools().filter((tool) => isToolEnabled(tool, applicationId));
+  }
+
+  /**
+   * Add a tool definition as is (built-in or generated tools).
+   *
+   * @param tool - The tool
+   * @returns The registry, for chaining
+   * @throws Error if the name is invalid or already registered
+   */
+  add(tool: Tool): this {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}": use letters, digits, "_" or "-" (max 64 characters)`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+}
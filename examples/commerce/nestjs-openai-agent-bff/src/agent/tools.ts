@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import type { McpState, ToolContext } from '../session/sessionTypes.js';
+import type { LocalizedToolStatusCopy } from '../i18n/statusI18n.js';
+import type { McpCapabilityName } from '../norce/mcpCapabilities.js';
 import {
   createProductSearchHandler,
   createProductGetHandler,
@@ -23,79 +25,40 @@ import {
   createCartSetItemQuantityHandler,
   createCartRemoveItemHandler,
 } from './cart/cartHandlers.js';
+import { productSearchLlmSchema, productGetLlmSchema } from './product/productSchemas.js';
 
-/**
- * Context schema for Norce API calls.
- * Contains tenant-specific data that is passed through unchanged to MCP tool arguments.
- * 
- * IMPORTANT: This schema is used for runtime validation only.
- * Context is NEVER exposed to the LLM - it is caller-owned and injected server-side.
- */
-export const contextSchema = z.object({
-  cultureCode: z.string().optional().describe('Culture code (e.g., "sv-SE")'),
-  currencyCode: z.string().optional().describe('Currency code (e.g., "SEK")'),
-  priceListIds: z.array(z.number()).optional().describe('Price list IDs'),
-  salesAreaId: z.number().optional().describe('Sales area ID'),
-  customerId: z.number().optional().describe('Customer ID'),
-  companyId: z.number().optional().describe('Company ID'),
-});
-
-/**
- * LLM args schema for product_search (exposed to OpenAI).
- * IMPORTANT: Does NOT include context - context is caller-owned and injected server-side.
- */
-export const productSearchLlmSchema = z.object({
-  query: z.string().describe('Search query for products'),
-  filters: z.record(z.string(), z.unknown()).optional().describe('Optional filters for the search'),
-  pageSize: z.number().optional().describe('Number of results to return'),
-});
-
-/**
- * Full schema for product_search including context (for runtime validation).
- * @deprecated Use productSearchLlmSchema for OpenAI tool definitions.
- */
-export const productSearchSchema = z.object({
-  query: z.string().describe('Search query for products'),
-  filters: z.record(z.string(), z.unknown()).optional().describe('Optional filters for the search'),
-  pageSize: z.number().optional().describe('Number of results to return'),
-  context: contextSchema.optional().describe('Context object with tenant-specific data'),
-});
+// Product schemas live in product/productSchemas.ts; re-exported for existing imports
+export {
+  contextSchema,
+  productSearchLlmSchema,
+  productSearchSchema,
+  productGetLlmSchema,
+  productGetSchema,
+} from './product/productSchemas.js';
 
-/**
- * LLM args schema for product_get (exposed to OpenAI).
- * IMPORTANT: Does NOT include context - context is caller-owned and injected server-side.
- * Uses z.coerce.string() to accept productId as string or number (coerced to string).
- * Requires either productId or partNo to be provided.
- */
-export const productGetLlmSchema = z.object({
-  productId: z.coerce.string().optional().describe('Product ID to retrieve (accepts string or number)'),
-  partNo: z.string().optional().describe('Part number to retrieve'),
-}).refine(
-  (data) => data.productId !== undefined || data.partNo !== undefined,
-  { message: 'Either productId or partNo must be provided' }
-);
-
-/**
- * Full schema for product_get including context (for runtime validation).
- * @deprecated Use productGetLlmSchema for OpenAI tool definitions.
- */
-export const productGetSchema = z.object({
-  productId: z.coerce.string().optional().describe('Product ID to retrieve (accepts string or number)'),
-  partNo: z.string().optional().describe('Part number to retrieve'),
-  context: contextSchema.optional().describe('Context object with tenant-specific data'),
-}).refine(
-  (data) => data.productId !== undefined || data.partNo !== undefined,
-  { message: 'Either productId or partNo must be provided' }
-);
 
 /**
  * Tool interface for OpenAI function calling.
+ *
+ * The optional metadata is set for tools registered through the ToolRegistry.
+ * Built-in tools leave it unset and are classified by name
+ * (CART_MUTATION_TOOLS, READ_ONLY_TOOLS, status JSON files).
  */
 export interface Tool {
   name: string;
   description: string;
   parameters: z.ZodSchema;
   execute: (params: unknown, mcpState: McpState, context?: ToolContext, applicationId?: string) => Promise<unknown>;
+  /** UI-friendly display name (see toolDisplayNames.ts) */
+  displayName?: string;
+  /** Localized status copy for streamed status and tool events */
+  statusCopy?: LocalizedToolStatusCopy;
+  /** Whether the tool mutates state and must be confirmed by the user before it runs */
+  mutating?: boolean;
+  /** applicationIds the tool is enabled for (all applications when unset) */
+  applicationIds?: readonly string[];
+  /** MCP server capabilities the tool needs; not offered when the server lacks one */
+  requiredCapabilities?: readonly McpCapabilityName[];
 }
 
 /**
@@ -0,0 +1,9 @@
+/**
+ * Storage backend for cached MCP tool results.
+ * Values are JSON-serializable MCP results; entries expire after their TTL.
+ */
+export interface IToolResultCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,56 @@
+import { IToolResultCacheStore } from './IToolResultCacheStore.js';
+
+export interface InMemoryToolResultCacheStoreOptions {
+  /** Max entries kept; the least recently used entry is evicted first */
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class InMemoryToolResultCacheStore implements IToolResultCacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(options: InMemoryToolResultCacheStoreOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Callers get their own copy, so a cached result is never shared between requests
+    return structuredClone(entry.value);
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
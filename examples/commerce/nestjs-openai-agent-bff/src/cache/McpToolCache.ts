@@ -0,0 +1,187 @@
+/**
+ * Shared cache for read-only MCP tool results (product.search, product.get).
+ *
+ * Identical catalog calls repeat across sessions, so results are cached per
+ * applicationId, tool and arguments. The key includes the caller-owned context
+ * that affects the result (culture, currency, price lists, sales area, customer,
+ * company), so prices never leak between price lists. Per-session values
+ * (clientIp, basketId) are left out of the key.
+ *
+ * Only tools with a configured TTL are cached; cart tools always go to MCP.
+ * Hits and misses are recorded in the tool trace (see collectToolCacheEvents).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import pino from 'pino';
+import { PRODUCT_GET, PRODUCT_SEARCH } from '../norce/mcpToolNames.js';
+import { getCassetteContext } from '../debug/cassetteContext.js';
+import type { NorceMcpClient } from '../norce/NorceMcpClient.js';
+import type { McpState, ToolContext } from '../session/sessionTypes.js';
+import type { IToolResultCacheStore } from './IToolResultCacheStore.js';
+
+const logger = pino({ name: 'mcpToolCache' });
+
+/** MCP tools whose results may be shared across sessions */
+export const CACHEABLE_MCP_TOOLS: readonly string[] = [PRODUCT_SEARCH, PRODUCT_GET];
+
+/**
+ * A cache lookup, recorded in the tool trace.
+ */
+export interface ToolCacheEvent {
+  /** MCP tool name */
+  mcpTool: string;
+  hit: boolean;
+}
+
+export interface McpToolCacheOptions {
+  store: IToolResultCacheStore;
+  /** TTL in seconds per MCP tool name; tools without a TTL (or TTL 0) are not cached */
+  ttlSeconds: Partial<Record<string, number>>;
+}
+
+/**
+ * Context fields that change catalog results. Everything else in ToolContext is per session.
+ */
+function cacheContext(context: ToolContext | undefined): Record<string, unknown> | undefined {
+  if (!context) {
+    return undefined;
+  }
+  return {
+    cultureCode: context.cultureCode,
+    currencyCode: context.currencyCode,
+    priceListIds: context.priceListIds ? [...context.priceListIds].sort((a, b) => a - b) : undefined,
+    salesAreaId: context.salesAreaId,
+    customerId: context.customerId,
+    companyId: context.companyId,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so equal arguments give equal keys.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cache key for an MCP tool call: applicationId, tool name and a hash of the
+ * arguments with the result-relevant context.
+ */
+export function buildToolCacheKey(applicationId: string, toolName: string, args: Record<string, unknown>): string {
+  const { context, ...rest } = args;
+  const keyArgs = { ...rest, context: cacheContext(context as ToolContext | undefined) };
+  const hash = createHash('sha256').update(stableStringify(keyArgs)).digest('hex');
+  return `${applicationId}:${toolName}:${hash}`;
+}
+
+const eventStorage = new AsyncLocalStorage<ToolCacheEvent[]>();
+
+/**
+ * Run a tool execution and collect the cache lookups it makes.
+ * The array is filled in place, so events are available even if fn throws.
+ *
+ * @param events - Array that receives the events
+ * @param fn - The tool execution
+ */
+export function collectToolCacheEvents<T>(events: ToolCacheEvent[], fn: () => Promise<T>): Promise<T> {
+  return eventStorage.run(events, fn);
+}
+
+function recordToolCacheEvent(event: ToolCacheEvent): void {
+  eventStorage.getStore()?.push(event);
+}
+
+/**
+ * Read-through cache in front of NorceMcpClient.callTool for catalog tools.
+ * Cache failures never fail the tool call: they are logged and MCP is called.
+ */
+export class McpToolCache {
+  private readonly store: IToolResultCacheStore;
+  private readonly ttlSeconds: Partial<Record<string, number>>;
+
+  constructor(options: McpToolCacheOptions) {
+    this.store = options.store;
+    this.ttlSeconds = options.ttlSeconds;
+  }
+
+  /**
+   * Whether results of this MCP tool are cached.
+   * Bypassed while a debug-run cassette is recorded or replayed, so recordings stay complete.
+   */
+  isCacheable(toolName: string): boolean {
+    return CACHEABLE_MCP_TOOLS.includes(toolName)
+      && (this.ttlSeconds[toolName] ?? 0) > 0
+      && !getCassetteContext();
+  }
+
+  /**
+   * Look up a cached result and record the hit or miss.
+   *
+   * @returns The cached result, or undefined on a miss (or if the tool is not cacheable)
+   */
+  async get(applicationId: string, toolName: string, args: Record<string, unknown>): Promise<unknown | undefined> {
+    if (!this.isCacheable(toolName)) {
+      return undefined;
+    }
+
+    let value: unknown;
+    try {
+      value = await this.store.get(buildToolCacheKey(applicationId, toolName, args));
+    } catch (error) {
+      logger.warn({ err: error, tool: toolName, applicationId }, 'Tool result cache read failed');
+    }
+    recordToolCacheEvent({ mcpTool: toolName, hit: value !== undefined });
+    return value;
+  }
+
+  /**
+   * Store a successful result (no-op if the tool is not cacheable).
+   */
+  async set(applicationId: string, toolName: string, args: Record<string, unknown>, value: unknown): Promise<void> {
+    if (!this.isCacheable(toolName) || value === undefined) {
+      return;
+    }
+
+    try {
+      await this.store.set(buildToolCacheKey(applicationId, toolName, args), value, this.ttlSeconds[toolName] ?? 0);
+    } catch (error) {
+      logger.warn({ err: error, tool: toolName, applicationId }, 'Tool result cache write failed');
+    }
+  }
+
+  /**
+   * Call an MCP tool through the cache.
+   * Same signature as NorceMcpClient.callTool after the client argument.
+   */
+  async callTool(
+    mcpClient: NorceMcpClient,
+    state: McpState,
+    toolName: string,
+    args: Record<string, unknown>,
+    accessToken: string,
+    applicationId: string
+  ): Promise<unknown> {
+    const cached = await this.get(applicationId, toolName, args);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const result = await mcpClient.callTool(state, toolName, args, accessToken, applicationId);
+    await this.set(applicationId, toolName, args, result);
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
@@ -0,0 +1,73 @@
+import { Redis } from 'ioredis';
+import { IToolResultCacheStore } from './IToolResultCacheStore.js';
+
+export interface RedisToolResultCacheStoreOptions {
+  redisUrl: string;
+  prefix?: string;
+}
+
+export class RedisToolResultCacheStore implements IToolResultCacheStore {
+  private readonly redis: Redis;
+  private readonly prefix: string;
+
+  constructor(options: RedisToolResultCacheStoreOptions) {
+    this.redis = new Redis(options.redisUrl, {
+      lazyConnect: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          return null;
+        }
+        return Math.min(times * 100, 3000);
+      },
+    });
+    this.prefix = options.prefix ?? 'agent:toolcache:';
+
+    this.redis.on('error', (err: Error) => {
+      console.error('[RedisToolResultCacheStore] Redis connection error:', err.message);
+    });
+  }
+
+  private getFullKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const fullKey = this.getFullKey(key);
+    const raw = await this.redis.get(fullKey);
+    if (raw === null) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      await this.redis.del(fullKey);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await this.redis.set(this.getFullKey(key), JSON.stringify(value), 'EX', ttlSeconds);
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      console.error(
+        '[RedisToolResultCacheStore] Failed to disconnect from Redis:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const result = await this.redis.ping();
+      return result === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+export type { IToolResultCacheStore } from './IToolResultCacheStore.js';
+export { InMemoryToolResultCacheStore, type InMemoryToolResultCacheStoreOptions } from './InMemoryToolResultCacheStore.js';
+export { RedisToolResultCacheStore, type RedisToolResultCacheStoreOptions } from './RedisToolResultCacheStore.js';
+export {
+  McpToolCache,
+  CACHEABLE_MCP_TOOLS,
+  buildToolCacheKey,
+  collectToolCacheEvents,
+  type McpToolCacheOptions,
+  type ToolCacheEvent,
+} from './McpToolCache.js';
+export { createToolCache, type ToolCacheFactoryResult } from './toolCacheFactory.js';
@@ -0,0 +1,52 @@
+import { config } from '../config.js';
+import { PRODUCT_GET, PRODUCT_SEARCH } from '../norce/mcpToolNames.js';
+import { InMemoryToolResultCacheStore } from './InMemoryToolResultCacheStore.js';
+import { RedisToolResultCacheStore } from './RedisToolResultCacheStore.js';
+import { McpToolCache } from './McpToolCache.js';
+
+export interface ToolCacheFactoryResult {
+  /** Undefined when TOOL_CACHE=off */
+  cache: McpToolCache | undefined;
+  type: 'off' | 'memory' | 'redis';
+}
+
+/**
+ * Create the shared MCP tool result cache from config (TOOL_CACHE).
+ * Redis reuses REDIS_URL with its own key prefix.
+ */
+export async function createToolCache(): Promise<ToolCacheFactoryResult> {
+  const toolCacheConfig = config.toolCache;
+  if (!toolCacheConfig || toolCacheConfig.store === 'off') {
+    return { cache: undefined, type: 'off' };
+  }
+
+  const ttlSeconds = {
+    [PRODUCT_SEARCH]: toolCacheConfig.searchTtlSeconds,
+    [PRODUCT_GET]: toolCacheConfig.productTtlSeconds,
+  };
+
+  if (toolCacheConfig.store === 'redis') {
+    const redisUrl = config.session.redis.url;
+    if (!redisUrl) {
+      throw new Error(
+        'TOOL_CACHE=redis requires REDIS_URL to be set. ' +
+        'Example: REDIS_URL=redis://localhost:6379'
+      );
+    }
+
+    const store = new RedisToolResultCacheStore({ redisUrl, prefix: toolCacheConfig.redisPrefix });
+    const isConnected = await store.ping();
+    if (!isConnected) {
+      await store.close();
+      throw new Error(
+        `Failed to connect to Redis at ${redisUrl}. ` +
+        'Ensure Redis is running and the URL is correct.'
+      );
+    }
+
+    return { cache: new McpToolCache({ store, ttlSeconds }), type: 'redis' };
+  }
+
+  const store = new InMemoryToolResultCacheStore({ maxEntries: toolCacheConfig.maxEntries });
+  return { cache: new McpToolCache({ store, ttlSeconds }), type: 'memory' };
+}
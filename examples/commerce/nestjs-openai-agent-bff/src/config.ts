@@ -16,6 +16,20 @@ const configSchema = z.object({
   OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
   OPENAI_MODEL: z.string().default('gpt-4o-mini'),
   
+  // LLM provider selection
+  // 'openai' (default), 'openai-compatible' (local/self-hosted endpoint) or 'scripted' (offline, tests/CI)
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'scripted']).default('openai'),
+  // Base URL for 'openai-compatible' (e.g. http://localhost:11434/v1)
+  LLM_BASE_URL: z.string().optional(),
+  // API key for 'openai-compatible' (falls back to OPENAI_API_KEY)
+  LLM_API_KEY: z.string().optional(),
+  // Per-application model overrides: comma-separated applicationId=model pairs
+  LLM_MODEL_OVERRIDES: z.string().optional().default(''),
+  // Script file (YAML/JSON) replayed when LLM_PROVIDER=scripted
+  LLM_SCRIPT_PATH: z.string().optional(),
+  // Price overrides in USD per 1M tokens: comma-separated model=input:output[:cachedInput]
+  LLM_PRICE_TABLE: z.string().optional().default(''),
+  
   // Norce MCP
   NORCE_MCP_BASE_URL: z.string().url('NORCE_MCP_BASE_URL must be a valid URL'),
   // DEFAULT_APPLICATION_ID is optional - only for dev/tests, not used in production request paths
@@ -27,25 +41,92 @@ const configSchema = z.object({
   // If set, requests with applicationId not in this list will be rejected (403)
   // If not set or empty in development, all applicationIds are allowed
   ALLOWED_APPLICATION_IDS: z.string().optional(),
+  // Dynamic MCP tools (opt-in): expose MCP tools/list results as agent tools.
+  // ALLOW/DENY are comma-separated MCP tool names; a trailing * matches a prefix (e.g. "store.*")
+  MCP_DYNAMIC_TOOLS_ENABLED: z.string().default('0'),
+  MCP_DYNAMIC_TOOLS_APPLICATION_ID: z.string().optional(),
+  MCP_DYNAMIC_TOOLS_ALLOW: z.string().optional().default(''),
+  MCP_DYNAMIC_TOOLS_DENY: z.string().optional().default(''),
+  // MCP prompts and resources: comma-separated prompt names appended to the system prompt,
+  // opt-in store_reference tool reading MCP resources, and how long both are cached per applicationId
+  MCP_SYSTEM_PROMPTS: z.string().optional().default(''),
+  MCP_REFERENCE_TOOL_ENABLED: z.string().default('0'),
+  MCP_CONTENT_CACHE_TTL_SECONDS: z.string().default('300'),
   
   // Norce OAuth
   NORCE_OAUTH_TOKEN_URL: z.string().url('NORCE_OAUTH_TOKEN_URL must be a valid URL'),
   NORCE_OAUTH_CLIENT_ID: z.string().min(1, 'NORCE_OAUTH_CLIENT_ID is required'),
   NORCE_OAUTH_CLIENT_SECRET: z.string().min(1, 'NORCE_OAUTH_CLIENT_SECRET is required'),
   NORCE_OAUTH_SCOPE: z.string().min(1, 'NORCE_OAUTH_SCOPE is required'),
+  // Token cache: 'memory' (per process) or 'redis' (shared by instances, uses REDIS_URL)
+  NORCE_TOKEN_CACHE: z.enum(['memory', 'redis']).default('memory'),
+  NORCE_TOKEN_REDIS_PREFIX: z.string().default('agent:token:'),
+  // Tokens used within this window before expiry are refreshed in the background
+  NORCE_TOKEN_REFRESH_AHEAD_SECONDS: z.string().default('300'),
+  // Subtracted from token lifetimes to allow for clock differences with the OAuth server
+  NORCE_TOKEN_CLOCK_SKEW_SECONDS: z.string().default('30'),
+  // How long to wait for another instance's refresh (redis) before fetching a token ourselves
+  NORCE_TOKEN_LOCK_WAIT_MS: z.string().default('5000'),
   
   // Session storage configuration
-  SESSION_STORE: z.enum(['memory', 'redis']).default('memory'),
+  SESSION_STORE: z.enum(['memory', 'redis', 'sqlite']).default('memory'),
   SESSION_TTL_SECONDS: z.string().default('3600'),
+  // A second message while a session's turn is running: 'reject' (SESSION_BUSY) or 'queue' (wait for the turn)
+  SESSION_LOCK_MODE: z.enum(['reject', 'queue']).default('reject'),
+  // Lease of the per-session turn lock; renewed while the turn runs and released when it ends
+  SESSION_LOCK_TTL_MS: z.string().default('120000'),
+  // With queue: how long a message waits for the running turn before SESSION_BUSY
+  SESSION_LOCK_WAIT_MS: z.string().default('10000'),
+  // SQLite database file (SESSION_STORE=sqlite)
+  SESSION_SQLITE_PATH: z.string().default('./data/sessions.db'),
   // Redis configuration (required when SESSION_STORE=redis)
   REDIS_URL: z.string().optional(),
   REDIS_PREFIX: z.string().default('agent:sess:'),
   
+  // Shared product.search/product.get result cache: 'off', 'memory' or 'redis' (uses REDIS_URL)
+  TOOL_CACHE: z.enum(['off', 'memory', 'redis']).default('off'),
+  TOOL_CACHE_SEARCH_TTL_SECONDS: z.string().default('60'),
+  TOOL_CACHE_PRODUCT_TTL_SECONDS: z.string().default('300'),
+  TOOL_CACHE_MAX_ENTRIES: z.string().default('1000'),
+  TOOL_CACHE_REDIS_PREFIX: z.string().default('agent:toolcache:'),
+  
   // Agent configuration
   AGENT_MAX_ROUNDS: z.string().default('6'),
   AGENT_MAX_TOOL_CALLS_PER_ROUND: z.string().default('3'),
+  // Max read-only tool calls (product_search, product_get, cart_get) run concurrently; 1 = sequential
+  AGENT_MAX_PARALLEL_TOOLS: z.string().default('3'),
+  // Search-only fallback: when the LLM fails, run product_search on the user message instead of returning an error
+  AGENT_SEARCH_FALLBACK_ENABLED: z.string().default('1'),
   DEBUG: z.string().default('0'),
   
+  // Conversation compaction (summarize older turns once history exceeds the token budget)
+  COMPACTION_ENABLED: z.string().default('1'),
+  COMPACTION_TRIGGER_TOKENS: z.string().default('6000'),
+  COMPACTION_KEEP_TURNS: z.string().default('4'),
+  COMPACTION_SUMMARY_MODE: z.enum(['llm', 'deterministic']).default('llm'),
+  COMPACTION_SUMMARY_MAX_TOKENS: z.string().default('400'),
+  
+  // Token and spend budgets (empty = unlimited). Session budgets cover one session,
+  // daily budgets one applicationId per UTC day. Soft budgets switch to BUDGET_SOFT_MODEL,
+  // hard budgets reject the turn.
+  BUDGET_SESSION_SOFT_TOKENS: z.string().optional().default(''),
+  BUDGET_SESSION_HARD_TOKENS: z.string().optional().default(''),
+  BUDGET_SESSION_SOFT_USD: z.string().optional().default(''),
+  BUDGET_SESSION_HARD_USD: z.string().optional().default(''),
+  BUDGET_DAILY_SOFT_TOKENS: z.string().optional().default(''),
+  BUDGET_DAILY_HARD_TOKENS: z.string().optional().default(''),
+  BUDGET_DAILY_SOFT_USD: z.string().optional().default(''),
+  BUDGET_DAILY_HARD_USD: z.string().optional().default(''),
+  // Max agent rounds per turn (overrides AGENT_MAX_ROUNDS when set)
+  BUDGET_MAX_ROUNDS_PER_TURN: z.string().optional().default(''),
+  BUDGET_SOFT_MODEL: z.string().default('gpt-4o-mini'),
+  // Per-application budget overrides as JSON: {"appId": {"dailyHardUsd": 5, ...}}
+  BUDGET_OVERRIDES: z.string().optional().default(''),
+  // Daily usage totals: 'memory' (per process, reset on restart) or 'redis' (shared by instances, uses REDIS_URL).
+  // Daily budgets are only enforced across instances with redis.
+  USAGE_LEDGER_STORE: z.enum(['memory', 'redis']).default('memory'),
+  USAGE_LEDGER_REDIS_PREFIX: z.string().default('agent:usage:'),
+  
   // Timeout configuration (in milliseconds)
   OAUTH_TIMEOUT_MS: z.string().default('5000'),
   MCP_CALL_TIMEOUT_MS: z.string().default('10000'),
@@ -63,6 +144,12 @@ const configSchema = z.object({
   // OpenAI retries for streaming calls (default 0 - retries on streams are bad UX)
   OPENAI_STREAM_MAX_RETRIES: z.string().default('0'),
   
+  // Circuit breakers per upstream (OAuth token endpoint, MCP, OpenAI)
+  CIRCUIT_BREAKER_ENABLED: z.string().default('1'),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: z.string().default('5'),
+  CIRCUIT_BREAKER_OPEN_MS: z.string().default('30000'),
+  CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS: z.string().default('1'),
+  
   // OpenAI SDK debug logging (dev-only, may log request/response bodies)
   OPENAI_SDK_DEBUG: z.string().default('0'),
   
@@ -70,6 +157,9 @@ const configSchema = z.object({
   DEBUG_RUNS_ENABLED: z.string().default('0'),
   DEBUG_RUNS_MAX: z.string().default('200'),
   DEBUG_RUNS_TTL_SECONDS: z.string().default('86400'),
+  // Cassette recording of raw OpenAI/MCP traffic per debug run: 'off' or 'record'
+  DEBUG_RUNS_CASSETTE_MODE: z.enum(['off', 'record']).default('off'),
+  DEBUG_RUNS_CASSETTE_DIR: z.string().default('./cassettes'),
   
   // CORS configuration
   CORS_ORIGINS: z.string().default('http://localhost:5173,http://127.0.0.1:5173'),
@@ -90,20 +180,67 @@ function parseConfig() {
       PORT: process.env.PORT,
       OPENAI_API_KEY: process.env.OPENAI_API_KEY,
       OPENAI_MODEL: process.env.OPENAI_MODEL,
+      LLM_PROVIDER: process.env.LLM_PROVIDER,
+      LLM_BASE_URL: process.env.LLM_BASE_URL,
+      LLM_API_KEY: process.env.LLM_API_KEY,
+      LLM_MODEL_OVERRIDES: process.env.LLM_MODEL_OVERRIDES,
+      LLM_SCRIPT_PATH: process.env.LLM_SCRIPT_PATH,
+      LLM_PRICE_TABLE: process.env.LLM_PRICE_TABLE,
       NORCE_MCP_BASE_URL: process.env.NORCE_MCP_BASE_URL,
       DEFAULT_APPLICATION_ID: process.env.DEFAULT_APPLICATION_ID,
       NORCE_STATUS_SEED: process.env.NORCE_STATUS_SEED,
       ALLOWED_APPLICATION_IDS: process.env.ALLOWED_APPLICATION_IDS,
+      MCP_DYNAMIC_TOOLS_ENABLED: process.env.MCP_DYNAMIC_TOOLS_ENABLED,
+      MCP_DYNAMIC_TOOLS_APPLICATION_ID: process.env.MCP_DYNAMIC_TOOLS_APPLICATION_ID,
+      MCP_DYNAMIC_TOOLS_ALLOW: process.env.MCP_DYNAMIC_TOOLS_ALLOW,
+      MCP_DYNAMIC_TOOLS_DENY: process.env.MCP_DYNAMIC_TOOLS_DENY,
+      MCP_SYSTEM_PROMPTS: process.env.MCP_SYSTEM_PROMPTS,
+      MCP_REFERENCE_TOOL_ENABLED: process.env.MCP_REFERENCE_TOOL_ENABLED,
+      MCP_CONTENT_CACHE_TTL_SECONDS: process.env.MCP_CONTENT_CACHE_TTL_SECONDS,
       NORCE_OAUTH_TOKEN_URL: process.env.NORCE_OAUTH_TOKEN_URL,
       NORCE_OAUTH_CLIENT_ID: process.env.NORCE_OAUTH_CLIENT_ID,
       NORCE_OAUTH_CLIENT_SECRET: process.env.NORCE_OAUTH_CLIENT_SECRET,
       NORCE_OAUTH_SCOPE: process.env.NORCE_OAUTH_SCOPE,
+      NORCE_TOKEN_CACHE: process.env.NORCE_TOKEN_CACHE,
+      NORCE_TOKEN_REDIS_PREFIX: process.env.NORCE_TOKEN_REDIS_PREFIX,
+      NORCE_TOKEN_REFRESH_AHEAD_SECONDS: process.env.NORCE_TOKEN_REFRESH_AHEAD_SECONDS,
+      NORCE_TOKEN_CLOCK_SKEW_SECONDS: process.env.NORCE_TOKEN_CLOCK_SKEW_SECONDS,
+      NORCE_TOKEN_LOCK_WAIT_MS: process.env.NORCE_TOKEN_LOCK_WAIT_MS,
       SESSION_STORE: process.env.SESSION_STORE,
       SESSION_TTL_SECONDS: process.env.SESSION_TTL_SECONDS,
+      SESSION_LOCK_MODE: process.env.SESSION_LOCK_MODE,
+      SESSION_LOCK_TTL_MS: process.env.SESSION_LOCK_TTL_MS,
+      SESSION_LOCK_WAIT_MS: process.env.SESSION_LOCK_WAIT_MS,
+      SESSION_SQLITE_PATH: process.env.SESSION_SQLITE_PATH,
       REDIS_URL: process.env.REDIS_URL,
       REDIS_PREFIX: process.env.REDIS_PREFIX,
+      TOOL_CACHE: process.env.TOOL_CACHE,
+      TOOL_CACHE_SEARCH_TTL_SECONDS: process.env.TOOL_CACHE_SEARCH_TTL_SECONDS,
+      TOOL_CACHE_PRODUCT_TTL_SECONDS: process.env.TOOL_CACHE_PRODUCT_TTL_SECONDS,
+      TOOL_CACHE_MAX_ENTRIES: process.env.TOOL_CACHE_MAX_ENTRIES,
+      TOOL_CACHE_REDIS_PREFIX: process.env.TOOL_CACHE_REDIS_PREFIX,
       AGENT_MAX_ROUNDS: process.env.AGENT_MAX_ROUNDS,
       AGENT_MAX_TOOL_CALLS_PER_ROUND: process.env.AGENT_MAX_TOOL_CALLS_PER_ROUND,
+      AGENT_MAX_PARALLEL_TOOLS: process.env.AGENT_MAX_PARALLEL_TOOLS,
+      AGENT_SEARCH_FALLBACK_ENABLED: process.env.AGENT_SEARCH_FALLBACK_ENABLED,
+      COMPACTION_ENABLED: process.env.COMPACTION_ENABLED,
+      COMPACTION_TRIGGER_TOKENS: process.env.COMPACTION_TRIGGER_TOKENS,
+      COMPACTION_KEEP_TURNS: process.env.COMPACTION_KEEP_TURNS,
+      COMPACTION_SUMMARY_MODE: process.env.COMPACTION_SUMMARY_MODE,
+      COMPACTION_SUMMARY_MAX_TOKENS: process.env.COMPACTION_SUMMARY_MAX_TOKENS,
+      BUDGET_SESSION_SOFT_TOKENS: process.env.BUDGET_SESSION_SOFT_TOKENS,
+      BUDGET_SESSION_HARD_TOKENS: process.env.BUDGET_SESSION_HARD_TOKENS,
+      BUDGET_SESSION_SOFT_USD: process.env.BUDGET_SESSION_SOFT_USD,
+      BUDGET_SESSION_HARD_USD: process.env.BUDGET_SESSION_HARD_USD,
+      BUDGET_DAILY_SOFT_TOKENS: process.env.BUDGET_DAILY_SOFT_TOKENS,
+      BUDGET_DAILY_HARD_TOKENS: process.env.BUDGET_DAILY_HARD_TOKENS,
+      BUDGET_DAILY_SOFT_USD: process.env.BUDGET_DAILY_SOFT_USD,
+      BUDGET_DAILY_HARD_USD: process.env.BUDGET_DAILY_HARD_USD,
+      BUDGET_MAX_ROUNDS_PER_TURN: process.env.BUDGET_MAX_ROUNDS_PER_TURN,
+      BUDGET_SOFT_MODEL: process.env.BUDGET_SOFT_MODEL,
+      BUDGET_OVERRIDES: process.env.BUDGET_OVERRIDES,
+      USAGE_LEDGER_STORE: process.env.USAGE_LEDGER_STORE,
+      USAGE_LEDGER_REDIS_PREFIX: process.env.USAGE_LEDGER_REDIS_PREFIX,
       DEBUG: process.env.DEBUG,
       OAUTH_TIMEOUT_MS: process.env.OAUTH_TIMEOUT_MS,
       MCP_CALL_TIMEOUT_MS: process.env.MCP_CALL_TIMEOUT_MS,
@@ -114,10 +251,16 @@ function parseConfig() {
       RETRY_JITTER_MS: process.env.RETRY_JITTER_MS,
       OPENAI_MAX_RETRIES: process.env.OPENAI_MAX_RETRIES,
       OPENAI_STREAM_MAX_RETRIES: process.env.OPENAI_STREAM_MAX_RETRIES,
+      CIRCUIT_BREAKER_ENABLED: process.env.CIRCUIT_BREAKER_ENABLED,
+      CIRCUIT_BREAKER_FAILURE_THRESHOLD: process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+      CIRCUIT_BREAKER_OPEN_MS: process.env.CIRCUIT_BREAKER_OPEN_MS,
+      CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS: process.env.CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS,
       OPENAI_SDK_DEBUG: process.env.OPENAI_SDK_DEBUG,
       DEBUG_RUNS_ENABLED: process.env.DEBUG_RUNS_ENABLED,
       DEBUG_RUNS_MAX: process.env.DEBUG_RUNS_MAX,
       DEBUG_RUNS_TTL_SECONDS: process.env.DEBUG_RUNS_TTL_SECONDS,
+      DEBUG_RUNS_CASSETTE_MODE: process.env.DEBUG_RUNS_CASSETTE_MODE,
+      DEBUG_RUNS_CASSETTE_DIR: process.env.DEBUG_RUNS_CASSETTE_DIR,
       CORS_ORIGINS: process.env.CORS_ORIGINS,
       BODY_LIMIT_BYTES: process.env.BODY_LIMIT_BYTES,
       MAX_MESSAGE_CHARS: process.env.MAX_MESSAGE_CHARS,
@@ -134,6 +277,88 @@ function parseConfig() {
 
 const env = parseConfig();
 
+/**
+ * Parse "appA=model-a,appB=model-b" into a lookup record.
+ * Malformed pairs are ignored.
+ */
+function parseModelOverrides(value: string): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const [applicationId, model] = pair.split('=').map((part) => part.trim());
+    if (applicationId && model) {
+      overrides[applicationId] = model;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Parse "model-a=0.15:0.6:0.075,model-b=2.5:10" into a price table
+ * (USD per 1M input, output and optional cached input tokens).
+ * Malformed entries are ignored.
+ */
+function parsePriceTable(value: string): Record<string, { input: number; output: number; cachedInput?: number }> {
+  const table: Record<string, { input: number; output: number; cachedInput?: number }> = {};
+  for (const entry of value.split(',')) {
+    const [model, prices] = entry.split('=').map((part) => part.trim());
+    const [input, output, cachedInput] = (prices ?? '').split(':').map((part) => Number(part.trim()));
+    if (model && Number.isFinite(input) && Number.isFinite(output)) {
+      table[model] = Number.isFinite(cachedInput) ? { input, output, cachedInput } : { input, output };
+    }
+  }
+  return table;
+}
+
+/**
+ * Parse an optional non-negative number. Empty or malformed values mean "not set".
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Schema for one application's budget limits in BUDGET_OVERRIDES.
+ */
+const budgetLimitsSchema = z.object({
+  sessionSoftTokens: z.number().nonnegative().optional(),
+  sessionHardTokens: z.number().nonnegative().optional(),
+  sessionSoftUsd: z.number().nonnegative().optional(),
+  sessionHardUsd: z.number().nonnegative().optional(),
+  dailySoftTokens: z.number().nonnegative().optional(),
+  dailyHardTokens: z.number().nonnegative().optional(),
+  dailySoftUsd: z.number().nonnegative().optional(),
+  dailyHardUsd: z.number().nonnegative().optional(),
+  maxRoundsPerTurn: z.number().int().positive().optional(),
+  softModel: z.string().min(1).optional(),
+}).strict();
+
+/**
+ * Parse BUDGET_OVERRIDES (JSON object keyed by applicationId).
+ * Unlike the comma-separated lists, a malformed value fails startup:
+ * silently dropping a hard budget would remove a spend cap.
+ */
+function parseBudgetOverrides(value: string): Record<string, z.infer<typeof budgetLimitsSchema>> {
+  if (value.trim() === '') {
+    return {};
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw new Error('Configuration validation failed:\n  - BUDGET_OVERRIDES: must be a JSON object');
+  }
+  const result = z.record(z.string(), budgetLimitsSchema).safeParse(json);
+  if (!result.success) {
+    const messages = result.error.issues.map((err) => `  - BUDGET_OVERRIDES.${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Configuration validation failed:\n${messages.join('\n')}`);
+  }
+  return result.data;
+}
+
 /**
  * Typed configuration object exported for use throughout the application.
  */
@@ -145,6 +370,15 @@ export const config = {
     model: env.OPENAI_MODEL,
   },
   
+  llm: {
+    provider: env.LLM_PROVIDER,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    modelOverrides: parseModelOverrides(env.LLM_MODEL_OVERRIDES),
+    scriptPath: env.LLM_SCRIPT_PATH,
+    priceTable: parsePriceTable(env.LLM_PRICE_TABLE),
+  },
+  
   norce: {
     mcp: {
       baseUrl: env.NORCE_MCP_BASE_URL,
@@ -156,27 +390,94 @@ export const config = {
       allowedApplicationIds: env.ALLOWED_APPLICATION_IDS
         ? env.ALLOWED_APPLICATION_IDS.split(',').map(id => id.trim()).filter(id => id.length > 0)
         : [],
+      dynamicTools: {
+        enabled: env.MCP_DYNAMIC_TOOLS_ENABLED === '1' || env.MCP_DYNAMIC_TOOLS_ENABLED === 'true',
+        // applicationId used for tools/list at startup (falls back to DEFAULT_APPLICATION_ID)
+        applicationId: env.MCP_DYNAMIC_TOOLS_APPLICATION_ID || env.DEFAULT_APPLICATION_ID,
+        allow: (env.MCP_DYNAMIC_TOOLS_ALLOW ?? '').split(',').map(name => name.trim()).filter(name => name.length > 0),
+        deny: (env.MCP_DYNAMIC_TOOLS_DENY ?? '').split(',').map(name => name.trim()).filter(name => name.length > 0),
+      },
+      content: {
+        // MCP prompts whose text is appended to the system prompt (empty = none)
+        systemPrompts: (env.MCP_SYSTEM_PROMPTS ?? '').split(',').map(name => name.trim()).filter(name => name.length > 0),
+        referenceToolEnabled: env.MCP_REFERENCE_TOOL_ENABLED === '1' || env.MCP_REFERENCE_TOOL_ENABLED === 'true',
+        cacheTtlSeconds: parseInt(env.MCP_CONTENT_CACHE_TTL_SECONDS, 10),
+      },
     },
     oauth: {
       tokenUrl: env.NORCE_OAUTH_TOKEN_URL,
       clientId: env.NORCE_OAUTH_CLIENT_ID,
       clientSecret: env.NORCE_OAUTH_CLIENT_SECRET,
       scope: env.NORCE_OAUTH_SCOPE,
+      tokenCache: {
+        store: env.NORCE_TOKEN_CACHE,
+        redisPrefix: env.NORCE_TOKEN_REDIS_PREFIX,
+      },
+      refreshAheadSeconds: parseInt(env.NORCE_TOKEN_REFRESH_AHEAD_SECONDS, 10),
+      clockSkewSeconds: parseInt(env.NORCE_TOKEN_CLOCK_SKEW_SECONDS, 10),
+      lockWaitMs: parseInt(env.NORCE_TOKEN_LOCK_WAIT_MS, 10),
     },
   },
   
   session: {
     store: env.SESSION_STORE,
     ttlSeconds: parseInt(env.SESSION_TTL_SECONDS, 10),
+    lock: {
+      mode: env.SESSION_LOCK_MODE,
+      ttlMs: parseInt(env.SESSION_LOCK_TTL_MS, 10),
+      waitMs: parseInt(env.SESSION_LOCK_WAIT_MS, 10),
+    },
+    sqlite: {
+      path: env.SESSION_SQLITE_PATH,
+    },
     redis: {
       url: env.REDIS_URL,
       prefix: env.REDIS_PREFIX,
     },
   },
   
+  toolCache: {
+    store: env.TOOL_CACHE,
+    searchTtlSeconds: parseInt(env.TOOL_CACHE_SEARCH_TTL_SECONDS, 10),
+    productTtlSeconds: parseInt(env.TOOL_CACHE_PRODUCT_TTL_SECONDS, 10),
+    maxEntries: parseInt(env.TOOL_CACHE_MAX_ENTRIES, 10),
+    redisPrefix: env.TOOL_CACHE_REDIS_PREFIX,
+  },
+  
   agent: {
     maxRounds: parseInt(env.AGENT_MAX_ROUNDS, 10),
     maxToolCallsPerRound: parseInt(env.AGENT_MAX_TOOL_CALLS_PER_ROUND, 10),
+    maxParallelTools: parseInt(env.AGENT_MAX_PARALLEL_TOOLS, 10),
+    searchFallbackEnabled: env.AGENT_SEARCH_FALLBACK_ENABLED === '1' || env.AGENT_SEARCH_FALLBACK_ENABLED === 'true',
+  },
+  
+  compaction: {
+    enabled: env.COMPACTION_ENABLED === '1' || env.COMPACTION_ENABLED === 'true',
+    triggerTokens: parseInt(env.COMPACTION_TRIGGER_TOKENS, 10),
+    keepRecentTurns: parseInt(env.COMPACTION_KEEP_TURNS, 10),
+    summaryMode: env.COMPACTION_SUMMARY_MODE,
+    summaryMaxTokens: parseInt(env.COMPACTION_SUMMARY_MAX_TOKENS, 10),
+  },
+  
+  budget: {
+    defaults: {
+      sessionSoftTokens: parseOptionalNumber(env.BUDGET_SESSION_SOFT_TOKENS),
+      sessionHardTokens: parseOptionalNumber(env.BUDGET_SESSION_HARD_TOKENS),
+      sessionSoftUsd: parseOptionalNumber(env.BUDGET_SESSION_SOFT_USD),
+      sessionHardUsd: parseOptionalNumber(env.BUDGET_SESSION_HARD_USD),
+      dailySoftTokens: parseOptionalNumber(env.BUDGET_DAILY_SOFT_TOKENS),
+      dailyHardTokens: parseOptionalNumber(env.BUDGET_DAILY_HARD_TOKENS),
+      dailySoftUsd: parseOptionalNumber(env.BUDGET_DAILY_SOFT_USD),
+      dailyHardUsd: parseOptionalNumber(env.BUDGET_DAILY_HARD_USD),
+      maxRoundsPerTurn: parseOptionalNumber(env.BUDGET_MAX_ROUNDS_PER_TURN),
+      softModel: env.BUDGET_SOFT_MODEL,
+    },
+    overrides: parseBudgetOverrides(env.BUDGET_OVERRIDES),
+  },
+  
+  usageLedger: {
+    store: env.USAGE_LEDGER_STORE,
+    redisPrefix: env.USAGE_LEDGER_REDIS_PREFIX,
   },
   
   timeouts: {
@@ -197,6 +498,13 @@ export const config = {
     streamMaxRetries: parseInt(env.OPENAI_STREAM_MAX_RETRIES, 10),
   },
   
+  circuitBreaker: {
+    enabled: env.CIRCUIT_BREAKER_ENABLED === '1' || env.CIRCUIT_BREAKER_ENABLED === 'true',
+    failureThreshold: parseInt(env.CIRCUIT_BREAKER_FAILURE_THRESHOLD, 10),
+    openDurationMs: parseInt(env.CIRCUIT_BREAKER_OPEN_MS, 10),
+    halfOpenMaxCalls: parseInt(env.CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS, 10),
+  },
+  
   openaiSdkDebug: env.OPENAI_SDK_DEBUG === '1' || env.OPENAI_SDK_DEBUG === 'true',
   
   debug: env.DEBUG === '1' || env.DEBUG === 'true',
@@ -205,6 +513,8 @@ export const config = {
     enabled: env.DEBUG_RUNS_ENABLED === '1' || env.DEBUG_RUNS_ENABLED === 'true',
     maxRuns: parseInt(env.DEBUG_RUNS_MAX, 10),
     ttlSeconds: parseInt(env.DEBUG_RUNS_TTL_SECONDS, 10),
+    cassetteMode: env.DEBUG_RUNS_CASSETTE_MODE,
+    cassetteDir: env.DEBUG_RUNS_CASSETTE_DIR,
   },
   
   cors: {
@@ -7,6 +7,10 @@ const DEFAULT_TOKEN_PER_MIN = 10;
 const DEFAULT_BURST = 5;
 const DEFAULT_MAX_KEYS = 5000;
 const DEFAULT_PRUNE_INTERVAL_MS = 60_000;
+const DEFAULT_REDIS_PREFIX = 'agent:rl:';
+
+export type RateLimitStore = 'memory' | 'redis';
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
 
 function parseRateLimitConfig() {
   const chatPerMin = parseInt(process.env.DEMO_RL_CHAT_PER_MIN ?? String(DEFAULT_CHAT_PER_MIN), 10);
@@ -14,6 +18,11 @@ function parseRateLimitConfig() {
   const burst = parseInt(process.env.DEMO_RL_BURST ?? String(DEFAULT_BURST), 10);
   const maxKeys = parseInt(process.env.DEMO_RL_MAX_KEYS ?? String(DEFAULT_MAX_KEYS), 10);
   const pruneIntervalMs = parseInt(process.env.DEMO_RL_PRUNE_INTERVAL_MS ?? String(DEFAULT_PRUNE_INTERVAL_MS), 10);
+  const store: RateLimitStore = process.env.DEMO_RL_STORE === 'redis' ? 'redis' : 'memory';
+  const algorithm: RateLimitAlgorithm =
+    process.env.DEMO_RL_ALGORITHM === 'token-bucket' || process.env.DEMO_RL_ALGORITHM === 'fixed-window'
+      ? process.env.DEMO_RL_ALGORITHM
+      : 'sliding-window';
 
   return {
     chatPerMin: isNaN(chatPerMin) ? DEFAULT_CHAT_PER_MIN : chatPerMin,
@@ -22,6 +31,13 @@ function parseRateLimitConfig() {
     maxKeys: isNaN(maxKeys) ? DEFAULT_MAX_KEYS : maxKeys,
     pruneIntervalMs: isNaN(pruneIntervalMs) ? DEFAULT_PRUNE_INTERVAL_MS : pruneIntervalMs,
     windowMs: 60_000, // Fixed 1-minute window
+    // Redis backend (shared by all instances); the in-memory limiter is always fixed-window
+    store,
+    algorithm,
+    redisUrl: process.env.REDIS_URL,
+    redisPrefix: process.env.DEMO_RL_REDIS_PREFIX || DEFAULT_REDIS_PREFIX,
+    // Per-applicationId quota tiers (JSON file, see docs/rate_limiting.md)
+    tenantPoliciesPath: process.env.TENANT_POLICIES_PATH || undefined,
   };
 }
 
@@ -0,0 +1,145 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import type { CassetteInteraction, OpenAiInteraction, McpInteraction } from './cassetteTypes.js';
+
+/**
+ * Thrown when replayed traffic diverges from the cassette.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(`Cassette mismatch: ${message}`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Collects interactions in call order while a run is recorded.
+ */
+export class CassetteRecorder {
+  readonly interactions: CassetteInteraction[] = [];
+
+  record(interaction: CassetteInteraction): void {
+    this.interactions.push(interaction);
+  }
+}
+
+/**
+ * Serves recorded interactions back in order.
+ *
+ * OpenAI and MCP interactions are consumed from independent queues so that
+ * only the relative order within each upstream matters.
+ */
+export class CassettePlayer {
+  private readonly openai: OpenAiInteraction[];
+  private readonly mcp: McpInteraction[];
+
+  constructor(interactions: CassetteInteraction[]) {
+    this.openai = interactions.filter((i): i is OpenAiInteraction => i.kind === 'openai');
+    this.mcp = interactions.filter((i): i is McpInteraction => i.kind === 'mcp');
+  }
+
+  /**
+   * Take the next recorded OpenAI interaction for a request.
+   *
+   * The live request must match the recorded one: same model, same tool names,
+   * same message roles and the same message content (compared by hash).
+   */
+  nextOpenAi(request: OpenAiInteraction['request']): OpenAiInteraction {
+    const next = this.openai.shift();
+    if (!next) {
+      throw new CassetteMismatchError('no recorded OpenAI interaction left');
+    }
+
+    const recorded = next.request;
+    if (recorded.model !== request.model) {
+      throw new CassetteMismatchError(`expected OpenAI model ${recorded.model}, got ${request.model}`);
+    }
+    const recordedTools = toolNames(recorded.tools);
+    const liveTools = toolNames(request.tools);
+    if (recordedTools !== liveTools) {
+      throw new CassetteMismatchError(`expected OpenAI tools [${recordedTools}], got [${liveTools}]`);
+    }
+    const recordedRoles = messageRoles(recorded.messages);
+    const liveRoles = messageRoles(request.messages);
+    if (recordedRoles !== liveRoles) {
+      throw new CassetteMismatchError(`expected OpenAI messages [${recordedRoles}], got [${liveRoles}]`);
+    }
+    if (hashMessages(recorded.messages) !== hashMessages(request.messages)) {
+      throw new CassetteMismatchError('OpenAI message content differs from the recording');
+    }
+    return next;
+  }
+
+  /**
+   * Take the next recorded MCP interaction for a request.
+   *
+   * Read-only tool calls may run concurrently, so they are recorded in
+   * completion order. The first interaction with the same method, tool and
+   * arguments is served; otherwise the head of the queue must match.
+   */
+  nextMcp(method: string, toolName?: string, args?: unknown): McpInteraction {
+    const matchIndex = args === undefined ? -1 : this.mcp.findIndex((interaction) =>
+      interaction.request.method === method &&
+      interaction.request.params?.name === toolName &&
+      JSON.stringify(interaction.request.params?.arguments) === JSON.stringify(args)
+    );
+    if (matchIndex >= 0) {
+      return this.mcp.splice(matchIndex, 1)[0];
+    }
+
+    const next = this.mcp.shift();
+    if (!next) {
+      throw new CassetteMismatchError(`no recorded MCP interaction left for ${method}`);
+    }
+    const recordedTool = next.request.params?.name;
+    if (next.request.method !== method || (toolName !== undefined && recordedTool !== toolName)) {
+      throw new CassetteMismatchError(
+        `expected MCP ${next.request.method}${recordedTool ? ` (${String(recordedTool)})` : ''}, ` +
+        `got ${method}${toolName ? ` (${toolName})` : ''}`
+      );
+    }
+    return next;
+  }
+
+  /**
+   * Number of interactions not yet replayed.
+   */
+  remaining(): number {
+    return this.openai.length + this.mcp.length;
+  }
+}
+
+function toolNames(tools: unknown[] | undefined): string {
+  return (tools ?? []).map((tool) => (tool as { function?: { name?: string } }).function?.name ?? '?').join(', ');
+}
+
+function messageRoles(messages: unknown[]): string {
+  return messages.map((message) => (message as { role?: string }).role ?? '?').join(', ');
+}
+
+/** Hash of the messages as they would be stored (undefined fields dropped, as in the cassette JSON) */
+function hashMessages(messages: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(messages)).digest('hex');
+}
+
+export interface CassetteContext {
+  recorder?: CassetteRecorder;
+  player?: CassettePlayer;
+}
+
+const storage = new AsyncLocalStorage<CassetteContext>();
+
+/**
+ * Run `fn` with a cassette recorder or player bound to the async context.
+ * OpenAiClient, NorceMcpClient and NorceTokenProvider consult it per call.
+ */
+export function runWithCassette<T>(context: CassetteContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the cassette bound to the current async context, if any.
+ */
+export function getCassetteContext(): CassetteContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,42 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { CASSETTE_VERSION, type Cassette } from './cassetteTypes.js';
+
+const SAFE_RUN_ID = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Resolve the cassette file path for a run.
+ *
+ * @throws Error if runId contains characters that are unsafe in a file name
+ */
+export function cassettePath(dir: string, runId: string): string {
+  if (!SAFE_RUN_ID.test(runId)) {
+    throw new Error(`Invalid runId for cassette: ${runId}`);
+  }
+  return join(dir, `${runId}.json`);
+}
+
+/**
+ * Write a cassette to `<dir>/<runId>.json`, creating the directory if needed.
+ *
+ * @returns The written file path
+ */
+export async function saveCassette(dir: string, cassette: Cassette): Promise<string> {
+  const filePath = cassettePath(dir, cassette.runId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(filePath, JSON.stringify(cassette, null, 2), 'utf8');
+  return filePath;
+}
+
+/**
+ * Read and validate a cassette file.
+ *
+ * @throws Error if the file is missing, not JSON or has an unsupported version
+ */
+export async function loadCassette(filePath: string): Promise<Cassette> {
+  const parsed = JSON.parse(await readFile(filePath, 'utf8')) as Partial<Cassette>;
+  if (parsed.version !== CASSETTE_VERSION || !Array.isArray(parsed.interactions)) {
+    throw new Error(`Unsupported cassette format in ${filePath}`);
+  }
+  return parsed as Cassette;
+}
@@ -0,0 +1,65 @@
+/**
+ * Cassette types for record/replay of upstream traffic.
+ *
+ * A cassette captures every raw OpenAI chat completion and MCP JSON-RPC
+ * exchange made during one run, plus the session state the run started
+ * from, so the run can be replayed offline and deterministically.
+ */
+
+export const CASSETTE_VERSION = 1;
+
+export type CassetteMode = 'off' | 'record';
+
+/**
+ * One OpenAI chat completion exchange.
+ * Non-streaming calls store the raw completion; streaming calls store the chunks.
+ */
+export interface OpenAiInteraction {
+  kind: 'openai';
+  request: {
+    model: string;
+    messages: unknown[];
+    tools?: unknown[];
+    maxTokens?: number;
+    stream: boolean;
+  };
+  completion?: unknown;
+  chunks?: unknown[];
+  error?: string;
+}
+
+/**
+ * One MCP JSON-RPC exchange (headers other than mcp-session-id are not stored).
+ */
+export interface McpInteraction {
+  kind: 'mcp';
+  request: {
+    method: string;
+    id?: number;
+    params?: Record<string, unknown>;
+  };
+  response?: {
+    status: number;
+    sessionId?: string;
+    body: unknown;
+  };
+  error?: string;
+}
+
+export type CassetteInteraction = OpenAiInteraction | McpInteraction;
+
+export interface Cassette {
+  version: typeof CASSETTE_VERSION;
+  runId: string;
+  recordedAt: string;
+  applicationId: string;
+  sessionId: string;
+  request: {
+    message: string;
+    context?: Record<string, unknown>;
+    statusLang?: 'en' | 'sv';
+  };
+  /** Session state before the run (null when the session did not exist yet) */
+  initialSession: unknown;
+  interactions: CassetteInteraction[];
+}
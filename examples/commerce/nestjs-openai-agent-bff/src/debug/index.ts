@@ -29,3 +29,23 @@ export {
   sanitizeErrorDetails,
   type ContextSummaryResult,
 } from './sanitize.js';
+
+export {
+  CASSETTE_VERSION,
+  type Cassette,
+  type CassetteMode,
+  type CassetteInteraction,
+  type OpenAiInteraction,
+  type McpInteraction,
+} from './cassetteTypes.js';
+
+export {
+  CassetteRecorder,
+  CassettePlayer,
+  CassetteMismatchError,
+  runWithCassette,
+  getCassetteContext,
+  type CassetteContext,
+} from './cassetteContext.js';
+
+export { saveCassette, loadCassette, cassettePath } from './cassetteStore.js';
@@ -53,7 +53,10 @@ export interface OpenAiTrace {
   tokens?: {
     input?: number;
     output?: number;
+    cached?: number;
   };
+  /** Estimated cost in USD of all LLM calls in the run */
+  costUsd?: number;
 }
 
 export interface RunError {
@@ -74,6 +77,8 @@ export interface RunRecord {
   toolTrace: ToolTraceItem[];
   openaiTrace: OpenAiTrace;
   errors?: RunError[];
+  /** Path of the recorded cassette (when DEBUG_RUNS_CASSETTE_MODE=record) */
+  cassetteFile?: string;
 }
 
 export interface RunRecordSummary {
@@ -11,6 +11,8 @@ export type ErrorCategory =
   | 'VALIDATION'
   | 'AUTHZ'
   | 'TIMEOUT'
+  | 'UPSTREAM'
+  | 'POLICY'
   | 'INTERNAL';
 
 /**
@@ -31,6 +33,7 @@ export type ErrorCode =
   | 'MCP_TRANSPORT_HTTP_ERROR'
   | 'MCP_PROTOCOL_INVALID_RESPONSE'
   | 'MCP_PROTOCOL_INIT_FAILED'
+  | 'MCP_PROTOCOL_VERSION_UNSUPPORTED'
   | 'MCP_TOOL_EXECUTION_FAILED'
   | 'MCP_TOOL_NOT_FOUND'
   | 'VALIDATION_REQUEST_INVALID'
@@ -40,6 +43,9 @@ export type ErrorCode =
   | 'AUTHZ_FORBIDDEN'
   | 'TIMEOUT_REQUEST'
   | 'TIMEOUT_OPERATION'
+  | 'UPSTREAM_CIRCUIT_OPEN'
+  | 'POLICY_BUDGET_EXCEEDED'
+  | 'SESSION_BUSY'
   | 'INTERNAL_ERROR'
   | 'INTERNAL_AGENT_ERROR';
 
@@ -249,6 +255,22 @@ export class AppError extends Error {
     });
   }
 
+  /**
+   * Create an MCP protocol error for servers whose protocol version the client does not support.
+   */
+  static mcpProtocolVersionUnsupported(
+    serverVersion: string,
+    supportedVersions: readonly string[]
+  ): AppError {
+    return new AppError({
+      category: 'MCP_PROTOCOL',
+      code: 'MCP_PROTOCOL_VERSION_UNSUPPORTED',
+      httpStatus: 502,
+      safeMessage: 'The commerce service uses an unsupported protocol version.',
+      details: { serverVersion, supportedVersions: [...supportedVersions] },
+    });
+  }
+
   /**
    * Create an MCP tool error for tool execution failures.
    */
@@ -362,6 +384,22 @@ export class AppError extends Error {
     });
   }
 
+  /**
+   * Create an error for calls rejected by an open circuit breaker (upstream outage).
+   *
+   * @param upstream - The upstream whose circuit is open (oauth, mcp, openai)
+   * @param retryAfterMs - Time until the circuit allows a trial call
+   */
+  static circuitOpen(upstream: string, retryAfterMs: number): AppError {
+    return new AppError({
+      category: 'UPSTREAM',
+      code: 'UPSTREAM_CIRCUIT_OPEN',
+      httpStatus: 503,
+      safeMessage: 'The service is temporarily unavailable. Please try again in a moment.',
+      details: { upstream, retryAfterMs },
+    });
+  }
+
   /**
    * Create an internal error for unexpected failures.
    */
@@ -428,4 +466,30 @@ export class AppError extends Error {
       details,
     });
   }
+
+  /**
+   * Create a budget error when a hard token or spend budget is exhausted (429).
+   */
+  static budgetExceeded(message: string, details?: Record<string, unknown>): AppError {
+    return new AppError({
+      category: 'POLICY',
+      code: 'POLICY_BUDGET_EXCEEDED',
+      httpStatus: 429,
+      safeMessage: message,
+      details,
+    });
+  }
+
+  /**
+   * Create an error when another turn of the same session is still running (409).
+   */
+  static sessionBusy(details?: Record<string, unknown>): AppError {
+    return new AppError({
+      category: 'POLICY',
+      code: 'SESSION_BUSY',
+      httpStatus: 409,
+      safeMessage: 'Another message in this conversation is still being processed. Please wait and try again.',
+      details,
+    });
+  }
 }
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { AppError } from './AppError.js';
 import { MalformedToolArgsError } from '../agent/agentRunner.js';
+import { SessionVersionConflictError } from '../session/SessionVersionConflictError.js';
 
 /**
  * Check if an error is an OpenAI API error.
@@ -136,6 +137,7 @@ function parseMcpErrorDetails(message: string): {
  * This function handles errors from various sources:
  * - Zod validation errors
  * - MalformedToolArgsError
+ * - SessionVersionConflictError (lost session update)
  * - OpenAI SDK errors
  * - OAuth errors
  * - MCP errors (transport, protocol, tool)
@@ -172,6 +174,15 @@ export function mapError(error: unknown): AppError {
     );
   }
 
+  // Another turn saved the session first (lock lease expired mid-turn)
+  if (error instanceof SessionVersionConflictError) {
+    return AppError.sessionBusy({
+      reason: 'version_conflict',
+      expectedVersion: error.expectedVersion,
+      actualVersion: error.actualVersion,
+    });
+  }
+
   // Handle non-Error objects
   if (!(error instanceof Error)) {
     const message = typeof error === 'string' ? error : 'Unknown error';
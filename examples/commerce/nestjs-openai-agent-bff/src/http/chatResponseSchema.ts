@@ -42,6 +42,49 @@ export const toolTraceItemSchema = z.object({
     unknownCount: z.number(),
   }).optional(),
   thumbnailsPresentCount: z.number().optional(),
+  mcpSessionRecoveries: z.array(z.object({
+    method: z.string(),
+    toolName: z.string().optional(),
+    reason: z.enum(['http_404', 'http_400_session', 'jsonrpc_session_error']),
+    replayOk: z.boolean(),
+  })).optional(),
+  cache: z.array(z.object({
+    mcpTool: z.string(),
+    hit: z.boolean(),
+  })).optional(),
+});
+
+/**
+ * Token counts and estimated cost shared by usage aggregates.
+ */
+const usageTotalsShape = {
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  cachedTokens: z.number(),
+  totalTokens: z.number(),
+  costUsd: z.number(),
+};
+
+/**
+ * Usage of one agent turn, per LLM call and in total.
+ */
+export const turnUsageSchema = z.object({
+  ...usageTotalsShape,
+  calls: z.array(z.object({
+    ...usageTotalsShape,
+    purpose: z.enum(['agent', 'compaction', 'comparison']),
+    model: z.string(),
+    priced: z.boolean(),
+  })),
+});
+
+/**
+ * Usage accumulated over a session.
+ */
+export const sessionUsageSchema = z.object({
+  ...usageTotalsShape,
+  turns: z.number(),
+  llmCalls: z.number(),
 });
 
 /**
@@ -56,6 +99,17 @@ export const debugBlockSchema = z.object({
     mcpMs: z.number().optional(),
   }).optional(),
   compare: z.record(z.string(), z.unknown()).optional(),
+  compaction: z.object({
+    droppedHints: z.number(),
+    summarizedTurns: z.number(),
+    tokensBefore: z.number(),
+    tokensAfter: z.number(),
+    summarySource: z.enum(['llm', 'deterministic']).optional(),
+  }).optional(),
+  usage: z.object({
+    turn: turnUsageSchema,
+    session: sessionUsageSchema.optional(),
+  }).optional(),
 });
 
 /**
@@ -301,6 +355,8 @@ export const chatResponseSchema = z.object({
   confirmation: confirmationBlockSchema.optional(),
   /** Error envelope (optional, for error responses) */
   error: errorEnvelopeSchema.optional(),
+  /** True when the turn was answered with a plain product search (model unavailable) */
+  degraded: z.boolean().optional(),
 });
 
 /**
@@ -0,0 +1,277 @@
+import pino from 'pino';
+import { config } from '../config.js';
+import { AppError } from '../errors/AppError.js';
+
+const logger = pino({ name: 'circuitBreaker' });
+
+/**
+ * Upstreams with their own circuit breaker.
+ */
+export type Upstream = 'oauth' | 'mcp' | 'openai';
+
+/**
+ * Circuit states:
+ * - closed: calls pass through; consecutive failures are counted
+ * - open: calls fail fast with UPSTREAM_CIRCUIT_OPEN until openDurationMs has passed
+ * - half_open: a limited number of trial calls pass; a success closes the circuit, a failure opens it again
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Options for a CircuitBreaker.
+ */
+export interface CircuitBreakerOptions {
+  name: Upstream;
+  /**
+   * When false, calls always pass through (metrics are still collected).
+   * Default: true
+   */
+  enabled?: boolean;
+  /**
+   * Consecutive failures that open the circuit.
+   * Default: 5
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before trial calls are allowed.
+   * Default: 30000
+   */
+  openDurationMs?: number;
+  /**
+   * Concurrent trial calls allowed while half-open.
+   * Default: 1
+   */
+  halfOpenMaxCalls?: number;
+  /**
+   * Whether an error means the upstream is unavailable.
+   * Other errors count as successful calls (the upstream answered).
+   * Default: () => true
+   */
+  isFailure?: (error: unknown) => boolean;
+  /**
+   * Clock, for tests.
+   */
+  now?: () => number;
+}
+
+/**
+ * Counters and state of a circuit breaker.
+ */
+export interface CircuitBreakerMetrics {
+  name: Upstream;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  /** Calls rejected without reaching the upstream */
+  rejectedCalls: number;
+  /** Times the circuit has opened */
+  openedCount: number;
+  lastFailureAt?: string;
+  lastOpenedAt?: string;
+  /** Time until trial calls are allowed (open state only) */
+  retryAfterMs?: number;
+}
+
+/**
+ * Circuit breaker for one upstream.
+ *
+ * Retries (retryAsync) cover single failed calls; the breaker covers outages:
+ * once the upstream keeps failing, calls fail fast instead of waiting through
+ * timeouts and retries, and a trial call probes for recovery.
+ *
+ * @example
+ * ```ts
+ * const breaker = new CircuitBreaker({ name: 'mcp', isFailure: isMcpOutage });
+ * const response = await breaker.execute(() => fetch(url));
+ * ```
+ */
+export class CircuitBreaker {
+  readonly name: Upstream;
+  private readonly enabled: boolean;
+  private readonly failureThreshold: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly now: () => number;
+
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private consecutiveFailures = 0;
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private rejectedCalls = 0;
+  private openedCount = 0;
+  private lastFailureAt?: number;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.name = options.name;
+    this.enabled = options.enabled ?? true;
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.openDurationMs = options.openDurationMs ?? 30000;
+    this.halfOpenMaxCalls = Math.max(1, options.halfOpenMaxCalls ?? 1);
+    this.isFailure = options.isFailure ?? (() => true);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Run a call through the circuit.
+   *
+   * @param fn - The upstream call
+   * @returns The call's result
+   * @throws AppError (UPSTREAM_CIRCUIT_OPEN) without calling fn while the circuit is open
+   * @throws The call's own error otherwise
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.enabled) {
+      this.acquire();
+    }
+    const trial = this.state === 'half_open';
+
+    this.totalCalls++;
+    try {
+      const result = await fn();
+      this.onSuccess(trial);
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure(trial);
+      } else {
+        this.onSuccess(trial);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current state (an open circuit past openDurationMs reports half_open).
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.openDurationMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  getMetrics(): CircuitBreakerMetrics {
+    const state = this.getState();
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      rejectedCalls: this.rejectedCalls,
+      openedCount: this.openedCount,
+      lastFailureAt: this.lastFailureAt !== undefined ? new Date(this.lastFailureAt).toISOString() : undefined,
+      lastOpenedAt: this.openedCount > 0 ? new Date(this.openedAt).toISOString() : undefined,
+      retryAfterMs: state === 'open' ? this.retryAfterMs() : undefined,
+    };
+  }
+
+  /**
+   * Close the circuit and clear the failure count.
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.halfOpenCalls = 0;
+    this.consecutiveFailures = 0;
+  }
+
+  private retryAfterMs(): number {
+    return Math.max(0, this.openedAt + this.openDurationMs - this.now());
+  }
+
+  /**
+   * Admit a call or throw if the circuit is open (or half-open with all trial slots taken).
+   */
+  private acquire(): void {
+    if (this.state === 'open') {
+      if (this.now() - this.openedAt < this.openDurationMs) {
+        this.reject();
+      }
+      this.transition('half_open');
+      this.halfOpenCalls = 0;
+    }
+
+    if (this.state === 'half_open') {
+      if (this.halfOpenCalls >= this.halfOpenMaxCalls) {
+        this.reject();
+      }
+      this.halfOpenCalls++;
+    }
+  }
+
+  private reject(): never {
+    this.rejectedCalls++;
+    throw AppError.circuitOpen(this.name, this.retryAfterMs());
+  }
+
+  private onSuccess(trial: boolean): void {
+    this.consecutiveFailures = 0;
+    if (trial && this.state === 'half_open') {
+      this.halfOpenCalls = 0;
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(trial: boolean): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    if (!this.enabled) {
+      return;
+    }
+
+    const tripped = trial && this.state === 'half_open';
+    if (tripped || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = this.now();
+      this.openedCount++;
+      this.halfOpenCalls = 0;
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+    const log = state === 'open' ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log(
+      { upstream: this.name, from: this.state, to: state, consecutiveFailures: this.consecutiveFailures },
+      `Circuit ${state.replace('_', '-')}`
+    );
+    this.state = state;
+  }
+}
+
+const registry = new Map<Upstream, CircuitBreaker>();
+
+/**
+ * Create the circuit breaker for an upstream from config (CIRCUIT_BREAKER_*)
+ * and register it for getCircuitBreakerMetrics.
+ *
+ * @param name - The upstream
+ * @param isFailure - Whether an error means the upstream is unavailable
+ */
+export function createCircuitBreaker(name: Upstream, isFailure: (error: unknown) => boolean): CircuitBreaker {
+  const breakerConfig = config.circuitBreaker;
+  const breaker = new CircuitBreaker({
+    name,
+    enabled: breakerConfig?.enabled ?? true,
+    failureThreshold: breakerConfig?.failureThreshold,
+    openDurationMs: breakerConfig?.openDurationMs,
+    halfOpenMaxCalls: breakerConfig?.halfOpenMaxCalls,
+    isFailure,
+  });
+  registry.set(name, breaker);
+  return breaker;
+}
+
+/**
+ * Metrics of the registered circuit breakers (one per upstream).
+ */
+export function getCircuitBreakerMetrics(): CircuitBreakerMetrics[] {
+  return [...registry.values()].map((breaker) => breaker.getMetrics());
+}
@@ -38,6 +38,8 @@ export type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
  * - OAUTH, AUTHZ -> auth (authentication/authorization issues)
  * - MCP_TRANSPORT, MCP_PROTOCOL, MCP_TOOL, OPENAI -> upstream (external service issues)
  * - TIMEOUT -> upstream (can retry)
+ * - UPSTREAM -> upstream (circuit open, can retry later)
+ * - POLICY -> policy (budgets, quotas and busy sessions)
  * - INTERNAL -> internal (unexpected errors)
  */
 export function mapCategoryToEnvelope(category: ErrorCategory): ErrorEnvelopeCategory {
@@ -52,7 +54,10 @@ export function mapCategoryToEnvelope(category: ErrorCategory): ErrorEnvelopeCat
     case 'MCP_TOOL':
     case 'OPENAI':
     case 'TIMEOUT':
+    case 'UPSTREAM':
       return 'upstream';
+    case 'POLICY':
+      return 'policy';
     case 'INTERNAL':
     default:
       return 'internal';
@@ -65,13 +70,16 @@ export function mapCategoryToEnvelope(category: ErrorCategory): ErrorEnvelopeCat
  * Retryable errors:
  * - MCP_TRANSPORT (network issues, temporary)
  * - TIMEOUT (can retry)
+ * - UPSTREAM (circuit open; the upstream is probed again shortly)
  * - OPENAI rate limits (429)
+ * - SESSION_BUSY (the session's running turn finishes shortly)
  * - Some MCP_PROTOCOL errors (init failures)
  * 
  * Non-retryable errors:
  * - VALIDATION (bad request data, need to rephrase)
  * - OAUTH/AUTHZ (authentication issues)
  * - MCP_TOOL (tool execution failures)
+ * - POLICY budgets (exhausted, retrying does not help)
  * - INTERNAL (unexpected errors)
  */
 export function isRetryable(category: ErrorCategory, code: string): boolean {
@@ -82,12 +90,18 @@ export function isRetryable(category: ErrorCategory, code: string): boolean {
     case 'TIMEOUT':
       // Timeouts are retryable
       return true;
+    case 'UPSTREAM':
+      // Open circuits close again once the upstream recovers
+      return true;
     case 'OPENAI':
       // Rate limits are retryable, other OpenAI errors may not be
       return code === 'OPENAI_RATE_LIMIT';
     case 'MCP_PROTOCOL':
       // Init failures might be retryable (temporary server issues)
       return code === 'MCP_PROTOCOL_INIT_FAILED';
+    case 'POLICY':
+      // A busy session frees up when its turn ends; exhausted budgets do not
+      return code === 'SESSION_BUSY';
     case 'VALIDATION':
     case 'OAUTH':
     case 'AUTHZ':
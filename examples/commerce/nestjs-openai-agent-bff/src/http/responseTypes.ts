@@ -3,6 +3,10 @@
  * These types define the structured response contract for widget-ready API payloads.
  */
 
+import type { TurnUsage, SessionUsage } from '../usage/usageTypes.js';
+import type { McpSessionRecovery } from '../norce/mcpSessionRecovery.js';
+import type { ToolCacheEvent } from '../cache/McpToolCache.js';
+
 /**
  * A single item in the tool trace for debugging.
  */
@@ -39,6 +43,10 @@ export interface ToolTraceItem {
   };
   /** Count of results with thumbnailImageKey present (for debugging) */
   thumbnailsPresentCount?: number;
+  /** MCP sessions re-initialized (and the request replayed) during this tool call */
+  mcpSessionRecoveries?: McpSessionRecovery[];
+  /** Shared tool result cache lookups (hit/miss per MCP call) */
+  cache?: ToolCacheEvent[];
 }
 
 /**
@@ -52,6 +60,19 @@ export interface DebugBlock {
     openaiMs?: number;
     mcpMs?: number;
   };
+  /** Conversation compaction stats (only when the turn compacted history) */
+  compaction?: {
+    droppedHints: number;
+    summarizedTurns: number;
+    tokensBefore: number;
+    tokensAfter: number;
+    summarySource?: 'llm' | 'deterministic';
+  };
+  /** Token usage and estimated cost for this turn and the session so far */
+  usage?: {
+    turn: TurnUsage;
+    session?: SessionUsage;
+  };
 }
 
 /**
@@ -305,6 +326,8 @@ export interface ChatResponse {
   debug?: DebugBlock;
   /** Error envelope (optional, for error responses) */
   error?: ErrorEnvelope;
+  /** True when the model was unavailable and the turn was answered with a plain product search */
+  degraded?: boolean;
 }
 
 /**
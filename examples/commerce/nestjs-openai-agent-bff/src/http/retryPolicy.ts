@@ -100,3 +100,43 @@ export function isOpenAiRetryable(error: unknown): boolean {
   // - Authentication errors
   return false;
 }
+
+/**
+ * Determines if an OAuth token fetch failure indicates the token endpoint is down.
+ * Counted as a failure by the OAuth circuit breaker.
+ * 
+ * Outage errors:
+ * - Network errors and timeouts
+ * - HTTP 5xx from the token endpoint
+ * 
+ * Rejected credentials (4xx) and malformed token responses are not outages.
+ * 
+ * @param error - The error to check
+ * @returns true if the error should count towards opening the circuit
+ */
+export function isOAuthOutage(error: unknown): boolean {
+  if (error instanceof AppError) {
+    return error.category === 'TIMEOUT';
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (/^Failed to fetch OAuth token: 5\d\d\b/.test(error.message)) {
+    return true;
+  }
+  return mapError(error).code === 'MCP_TRANSPORT_NETWORK_ERROR';
+}
+
+/**
+ * Determines if an MCP failure indicates the MCP server is down.
+ * Counted as a failure by the MCP circuit breaker.
+ * 
+ * Same classification as retries (network errors, timeouts, 502/503/504):
+ * tool errors and session errors mean the server is answering.
+ * 
+ * @param error - The error to check
+ * @returns true if the error should count towards opening the circuit
+ */
+export function isMcpOutage(error: unknown): boolean {
+  return isMcpRetryable(error);
+}
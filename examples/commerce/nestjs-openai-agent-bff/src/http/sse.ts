@@ -5,8 +5,8 @@ import { config } from '../config.js';
 /**
  * SSE event types for the streaming endpoint.
  * 
- * - status: User-facing status messages (e.g., "Searching the catalog…")
- * - dev_status: Developer-oriented status messages (only emitted when debug=1)
+ * - status: User-facing status messages (e.g., "Searching the catalog…", or with MCP progress "Searching the catalog (50%)")
+ * - dev_status: Developer-oriented status messages, including MCP progress and server log messages (only emitted when debug=1)
  * - tool_start: Emitted when a tool begins execution
  * - tool_end: Emitted when a tool completes execution
  * - delta: Streams partial assistant text
@@ -1,16 +1,18 @@
 /**
  * Internationalization (i18n) module for BFF confirmation messages.
  * 
- * This module provides localized strings for cart confirmation prompts and options.
+ * This module provides localized strings for cart (and registered tool) confirmation prompts and options,
+ * plus the budget-exceeded messages returned by the budget policy and the text of
+ * search-only turns (LLM unavailable).
  * Currently supports English (en) and Swedish (sv) with English as the fallback.
  * 
- * NOTE: This module is intentionally minimal and only handles confirmation strings.
+ * NOTE: This module is intentionally minimal and only handles BFF-generated strings.
  * It does NOT localize the entire assistant - only confirmation UI elements.
  */
 
 import enStrings from './en.json' with { type: 'json' };
 import svStrings from './sv.json' with { type: 'json' };
-import type { CartMutationKind } from '../session/sessionTypes.js';
+import type { PendingActionKind } from '../session/sessionTypes.js';
 import type { ConfirmationBlock, ConfirmationOption } from '../http/responseTypes.js';
 
 /**
@@ -92,17 +94,19 @@ function interpolate(template: string, values: Record<string, string | number |
 }
 
 /**
- * Builds a localized confirmation prompt for a cart mutation.
+ * Builds a localized confirmation prompt for a cart mutation or a mutating registered tool.
  * 
- * @param kind - The type of cart mutation
+ * @param kind - The type of cart mutation, or the registered tool name
  * @param args - The arguments for the mutation
  * @param language - The language code
+ * @param displayName - Display name of a registered tool (non-cart kinds)
  * @returns The localized confirmation prompt
  */
 export function buildLocalizedConfirmationPrompt(
-  kind: CartMutationKind,
+  kind: PendingActionKind,
   args: Record<string, unknown>,
-  language: SupportedLanguage
+  language: SupportedLanguage,
+  displayName?: string
 ): string {
   const strings = getStrings(language);
   const partNo = args.partNo as string | undefined;
@@ -131,6 +135,9 @@ export function buildLocalizedConfirmationPrompt(
       return strings.confirm.remove_item.prompt_generic;
     }
     default:
+      if (displayName) {
+        return interpolate(strings.confirm.tool.prompt, { tool: displayName });
+      }
       return strings.confirm.generic.prompt;
   }
 }
@@ -164,23 +171,25 @@ export function buildLocalizedConfirmationOptions(language: SupportedLanguage):
  * Builds a complete localized confirmation block for a pending cart action.
  * 
  * @param pendingActionId - The unique ID of the pending action
- * @param kind - The type of cart mutation
+ * @param kind - The type of cart mutation, or the registered tool name
  * @param args - The arguments for the mutation
  * @param cultureCode - The culture code from the request context
+ * @param displayName - Display name of a registered tool (non-cart kinds)
  * @returns The complete confirmation block
  */
 export function buildConfirmationBlock(
   pendingActionId: string,
-  kind: CartMutationKind,
+  kind: PendingActionKind,
   args: Record<string, unknown>,
-  cultureCode?: string
+  cultureCode?: string,
+  displayName?: string
 ): ConfirmationBlock {
   const language = resolveLanguage(cultureCode);
   
   return {
     id: pendingActionId,
     kind: 'cart_confirm',
-    prompt: buildLocalizedConfirmationPrompt(kind, args, language),
+    prompt: buildLocalizedConfirmationPrompt(kind, args, language, displayName),
     options: buildLocalizedConfirmationOptions(language),
   };
 }
@@ -221,22 +230,52 @@ export function getLocalizedAlreadyCancelledMessage(cultureCode?: string): strin
   return strings.confirm.already_cancelled;
 }
 
+/**
+ * Gets the localized "budget exceeded" message.
+ * 
+ * @param scope - Which budget was exhausted: the session or the application's daily budget
+ * @param cultureCode - The culture code from the request context
+ * @returns The localized budget exceeded message
+ */
+export function getLocalizedBudgetExceededMessage(scope: 'session' | 'daily', cultureCode?: string): string {
+  const language = resolveLanguage(cultureCode);
+  const strings = getStrings(language);
+  return scope === 'session' ? strings.budget.exceeded_session : strings.budget.exceeded_daily;
+}
+
+/**
+ * Gets the localized text of a search-only turn (the LLM is unavailable and
+ * the user's message was run as a product search).
+ * 
+ * @param query - The search query that was run
+ * @param hasResults - Whether the search found products
+ * @param cultureCode - The culture code from the request context
+ * @returns The localized search-only message
+ */
+export function getLocalizedSearchOnlyMessage(query: string, hasResults: boolean, cultureCode?: string): string {
+  const language = resolveLanguage(cultureCode);
+  const strings = getStrings(language);
+  return interpolate(hasResults ? strings.search_only.search_results : strings.search_only.no_results, { query });
+}
+
 /**
  * Builds a localized text message for a pending cart action.
  * This is used for the `text` field in the response (for backwards compatibility).
  * 
- * @param kind - The type of cart mutation
+ * @param kind - The type of cart mutation, or the registered tool name
  * @param args - The arguments for the mutation
  * @param cultureCode - The culture code from the request context
+ * @param displayName - Display name of a registered tool (non-cart kinds)
  * @returns The localized text message
  */
 export function buildLocalizedConfirmationText(
-  kind: CartMutationKind,
+  kind: PendingActionKind,
   args: Record<string, unknown>,
-  cultureCode?: string
+  cultureCode?: string,
+  displayName?: string
 ): string {
   const language = resolveLanguage(cultureCode);
-  return buildLocalizedConfirmationPrompt(kind, args, language);
+  return buildLocalizedConfirmationPrompt(kind, args, language, displayName);
 }
 
 /**
@@ -255,19 +294,21 @@ export function getLocalizedCompletedMessage(cultureCode?: string): string {
  * Builds a localized "pending action reminder" message.
  * Used when user sends an unrelated message while there's a pending action.
  * 
- * @param kind - The type of cart mutation
+ * @param kind - The type of cart mutation, or the registered tool name
  * @param args - The arguments for the mutation
  * @param cultureCode - The culture code from the request context
+ * @param displayName - Display name of a registered tool (non-cart kinds)
  * @returns The localized reminder message
  */
 export function buildLocalizedPendingActionReminder(
-  kind: CartMutationKind,
+  kind: PendingActionKind,
   args: Record<string, unknown>,
-  cultureCode?: string
+  cultureCode?: string,
+  displayName?: string
 ): string {
   const language = resolveLanguage(cultureCode);
   const strings = getStrings(language);
-  const prompt = buildLocalizedConfirmationPrompt(kind, args, language);
+  const prompt = buildLocalizedConfirmationPrompt(kind, args, language, displayName);
   
   // Build a reminder message that includes the pending action prompt
   // and asks the user to confirm or cancel
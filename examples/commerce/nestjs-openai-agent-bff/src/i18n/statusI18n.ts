@@ -35,6 +35,22 @@ const STATUS_LANGUAGE_STRINGS: Record<StatusLanguage, StatusStrings> = {
  */
 export const DEFAULT_STATUS_LANGUAGE: StatusLanguage = 'en';
 
+/**
+ * Status copy for one tool in one language.
+ * Used by registered tool plugins that are not covered by the status JSON files.
+ */
+export interface ToolStatusCopy {
+  displayName?: string;
+  start?: string;
+  endOk?: string;
+  endFail?: string;
+}
+
+/**
+ * Tool status copy per language.
+ */
+export type LocalizedToolStatusCopy = Partial<Record<StatusLanguage, ToolStatusCopy>>;
+
 /**
  * Resolves a language code from uiLanguage or cultureCode.
  *
@@ -166,21 +182,52 @@ export function getLocalizedStageMessage(lang: StatusLanguage, stageId: string):
   return tStatus(lang, `stage.${stageId}`);
 }
 
+/**
+ * Picks a tool status copy field.
+ *
+ * Priority:
+ * 1. Tool copy in the requested language
+ * 2. Status JSON string for the tool (built-in tools)
+ * 3. Tool copy in the default language
+ *
+ * @param lang - The language code
+ * @param copy - Tool status copy, if the tool provides any
+ * @param field - The copy field to pick
+ * @param key - The status JSON key for the tool
+ * @returns The string, or undefined if none of the sources has it
+ */
+function pickToolStatus(
+  lang: StatusLanguage,
+  copy: LocalizedToolStatusCopy | undefined,
+  field: keyof ToolStatusCopy,
+  key: string
+): string | undefined {
+  const localized = copy?.[lang]?.[field];
+  if (localized) {
+    return localized;
+  }
+  const result = tStatus(lang, key);
+  // If the key wasn't found, tStatus returns the key itself
+  if (result !== key) {
+    return result;
+  }
+  return copy?.[DEFAULT_STATUS_LANGUAGE]?.[field];
+}
+
 /**
  * Gets a localized tool display name.
  *
  * @param lang - The language code
  * @param toolName - The internal tool name (e.g., "product_search")
+ * @param copy - Optional status copy provided by the tool
  * @returns The localized display name, or the tool name if not found
  */
-export function getLocalizedToolDisplayName(lang: StatusLanguage, toolName: string): string {
-  const result = tStatus(lang, `tool.displayName.${toolName}`);
-  // If the key wasn't found, tStatus returns the key itself
-  // In that case, return the original tool name
-  if (result === `tool.displayName.${toolName}`) {
-    return toolName;
-  }
-  return result;
+export function getLocalizedToolDisplayName(
+  lang: StatusLanguage,
+  toolName: string,
+  copy?: LocalizedToolStatusCopy
+): string {
+  return pickToolStatus(lang, copy, 'displayName', `tool.displayName.${toolName}`) ?? toolName;
 }
 
 /**
@@ -188,15 +235,15 @@ export function getLocalizedToolDisplayName(lang: StatusLanguage, toolName: stri
  *
  * @param lang - The language code
  * @param toolName - The internal tool name (e.g., "product_search")
+ * @param copy - Optional status copy provided by the tool
  * @returns The localized start message
  */
-export function getLocalizedToolStartMessage(lang: StatusLanguage, toolName: string): string {
-  const result = tStatus(lang, `tool.start.${toolName}`);
-  // If the key wasn't found, return the default
-  if (result === `tool.start.${toolName}`) {
-    return tStatus(lang, 'tool.start.default');
-  }
-  return result;
+export function getLocalizedToolStartMessage(
+  lang: StatusLanguage,
+  toolName: string,
+  copy?: LocalizedToolStatusCopy
+): string {
+  return pickToolStatus(lang, copy, 'start', `tool.start.${toolName}`) ?? tStatus(lang, 'tool.start.default');
 }
 
 /**
@@ -205,20 +252,37 @@ export function getLocalizedToolStartMessage(lang: StatusLanguage, toolName: str
  * @param lang - The language code
  * @param toolName - The internal tool name (e.g., "product_search")
  * @param ok - Whether the tool execution succeeded
+ * @param copy - Optional status copy provided by the tool
  * @returns The localized end message
  */
 export function getLocalizedToolEndMessage(
   lang: StatusLanguage,
   toolName: string,
-  ok: boolean
+  ok: boolean,
+  copy?: LocalizedToolStatusCopy
 ): string {
   const outcome = ok ? 'ok' : 'fail';
-  const result = tStatus(lang, `tool.end.${outcome}.${toolName}`);
-  // If the key wasn't found, return the default
-  if (result === `tool.end.${outcome}.${toolName}`) {
-    return tStatus(lang, `tool.end.${outcome}.default`);
-  }
-  return result;
+  return pickToolStatus(lang, copy, ok ? 'endOk' : 'endFail', `tool.end.${outcome}.${toolName}`)
+    ?? tStatus(lang, `tool.end.${outcome}.default`);
+}
+
+/**
+ * Gets a localized tool progress message: the tool start message with the percentage done.
+ *
+ * @param lang - The language code
+ * @param toolName - The internal tool name (e.g., "product_search")
+ * @param percent - Percentage done (0-100)
+ * @param copy - Optional status copy provided by the tool
+ * @returns The localized progress message
+ */
+export function getLocalizedToolProgressMessage(
+  lang: StatusLanguage,
+  toolName: string,
+  percent: number,
+  copy?: LocalizedToolStatusCopy
+): string {
+  const status = getLocalizedToolStartMessage(lang, toolName, copy).replace(/(\.\.\.|…)$/, '');
+  return tStatus(lang, 'stream.progress', { status, percent });
 }
 
 /**
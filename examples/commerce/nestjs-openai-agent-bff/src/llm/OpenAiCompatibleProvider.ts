@@ -0,0 +1,27 @@
+import { OpenAiClient } from '../openai/OpenAiClient.js';
+
+export interface OpenAiCompatibleProviderOptions {
+  /** Base URL of the OpenAI-compatible API (e.g. http://localhost:11434/v1) */
+  baseUrl: string;
+  /** API key; many local servers accept any non-empty value */
+  apiKey?: string;
+  defaultModel?: string;
+}
+
+/**
+ * Adapter for any endpoint that implements the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio, Azure-style gateways, ...).
+ * 
+ * Reuses the OpenAI SDK transport with a custom base URL, so timeout/retry
+ * and streaming behavior match OpenAiClient.
+ */
+export class OpenAiCompatibleProvider extends OpenAiClient {
+  constructor(options: OpenAiCompatibleProviderOptions) {
+    super({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl,
+      defaultModel: options.defaultModel,
+      providerName: 'openai-compatible',
+    });
+  }
+}
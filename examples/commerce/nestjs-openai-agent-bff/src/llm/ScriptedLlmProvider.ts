@@ -0,0 +1,305 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { LlmProvider, LlmRunInput, LlmResponse, LlmToolCall, LlmUsage, LlmMessage } from './llmTypes.js';
+
+/**
+ * Assertions evaluated against the request a scripted step receives.
+ */
+export interface ScriptedExpectation {
+  /** Tools that must be offered to the model */
+  toolsOffered?: string[];
+  /**
+   * Tool results that must be present since the previous step, in order.
+   * `contains` optionally checks a substring of the tool result content.
+   */
+  toolResults?: Array<{ name: string; contains?: string }>;
+  /** Model that must be requested */
+  model?: string;
+}
+
+/**
+ * A single scripted model response.
+ */
+export interface ScriptedStep {
+  /** Assistant text (omit or null when only calling tools) */
+  content?: string | null;
+  /** Tool calls to return; arguments may be given as an object or a JSON string */
+  toolCalls?: Array<{ id?: string; name: string; arguments: Record<string, unknown> | string }>;
+  finishReason?: string;
+  usage?: LlmUsage;
+  /** Assertions on the incoming request */
+  expect?: ScriptedExpectation;
+}
+
+/**
+ * A scripted conversation turn: the user message it answers and the model
+ * responses (rounds) for that turn.
+ */
+export interface ScriptedTurn {
+  /** Exact user message this turn responds to (omit to accept any message) */
+  user?: string;
+  /** Regular expression the user message must match (alternative to `user`) */
+  userMatches?: string;
+  steps: ScriptedStep[];
+}
+
+export interface ScriptedLlmScript {
+  name?: string;
+  turns: ScriptedTurn[];
+}
+
+export interface ScriptedLlmProviderOptions {
+  /** Flat list of responses (single turn, any user message) */
+  steps?: ScriptedStep[];
+  /** Turn-based script; takes precedence over `steps` */
+  script?: ScriptedLlmScript;
+  /** Size of text chunks emitted through onDelta (default: 16 characters) */
+  deltaChunkSize?: number;
+}
+
+const toolCallSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  arguments: z.union([z.record(z.string(), z.unknown()), z.string()]).default({}),
+});
+
+const stepSchema = z.object({
+  content: z.string().nullable().optional(),
+  toolCalls: z.array(toolCallSchema).optional(),
+  finishReason: z.string().optional(),
+  usage: z.object({
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+    cachedTokens: z.number().optional(),
+  }).optional(),
+  expect: z.object({
+    toolsOffered: z.array(z.string()).optional(),
+    toolResults: z.array(z.object({ name: z.string(), contains: z.string().optional() })).optional(),
+    model: z.string().optional(),
+  }).optional(),
+});
+
+/**
+ * Schema for script files (YAML or JSON).
+ */
+export const scriptedLlmScriptSchema = z.object({
+  name: z.string().optional(),
+  turns: z.array(z.object({
+    user: z.string().optional(),
+    userMatches: z.string().optional(),
+    steps: z.array(stepSchema).min(1),
+  })).min(1),
+});
+
+/**
+ * Thrown when the agent's requests diverge from the script.
+ */
+export class ScriptMismatchError extends Error {
+  constructor(
+    public readonly scriptName: string,
+    public readonly turnIndex: number,
+    public readonly stepIndex: number,
+    detail: string
+  ) {
+    super(`Script "${scriptName}" turn ${turnIndex + 1} step ${stepIndex + 1}: ${detail}`);
+    this.name = 'ScriptMismatchError';
+  }
+}
+
+/**
+ * Fully offline LLM provider that replays a scripted conversation.
+ *
+ * Scripts are organised as turns ("on user message X") each containing one
+ * step per model round ("call product_search with Y", then "reply Z").
+ * Each step may assert on the request it receives (tools offered, tool
+ * results produced by the previous round, requested model).
+ *
+ * Final text is streamed in chunks through `onDelta`, so the regular
+ * StreamingCallbacks path is exercised. Running past the end of the script
+ * or receiving an unexpected user message throws ScriptMismatchError.
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly name = 'scripted';
+  private readonly script: ScriptedLlmScript;
+  private readonly deltaChunkSize: number;
+  private turnIndex = 0;
+  private stepIndex = 0;
+  /** Index in the request input where the previous step's tool results start */
+  private lastInputLength = 0;
+  /** Inputs received by each call, for assertions in tests */
+  readonly calls: LlmRunInput[] = [];
+
+  constructor(options: ScriptedLlmProviderOptions) {
+    this.script = options.script ?? { turns: [{ steps: options.steps ?? [] }] };
+    this.deltaChunkSize = options.deltaChunkSize ?? 16;
+  }
+
+  /**
+   * Load a script from a .yaml, .yml or .json file.
+   *
+   * @throws Error if the file does not match the script schema
+   */
+  static fromFile(filePath: string, options: Omit<ScriptedLlmProviderOptions, 'script' | 'steps'> = {}): ScriptedLlmProvider {
+    const raw = readFileSync(filePath, 'utf8');
+    const ext = extname(filePath).toLowerCase();
+    const data: unknown = ext === '.json' ? JSON.parse(raw) : parseYaml(raw);
+    const parsed = scriptedLlmScriptSchema.safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+      throw new Error(`Invalid LLM script ${filePath}: ${issues}`);
+    }
+    return new ScriptedLlmProvider({
+      ...options,
+      script: { name: parsed.data.name ?? filePath, turns: parsed.data.turns as ScriptedTurn[] },
+    });
+  }
+
+  async runWithTools(options: LlmRunInput): Promise<LlmResponse> {
+    this.calls.push(options);
+    const scriptName = this.script.name ?? 'inline';
+
+    let turn = this.script.turns[this.turnIndex];
+    const userMessage = findLastUserMessage(options.input);
+
+    // Advance to the next turn when the current one is used up
+    if (turn && this.stepIndex >= turn.steps.length) {
+      this.turnIndex++;
+      this.stepIndex = 0;
+      turn = this.script.turns[this.turnIndex];
+    }
+
+    if (!turn) {
+      throw new ScriptMismatchError(scriptName, this.turnIndex, this.stepIndex,
+        `script exhausted, unexpected request for user message "${userMessage ?? ''}"`);
+    }
+
+    if (this.stepIndex === 0) {
+      this.assertUserMessage(turn, userMessage, scriptName);
+      this.lastInputLength = options.input.length;
+    }
+
+    const step = turn.steps[this.stepIndex];
+    this.assertExpectations(step, options, scriptName);
+    this.lastInputLength = options.input.length;
+    this.stepIndex++;
+
+    const toolCalls: LlmToolCall[] = (step.toolCalls ?? []).map((tc, index) => ({
+      id: tc.id ?? `call_scripted_${this.turnIndex + 1}_${this.stepIndex}_${index}`,
+      name: tc.name,
+      arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments),
+    }));
+
+    const content = step.content ?? null;
+    let streamed = false;
+    if (options.onDelta && content && toolCalls.length === 0) {
+      for (let i = 0; i < content.length; i += this.deltaChunkSize) {
+        options.onDelta(content.slice(i, i + this.deltaChunkSize));
+      }
+      streamed = true;
+    }
+
+    return {
+      content,
+      toolCalls,
+      finishReason: step.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      usage: step.usage,
+      model: options.model,
+      streamed,
+    };
+  }
+
+  /**
+   * Number of scripted steps not yet consumed.
+   */
+  remaining(): number {
+    let count = 0;
+    this.script.turns.forEach((turn, index) => {
+      if (index > this.turnIndex) count += turn.steps.length;
+      if (index === this.turnIndex) count += turn.steps.length - this.stepIndex;
+    });
+    return count;
+  }
+
+  /**
+   * Throw if any scripted step was not consumed. Call at the end of a test.
+   */
+  assertComplete(): void {
+    const left = this.remaining();
+    if (left > 0) {
+      throw new ScriptMismatchError(this.script.name ?? 'inline', this.turnIndex, this.stepIndex,
+        `${left} scripted step(s) were never requested`);
+    }
+  }
+
+  private assertUserMessage(turn: ScriptedTurn, userMessage: string | undefined, scriptName: string): void {
+    if (turn.user !== undefined && turn.user !== userMessage) {
+      throw new ScriptMismatchError(scriptName, this.turnIndex, this.stepIndex,
+        `expected user message "${turn.user}", got "${userMessage ?? ''}"`);
+    }
+    if (turn.userMatches !== undefined && !new RegExp(turn.userMatches, 'i').test(userMessage ?? '')) {
+      throw new ScriptMismatchError(scriptName, this.turnIndex, this.stepIndex,
+        `user message "${userMessage ?? ''}" does not match /${turn.userMatches}/i`);
+    }
+  }
+
+  private assertExpectations(step: ScriptedStep, options: LlmRunInput, scriptName: string): void {
+    const expectation = step.expect;
+    if (!expectation) return;
+    const fail = (detail: string) => new ScriptMismatchError(scriptName, this.turnIndex, this.stepIndex, detail);
+
+    if (expectation.model !== undefined && options.model !== expectation.model) {
+      throw fail(`expected model "${expectation.model}", got "${options.model ?? ''}"`);
+    }
+
+    if (expectation.toolsOffered) {
+      const offered = new Set((options.tools ?? []).map((t) => t.name));
+      const missing = expectation.toolsOffered.filter((name) => !offered.has(name));
+      if (missing.length > 0) {
+        throw fail(`expected tools to be offered: ${missing.join(', ')}`);
+      }
+    }
+
+    if (expectation.toolResults) {
+      const newMessages = options.input.slice(this.lastInputLength);
+      const results = collectToolResults(newMessages, options.input);
+      const names = results.map((r) => r.name);
+      const expectedNames = expectation.toolResults.map((r) => r.name);
+      if (JSON.stringify(names) !== JSON.stringify(expectedNames)) {
+        throw fail(`expected tool results [${expectedNames.join(', ')}], got [${names.join(', ')}]`);
+      }
+      expectation.toolResults.forEach((expected, index) => {
+        if (expected.contains !== undefined && !results[index].content.includes(expected.contains)) {
+          throw fail(`tool result for ${expected.name} does not contain "${expected.contains}"`);
+        }
+      });
+    }
+  }
+}
+
+function findLastUserMessage(input: LlmMessage[]): string | undefined {
+  for (let i = input.length - 1; i >= 0; i--) {
+    const message = input[i];
+    if (message.role === 'user') return message.content;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve tool result messages to the tool names that produced them.
+ */
+function collectToolResults(messages: LlmMessage[], fullInput: LlmMessage[]): Array<{ name: string; content: string }> {
+  const namesById = new Map<string, string>();
+  for (const message of fullInput) {
+    if (message.role === 'assistant') {
+      for (const tc of message.tool_calls ?? []) {
+        namesById.set(tc.id, tc.function.name);
+      }
+    }
+  }
+  return messages
+    .filter((m): m is Extract<LlmMessage, { role: 'tool' }> => m.role === 'tool')
+    .map((m) => ({ name: namesById.get(m.tool_call_id) ?? 'unknown', content: m.content }));
+}
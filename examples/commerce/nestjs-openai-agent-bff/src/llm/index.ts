@@ -0,0 +1,13 @@
+export * from './llmTypes.js';
+export { OpenAiCompatibleProvider, type OpenAiCompatibleProviderOptions } from './OpenAiCompatibleProvider.js';
+export {
+  ScriptedLlmProvider,
+  ScriptMismatchError,
+  scriptedLlmScriptSchema,
+  type ScriptedStep,
+  type ScriptedTurn,
+  type ScriptedExpectation,
+  type ScriptedLlmScript,
+  type ScriptedLlmProviderOptions,
+} from './ScriptedLlmProvider.js';
+export { createLlmProvider, resolveModelForApplication, type CreateLlmProviderOptions } from './llmProviderFactory.js';
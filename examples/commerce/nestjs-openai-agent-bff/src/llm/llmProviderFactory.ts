@@ -0,0 +1,65 @@
+import { config } from '../config.js';
+import { OpenAiClient } from '../openai/OpenAiClient.js';
+import { OpenAiCompatibleProvider } from './OpenAiCompatibleProvider.js';
+import { ScriptedLlmProvider } from './ScriptedLlmProvider.js';
+import type { LlmProvider } from './llmTypes.js';
+
+export interface CreateLlmProviderOptions {
+  /** Overrides LLM_PROVIDER */
+  provider?: 'openai' | 'openai-compatible' | 'scripted';
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  scriptPath?: string;
+}
+
+/**
+ * Create the LLM provider selected by configuration (LLM_PROVIDER).
+ * 
+ * - openai: OpenAI API via OpenAiClient
+ * - openai-compatible: any OpenAI-compatible endpoint at LLM_BASE_URL
+ * - scripted: offline provider replaying LLM_SCRIPT_PATH (empty script if unset)
+ * 
+ * @throws Error if openai-compatible is selected without a base URL
+ */
+export function createLlmProvider(options: CreateLlmProviderOptions = {}): LlmProvider {
+  const provider = options.provider ?? config.llm?.provider ?? 'openai';
+  const model = options.model || config.openai.model;
+
+  switch (provider) {
+    case 'openai-compatible': {
+      const baseUrl = options.baseUrl ?? config.llm?.baseUrl;
+      if (!baseUrl) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      return new OpenAiCompatibleProvider({
+        baseUrl,
+        apiKey: options.apiKey || config.llm?.apiKey || config.openai.apiKey,
+        defaultModel: model,
+      });
+    }
+    case 'scripted': {
+      const scriptPath = options.scriptPath ?? config.llm?.scriptPath;
+      return scriptPath ? ScriptedLlmProvider.fromFile(scriptPath) : new ScriptedLlmProvider({ steps: [] });
+    }
+    case 'openai':
+    default:
+      return new OpenAiClient({
+        apiKey: options.apiKey || config.openai.apiKey,
+        defaultModel: model,
+      });
+  }
+}
+
+/**
+ * Resolve the model for a tenant, honoring LLM_MODEL_OVERRIDES.
+ * 
+ * @param applicationId - Tenant application ID (may be undefined in tests)
+ * @param defaultModel - Model used when no override exists
+ */
+export function resolveModelForApplication(applicationId: string | undefined, defaultModel: string): string {
+  if (!applicationId) {
+    return defaultModel;
+  }
+  return config.llm?.modelOverrides?.[applicationId] ?? defaultModel;
+}
@@ -0,0 +1,134 @@
+/**
+ * Provider-neutral LLM types.
+ *
+ * The agent loop talks to language models exclusively through the
+ * `LlmProvider` interface defined here. Concrete adapters (OpenAI,
+ * OpenAI-compatible local endpoints, scripted offline provider) translate
+ * these shapes to and from their own wire formats.
+ *
+ * The message shape intentionally mirrors the widely adopted chat-completions
+ * layout (role/content/tool_calls/tool_call_id) so that conversation history
+ * stored in sessions can be passed to any adapter without conversion.
+ */
+
+/**
+ * A tool call requested by the model inside an assistant message.
+ */
+export interface LlmMessageToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface LlmSystemMessage {
+  role: 'system';
+  content: string;
+}
+
+export interface LlmUserMessage {
+  role: 'user';
+  content: string;
+}
+
+export interface LlmAssistantMessage {
+  role: 'assistant';
+  content: string | null;
+  tool_calls?: LlmMessageToolCall[];
+}
+
+export interface LlmToolMessage {
+  role: 'tool';
+  content: string;
+  tool_call_id: string;
+}
+
+/**
+ * A single message sent to the model.
+ */
+export type LlmMessage = LlmSystemMessage | LlmUserMessage | LlmAssistantMessage | LlmToolMessage;
+
+/**
+ * Tool definition exposed to the model (JSON Schema parameters).
+ */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A tool call returned by the model.
+ */
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Token usage reported by the provider for a single request.
+ */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Prompt tokens served from the provider's prompt cache (if reported) */
+  cachedTokens?: number;
+}
+
+/**
+ * Input for a single model request.
+ */
+export interface LlmRunInput {
+  input: LlmMessage[];
+  tools?: LlmToolDefinition[];
+  model?: string;
+  maxTokens?: number;
+  /** Whether this is a streaming call (affects timeout/retry defaults) */
+  isStreaming?: boolean;
+  /** Override timeout in milliseconds (uses provider defaults if not provided) */
+  timeoutMs?: number;
+  /** Override max retries (uses provider defaults if not provided) */
+  maxRetries?: number;
+  /** Route identifier for logging (e.g., '/v1/chat' or '/v1/chat/stream') */
+  route?: string;
+  /**
+   * Receives assistant text deltas as they are produced.
+   * Providers that cannot stream may ignore this; callers must check
+   * `LlmResponse.streamed` to know whether deltas were emitted.
+   */
+  onDelta?: (text: string) => void;
+}
+
+/**
+ * Result of a single model request.
+ */
+export interface LlmResponse {
+  content: string | null;
+  toolCalls: LlmToolCall[];
+  finishReason: string | null;
+  usage?: LlmUsage;
+  /** Model that actually served the request (as reported by the provider) */
+  model?: string;
+  /** True when the content was already emitted through `onDelta` */
+  streamed?: boolean;
+}
+
+/**
+ * Provider-neutral interface for chat models with tool calling.
+ */
+export interface LlmProvider {
+  /** Short identifier used in logs and debug output (e.g., 'openai', 'scripted') */
+  readonly name: string;
+
+  /**
+   * Run a single model request with optional tool definitions.
+   *
+   * @param options - Messages, tool definitions and request options
+   * @returns Response containing content and/or tool calls
+   */
+  runWithTools(options: LlmRunInput): Promise<LlmResponse>;
+}
@@ -0,0 +1,467 @@
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import crypto from 'node:crypto';
+import type { JsonRpcRequest, JsonRpcResponse, McpToolDefinition } from '../../norce/NorceMcpClient.js';
+import {
+  PRODUCT_SEARCH,
+  PRODUCT_GET,
+  CART_GET,
+  CART_ADD_ITEM,
+  CART_SET_ITEM_QUANTITY,
+  CART_REMOVE_ITEM,
+} from '../../norce/mcpToolNames.js';
+import { MockCatalog, MockToolError, loadMockCatalog, type MockCatalogData } from './mockCatalog.js';
+
+/** Path of the MCP endpoint (matches the Norce URL layout) */
+export const MOCK_MCP_PATH = '/mcp/commerce';
+
+/** Path of the OAuth client-credentials token endpoint */
+export const MOCK_TOKEN_PATH = '/identity/1.0/connect/token';
+
+const MOCK_PROTOCOL_VERSION = '2024-11-05';
+
+export interface MockMcpServerOptions {
+  /** Catalog data (defaults to the bundled fixture catalog) */
+  catalog?: MockCatalogData;
+  /** Respond with text/event-stream instead of application/json (default: false) */
+  sse?: boolean;
+  /** Idle session lifetime; expired sessions get HTTP 404 (default: 30 minutes) */
+  sessionTtlMs?: number;
+  /** Token lifetime returned by the token endpoint (default: 3600) */
+  tokenExpiresInSeconds?: number;
+  /** protocolVersion answered to initialize, e.g. to test incompatible servers (default: 2024-11-05) */
+  protocolVersion?: string;
+  /** Accept JSON-RPC batches; when false, batches get HTTP 400 (default: true) */
+  batch?: boolean;
+}
+
+interface MockSession {
+  applicationId: string;
+  initialized: boolean;
+  lastSeenAt: number;
+}
+
+/**
+ * Tool definitions returned by tools/list.
+ * Input schemas follow the argument shapes the BFF handlers send.
+ */
+const contextInputSchema = {
+  type: 'object',
+  properties: {
+    cultureCode: { type: 'string' },
+    currencyCode: { type: 'string' },
+    priceListIds: { type: 'array', items: { type: 'number' } },
+    salesAreaId: { type: 'number' },
+    customerId: { type: 'number' },
+    companyId: { type: 'number' },
+  },
+};
+
+export const MOCK_TOOL_DEFINITIONS: McpToolDefinition[] = [
+  {
+    name: PRODUCT_SEARCH,
+    description: 'Search for products in the catalog',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        // Accepted so product_search arguments match; the mock catalog does not filter on it
+        filters: { type: 'object' },
+        pageSize: { type: 'number' },
+        statusSeed: { type: 'string' },
+        context: contextInputSchema,
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: PRODUCT_GET,
+    description: 'Get product details including variants and stock',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productId: { type: 'number' },
+        partNo: { type: 'string' },
+        context: contextInputSchema,
+      },
+    },
+  },
+  {
+    name: CART_GET,
+    description: 'Get the current basket',
+    inputSchema: {
+      type: 'object',
+      properties: { basketId: { type: 'number' }, context: contextInputSchema },
+      required: ['basketId'],
+    },
+  },
+  {
+    name: CART_ADD_ITEM,
+    description: 'Add an item to the basket (creates a basket when basketId is omitted)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        partNo: { type: 'string' },
+        quantity: { type: 'number' },
+        basketId: { type: 'number' },
+        clientIp: { type: 'string' },
+        context: contextInputSchema,
+      },
+      required: ['partNo', 'quantity'],
+    },
+  },
+  {
+    name: CART_SET_ITEM_QUANTITY,
+    description: 'Set the quantity of a basket line',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        basketId: { type: 'number' },
+        productId: { type: 'string' },
+        quantity: { type: 'number' },
+        context: contextInputSchema,
+      },
+      required: ['basketId', 'productId', 'quantity'],
+    },
+  },
+  {
+    name: CART_REMOVE_ITEM,
+    description: 'Remove a line from the basket',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        basketId: { type: 'number' },
+        productId: { type: 'string' },
+        context: contextInputSchema,
+      },
+      required: ['basketId', 'productId'],
+    },
+  },
+];
+
+/**
+ * Local stand-in for the Norce MCP server (dev/test only).
+ *
+ * Implements the Streamable HTTP JSON-RPC subset used by NorceMcpClient:
+ * - initialize (issues an mcp-session-id), notifications/initialized (202)
+ * - tools/list and tools/call for the six tools in mcpToolNames.ts
+ * - DELETE to terminate a session
+ * - a client-credentials token endpoint so NorceTokenProvider works unchanged
+ *
+ * Session semantics: every request except initialize must carry a known
+ * mcp-session-id bound to the same application-id; a missing header is a
+ * 400, an unknown or expired session is a 404 (client must re-initialize).
+ */
+export class MockMcpServer {
+  readonly catalog: MockCatalog;
+  private readonly app: FastifyInstance;
+  private readonly sessions = new Map<string, MockSession>();
+  private readonly sse: boolean;
+  private readonly sessionTtlMs: number;
+  private readonly tokenExpiresInSeconds: number;
+  private readonly protocolVersion: string;
+  private readonly batch: boolean;
+  private address: string | undefined;
+
+  constructor(options: MockMcpServerOptions = {}) {
+    this.catalog = new MockCatalog(options.catalog ?? loadMockCatalog());
+    this.sse = options.sse ?? false;
+    this.sessionTtlMs = options.sessionTtlMs ?? 30 * 60 * 1000;
+    this.tokenExpiresInSeconds = options.tokenExpiresInSeconds ?? 3600;
+    this.protocolVersion = options.protocolVersion ?? MOCK_PROTOCOL_VERSION;
+    this.batch = options.batch ?? true;
+
+    this.app = Fastify({ logger: false });
+    this.app.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'string' },
+      (_req, body, done) => done(null, Object.fromEntries(new URLSearchParams(body as string)))
+    );
+    this.app.post(MOCK_TOKEN_PATH, (request, reply) => this.handleToken(request, reply));
+    this.app.post(MOCK_MCP_PATH, (request, reply) => this.handleRpc(request, reply));
+    this.app.delete(MOCK_MCP_PATH, (request, reply) => this.handleDelete(request, reply));
+  }
+
+  /**
+   * Start listening. Use port 0 for a random free port (tests).
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<void> {
+    this.address = await this.app.listen({ port, host });
+  }
+
+  async stop(): Promise<void> {
+    await this.app.close();
+    this.address = undefined;
+  }
+
+  /** Value for NORCE_MCP_BASE_URL */
+  get baseUrl(): string {
+    return `${this.requireAddress()}${MOCK_MCP_PATH}`;
+  }
+
+  /** Value for NORCE_OAUTH_TOKEN_URL */
+  get tokenUrl(): string {
+    return `${this.requireAddress()}${MOCK_TOKEN_PATH}`;
+  }
+
+  /** Number of live MCP sessions */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Forget a session so the next request using it gets a 404.
+   */
+  expireSession(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Drop all sessions and baskets.
+   */
+  reset(): void {
+    this.sessions.clear();
+    this.catalog.resetBaskets();
+  }
+
+  /**
+   * Access to the underlying Fastify instance (inject() in tests).
+   */
+  get fastify(): FastifyInstance {
+    return this.app;
+  }
+
+  private requireAddress(): string {
+    if (!this.address) {
+      throw new Error('MockMcpServer is not started');
+    }
+    return this.address;
+  }
+
+  private async handleToken(request: FastifyRequest, reply: FastifyReply): Promise<unknown> {
+    const body = (request.body ?? {}) as Record<string, string>;
+    if (body.grant_type !== 'client_credentials' || !body.client_id || !body.client_secret) {
+      return reply.code(400).send({ error: 'invalid_request' });
+    }
+    return {
+      access_token: `mock-token-${crypto.randomUUID()}`,
+      token_type: 'Bearer',
+      expires_in: this.tokenExpiresInSeconds,
+      scope: body.scope,
+    };
+  }
+
+  private async handleDelete(request: FastifyRequest, reply: FastifyReply): Promise<unknown> {
+    const sessionId = headerValue(request, 'mcp-session-id');
+    if (!sessionId || !this.sessions.delete(sessionId)) {
+      return reply.code(404).send();
+    }
+    return reply.code(200).send();
+  }
+
+  private async handleRpc(request: FastifyRequest, reply: FastifyReply): Promise<unknown> {
+    const authorization = headerValue(request, 'authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return reply.code(401).send({ error: 'unauthorized' });
+    }
+    const applicationId = headerValue(request, 'application-id');
+    if (!applicationId) {
+      return reply.code(400).send({ error: 'application-id header is required' });
+    }
+
+    if (Array.isArray(request.body)) {
+      return this.handleBatch(request.body as JsonRpcRequest[], request, reply, applicationId);
+    }
+
+    const rpc = request.body as JsonRpcRequest | undefined;
+    if (!rpc || rpc.jsonrpc !== '2.0' || typeof rpc.method !== 'string') {
+      return this.sendRpc(reply, { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request' } });
+    }
+
+    if (rpc.method === 'initialize') {
+      const sessionId = crypto.randomUUID();
+      this.sessions.set(sessionId, { applicationId, initialized: false, lastSeenAt: Date.now() });
+      reply.header('mcp-session-id', sessionId);
+      return this.sendRpc(reply, {
+        jsonrpc: '2.0',
+        id: rpc.id,
+        result: {
+          protocolVersion: this.protocolVersion,
+          capabilities: { tools: { listChanged: false }, logging: {} },
+          serverInfo: { name: 'norce-mcp-mock', version: '1.0.0' },
+        },
+      });
+    }
+
+    const sessionId = headerValue(request, 'mcp-session-id');
+    if (!sessionId) {
+      return reply.code(400).send({
+        jsonrpc: '2.0',
+        id: rpc.id,
+        error: { code: -32000, message: 'Bad Request: mcp-session-id header is required' },
+      });
+    }
+    const session = this.touchSession(sessionId, applicationId);
+    if (!session) {
+      return reply.code(404).send({
+        jsonrpc: '2.0',
+        id: rpc.id,
+        error: { code: -32001, message: 'Session not found' },
+      });
+    }
+
+    if (rpc.method.startsWith('notifications/')) {
+      if (rpc.method === 'notifications/initialized') {
+        session.initialized = true;
+      }
+      return reply.code(202).send();
+    }
+
+    const notifications = rpc.method === 'tools/call' ? this.toolNotifications(rpc) : [];
+    return this.sendRpc(reply, this.dispatch(rpc, applicationId), notifications);
+  }
+
+  /**
+   * JSON-RPC batch: requests on an existing session, answered with an array
+   * (or one SSE event per response).
+   */
+  private handleBatch(
+    batch: JsonRpcRequest[],
+    request: FastifyRequest,
+    reply: FastifyReply,
+    applicationId: string
+  ): FastifyReply {
+    if (!this.batch || batch.length === 0) {
+      return reply.code(400).send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request: batches are not supported' },
+      });
+    }
+
+    const session = this.touchSession(headerValue(request, 'mcp-session-id'), applicationId);
+    if (!session) {
+      return reply.code(404).send({ jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Session not found' } });
+    }
+
+    const responses = batch
+      .filter((rpc) => rpc.id !== undefined && rpc.method !== 'initialize')
+      .map((rpc) => this.dispatch(rpc, applicationId));
+    if (this.sse) {
+      return reply
+        .header('content-type', 'text/event-stream')
+        .send(responses.map((response) => `event: message\ndata: ${JSON.stringify(response)}\n\n`).join(''));
+    }
+    return reply.header('content-type', 'application/json').send(responses);
+  }
+
+  /**
+   * Look up a live session for the application and mark it as used.
+   */
+  private touchSession(sessionId: string | undefined, applicationId: string): MockSession | undefined {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const now = Date.now();
+    if (!sessionId || !session || session.applicationId !== applicationId || now - session.lastSeenAt > this.sessionTtlMs) {
+      if (sessionId) {
+        this.sessions.delete(sessionId);
+      }
+      return undefined;
+    }
+    session.lastSeenAt = now;
+    return session;
+  }
+
+  private dispatch(rpc: JsonRpcRequest, applicationId: string): JsonRpcResponse {
+    switch (rpc.method) {
+      case 'ping':
+        return { jsonrpc: '2.0', id: rpc.id, result: {} };
+      case 'tools/list':
+        return { jsonrpc: '2.0', id: rpc.id, result: { tools: MOCK_TOOL_DEFINITIONS } };
+      case 'tools/call':
+        return this.callTool(rpc, applicationId);
+      default:
+        return {
+          jsonrpc: '2.0',
+          id: rpc.id,
+          error: { code: -32601, message: `Method not found: ${rpc.method}` },
+        };
+    }
+  }
+
+  private callTool(rpc: JsonRpcRequest, applicationId: string): JsonRpcResponse {
+    const name = rpc.params?.name;
+    const args = (rpc.params?.arguments ?? {}) as Record<string, unknown>;
+
+    try {
+      let result: unknown;
+      switch (name) {
+        case PRODUCT_SEARCH:
+          result = this.catalog.search(args);
+          break;
+        case PRODUCT_GET:
+          result = this.catalog.get(args);
+          break;
+        case CART_GET:
+          result = this.catalog.cartGet(args, applicationId);
+          break;
+        case CART_ADD_ITEM:
+          result = this.catalog.cartAddItem(args, applicationId);
+          break;
+        case CART_SET_ITEM_QUANTITY:
+          result = this.catalog.cartSetItemQuantity(args, applicationId);
+          break;
+        case CART_REMOVE_ITEM:
+          result = this.catalog.cartRemoveItem(args, applicationId);
+          break;
+        default:
+          throw new MockToolError(`Unknown tool: ${String(name)}`);
+      }
+      return { jsonrpc: '2.0', id: rpc.id, result };
+    } catch (error) {
+      if (error instanceof MockToolError) {
+        return { jsonrpc: '2.0', id: rpc.id, error: { code: error.code, message: error.message } };
+      }
+      return { jsonrpc: '2.0', id: rpc.id, error: { code: -32603, message: 'Internal error' } };
+    }
+  }
+
+  /**
+   * Notifications streamed before a product search result (SSE mode only):
+   * progress, if the request carried a progressToken, and a log message.
+   */
+  private toolNotifications(rpc: JsonRpcRequest): object[] {
+    if (rpc.params?.name !== PRODUCT_SEARCH) {
+      return [];
+    }
+    const progressToken = (rpc.params?._meta as { progressToken?: string | number } | undefined)?.progressToken;
+    const progress = progressToken === undefined
+      ? []
+      : [1, 2].map((step) => ({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress: step, total: 2, message: step === 1 ? 'Querying catalog' : 'Pricing results' },
+      }));
+    return [
+      ...progress,
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params: { level: 'info', logger: 'catalog', data: { query: (rpc.params?.arguments as { query?: unknown })?.query } },
+      },
+    ];
+  }
+
+  private sendRpc(reply: FastifyReply, response: JsonRpcResponse, notifications: object[] = []): FastifyReply {
+    if (this.sse) {
+      const events = [...notifications, response].map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      return reply
+        .header('content-type', 'text/event-stream')
+        .send(events.join(''));
+    }
+    return reply.header('content-type', 'application/json').send(response);
+  }
+}
+
+function headerValue(request: FastifyRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
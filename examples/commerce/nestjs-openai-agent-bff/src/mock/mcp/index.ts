@@ -0,0 +1,17 @@
+export {
+  MockMcpServer,
+  MOCK_MCP_PATH,
+  MOCK_TOKEN_PATH,
+  MOCK_TOOL_DEFINITIONS,
+  type MockMcpServerOptions,
+} from './MockMcpServer.js';
+export {
+  MockCatalog,
+  MockToolError,
+  loadMockCatalog,
+  toToolResult,
+  type MockCatalogData,
+  type MockProduct,
+  type MockVariant,
+  type MockOnHand,
+} from './mockCatalog.js';
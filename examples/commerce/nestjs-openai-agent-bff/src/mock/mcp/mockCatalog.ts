@@ -0,0 +1,376 @@
+/**
+ * In-memory fixture catalog and basket store for the mock Norce MCP server.
+ *
+ * Response shapes mirror what the real Norce MCP tools return closely enough
+ * for the BFF normalizers (normalizeProductSearchResult, normalizeProductGet,
+ * normalizeCartResult) to treat them like production data.
+ */
+
+import { readFileSync } from 'node:fs';
+import bundledCatalog from './catalog.json' with { type: 'json' };
+
+export interface MockOnHand {
+  value: number;
+  isActive: boolean;
+  nextDeliveryDate: string | null;
+}
+
+export interface MockVariantParametric {
+  name: string;
+  value: string;
+  code: string;
+  groupName?: string;
+  isPrimary?: boolean;
+}
+
+export interface MockVariant {
+  productId: number;
+  partNo: string;
+  name: string;
+  price: number;
+  priceIncVat: number;
+  isBuyable: boolean;
+  onHand: MockOnHand;
+  variantParametrics: MockVariantParametric[];
+}
+
+export interface MockProduct {
+  productId: number;
+  partNo: string;
+  uniqueName: string;
+  name: string;
+  description: string;
+  manufacturerName: string;
+  category: string;
+  price: number;
+  priceIncVat: number;
+  currency: string;
+  thumbnailImageKey: string | null;
+  onHand?: MockOnHand;
+  variants: MockVariant[];
+}
+
+export interface MockCatalogData {
+  currency: string;
+  products: MockProduct[];
+}
+
+export interface MockBasketLine {
+  lineNo: number;
+  productId: number;
+  partNo: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  imageKey: string | null;
+}
+
+export interface MockBasket {
+  basketId: number;
+  applicationId: string;
+  lines: MockBasketLine[];
+  nextLineNo: number;
+}
+
+/**
+ * Error raised for invalid tool arguments or unknown entities.
+ * The server maps it to a JSON-RPC error response.
+ */
+export class MockToolError extends Error {
+  constructor(message: string, public readonly code: number = -32602) {
+    super(message);
+    this.name = 'MockToolError';
+  }
+}
+
+/**
+ * Load a catalog JSON file (defaults to the bundled fixture catalog).
+ * Always returns a fresh copy so callers can mutate it safely.
+ */
+export function loadMockCatalog(path?: string): MockCatalogData {
+  const raw = path ? readFileSync(path, 'utf8') : JSON.stringify(bundledCatalog);
+  return JSON.parse(raw) as MockCatalogData;
+}
+
+/**
+ * Wrap a JSON payload in the MCP tools/call text content envelope.
+ */
+export function toToolResult(payload: unknown): { content: Array<{ type: 'text'; text: string }> } {
+  return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+}
+
+/**
+ * Catalog and basket state backing the mock MCP tools.
+ */
+export class MockCatalog {
+  private readonly data: MockCatalogData;
+  private readonly baskets = new Map<number, MockBasket>();
+  private nextBasketId = 5000;
+
+  constructor(data: MockCatalogData) {
+    this.data = data;
+  }
+
+  /**
+   * product.search: case-insensitive term match on name, description,
+   * manufacturer and category. All terms must match.
+   */
+  search(args: Record<string, unknown>): unknown {
+    const query = typeof args.query === 'string' ? args.query.trim().toLowerCase() : '';
+    if (!query) {
+      throw new MockToolError('query is required');
+    }
+    const pageSize = typeof args.pageSize === 'number' && args.pageSize > 0 ? args.pageSize : 10;
+    const terms = query.split(/\s+/).filter((t) => t.length > 0);
+    const statusSeed = parseStatusSeed(args.statusSeed);
+
+    const matches = this.data.products.filter((product) => {
+      const haystack = [product.name, product.description, product.manufacturerName, product.category]
+        .join(' ')
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term) || haystack.includes(term.replace(/s$/, '')));
+    }).filter((product) => {
+      // statusSeed: 1 = in stock, 3 = out of stock (active); anything else keeps the product
+      if (!statusSeed) return true;
+      const onHand = aggregateOnHand(product);
+      const status = onHand.value > 0 ? 1 : 3;
+      return statusSeed.includes(status);
+    });
+
+    const items = matches.slice(0, pageSize).map((product) => ({
+      productId: product.productId,
+      partNo: product.partNo,
+      name: product.name,
+      variantName: null,
+      description: product.description,
+      manufacturerName: product.manufacturerName,
+      price: product.priceIncVat,
+      currency: this.data.currency,
+      thumbnailImageKey: product.thumbnailImageKey,
+      onHand: aggregateOnHand(product),
+    }));
+
+    return toToolResult({ items, totalCount: matches.length });
+  }
+
+  /**
+   * product.get: lookup by productId (product or variant) or partNo.
+   */
+  get(args: Record<string, unknown>): unknown {
+    const product = this.findProduct(args.productId, args.partNo);
+    if (!product) {
+      throw new MockToolError(`Product not found: ${String(args.productId ?? args.partNo)}`, -32004);
+    }
+
+    return toToolResult({
+      productId: product.productId,
+      uniqueName: product.uniqueName,
+      partNo: product.partNo,
+      name: product.name,
+      description: product.description,
+      manufacturerName: product.manufacturerName,
+      priceIncVat: product.priceIncVat,
+      priceExVat: product.price,
+      currency: this.data.currency,
+      images: product.thumbnailImageKey ? [{ type: 'main', url: product.thumbnailImageKey }] : [],
+      attributes: { isBuyable: product.variants.length === 0 },
+      ...(product.onHand && { onHand: product.onHand }),
+      variants: product.variants,
+    });
+  }
+
+  /**
+   * cart.get: requires an existing basketId owned by the application.
+   */
+  cartGet(args: Record<string, unknown>, applicationId: string): unknown {
+    const basket = this.requireBasket(args.basketId, applicationId);
+    return toToolResult({ basketId: basket.basketId, basket: this.basketView(basket) });
+  }
+
+  /**
+   * cart.addItem: adds a buyable variant (or variant-less product) by partNo.
+   * Creates a new basket when no basketId is supplied.
+   */
+  cartAddItem(args: Record<string, unknown>, applicationId: string): unknown {
+    const partNo = typeof args.partNo === 'string' ? args.partNo : undefined;
+    const quantity = typeof args.quantity === 'number' ? args.quantity : 1;
+    if (!partNo) {
+      throw new MockToolError('partNo is required');
+    }
+    if (quantity <= 0) {
+      throw new MockToolError('quantity must be greater than 0');
+    }
+
+    const sku = this.findSku(partNo);
+    if (!sku) {
+      throw new MockToolError(`Unknown partNo: ${partNo}`, -32004);
+    }
+    if (!sku.buyable) {
+      throw new MockToolError(`Item ${partNo} is not buyable`, -32010);
+    }
+
+    const basket = args.basketId === undefined
+      ? this.createBasket(applicationId)
+      : this.requireBasket(args.basketId, applicationId);
+
+    const existing = basket.lines.find((line) => line.partNo === partNo);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      basket.lines.push({
+        lineNo: basket.nextLineNo++,
+        productId: sku.productId,
+        partNo,
+        name: sku.name,
+        quantity,
+        unitPrice: sku.priceIncVat,
+        imageKey: sku.imageKey,
+      });
+    }
+
+    return toToolResult({ basketId: basket.basketId, basket: this.basketView(basket) });
+  }
+
+  /**
+   * cart.setItemQuantity: productId may be the variant productId or its partNo.
+   */
+  cartSetItemQuantity(args: Record<string, unknown>, applicationId: string): unknown {
+    const basket = this.requireBasket(args.basketId, applicationId);
+    const quantity = typeof args.quantity === 'number' ? args.quantity : NaN;
+    if (!(quantity > 0)) {
+      throw new MockToolError('quantity must be greater than 0');
+    }
+    const line = this.requireLine(basket, args.productId);
+    line.quantity = quantity;
+    return toToolResult({ basketId: basket.basketId, basket: this.basketView(basket) });
+  }
+
+  /**
+   * cart.removeItem: productId may be the variant productId or its partNo.
+   */
+  cartRemoveItem(args: Record<string, unknown>, applicationId: string): unknown {
+    const basket = this.requireBasket(args.basketId, applicationId);
+    const line = this.requireLine(basket, args.productId);
+    basket.lines = basket.lines.filter((l) => l !== line);
+    return toToolResult({ basketId: basket.basketId, basket: this.basketView(basket) });
+  }
+
+  /**
+   * Drop all baskets (useful between tests).
+   */
+  resetBaskets(): void {
+    this.baskets.clear();
+  }
+
+  private createBasket(applicationId: string): MockBasket {
+    const basket: MockBasket = {
+      basketId: this.nextBasketId++,
+      applicationId,
+      lines: [],
+      nextLineNo: 1,
+    };
+    this.baskets.set(basket.basketId, basket);
+    return basket;
+  }
+
+  private requireBasket(rawBasketId: unknown, applicationId: string): MockBasket {
+    if (typeof rawBasketId !== 'number') {
+      throw new MockToolError('basketId must be a number');
+    }
+    const basket = this.baskets.get(rawBasketId);
+    if (!basket || basket.applicationId !== applicationId) {
+      throw new MockToolError(`Basket not found: ${rawBasketId}`, -32004);
+    }
+    return basket;
+  }
+
+  private requireLine(basket: MockBasket, rawProductId: unknown): MockBasketLine {
+    const key = rawProductId === undefined || rawProductId === null ? '' : String(rawProductId);
+    const line = basket.lines.find((l) => l.partNo === key || String(l.productId) === key);
+    if (!line) {
+      throw new MockToolError(`Item not in basket: ${key}`, -32004);
+    }
+    return line;
+  }
+
+  private basketView(basket: MockBasket): Record<string, unknown> {
+    const items = basket.lines.map((line) => ({
+      lineNo: line.lineNo,
+      productId: line.productId,
+      partNo: line.partNo,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.unitPrice * line.quantity,
+      currency: this.data.currency,
+      imageKey: line.imageKey,
+    }));
+    return {
+      basketId: basket.basketId,
+      items,
+      subtotal: items.reduce((sum, item) => sum + item.totalPrice, 0),
+      currency: this.data.currency,
+    };
+  }
+
+  private findProduct(rawProductId: unknown, rawPartNo: unknown): MockProduct | undefined {
+    const productId = rawProductId === undefined || rawProductId === null ? undefined : String(rawProductId);
+    const partNo = typeof rawPartNo === 'string' ? rawPartNo : undefined;
+    return this.data.products.find((product) =>
+      (productId !== undefined && (
+        String(product.productId) === productId ||
+        product.variants.some((v) => String(v.productId) === productId)
+      )) ||
+      (partNo !== undefined && (
+        product.partNo === partNo ||
+        product.variants.some((v) => v.partNo === partNo)
+      ))
+    );
+  }
+
+  private findSku(partNo: string): { productId: number; name: string; priceIncVat: number; buyable: boolean; imageKey: string | null } | undefined {
+    for (const product of this.data.products) {
+      const variant = product.variants.find((v) => v.partNo === partNo);
+      if (variant) {
+        return {
+          productId: variant.productId,
+          name: `${product.name} - ${variant.name}`,
+          priceIncVat: variant.priceIncVat,
+          buyable: variant.isBuyable && variant.onHand.isActive,
+          imageKey: product.thumbnailImageKey,
+        };
+      }
+      if (product.partNo === partNo && product.variants.length === 0) {
+        return {
+          productId: product.productId,
+          name: product.name,
+          priceIncVat: product.priceIncVat,
+          buyable: product.onHand?.isActive ?? true,
+          imageKey: product.thumbnailImageKey,
+        };
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Sum onHand across active variants (or use the product's own onHand).
+ */
+function aggregateOnHand(product: MockProduct): MockOnHand {
+  if (product.variants.length === 0) {
+    return product.onHand ?? { value: 0, isActive: true, nextDeliveryDate: null };
+  }
+  const active = product.variants.filter((v) => v.onHand.isActive);
+  return {
+    value: active.reduce((sum, v) => sum + v.onHand.value, 0),
+    isActive: active.length > 0,
+    nextDeliveryDate: null,
+  };
+}
+
+function parseStatusSeed(raw: unknown): number[] | undefined {
+  if (typeof raw !== 'string' || raw.trim() === '') return undefined;
+  const values = raw.split(',').map((v) => Number(v.trim())).filter((v) => !isNaN(v));
+  return values.length > 0 ? values : undefined;
+}
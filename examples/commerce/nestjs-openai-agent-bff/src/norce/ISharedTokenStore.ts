@@ -0,0 +1,23 @@
+/**
+ * A token read from the shared store.
+ * Lifetimes are relative (remaining milliseconds), so instances with different clocks agree on expiry.
+ */
+export interface SharedToken {
+  accessToken: string;
+  expiresInMs: number;
+}
+
+/**
+ * Token cache shared by BFF instances, with a per-applicationId refresh lock
+ * so only one instance calls the OAuth endpoint at a time.
+ */
+export interface ISharedTokenStore {
+  get(applicationId: string): Promise<SharedToken | undefined>;
+  set(applicationId: string, accessToken: string, expiresInMs: number): Promise<void>;
+  /** Delete the stored token if it is still the given (rejected) token */
+  invalidate(applicationId: string, accessToken: string): Promise<void>;
+  /** @returns A lock id to release with, or undefined if another instance holds the lock */
+  acquireLock(applicationId: string, ttlMs: number): Promise<string | undefined>;
+  releaseLock(applicationId: string, lockId: string): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,14 @@
+/**
+ * Thrown when the MCP server answers a JSON-RPC POST with a non-OK HTTP status (other than 202).
+ * Callers check `status`; the message format is only for logs and error mapping.
+ */
+export class McpHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly contentType: string,
+    public readonly bodySnippet: string
+  ) {
+    super(`MCP request failed: status=${status}, content-type=${contentType}, body=${bodySnippet}`);
+    this.name = 'McpHttpError';
+  }
+}
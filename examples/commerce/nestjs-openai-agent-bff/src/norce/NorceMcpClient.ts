@@ -1,10 +1,27 @@
-import { fetch } from 'undici';
+import { fetch, type Response } from 'undici';
 import type { McpState } from '../session/sessionTypes.js';
 import pino from 'pino';
 import { withTimeout } from '../http/timeout.js';
 import { retryAsync } from '../http/retry.js';
-import { isMcpRetryable } from '../http/retryPolicy.js';
+import { CircuitBreaker, createCircuitBreaker } from '../http/circuitBreaker.js';
+import { isMcpOutage, isMcpRetryable } from '../http/retryPolicy.js';
 import { config } from '../config.js';
+import { getCassetteContext } from '../debug/cassetteContext.js';
+import {
+  getSessionInvalidReason,
+  recordMcpSessionRecovery,
+  type McpSessionInvalidReason,
+} from './mcpSessionRecovery.js';
+import {
+  LATEST_PROTOCOL_VERSION,
+  allowsJsonRpcBatching,
+  negotiateProtocolVersion,
+  parseServerCapabilities,
+  requiresProtocolVersionHeader,
+} from './mcpCapabilities.js';
+import { SseDataParser, dispatchMcpNotification, getMcpNotificationListener } from './mcpNotifications.js';
+import { McpHttpError } from './McpHttpError.js';
+import type { AccessTokenRefresher } from './norceTypes.js';
 
 const logger = pino({ name: 'NorceMcpClient' });
 
@@ -37,6 +54,10 @@ export interface JsonRpcResponse {
  */
 export interface NorceMcpClientOptions {
   baseUrl: string;
+  /** Circuit breaker for MCP requests (default: created from CIRCUIT_BREAKER_* config) */
+  circuitBreaker?: CircuitBreaker;
+  /** Replaces rejected access tokens: on HTTP 401 the request is retried once with a fresh token */
+  tokenRefresher?: AccessTokenRefresher;
 }
 
 /**
@@ -49,13 +70,29 @@ export interface McpToolInputSchema {
   [key: string]: unknown;
 }
 
+/**
+ * Tool annotations from tools/list (hints only, not guarantees).
+ */
+export interface McpToolAnnotations {
+  title?: string;
+  /** The tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** The tool may perform destructive updates */
+  destructiveHint?: boolean;
+  [key: string]: unknown;
+}
+
 /**
  * Definition of a single MCP tool from tools/list response.
  */
 export interface McpToolDefinition {
   name: string;
+  /** Human-readable title (MCP 2025-06-18) */
+  title?: string;
   description?: string;
   inputSchema?: McpToolInputSchema;
+  /** Behavior hints; servers are not required to send them */
+  annotations?: McpToolAnnotations;
 }
 
 /**
@@ -65,26 +102,156 @@ export interface McpToolsListResult {
   tools: McpToolDefinition[];
 }
 
+/**
+ * A resource from resources/list (e.g. a store policy document).
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  /** Size in bytes, if known */
+  size?: number;
+}
+
+/**
+ * Result from MCP resources/list request.
+ */
+export interface McpResourcesListResult {
+  resources: McpResource[];
+  /** Cursor for the next page, if any */
+  nextCursor?: string;
+}
+
+/**
+ * Contents of a resource: text, or base64 blob for binary resources.
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Result from MCP resources/read request.
+ */
+export interface McpResourceReadResult {
+  contents: McpResourceContents[];
+}
+
+/**
+ * An argument accepted by a prompt template.
+ */
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * A prompt template from prompts/list.
+ */
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+/**
+ * Result from MCP prompts/list request.
+ */
+export interface McpPromptsListResult {
+  prompts: McpPrompt[];
+  /** Cursor for the next page, if any */
+  nextCursor?: string;
+}
+
+/**
+ * Content of a prompt message: text, an embedded resource, or other content types (image, audio).
+ */
+export type McpPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: McpResourceContents }
+  | { type: string; [key: string]: unknown };
+
+/**
+ * A message from prompts/get.
+ */
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpPromptContent;
+}
+
+/**
+ * Result from MCP prompts/get request.
+ */
+export interface McpPromptGetResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * One tool call of a callToolsBatch request.
+ */
+export interface McpToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one call in callToolsBatch. Failures are per call.
+ */
+export type McpToolCallOutcome =
+  | { ok: true; result: unknown }
+  | { ok: false; error: string };
+
+/** Concurrent single calls when callToolsBatch cannot send a batch */
+const BATCH_FALLBACK_CONCURRENCY = 3;
+
+/**
+ * HTTP statuses that unambiguously mean the server does not accept JSON-RPC batches.
+ * Other failures (e.g. 400, 413, 422) may be specific to one batch and only fall back for that call.
+ */
+const BATCH_REJECTED_STATUSES = new Set([405, 501]);
+
 /**
  * NorceMcpClient implements the Streamable HTTP JSON-RPC protocol for Norce MCP.
  *
  * Features:
  * - Session initialization with JSON-RPC initialize + notifications/initialized
+ * - Protocol version negotiation; server capabilities are stored in McpState
  * - mcp-session-id header management for session continuity
  * - Proper JSON-RPC id incrementing via state.nextRpcId
  * - Authorization and application-id headers on all requests
+ * - Session recovery: if the server drops or expires the session, re-initialize
+ *   and replay the request once (recorded in the tool trace)
+ * - JSON-RPC batches for multiple tool calls, with a fallback to concurrent single calls
+ * - Rejected tokens (HTTP 401): with a tokenRefresher, the token is force-refreshed and the
+ *   request retried once
  */
 export class NorceMcpClient {
   private readonly baseUrl: string;
+  /** In-flight initializations, shared by concurrent tool calls on the same session state */
+  private readonly initializing = new WeakMap<McpState, Promise<void>>();
+  /** Set to false once the server says it does not support batches; later batches go straight to single calls */
+  private batchSupported = true;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly tokenRefresher?: AccessTokenRefresher;
 
   constructor(options: NorceMcpClientOptions) {
     this.baseUrl = options.baseUrl;
+    this.circuitBreaker = options.circuitBreaker ?? createCircuitBreaker('mcp', isMcpOutage);
+    this.tokenRefresher = options.tokenRefresher;
   }
 
   /**
    * Ensure the MCP session is initialized.
    * If state.sessionId is already set, this is a no-op.
    * Otherwise, sends initialize + notifications/initialized and stores the session ID.
+   * Concurrent callers on the same state share one initialization.
    *
    * @param state - The MCP state object (will be mutated to store sessionId)
    * @param accessToken - OAuth access token for authorization
@@ -95,12 +262,31 @@ export class NorceMcpClient {
       return;
     }
 
+    const inFlight = this.initializing.get(state);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const initialization = this.initialize(state, accessToken, applicationId).finally(() => {
+      this.initializing.delete(state);
+    });
+    this.initializing.set(state, initialization);
+    return initialization;
+  }
+
+  /**
+   * Send initialize + notifications/initialized and store the session ID,
+   * negotiated protocol version and server capabilities.
+   *
+   * @throws AppError (MCP_PROTOCOL_VERSION_UNSUPPORTED) if the server's protocol version is not supported
+   */
+  private async initialize(state: McpState, accessToken: string, applicationId: string): Promise<void> {
     const initializeRequest: JsonRpcRequest = {
       jsonrpc: '2.0',
       id: state.nextRpcId++,
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: LATEST_PROTOCOL_VERSION,
         capabilities: {},
         clientInfo: {
           name: 'nc-commerce-agent-poc',
@@ -119,16 +305,22 @@ export class NorceMcpClient {
       );
     }
 
+    const initializeResult = (initResponse.response.result ?? {}) as { protocolVersion?: unknown; capabilities?: unknown };
+    const protocolVersion = negotiateProtocolVersion(initializeResult.protocolVersion);
+    const serverCapabilities = parseServerCapabilities(initializeResult.capabilities);
+
     const initializedNotification: JsonRpcRequest = {
       jsonrpc: '2.0',
       method: 'notifications/initialized',
     };
 
-    await this.sendRequest(initializedNotification, accessToken, sessionId, applicationId);
+    await this.sendRequest(initializedNotification, accessToken, sessionId, applicationId, protocolVersion);
 
     if (sessionId) {
       state.sessionId = sessionId;
     }
+    state.protocolVersion = protocolVersion;
+    state.serverCapabilities = serverCapabilities;
   }
 
   /**
@@ -145,15 +337,121 @@ export class NorceMcpClient {
     accessToken: string,
     applicationId: string
   ): Promise<McpToolsListResult> {
-    await this.ensureInitialized(state, accessToken, applicationId);
+    return this.request<McpToolsListResult>(state, 'tools/list', undefined, accessToken, applicationId);
+  }
 
-    const request: JsonRpcRequest = {
-      jsonrpc: '2.0',
-      id: state.nextRpcId++,
-      method: 'tools/list',
-    };
+  /**
+   * List resources (e.g. tenant reference documents) the server exposes.
+   *
+   * @param state - The MCP state object
+   * @param accessToken - OAuth access token for authorization
+   * @param applicationId - Application ID for the request (passed per call, not stored)
+   * @param cursor - Cursor from a previous page's nextCursor
+   * @returns One page of resources
+   */
+  async listResources(
+    state: McpState,
+    accessToken: string,
+    applicationId: string,
+    cursor?: string
+  ): Promise<McpResourcesListResult> {
+    const result = await this.request<Partial<McpResourcesListResult>>(
+      state, 'resources/list', cursor ? { cursor } : undefined, accessToken, applicationId
+    );
+    return { ...result, resources: result.resources ?? [] };
+  }
+
+  /**
+   * Read a resource by URI.
+   *
+   * @param state - The MCP state object
+   * @param uri - Resource URI from resources/list
+   * @param accessToken - OAuth access token for authorization
+   * @param applicationId - Application ID for the request (passed per call, not stored)
+   * @returns The resource contents
+   */
+  async readResource(
+    state: McpState,
+    uri: string,
+    accessToken: string,
+    applicationId: string
+  ): Promise<McpResourceReadResult> {
+    const result = await this.request<Partial<McpResourceReadResult>>(
+      state, 'resources/read', { uri }, accessToken, applicationId
+    );
+    return { contents: result.contents ?? [] };
+  }
+
+  /**
+   * List prompt templates the server exposes.
+   *
+   * @param state - The MCP state object
+   * @param accessToken - OAuth access token for authorization
+   * @param applicationId - Application ID for the request (passed per call, not stored)
+   * @param cursor - Cursor from a previous page's nextCursor
+   * @returns One page of prompts
+   */
+  async listPrompts(
+    state: McpState,
+    accessToken: string,
+    applicationId: string,
+    cursor?: string
+  ): Promise<McpPromptsListResult> {
+    const result = await this.request<Partial<McpPromptsListResult>>(
+      state, 'prompts/list', cursor ? { cursor } : undefined, accessToken, applicationId
+    );
+    return { ...result, prompts: result.prompts ?? [] };
+  }
 
-    const { response, sessionId } = await this.sendRequest(request, accessToken, state.sessionId, applicationId);
+  /**
+   * Get a prompt, with its arguments filled in by the server.
+   *
+   * @param state - The MCP state object
+   * @param name - Prompt name from prompts/list
+   * @param args - Prompt arguments (string values)
+   * @param accessToken - OAuth access token for authorization
+   * @param applicationId - Application ID for the request (passed per call, not stored)
+   * @returns The prompt messages
+   */
+  async getPrompt(
+    state: McpState,
+    name: string,
+    args: Record<string, string>,
+    accessToken: string,
+    applicationId: string
+  ): Promise<McpPromptGetResult> {
+    const result = await this.request<Partial<McpPromptGetResult>>(
+      state, 'prompts/get', { name, arguments: args }, accessToken, applicationId
+    );
+    return { ...result, messages: result.messages ?? [] };
+  }
+
+  /**
+   * Send a JSON-RPC request on an initialized session and return its result.
+   *
+   * @throws Error if the server returns a JSON-RPC error
+   */
+  private async request<T>(
+    state: McpState,
+    method: string,
+    params: Record<string, unknown> | undefined,
+    accessToken: string,
+    applicationId: string
+  ): Promise<T> {
+    await this.ensureInitialized(state, accessToken, applicationId);
+
+    const { response, sessionId } = await this.withSessionRecovery(
+      state, method, undefined, accessToken, applicationId,
+      () => {
+        const request: JsonRpcRequest = {
+          jsonrpc: '2.0',
+          id: state.nextRpcId++,
+          method,
+          ...(params && { params }),
+        };
+        return this.sendRequest(request, accessToken, state.sessionId, applicationId, state.protocolVersion);
+      }
+    );
 
     if (sessionId && !state.sessionId) {
       state.sessionId = sessionId;
@@ -161,17 +459,20 @@ export class NorceMcpClient {
 
     if (response.error) {
       throw new Error(
-        `MCP tools/list failed: ${response.error.message} (code: ${response.error.code})`
+        `MCP ${method} failed: ${response.error.message} (code: ${response.error.code})`
       );
     }
 
-    return response.result as McpToolsListResult;
+    return response.result as T;
   }
 
   /**
    * Call an MCP tool.
    * Ensures the session is initialized first, then sends the tools/call request.
    * Retries on transient errors (network issues, 502/503/504) with exponential backoff.
+   * If the session is no longer valid, re-initializes and replays the call once.
+   * Inside listenForMcpNotifications, the call requests progress notifications
+   * and streamed notifications are forwarded to the listener.
    *
    * @param state - The MCP state object
    * @param toolName - Name of the tool to call (e.g., 'product.search')
@@ -189,24 +490,31 @@ export class NorceMcpClient {
   ): Promise<unknown> {
     await this.ensureInitialized(state, accessToken, applicationId);
 
-    const request: JsonRpcRequest = {
-      jsonrpc: '2.0',
-      id: state.nextRpcId++,
-      method: 'tools/call',
-      params: {
-        name: toolName,
-        arguments: args,
-      },
-    };
-
-    const { response, sessionId } = await retryAsync(
-      () => this.sendRequest(request, accessToken, state.sessionId, applicationId),
-      {
-        retries: config.retry.maxAttempts,
-        baseDelayMs: config.retry.baseDelayMs,
-        jitter: config.retry.jitterMs,
-        shouldRetry: isMcpRetryable,
-        label: `MCP tools/call ${toolName}`,
+    const { response, sessionId } = await this.withSessionRecovery(
+      state, 'tools/call', toolName, accessToken, applicationId,
+      () => {
+        const id = state.nextRpcId++;
+        const request: JsonRpcRequest = {
+          jsonrpc: '2.0',
+          id,
+          method: 'tools/call',
+          params: {
+            name: toolName,
+            arguments: args,
+            // Ask for notifications/progress when someone is listening
+            ...(getMcpNotificationListener() && { _meta: { progressToken: id } }),
+          },
+        };
+        return retryAsync(
+          () => this.sendRequest(request, accessToken, state.sessionId, applicationId, state.protocolVersion),
+          {
+            retries: config.retry.maxAttempts,
+            baseDelayMs: config.retry.baseDelayMs,
+            jitter: config.retry.jitterMs,
+            shouldRetry: isMcpRetryable,
+            label: `MCP tools/call ${toolName}`,
+          }
+        );
       }
     );
 
@@ -223,6 +531,170 @@ export class NorceMcpClient {
     return response.result;
   }
 
+  /**
+   * Call several MCP tools in one JSON-RPC batch request.
+   *
+   * Falls back to concurrent single calls (at most 3 at a time) when batching is not
+   * possible: the server rejected batches before, the negotiated protocol version does
+   * not allow them (2025-06-18 and later), a debug run is recorded or replayed, or the
+   * batch request fails. A failing call does not fail the others.
+   *
+   * @param state - The MCP state object
+   * @param calls - Tool calls, in order
+   * @param accessToken - OAuth access token for authorization
+   * @param applicationId - Application ID for the request (passed per call, not stored)
+   * @returns One outcome per call, in the same order
+   */
+  async callToolsBatch(
+    state: McpState,
+    calls: McpToolCall[],
+    accessToken: string,
+    applicationId: string
+  ): Promise<McpToolCallOutcome[]> {
+    if (calls.length === 0) {
+      return [];
+    }
+
+    await this.ensureInitialized(state, accessToken, applicationId);
+
+    const canBatch = calls.length > 1
+      && this.batchSupported
+      && !getCassetteContext()
+      && (!state.protocolVersion || allowsJsonRpcBatching(state.protocolVersion));
+    if (canBatch) {
+      const outcomes = await this.sendToolCallBatch(state, calls, accessToken, applicationId);
+      if (outcomes) {
+        return outcomes;
+      }
+    }
+
+    const outcomes: McpToolCallOutcome[] = new Array(calls.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < calls.length) {
+        const index = next++;
+        const call = calls[index];
+        try {
+          const result = await this.callTool(state, call.name, call.args, accessToken, applicationId);
+          outcomes[index] = { ok: true, result };
+        } catch (error) {
+          outcomes[index] = { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(BATCH_FALLBACK_CONCURRENCY, calls.length) }, worker));
+    return outcomes;
+  }
+
+  /**
+   * Send tool calls as one JSON-RPC batch.
+   *
+   * @returns One outcome per call, or undefined if the batch failed as a whole (caller falls back)
+   */
+  private async sendToolCallBatch(
+    state: McpState,
+    calls: McpToolCall[],
+    accessToken: string,
+    applicationId: string
+  ): Promise<McpToolCallOutcome[] | undefined> {
+    const requests: JsonRpcRequest[] = calls.map((call) => ({
+      jsonrpc: '2.0',
+      id: state.nextRpcId++,
+      method: 'tools/call',
+      params: { name: call.name, arguments: call.args },
+    }));
+
+    let responses: JsonRpcResponse[] | undefined;
+    try {
+      const result = await this.sendBatchHttpRequest(
+        requests, accessToken, state.sessionId, applicationId, state.protocolVersion
+      );
+      if (result.sessionId && !state.sessionId) {
+        state.sessionId = result.sessionId;
+      }
+      responses = result.responses;
+    } catch (error) {
+      const status = error instanceof McpHttpError ? error.status : undefined;
+      if (status !== undefined && BATCH_REJECTED_STATUSES.has(status)) {
+        this.batchSupported = false;
+        logger.info({ status }, 'MCP server rejected a JSON-RPC batch, using single calls');
+      } else {
+        logger.warn({ err: error, calls: calls.length }, 'MCP batch request failed, retrying as single calls');
+      }
+      return undefined;
+    }
+
+    // A single error object instead of an array: the server does not support batches
+    if (!responses) {
+      this.batchSupported = false;
+      logger.info('MCP server answered a JSON-RPC batch with a single response, using single calls');
+      return undefined;
+    }
+
+    const byId = new Map(responses.map((response) => [response.id, response]));
+    return requests.map((request): McpToolCallOutcome => {
+      const response = byId.get(request.id);
+      if (!response) {
+        return { ok: false, error: 'MCP tool call failed: no response in batch' };
+      }
+      if (response.error) {
+        return {
+          ok: false,
+          error: `MCP tool call failed: ${response.error.message} (code: ${response.error.code})`,
+        };
+      }
+      return { ok: true, result: response.result };
+    });
+  }
+
+  /**
+   * Send a request on the current session. If the server reports the session as
+   * invalid (HTTP 404, HTTP 400 about the session, or a JSON-RPC session error),
+   * re-initialize and replay the request once.
+   *
+   * @param send - Builds and sends the request (called again for the replay, with a new id and session)
+   */
+  private async withSessionRecovery(
+    state: McpState,
+    method: string,
+    toolName: string | undefined,
+    accessToken: string,
+    applicationId: string,
+    send: () => Promise<{ response: JsonRpcResponse; sessionId: string | undefined }>
+  ): Promise<{ response: JsonRpcResponse; sessionId: string | undefined }> {
+    const staleSessionId = state.sessionId;
+    let reason: McpSessionInvalidReason | undefined;
+    try {
+      const result = await send();
+      reason = staleSessionId ? getSessionInvalidReason(undefined, result.response) : undefined;
+      if (!reason) {
+        return result;
+      }
+    } catch (error) {
+      reason = staleSessionId ? getSessionInvalidReason(error) : undefined;
+      if (!reason) {
+        throw error;
+      }
+    }
+
+    logger.warn({ method, toolName, reason }, 'MCP session invalid, re-initializing and replaying request');
+
+    // Concurrent calls on the same state share one re-initialization
+    if (state.sessionId === staleSessionId) {
+      state.sessionId = undefined;
+    }
+
+    try {
+      await this.ensureInitialized(state, accessToken, applicationId);
+      const result = await send();
+      recordMcpSessionRecovery({ method, toolName, reason, replayOk: !result.response.error });
+      return result;
+    } catch (error) {
+      recordMcpSessionRecovery({ method, toolName, reason, replayOk: false });
+      throw error;
+    }
+  }
+
   /**
    * Send a JSON-RPC request to the MCP server.
    *
@@ -230,14 +702,71 @@ export class NorceMcpClient {
    * @param accessToken - OAuth access token for authorization
    * @param sessionId - Optional MCP session ID to include in headers
    * @param applicationId - Application ID for the request header
+   * @param protocolVersion - Negotiated protocol version (sent as MCP-Protocol-Version when required)
    * @returns The JSON-RPC response and any session ID from response headers
    */
   private async sendRequest(
     request: JsonRpcRequest,
     accessToken: string,
     sessionId: string | undefined,
-    applicationId: string
+    applicationId: string,
+    protocolVersion?: string
   ): Promise<{ response: JsonRpcResponse; sessionId: string | undefined }> {
+    const cassette = getCassetteContext();
+    const toolName = request.method === 'tools/call'
+      ? (request.params?.name as string | undefined)
+      : undefined;
+
+    // Debug-run replay: serve the recorded exchange instead of calling the server
+    if (cassette?.player) {
+      const recorded = cassette.player.nextMcp(request.method, toolName, request.params?.arguments);
+      if (recorded.error || !recorded.response) {
+        throw new Error(recorded.error ?? `MCP ${request.method} has no recorded response`);
+      }
+      return {
+        response: recorded.response.body as JsonRpcResponse,
+        sessionId: recorded.response.sessionId,
+      };
+    }
+
+    if (!cassette?.recorder) {
+      const { response, sessionId: responseSessionId } = await this.sendHttpRequest(
+        request, accessToken, sessionId, applicationId, protocolVersion
+      );
+      return { response, sessionId: responseSessionId };
+    }
+
+    const recordedRequest = { method: request.method, id: request.id, params: request.params };
+    try {
+      const result = await this.sendHttpRequest(request, accessToken, sessionId, applicationId, protocolVersion);
+      cassette.recorder.record({
+        kind: 'mcp',
+        request: recordedRequest,
+        response: { status: result.status, sessionId: result.sessionId, body: result.response },
+      });
+      return { response: result.response, sessionId: result.sessionId };
+    } catch (error) {
+      cassette.recorder.record({
+        kind: 'mcp',
+        request: recordedRequest,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Perform the HTTP exchange for a JSON-RPC request.
+   *
+   * @returns The JSON-RPC response, any session ID from response headers and the HTTP status
+   */
+  private async sendHttpRequest(
+    request: JsonRpcRequest,
+    accessToken: string,
+    sessionId: string | undefined,
+    applicationId: string,
+    protocolVersion?: string
+  ): Promise<{ response: JsonRpcResponse; sessionId: string | undefined; status: number }> {
     // Safeguard: non-notification methods must have an id
     const isNotification = request.method.startsWith('notifications/');
     if (!isNotification && request.id === undefined) {
@@ -247,56 +776,34 @@ export class NorceMcpClient {
       );
     }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json, text/event-stream',
-      Authorization: `Bearer ${accessToken}`,
-      'application-id': applicationId,
-    };
-
-    if (sessionId) {
-      headers['mcp-session-id'] = sessionId;
-    }
-
-    const response = await withTimeout(
-      (signal) => fetch(this.baseUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(request),
-        signal,
-      }),
-      config.timeouts.mcpCallMs,
-      `MCP ${request.method}`
+    const { response, contentType, sessionId: responseSessionId } = await this.postJsonRpc(
+      request, `MCP ${request.method}`, accessToken, sessionId, applicationId, protocolVersion
     );
 
-    const contentType = response.headers.get('content-type') ?? '';
-    const responseSessionId = response.headers.get('mcp-session-id') ?? undefined;
-
-    // Handle non-OK responses with debug-safe error info (except 202)
-    if (!response.ok && response.status !== 202) {
-      const errorBody = await response.text().catch(() => 'Unable to read error body');
-      const bodySnippet = errorBody.substring(0, 2000);
-      throw new Error(
-        `MCP request failed: status=${response.status}, content-type=${contentType}, body=${bodySnippet}`
-      );
-    }
-
     // HTTP 202 Accepted: per MCP Streamable HTTP spec, this is expected for
     // JSON-RPC notifications (no id) - server acknowledges but has no response body
     if (response.status === 202) {
       return {
         response: { jsonrpc: '2.0', result: { accepted: true } },
         sessionId: responseSessionId,
+        status: response.status,
       };
     }
 
-    // Read body as text first for better error diagnostics
-    const rawBody = await response.text();
+    // Read body as text first for better error diagnostics; SSE bodies are read
+    // incrementally so server notifications reach the listener while the call runs
+    const isSse = contentType.includes('text/event-stream');
+    const { rawBody, sseResponse } = isSse
+      ? await this.readSSEResponse(response, request.id === undefined ? [] : [request.id])
+      : { rawBody: await response.text(), sseResponse: undefined };
 
     let jsonResponse: JsonRpcResponse;
     try {
-      if (contentType.includes('text/event-stream')) {
-        jsonResponse = this.parseSSEResponse(rawBody, request.id);
+      if (isSse) {
+        if (!sseResponse) {
+          throw new Error('No valid JSON-RPC responses found in SSE stream');
+        }
+        jsonResponse = sseResponse;
       } else {
         // Default to JSON parsing (handles application/json and other types)
         jsonResponse = JSON.parse(rawBody) as JsonRpcResponse;
@@ -328,61 +835,221 @@ export class NorceMcpClient {
     return {
       response: jsonResponse,
       sessionId: responseSessionId,
+      status: response.status,
     };
   }
 
   /**
-   * Parse SSE (Server-Sent Events) response body into JSON-RPC response.
-   * 
-   * SSE format: lines starting with "data:" contain JSON payloads,
-   * events are separated by blank lines.
-   * 
-   * @param rawBody - The raw SSE response body
-   * @param requestId - The JSON-RPC request ID to match (undefined for notifications)
-   * @returns The matching JSON-RPC response or the last parsed object
+   * Perform the HTTP exchange for a JSON-RPC batch.
+   *
+   * @returns The responses (undefined if the server answered with a single object),
+   *   and any session ID from response headers
+   */
+  private async sendBatchHttpRequest(
+    requests: JsonRpcRequest[],
+    accessToken: string,
+    sessionId: string | undefined,
+    applicationId: string,
+    protocolVersion?: string
+  ): Promise<{ responses: JsonRpcResponse[] | undefined; sessionId: string | undefined }> {
+    const { response, contentType, sessionId: responseSessionId } = await this.postJsonRpc(
+      requests, `MCP batch (${requests.length} requests)`, accessToken, sessionId, applicationId, protocolVersion
+    );
+
+    if (contentType.includes('text/event-stream')) {
+      const ids = requests.map((request) => request.id).filter((id): id is number => id !== undefined);
+      const { sseResponses } = await this.readSSEResponses(response, ids);
+      return { responses: sseResponses.length > 0 ? sseResponses : undefined, sessionId: responseSessionId };
+    }
+
+    const rawBody = await response.text();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawBody);
+    } catch {
+      throw new Error(
+        `Failed to parse MCP response: status=${response.status}, content-type=${contentType}, ` +
+        `method=batch, body=${rawBody.substring(0, 2000)}`
+      );
+    }
+    return {
+      responses: Array.isArray(parsed) ? parsed as JsonRpcResponse[] : undefined,
+      sessionId: responseSessionId,
+    };
+  }
+
+  /**
+   * POST a JSON-RPC message (a request or a batch) with the MCP headers.
+   * If the server rejects the access token (HTTP 401) and a tokenRefresher is configured,
+   * the token is force-refreshed and the message sent once more.
+   *
+   * @param body - The JSON-RPC request or batch
+   * @param label - Label for timeout errors
+   * @returns The HTTP response (OK or 202), its content type and any session ID from response headers
+   * @throws McpHttpError with status, content type and body snippet for other statuses
    */
-  private parseSSEResponse(rawBody: string, requestId: number | undefined): JsonRpcResponse {
-    const lines = rawBody.split('\n');
-    const parsedObjects: JsonRpcResponse[] = [];
-
-    for (const line of lines) {
-      // Skip empty lines and SSE comments (lines starting with :)
-      if (!line.trim() || line.startsWith(':')) {
-        continue;
+  private async postJsonRpc(
+    body: JsonRpcRequest | JsonRpcRequest[],
+    label: string,
+    accessToken: string,
+    sessionId: string | undefined,
+    applicationId: string,
+    protocolVersion?: string
+  ): Promise<{ response: Response; contentType: string; sessionId: string | undefined }> {
+    try {
+      return await this.sendPost(body, label, accessToken, sessionId, applicationId, protocolVersion);
+    } catch (error) {
+      const unauthorized = error instanceof McpHttpError && error.status === 401;
+      if (!unauthorized || !this.tokenRefresher) {
+        throw error;
       }
+      logger.warn({ label }, 'MCP request unauthorized, refreshing the access token and retrying');
+      const freshToken = await this.tokenRefresher.forceRefresh(applicationId, accessToken);
+      return this.sendPost(body, label, freshToken, sessionId, applicationId, protocolVersion);
+    }
+  }
 
-      // Extract data from "data:" lines
-      if (line.startsWith('data:')) {
-        const payload = line.substring(5).trim();
-        
-        // Skip non-JSON payloads like [DONE]
-        if (!payload || payload === '[DONE]') {
-          continue;
-        }
+  /**
+   * POST a JSON-RPC message once (see postJsonRpc).
+   */
+  private async sendPost(
+    body: JsonRpcRequest | JsonRpcRequest[],
+    label: string,
+    accessToken: string,
+    sessionId: string | undefined,
+    applicationId: string,
+    protocolVersion?: string
+  ): Promise<{ response: Response; contentType: string; sessionId: string | undefined }> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${accessToken}`,
+      'application-id': applicationId,
+    };
+
+    if (sessionId) {
+      headers['mcp-session-id'] = sessionId;
+    }
+
+    if (protocolVersion && requiresProtocolVersionHeader(protocolVersion)) {
+      headers['mcp-protocol-version'] = protocolVersion;
+    }
+
+    // Fails fast while the MCP circuit is open; outages (network, timeouts, 502/503/504) count as failures
+    return this.circuitBreaker.execute(async () => {
+      const response = await withTimeout(
+        (signal) => fetch(this.baseUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal,
+        }),
+        config.timeouts.mcpCallMs,
+        label
+      );
+
+      const contentType = response.headers.get('content-type') ?? '';
+
+      // Handle non-OK responses with debug-safe error info (except 202)
+      if (!response.ok && response.status !== 202) {
+        const errorBody = await response.text().catch(() => 'Unable to read error body');
+        const bodySnippet = errorBody.substring(0, 2000);
+        throw new McpHttpError(response.status, contentType, bodySnippet);
+      }
+
+      return { response, contentType, sessionId: response.headers.get('mcp-session-id') ?? undefined };
+    });
+  }
 
+  /**
+   * Read an SSE (Server-Sent Events) response body incrementally.
+   *
+   * SSE format: lines starting with "data:" contain JSON payloads,
+   * events are separated by blank lines. Server notifications
+   * (notifications/progress, notifications/message) are forwarded to the
+   * current notification listener as they arrive.
+   *
+   * @param response - The HTTP response
+   * @param requestIds - The JSON-RPC request IDs to match (empty for notifications)
+   * @returns The raw body read and the matching response, or the last response if none matched
+   */
+  private async readSSEResponse(
+    response: Response,
+    requestIds: number[]
+  ): Promise<{ rawBody: string; sseResponse: JsonRpcResponse | undefined }> {
+    const { rawBody, sseResponses, lastResponse } = await this.readSSEResponses(response, requestIds);
+    // Return the last parsed response as fallback
+    return { rawBody, sseResponse: sseResponses[0] ?? lastResponse };
+  }
+
+  /**
+   * Read SSE responses until every request ID has a response (or the body ends).
+   *
+   * @param response - The HTTP response
+   * @param requestIds - The JSON-RPC request IDs to match
+   * @returns The raw body read, the matching responses in arrival order and the last unmatched response
+   */
+  private async readSSEResponses(
+    response: Response,
+    requestIds: number[]
+  ): Promise<{ rawBody: string; sseResponses: JsonRpcResponse[]; lastResponse: JsonRpcResponse | undefined }> {
+    const listener = getMcpNotificationListener();
+    const parser = new SseDataParser();
+    const decoder = new TextDecoder();
+    const pending = new Set(requestIds);
+    const sseResponses: JsonRpcResponse[] = [];
+    let rawBody = '';
+    let lastResponse: JsonRpcResponse | undefined;
+
+    const collect = (payloads: string[]): void => {
+      for (const payload of payloads) {
+        let message: unknown;
         try {
-          const parsed = JSON.parse(payload) as JsonRpcResponse;
-          parsedObjects.push(parsed);
+          message = JSON.parse(payload);
         } catch {
           // Skip lines that aren't valid JSON
           continue;
         }
+        if (!message || typeof message !== 'object') {
+          continue;
+        }
+        const rpc = message as JsonRpcResponse & { method?: unknown; params?: unknown };
+        // Server notifications and server-to-client requests are not responses
+        if (dispatchMcpNotification(rpc, listener) || typeof rpc.method === 'string') {
+          continue;
+        }
+        if (rpc.id !== undefined && pending.delete(rpc.id)) {
+          sseResponses.push(rpc);
+        } else {
+          lastResponse = rpc;
+        }
       }
-    }
+    };
 
-    if (parsedObjects.length === 0) {
-      throw new Error('No valid JSON-RPC responses found in SSE stream');
+    if (!response.body) {
+      return { rawBody, sseResponses, lastResponse };
     }
 
-    // If request has an ID, try to find matching response
-    if (requestId !== undefined) {
-      const matchingResponse = parsedObjects.find(obj => obj.id === requestId);
-      if (matchingResponse) {
-        return matchingResponse;
+    const reader = response.body.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+        rawBody += chunk;
+        const payloads = parser.push(chunk);
+        if (done) {
+          payloads.push(...parser.flush());
+        }
+        collect(payloads);
+        // Stop at the last expected response
+        if (done || (requestIds.length > 0 && pending.size === 0)) {
+          break;
+        }
       }
+    } finally {
+      reader.cancel().catch(() => undefined);
     }
 
-    // Return the last parsed object as fallback
-    return parsedObjects[parsedObjects.length - 1];
+    return { rawBody, sseResponses, lastResponse };
   }
 }
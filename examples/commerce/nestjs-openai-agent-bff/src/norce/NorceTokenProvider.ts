@@ -1,11 +1,25 @@
 import { fetch } from 'undici';
+import pino from 'pino';
 import type {
   NorceTokenResponse,
   NorceTokenProviderOptions,
   CachedToken,
+  AccessTokenRefresher,
 } from './norceTypes.js';
+import type { ISharedTokenStore } from './ISharedTokenStore.js';
 import { withTimeout } from '../http/timeout.js';
+import { CircuitBreaker, createCircuitBreaker } from '../http/circuitBreaker.js';
+import { isOAuthOutage } from '../http/retryPolicy.js';
 import { config } from '../config.js';
+import { getCassetteContext } from '../debug/cassetteContext.js';
+
+const logger = pino({ name: 'NorceTokenProvider' });
+
+/**
+ * Token handed out while a debug cassette is replayed.
+ * Real tokens are never recorded, and replayed MCP traffic does not need one.
+ */
+const CASSETTE_REPLAY_TOKEN = 'cassette-replay-token';
 
 /**
  * Token refresh buffer in milliseconds.
@@ -13,35 +27,70 @@ import { config } from '../config.js';
  */
 const TOKEN_REFRESH_BUFFER_MS = 60 * 1000; // 60 seconds
 
+const DEFAULT_REFRESH_AHEAD_MS = 5 * 60 * 1000;
+const DEFAULT_CLOCK_SKEW_MS = 30 * 1000;
+const DEFAULT_LOCK_WAIT_MS = 5000;
+
+/** How often a waiting instance checks the shared store for the lock holder's token */
+const LOCK_POLL_INTERVAL_MS = 100;
+
+/**
+ * Which shared-store tokens a refresh may accept instead of fetching a new one.
+ */
+interface SharedTokenRequirement {
+  /** A token the upstream rejected, or the token being refreshed ahead; never accepted */
+  staleToken?: string;
+  /** Refresh-ahead: only accept a token that expires after this time (the token being replaced) */
+  minExpiresAt?: number;
+}
+
 /**
  * NorceTokenProvider handles OAuth2 client credentials flow for Norce API authentication.
  *
  * Features:
  * - Token caching per applicationId with automatic refresh when near expiry (<60s remaining)
+ * - Refresh-ahead: a token served within refreshAheadMs of expiry is refreshed in the background,
+ *   so busy applications never wait for the token endpoint
+ * - Clock skew allowance: token lifetimes are shortened by clockSkewMs and measured from the request start
+ * - Optional shared store (Redis): instances share tokens, and a lock lets one instance refresh
+ *   while the others wait for its token
+ * - Forced refresh for tokens the upstream rejected (HTTP 401 from NorceMcpClient)
  * - Concurrency-safe: multiple simultaneous callers for the same applicationId share a single HTTP request
  * - Proper error handling for non-200 responses
+ * - Circuit breaker on the token endpoint: during an outage refreshes fail fast (cached tokens are still served)
  */
-export class NorceTokenProvider {
+export class NorceTokenProvider implements AccessTokenRefresher {
   private readonly clientId: string;
   private readonly clientSecret: string;
   private readonly tokenUrl: string;
   private readonly scope: string;
+  private readonly sharedStore?: ISharedTokenStore;
+  private readonly refreshAheadMs: number;
+  private readonly clockSkewMs: number;
+  private readonly lockWaitMs: number;
 
   private cachedTokens: Map<string, CachedToken> = new Map();
   private inFlightRefreshes: Map<string, Promise<string>> = new Map();
+  private readonly circuitBreaker: CircuitBreaker;
 
   constructor(options: NorceTokenProviderOptions) {
     this.clientId = options.clientId;
     this.clientSecret = options.clientSecret;
     this.tokenUrl = options.tokenUrl;
     this.scope = options.scope;
+    this.circuitBreaker = options.circuitBreaker ?? createCircuitBreaker('oauth', isOAuthOutage);
+    this.sharedStore = options.sharedStore;
+    this.refreshAheadMs = options.refreshAheadMs ?? DEFAULT_REFRESH_AHEAD_MS;
+    this.clockSkewMs = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+    this.lockWaitMs = options.lockWaitMs ?? DEFAULT_LOCK_WAIT_MS;
   }
 
   /**
    * Get a valid access token for the specified applicationId.
    *
    * If a valid cached token exists for this applicationId and has more than 60 seconds until expiry,
-   * returns the cached token. Otherwise, fetches a new token.
+   * returns the cached token (and starts a background refresh once the token is within the
+   * refresh-ahead window). Otherwise, fetches a new token.
    *
    * This method is concurrency-safe: if multiple callers request a token for the same applicationId
    * simultaneously while a refresh is in progress, they will all await
@@ -52,11 +101,78 @@ export class NorceTokenProvider {
    * @throws Error if token fetch fails or returns non-200 response
    */
   async getAccessToken(applicationId: string): Promise<string> {
+    if (getCassetteContext()?.player) {
+      return CASSETTE_REPLAY_TOKEN;
+    }
+
     // Check if we have a valid cached token for this applicationId with sufficient time remaining
-    if (this.isTokenValid(applicationId)) {
-      return this.cachedTokens.get(applicationId)!.accessToken;
+    const cachedToken = this.cachedTokens.get(applicationId);
+    if (cachedToken && this.isTokenValid(cachedToken)) {
+      if (cachedToken.refreshAt !== undefined && Date.now() >= cachedToken.refreshAt) {
+        this.refreshInBackground(applicationId, cachedToken);
+      }
+      return cachedToken.accessToken;
+    }
+
+    return this.refresh(applicationId);
+  }
+
+  /**
+   * Replace a token the upstream rejected (HTTP 401).
+   *
+   * If the token was already replaced (by a concurrent forced refresh, or another instance
+   * through the shared store), the replacement is returned without calling the token endpoint.
+   *
+   * @param applicationId - The application ID of the rejected request
+   * @param rejectedToken - The token that was rejected
+   * @returns A token different from rejectedToken
+   * @throws Error if token fetch fails or returns non-200 response
+   */
+  async forceRefresh(applicationId: string, rejectedToken: string): Promise<string> {
+    if (getCassetteContext()?.player) {
+      return CASSETTE_REPLAY_TOKEN;
+    }
+
+    const cachedToken = this.cachedTokens.get(applicationId);
+    if (cachedToken && cachedToken.accessToken !== rejectedToken && this.isTokenValid(cachedToken)) {
+      return cachedToken.accessToken;
+    }
+
+    const inFlight = this.inFlightRefreshes.get(applicationId);
+    if (inFlight) {
+      const token = await inFlight.catch(() => undefined);
+      if (token && token !== rejectedToken) {
+        return token;
+      }
     }
 
+    logger.warn({ applicationId }, 'Access token rejected, forcing a refresh');
+    if (this.cachedTokens.get(applicationId)?.accessToken === rejectedToken) {
+      this.cachedTokens.delete(applicationId);
+    }
+    if (this.sharedStore) {
+      await this.sharedStore.invalidate(applicationId, rejectedToken).catch((error: unknown) => {
+        logger.warn({ applicationId, err: error }, 'Failed to invalidate the shared token');
+      });
+    }
+    return this.refresh(applicationId, { staleToken: rejectedToken });
+  }
+
+  /**
+   * Check if a cached token is valid and has sufficient time remaining.
+   * A token is considered valid if it has more than 60 seconds until expiry.
+   */
+  private isTokenValid(cachedToken: CachedToken): boolean {
+    const timeRemaining = cachedToken.expiresAt - Date.now();
+    return timeRemaining > TOKEN_REFRESH_BUFFER_MS;
+  }
+
+  /**
+   * Obtain a new token, sharing the request with concurrent callers for the same applicationId.
+   *
+   * @param requirement - Which tokens from the shared store are acceptable
+   */
+  private async refresh(applicationId: string, requirement: SharedTokenRequirement = {}): Promise<string> {
     // If a refresh is already in progress for this applicationId, wait for it
     const existingRefresh = this.inFlightRefreshes.get(applicationId);
     if (existingRefresh) {
@@ -64,7 +180,7 @@ export class NorceTokenProvider {
     }
 
     // Start a new refresh for this applicationId and store the promise
-    const refreshPromise = this.refreshToken(applicationId);
+    const refreshPromise = this.obtainToken(applicationId, requirement);
     this.inFlightRefreshes.set(applicationId, refreshPromise);
 
     try {
@@ -72,35 +188,148 @@ export class NorceTokenProvider {
       return token;
     } finally {
       // Clear the in-flight promise for this applicationId once complete (success or failure)
-      this.inFlightRefreshes.delete(applicationId);
+      if (this.inFlightRefreshes.get(applicationId) === refreshPromise) {
+        this.inFlightRefreshes.delete(applicationId);
+      }
     }
   }
 
   /**
-   * Check if the cached token for the given applicationId is valid and has sufficient time remaining.
-   * A token is considered valid if it exists and has more than 60 seconds until expiry.
+   * Refresh-ahead: refresh a still valid token without making the caller wait.
+   * Failures are logged; the current token keeps being served until it nears expiry.
+   * The shared store's copy of the current token is not accepted, or instances would keep
+   * re-caching it until it fell inside the refresh buffer.
    */
-  private isTokenValid(applicationId: string): boolean {
-    const cachedToken = this.cachedTokens.get(applicationId);
-    if (!cachedToken) {
-      return false;
+  private refreshInBackground(applicationId: string, current: CachedToken): void {
+    if (this.inFlightRefreshes.has(applicationId)) {
+      return;
+    }
+    this.refresh(applicationId, { staleToken: current.accessToken, minExpiresAt: current.expiresAt }).catch((error: unknown) => {
+      logger.warn(
+        { applicationId, error: error instanceof Error ? error.message : String(error) },
+        'Background token refresh failed'
+      );
+    });
+  }
+
+  /**
+   * Get a token from the shared store, or fetch one from the token endpoint.
+   *
+   * With a shared store, one instance holds the refresh lock and fetches; the others poll the
+   * store for its token for up to lockWaitMs, then fetch themselves. Store errors are logged
+   * and the token is fetched directly.
+   */
+  private async obtainToken(applicationId: string, requirement: SharedTokenRequirement): Promise<string> {
+    const store = this.sharedStore;
+    if (!store) {
+      return this.fetchAndCache(applicationId);
     }
 
+    let lockId: string | undefined;
+    try {
+      const shared = await this.readSharedToken(store, applicationId, requirement);
+      if (shared) {
+        return shared;
+      }
+
+      lockId = await store.acquireLock(applicationId, config.timeouts.oauthMs + this.lockWaitMs);
+      if (!lockId) {
+        const deadline = Date.now() + this.lockWaitMs;
+        while (Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+          const token = await this.readSharedToken(store, applicationId, requirement);
+          if (token) {
+            return token;
+          }
+        }
+        logger.warn({ applicationId }, 'Timed out waiting for another instance to refresh the token');
+      } else {
+        // Another instance may have refreshed between the read and the lock
+        const token = await this.readSharedToken(store, applicationId, requirement);
+        if (token) {
+          return token;
+        }
+      }
+    } catch (error) {
+      logger.warn({ applicationId, err: error }, 'Shared token store unavailable, fetching token directly');
+    }
+
+    try {
+      return await this.fetchAndCache(applicationId);
+    } finally {
+      if (lockId) {
+        await store.releaseLock(applicationId, lockId).catch((error: unknown) => {
+          logger.warn({ applicationId, err: error }, 'Failed to release the token refresh lock');
+        });
+      }
+    }
+  }
+
+  /**
+   * Read a usable token from the shared store and cache it locally.
+   *
+   * @returns The token, or undefined if none is stored, it is near expiry, or it does not meet the requirement
+   */
+  private async readSharedToken(
+    store: ISharedTokenStore,
+    applicationId: string,
+    requirement: SharedTokenRequirement
+  ): Promise<string | undefined> {
+    const shared = await store.get(applicationId);
     const now = Date.now();
-    const timeRemaining = cachedToken.expiresAt - now;
+    if (
+      !shared
+      || shared.accessToken === requirement.staleToken
+      || shared.expiresInMs <= TOKEN_REFRESH_BUFFER_MS
+      || (requirement.minExpiresAt !== undefined && now + shared.expiresInMs <= requirement.minExpiresAt)
+    ) {
+      return undefined;
+    }
+    this.cacheToken(applicationId, shared.accessToken, now, shared.expiresInMs);
+    return shared.accessToken;
+  }
 
-    return timeRemaining > TOKEN_REFRESH_BUFFER_MS;
+  /**
+   * Fetch a token from the token endpoint (through the circuit breaker), cache it locally
+   * and write it to the shared store.
+   */
+  private async fetchAndCache(applicationId: string): Promise<string> {
+    const requestedAt = Date.now();
+    const data = await this.circuitBreaker.execute(() => this.fetchToken());
+
+    // The lifetime counts from issuance: measure it from the request start, less the skew allowance
+    const lifetimeMs = data.expires_in * 1000;
+    const expiresInMs = lifetimeMs - Math.min(this.clockSkewMs, lifetimeMs / 4);
+    const cachedToken = this.cacheToken(applicationId, data.access_token, requestedAt, expiresInMs);
+
+    if (this.sharedStore) {
+      const remainingMs = cachedToken.expiresAt - Date.now();
+      await this.sharedStore.set(applicationId, data.access_token, remainingMs).catch((error: unknown) => {
+        logger.warn({ applicationId, err: error }, 'Failed to write the token to the shared store');
+      });
+    }
+
+    return data.access_token;
+  }
+
+  private cacheToken(applicationId: string, accessToken: string, from: number, expiresInMs: number): CachedToken {
+    const cachedToken: CachedToken = {
+      accessToken,
+      expiresAt: from + expiresInMs,
+      refreshAt: from + expiresInMs - Math.min(this.refreshAheadMs, expiresInMs / 2),
+    };
+    this.cachedTokens.set(applicationId, cachedToken);
+    return cachedToken;
   }
 
   /**
-   * Fetch a new token from the OAuth server for the specified applicationId.
+   * Fetch a new token from the OAuth server.
    *
-   * @param applicationId - The application ID for which to fetch a token
-   * @returns Promise resolving to the new access token string
+   * @returns Promise resolving to the validated token response
    * @throws Error if the request fails or returns non-200 response
    * @throws AppError with category TIMEOUT if the request times out
    */
-  private async refreshToken(applicationId: string): Promise<string> {
+  private async fetchToken(): Promise<NorceTokenResponse> {
     const body = new URLSearchParams({
       grant_type: 'client_credentials',
       client_id: this.clientId,
@@ -139,17 +368,12 @@ export class NorceTokenProvider {
       throw new Error('Invalid OAuth token response: missing access_token or expires_in');
     }
 
-    // Cache the token for this applicationId with expiry timestamp
-    this.cachedTokens.set(applicationId, {
-      accessToken: data.access_token,
-      expiresAt: Date.now() + data.expires_in * 1000,
-    });
-
-    return data.access_token;
+    return data;
   }
 
   /**
-   * Clear all cached tokens. Useful for testing or forcing a refresh.
+   * Clear all cached tokens in this process (the shared store is not touched).
+   * Useful for testing or forcing a refresh.
    */
   clearCache(): void {
     this.cachedTokens.clear();
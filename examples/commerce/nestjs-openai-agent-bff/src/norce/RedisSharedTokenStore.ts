@@ -0,0 +1,98 @@
+import { randomUUID } from 'node:crypto';
+import { Redis } from 'ioredis';
+import { ISharedTokenStore, SharedToken } from './ISharedTokenStore.js';
+
+/** Delete KEYS[1] only if it still holds ARGV[1] */
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+export interface RedisSharedTokenStoreOptions {
+  redisUrl: string;
+  prefix?: string;
+}
+
+export class RedisSharedTokenStore implements ISharedTokenStore {
+  private readonly redis: Redis;
+  private readonly prefix: string;
+
+  constructor(options: RedisSharedTokenStoreOptions) {
+    this.redis = new Redis(options.redisUrl, {
+      lazyConnect: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          return null;
+        }
+        return Math.min(times * 100, 3000);
+      },
+    });
+    this.prefix = options.prefix ?? 'agent:token:';
+
+    this.redis.on('error', (err: Error) => {
+      console.error('[RedisSharedTokenStore] Redis connection error:', err.message);
+    });
+  }
+
+  private getTokenKey(applicationId: string): string {
+    return `${this.prefix}${applicationId}`;
+  }
+
+  private getLockKey(applicationId: string): string {
+    return `${this.prefix}lock:${applicationId}`;
+  }
+
+  async get(applicationId: string): Promise<SharedToken | undefined> {
+    const key = this.getTokenKey(applicationId);
+    // PTTL instead of a stored timestamp: the remaining lifetime is measured by Redis, not by our clock
+    const [accessToken, expiresInMs] = await Promise.all([this.redis.get(key), this.redis.pttl(key)]);
+    if (accessToken === null || expiresInMs <= 0) {
+      return undefined;
+    }
+    return { accessToken, expiresInMs };
+  }
+
+  async set(applicationId: string, accessToken: string, expiresInMs: number): Promise<void> {
+    if (expiresInMs <= 0) {
+      return;
+    }
+    await this.redis.set(this.getTokenKey(applicationId), accessToken, 'PX', Math.ceil(expiresInMs));
+  }
+
+  async invalidate(applicationId: string, accessToken: string): Promise<void> {
+    await this.redis.eval(COMPARE_AND_DELETE_SCRIPT, 1, this.getTokenKey(applicationId), accessToken);
+  }
+
+  async acquireLock(applicationId: string, ttlMs: number): Promise<string | undefined> {
+    const lockId = randomUUID();
+    const result = await this.redis.set(this.getLockKey(applicationId), lockId, 'PX', Math.ceil(ttlMs), 'NX');
+    return result === 'OK' ? lockId : undefined;
+  }
+
+  async releaseLock(applicationId: string, lockId: string): Promise<void> {
+    await this.redis.eval(COMPARE_AND_DELETE_SCRIPT, 1, this.getLockKey(applicationId), lockId);
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      console.error(
+        '[RedisSharedTokenStore] Failed to disconnect from Redis:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const result = await this.redis.ping();
+      return result === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * MCP protocol version negotiation and server capabilities.
+ *
+ * The client proposes its latest protocol version in initialize; the server
+ * answers with the version it will use. Servers answering with a version the
+ * client does not support are rejected (MCP_PROTOCOL_VERSION_UNSUPPORTED).
+ *
+ * The negotiated version and the server's capabilities are stored in McpState,
+ * so optional features (resources, prompts, logging) only turn on when the
+ * server advertises them.
+ */
+
+import { AppError } from '../errors/AppError.js';
+import type { McpState } from '../session/sessionTypes.js';
+
+/**
+ * Protocol versions the client supports, newest first.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+/** Version proposed in initialize */
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/** Version assumed when the server's initialize result omits protocolVersion */
+const LEGACY_PROTOCOL_VERSION = '2024-11-05';
+
+/** First version that requires the MCP-Protocol-Version header on requests after initialize */
+const PROTOCOL_VERSION_HEADER_SINCE = '2025-06-18';
+
+/** First version that no longer allows JSON-RPC batches */
+const JSON_RPC_BATCHING_REMOVED_IN = '2025-06-18';
+
+/**
+ * Optional server capabilities the agent can check.
+ */
+export type McpCapabilityName = 'tools' | 'resources' | 'prompts' | 'logging';
+
+/**
+ * Server capabilities from the initialize result (unknown capabilities are kept as is).
+ */
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Pick the protocol version for a session from the server's initialize result.
+ *
+ * @param serverVersion - protocolVersion from the initialize result
+ * @returns The negotiated version
+ * @throws AppError (MCP_PROTOCOL_VERSION_UNSUPPORTED) if the client does not support the version
+ */
+export function negotiateProtocolVersion(serverVersion: unknown): string {
+  if (serverVersion === undefined) {
+    return LEGACY_PROTOCOL_VERSION;
+  }
+  if (typeof serverVersion === 'string' && (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(serverVersion)) {
+    return serverVersion;
+  }
+  throw AppError.mcpProtocolVersionUnsupported(String(serverVersion), SUPPORTED_PROTOCOL_VERSIONS);
+}
+
+/**
+ * Read server capabilities from the initialize result (invalid values become {}).
+ */
+export function parseServerCapabilities(value: unknown): McpServerCapabilities {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as McpServerCapabilities
+    : {};
+}
+
+/**
+ * Check if the MCP server advertised a capability for this session.
+ *
+ * @param state - The MCP state
+ * @param capability - Capability name
+ * @returns true/false once the session is initialized, undefined before that
+ */
+export function mcpServerSupports(state: McpState, capability: McpCapabilityName): boolean | undefined {
+  if (!state.serverCapabilities) {
+    return undefined;
+  }
+  return state.serverCapabilities[capability] !== undefined;
+}
+
+/**
+ * Whether requests after initialize must carry the MCP-Protocol-Version header.
+ */
+export function requiresProtocolVersionHeader(protocolVersion: string): boolean {
+  return protocolVersion >= PROTOCOL_VERSION_HEADER_SINCE;
+}
+
+/**
+ * Whether the protocol version allows JSON-RPC batches (removed in 2025-06-18).
+ */
+export function allowsJsonRpcBatching(protocolVersion: string): boolean {
+  return protocolVersion < JSON_RPC_BATCHING_REMOVED_IN;
+}
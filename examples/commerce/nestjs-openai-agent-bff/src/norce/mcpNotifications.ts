@@ -0,0 +1,109 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * MCP notifications/progress params.
+ * Sent by the server while a request that carried a progressToken is in flight.
+ */
+export interface McpProgressNotification {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * MCP notifications/message params (server log message).
+ */
+export interface McpLogNotification {
+  level: string;
+  logger?: string;
+  data: unknown;
+}
+
+/**
+ * Receives the notifications the server streams while a request is in flight.
+ */
+export interface McpNotificationListener {
+  onProgress?: (notification: McpProgressNotification) => void;
+  onLog?: (notification: McpLogNotification) => void;
+}
+
+/**
+ * Incremental parser for Server-Sent Events bodies.
+ * Chunks may split lines anywhere; only complete "data:" lines are returned.
+ * Comments, empty data and [DONE] markers are skipped.
+ */
+export class SseDataParser {
+  private buffer = '';
+
+  /**
+   * Add a chunk of the body.
+   *
+   * @returns Data payloads of the lines completed by this chunk
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.flatMap((line) => this.parseLine(line));
+  }
+
+  /**
+   * End of body: parse the last line if it has no trailing newline.
+   */
+  flush(): string[] {
+    const line = this.buffer;
+    this.buffer = '';
+    return this.parseLine(line);
+  }
+
+  private parseLine(line: string): string[] {
+    if (!line.startsWith('data:')) {
+      return [];
+    }
+    const payload = line.substring(5).trim();
+    return payload && payload !== '[DONE]' ? [payload] : [];
+  }
+}
+
+/**
+ * Forward a server notification to the listener.
+ * Unknown notifications are ignored.
+ *
+ * @returns true if the message was a server notification (has a method and no id)
+ */
+export function dispatchMcpNotification(
+  message: { method?: unknown; id?: unknown; params?: unknown },
+  listener: McpNotificationListener | undefined
+): boolean {
+  if (typeof message.method !== 'string' || message.id !== undefined) {
+    return false;
+  }
+
+  const params = (message.params ?? {}) as Record<string, unknown>;
+  if (message.method === 'notifications/progress' && typeof params.progress === 'number') {
+    listener?.onProgress?.(params as unknown as McpProgressNotification);
+  } else if (message.method === 'notifications/message' && typeof params.level === 'string') {
+    listener?.onLog?.(params as unknown as McpLogNotification);
+  }
+  return true;
+}
+
+const listenerStorage = new AsyncLocalStorage<McpNotificationListener>();
+
+/**
+ * Run a tool execution and receive the MCP notifications of its requests.
+ *
+ * @param listener - Receives progress and log notifications
+ * @param fn - The tool execution
+ */
+export function listenForMcpNotifications<T>(listener: McpNotificationListener, fn: () => Promise<T>): Promise<T> {
+  return listenerStorage.run(listener, fn);
+}
+
+/**
+ * The listener of the current tool execution (undefined outside listenForMcpNotifications).
+ */
+export function getMcpNotificationListener(): McpNotificationListener | undefined {
+  return listenerStorage.getStore();
+}
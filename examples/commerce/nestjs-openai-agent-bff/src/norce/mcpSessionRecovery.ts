@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { JsonRpcResponse } from './NorceMcpClient.js';
+import { McpHttpError } from './McpHttpError.js';
+
+/**
+ * Why the MCP server's session was considered invalid.
+ * - http_404: the server no longer knows the mcp-session-id (Streamable HTTP spec)
+ * - http_400_session: Bad Request mentioning the session (missing/invalid session ID)
+ * - jsonrpc_session_error: JSON-RPC error about the session (e.g. "Session not found")
+ */
+export type McpSessionInvalidReason = 'http_404' | 'http_400_session' | 'jsonrpc_session_error';
+
+/**
+ * A transparent MCP session re-initialization, recorded in the tool trace.
+ * Session IDs are not included.
+ */
+export interface McpSessionRecovery {
+  /** JSON-RPC method that hit the invalid session */
+  method: string;
+  /** MCP tool name (tools/call only) */
+  toolName?: string;
+  reason: McpSessionInvalidReason;
+  /** Whether the replayed request succeeded */
+  replayOk: boolean;
+}
+
+/** JSON-RPC error code some MCP servers use for unknown sessions */
+const SESSION_NOT_FOUND_CODE = -32001;
+
+/**
+ * Whole-message match for session errors from servers that use another code (e.g. "Session expired").
+ * Anchored so tool errors that merely mention a session (e.g. "basket session expired") are not
+ * mistaken for an MCP session failure and replayed.
+ */
+const SESSION_ERROR_PATTERN = /^(?:(?:mcp )?session(?: id)? (?:not found|expired|invalid|unknown|terminated)|(?:invalid|unknown|missing|expired) (?:mcp )?session(?: id)?)\.?$/i;
+
+/**
+ * Classify a failed request as a session-invalid failure.
+ * Only applies to requests that carried an mcp-session-id.
+ *
+ * @param error - Error thrown by the HTTP exchange (undefined if the exchange succeeded)
+ * @param response - JSON-RPC response (undefined if the exchange threw)
+ * @returns The reason, or undefined if the failure is not session-related
+ */
+export function getSessionInvalidReason(
+  error: unknown,
+  response?: JsonRpcResponse
+): McpSessionInvalidReason | undefined {
+  if (error instanceof Error) {
+    if (!(error instanceof McpHttpError)) {
+      return undefined;
+    }
+    if (error.status === 404) {
+      return 'http_404';
+    }
+    if (error.status === 400 && /session/i.test(error.bodySnippet)) {
+      return 'http_400_session';
+    }
+    return undefined;
+  }
+
+  const rpcError = response?.error;
+  if (rpcError && (rpcError.code === SESSION_NOT_FOUND_CODE || SESSION_ERROR_PATTERN.test(rpcError.message.trim()))) {
+    return 'jsonrpc_session_error';
+  }
+  return undefined;
+}
+
+const recoveryStorage = new AsyncLocalStorage<McpSessionRecovery[]>();
+
+/**
+ * Run a tool execution and collect the MCP session recoveries it triggers.
+ * The array is filled in place, so recoveries are available even if fn throws.
+ *
+ * @param recoveries - Array that receives the recoveries
+ * @param fn - The tool execution
+ */
+export function collectMcpSessionRecoveries<T>(recoveries: McpSessionRecovery[], fn: () => Promise<T>): Promise<T> {
+  return recoveryStorage.run(recoveries, fn);
+}
+
+/**
+ * Record a recovery for the current tool execution (no-op outside collectMcpSessionRecoveries).
+ */
+export function recordMcpSessionRecovery(recovery: McpSessionRecovery): void {
+  recoveryStorage.getStore()?.push(recovery);
+}
@@ -1,3 +1,6 @@
+import type { CircuitBreaker } from '../http/circuitBreaker.js';
+import type { ISharedTokenStore } from './ISharedTokenStore.js';
+
 /**
  * OAuth token response from Norce Identity server.
  */
@@ -16,6 +19,27 @@ export interface NorceTokenProviderOptions {
   clientSecret: string;
   tokenUrl: string;
   scope: string;
+  /** Circuit breaker for the token endpoint (default: created from CIRCUIT_BREAKER_* config) */
+  circuitBreaker?: CircuitBreaker;
+  /** Token cache shared by BFF instances (default: none, tokens stay in this process) */
+  sharedStore?: ISharedTokenStore;
+  /**
+   * Tokens served within this window before expiry are refreshed in the background
+   * (capped at half the token lifetime).
+   * Default: 300000
+   */
+  refreshAheadMs?: number;
+  /**
+   * Subtracted from each token lifetime to allow for clock differences with the OAuth server
+   * (capped at a quarter of the token lifetime).
+   * Default: 30000
+   */
+  clockSkewMs?: number;
+  /**
+   * How long to wait for another instance's refresh before fetching a token directly (shared store only).
+   * Default: 5000
+   */
+  lockWaitMs?: number;
 }
 
 /**
@@ -24,4 +48,18 @@ export interface NorceTokenProviderOptions {
 export interface CachedToken {
   accessToken: string;
   expiresAt: number;
+  /** When a background refresh starts (refresh-ahead); omitted = only refresh near expiry */
+  refreshAt?: number;
+}
+
+/**
+ * Replaces an access token the upstream rejected (HTTP 401).
+ */
+export interface AccessTokenRefresher {
+  /**
+   * @param applicationId - The application ID of the rejected request
+   * @param rejectedToken - The token that was rejected
+   * @returns A different, freshly fetched (or already replaced) token
+   */
+  forceRefresh(applicationId: string, rejectedToken: string): Promise<string>;
 }
@@ -0,0 +1,40 @@
+import { config } from '../config.js';
+import { ISharedTokenStore } from './ISharedTokenStore.js';
+import { RedisSharedTokenStore } from './RedisSharedTokenStore.js';
+
+export interface SharedTokenStoreFactoryResult {
+  /** Undefined when NORCE_TOKEN_CACHE=memory (tokens stay process-local) */
+  store: ISharedTokenStore | undefined;
+  type: 'memory' | 'redis';
+}
+
+/**
+ * Create the shared OAuth token store from config (NORCE_TOKEN_CACHE).
+ * Redis reuses REDIS_URL with its own key prefix.
+ */
+export async function createSharedTokenStore(): Promise<SharedTokenStoreFactoryResult> {
+  const tokenCacheConfig = config.norce.oauth.tokenCache;
+  if (tokenCacheConfig?.store !== 'redis') {
+    return { store: undefined, type: 'memory' };
+  }
+
+  const redisUrl = config.session.redis.url;
+  if (!redisUrl) {
+    throw new Error(
+      'NORCE_TOKEN_CACHE=redis requires REDIS_URL to be set. ' +
+      'Example: REDIS_URL=redis://localhost:6379'
+    );
+  }
+
+  const store = new RedisSharedTokenStore({ redisUrl, prefix: tokenCacheConfig.redisPrefix });
+  const isConnected = await store.ping();
+  if (!isConnected) {
+    await store.close();
+    throw new Error(
+      `Failed to connect to Redis at ${redisUrl}. ` +
+      'Ensure Redis is running and the URL is correct.'
+    );
+  }
+
+  return { store, type: 'redis' };
+}
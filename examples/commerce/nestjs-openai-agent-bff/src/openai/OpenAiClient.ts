@@ -1,50 +1,69 @@
 import OpenAI from 'openai';
-import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
 import { config } from '../config.js';
 import pino from 'pino';
+import type {
+  LlmProvider,
+  LlmRunInput,
+  LlmResponse,
+  LlmToolCall,
+  LlmToolDefinition,
+  LlmUsage,
+} from '../llm/llmTypes.js';
+import { getCassetteContext, type CassetteRecorder } from '../debug/cassetteContext.js';
+import type { OpenAiInteraction } from '../debug/cassetteTypes.js';
+import { CircuitBreaker, createCircuitBreaker } from '../http/circuitBreaker.js';
+import { AppError } from '../errors/AppError.js';
 
 const logger = pino({ name: 'OpenAiClient' });
 
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  parameters: Record<string, unknown>;
+/**
+ * Whether an API error means OpenAI (or the compatible endpoint) is down:
+ * connection errors, timeouts and 5xx. Rate limits and 4xx are not outages.
+ * Counted as failures by the OpenAI circuit breaker.
+ */
+function isOpenAiOutage(error: unknown): boolean {
+  if (error instanceof AppError) {
+    return error.category === 'TIMEOUT';
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError' || error.name === 'APITimeoutError') {
+    return true;
+  }
+  const status = (error as Error & { status?: number }).status;
+  return status !== undefined && status >= 500;
 }
 
-export interface RunWithToolsInput {
-  input: ChatCompletionMessageParam[];
-  tools?: ToolDefinition[];
-  model?: string;
-  maxTokens?: number;
-  /** Whether this is a streaming call (affects timeout/retry defaults) */
-  isStreaming?: boolean;
-  /** Override timeout in milliseconds (uses config defaults based on isStreaming if not provided) */
-  timeoutMs?: number;
-  /** Override max retries (uses config defaults based on isStreaming if not provided) */
-  maxRetries?: number;
-  /** Route identifier for logging (e.g., '/v1/chat' or '/v1/chat/stream') */
-  route?: string;
-}
+export type ToolDefinition = LlmToolDefinition;
 
-export interface ToolCall {
-  id: string;
-  name: string;
-  arguments: string;
-}
+export type RunWithToolsInput = LlmRunInput;
 
-export interface OpenAiResponse {
-  content: string | null;
-  toolCalls: ToolCall[];
-  finishReason: string | null;
-}
+export type ToolCall = LlmToolCall;
+
+export type OpenAiResponse = LlmResponse;
 
 export interface OpenAiClientOptions {
   apiKey: string;
   defaultModel?: string;
+  /** Base URL override for OpenAI-compatible endpoints (defaults to api.openai.com) */
+  baseURL?: string;
+  /** Provider name reported via LlmProvider.name (defaults to 'openai') */
+  providerName?: string;
+  /** Circuit breaker for API calls (default: created from CIRCUIT_BREAKER_* config) */
+  circuitBreaker?: CircuitBreaker;
 }
 
 /**
  * Thin wrapper around OpenAI client for tool calling via the Responses API.
+ * Implements the provider-neutral LlmProvider interface.
  * 
  * This wrapper is intentionally minimal to:
  * - Isolate OpenAI SDK usage for easier model/SDK swaps later
@@ -55,14 +74,17 @@ export interface OpenAiClientOptions {
  * - Non-streaming calls: 2 minute timeout, 2 retries (configurable via env)
  * - Streaming calls: 5 minute timeout, 0 retries (retries on streams are bad UX)
  * - Per-call overrides available via timeoutMs and maxRetries options
+ * - Circuit breaker around each call (after the SDK's own retries): fails fast during an outage
  */
-export class OpenAiClient {
+export class OpenAiClient implements LlmProvider {
+  readonly name: string;
   private readonly client: OpenAI;
   private readonly defaultModel: string;
   private readonly defaultTimeoutMs: number;
   private readonly defaultMaxRetries: number;
   private readonly streamTimeoutMs: number;
   private readonly streamMaxRetries: number;
+  private readonly circuitBreaker: CircuitBreaker;
 
   constructor(options: OpenAiClientOptions) {
     this.defaultTimeoutMs = config.timeouts.openaiMs;
@@ -72,10 +94,13 @@ export class OpenAiClient {
 
     this.client = new OpenAI({
       apiKey: options.apiKey,
+      baseURL: options.baseURL,
       timeout: this.defaultTimeoutMs,
       maxRetries: this.defaultMaxRetries,
     });
     this.defaultModel = options.defaultModel ?? 'gpt-4o-mini';
+    this.name = options.providerName ?? 'openai';
+    this.circuitBreaker = options.circuitBreaker ?? createCircuitBreaker('openai', isOpenAiOutage);
 
     if (config.debug) {
       logger.debug({
@@ -83,6 +108,8 @@ export class OpenAiClient {
         defaultMaxRetries: this.defaultMaxRetries,
         streamTimeoutMs: this.streamTimeoutMs,
         streamMaxRetries: this.streamMaxRetries,
+        provider: this.name,
+        baseURL: options.baseURL,
       }, 'OpenAI client initialized with timeout/retry config');
     }
   }
@@ -90,11 +117,15 @@ export class OpenAiClient {
   /**
    * Run a chat completion with optional tool definitions.
    * 
+   * When `onDelta` is provided the request is streamed and content deltas are
+   * forwarded as they arrive; tool call fragments are accumulated and returned
+   * in the same shape as the non-streaming response.
+   * 
    * @param options - Input messages, tool definitions, and optional model override
    * @returns Response containing content and/or tool calls
    */
   async runWithTools(options: RunWithToolsInput): Promise<OpenAiResponse> {
-    const { input, tools, model, maxTokens, isStreaming, route } = options;
+    const { input, tools, model, maxTokens, isStreaming, route, onDelta } = options;
 
     // Determine effective timeout and retries based on streaming mode
     const effectiveTimeoutMs = options.timeoutMs ?? (isStreaming ? this.streamTimeoutMs : this.defaultTimeoutMs);
@@ -123,19 +154,32 @@ export class OpenAiClient {
     }));
 
     try {
-      const response = await this.client.chat.completions.create(
-        {
-          model: model ?? this.defaultModel,
-          messages: input,
-          tools: chatTools,
-          tool_choice: chatTools && chatTools.length > 0 ? 'auto' : undefined,
-          max_tokens: maxTokens,
-        },
-        {
-          timeout: effectiveTimeoutMs,
-          maxRetries: effectiveMaxRetries,
-        }
-      );
+      const request = {
+        model: model ?? this.defaultModel,
+        // LlmMessage mirrors the chat-completions message layout
+        messages: input as ChatCompletionMessageParam[],
+        tools: chatTools,
+        tool_choice: chatTools && chatTools.length > 0 ? 'auto' as const : undefined,
+        max_tokens: maxTokens,
+      };
+      const requestOptions = {
+        timeout: effectiveTimeoutMs,
+        maxRetries: effectiveMaxRetries,
+      };
+
+      // Debug-run cassettes: replay serves recorded traffic, record captures it
+      const cassette = getCassetteContext();
+      let result: LlmResponse;
+      if (cassette?.player) {
+        const interaction = cassette.player.nextOpenAi(toInteractionRequest(request, onDelta !== undefined).request);
+        result = await this.replayInteraction(interaction, onDelta);
+      } else if (onDelta) {
+        result = await this.circuitBreaker.execute(() =>
+          this.runStreaming(request, requestOptions, onDelta, cassette?.recorder));
+      } else {
+        result = await this.circuitBreaker.execute(() =>
+          this.runCompletion(request, requestOptions, cassette?.recorder));
+      }
 
       const elapsedMs = Date.now() - startTime;
 
@@ -143,25 +187,12 @@ export class OpenAiClient {
         logger.debug({
           route: route ?? (isStreaming ? '/v1/chat/stream' : '/v1/chat'),
           elapsedMs,
-          finishReason: response.choices[0]?.finish_reason,
+          finishReason: result.finishReason,
+          usage: result.usage,
         }, 'OpenAI request completed');
       }
 
-      const message = response.choices[0]?.message;
-
-      const toolCalls: ToolCall[] = (message?.tool_calls ?? [])
-        .filter((tc) => tc.type === 'function')
-        .map((tc) => ({
-          id: tc.id,
-          name: tc.function.name,
-          arguments: tc.function.arguments,
-        }));
-
-      return {
-        content: message?.content ?? null,
-        toolCalls,
-        finishReason: response.choices[0]?.finish_reason ?? null,
-      };
+      return result;
     } catch (error) {
       const elapsedMs = Date.now() - startTime;
 
@@ -184,4 +215,184 @@ export class OpenAiClient {
       throw error;
     }
   }
+
+  /**
+   * Run a non-streaming chat completion, recording it when a cassette recorder is active.
+   */
+  private async runCompletion(
+    request: ChatCompletionRequest,
+    requestOptions: { timeout: number; maxRetries: number },
+    recorder?: CassetteRecorder
+  ): Promise<LlmResponse> {
+    const interaction = recorder ? toInteractionRequest(request, false) : undefined;
+    try {
+      const completion = await this.client.chat.completions.create(request, requestOptions);
+      if (recorder && interaction) {
+        recorder.record({ ...interaction, completion });
+      }
+      return this.toLlmResponse(completion);
+    } catch (error) {
+      if (recorder && interaction) {
+        recorder.record({ ...interaction, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a streaming chat completion, forwarding content deltas and
+   * accumulating tool call fragments by index.
+   */
+  private async runStreaming(
+    request: ChatCompletionRequest,
+    requestOptions: { timeout: number; maxRetries: number },
+    onDelta: (text: string) => void,
+    recorder?: CassetteRecorder
+  ): Promise<LlmResponse> {
+    const interaction = recorder ? toInteractionRequest(request, true) : undefined;
+    const chunks: ChatCompletionChunk[] = [];
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...request, stream: true, stream_options: { include_usage: true } },
+        requestOptions
+      );
+      const result = await accumulateChunks(stream as AsyncIterable<ChatCompletionChunk>, onDelta, chunks);
+      if (recorder && interaction) {
+        recorder.record({ ...interaction, chunks });
+      }
+      return result;
+    } catch (error) {
+      if (recorder && interaction) {
+        recorder.record({ ...interaction, chunks, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Serve a recorded interaction. Recorded streams are re-emitted chunk by
+   * chunk so deltas reach onDelta exactly as they did originally.
+   */
+  private async replayInteraction(
+    interaction: OpenAiInteraction,
+    onDelta?: (text: string) => void
+  ): Promise<LlmResponse> {
+    if (interaction.error) {
+      throw new Error(interaction.error);
+    }
+    if (interaction.chunks) {
+      return accumulateChunks(toAsyncIterable(interaction.chunks as ChatCompletionChunk[]), onDelta);
+    }
+    return this.toLlmResponse(interaction.completion as ChatCompletion);
+  }
+
+  /**
+   * Convert a non-streaming chat completion into the provider-neutral response.
+   */
+  private toLlmResponse(response: ChatCompletion): LlmResponse {
+    const message = response.choices[0]?.message;
+
+    const toolCalls: ToolCall[] = (message?.tool_calls ?? [])
+      .filter((tc) => tc.type === 'function')
+      .map((tc) => ({
+        id: tc.id,
+        name: tc.function.name,
+        arguments: tc.function.arguments,
+      }));
+
+    return {
+      content: message?.content ?? null,
+      toolCalls,
+      finishReason: response.choices[0]?.finish_reason ?? null,
+      usage: response.usage ? toLlmUsage(response.usage) : undefined,
+      model: response.model,
+    };
+  }
+}
+
+type ChatCompletionRequest = ChatCompletionCreateParamsNonStreaming;
+
+/**
+ * Accumulate streamed chunks into a response, forwarding content deltas.
+ * Tool call fragments are merged by index.
+ */
+async function accumulateChunks(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onDelta?: (text: string) => void,
+  collected?: ChatCompletionChunk[]
+): Promise<LlmResponse> {
+  let content = '';
+  let finishReason: string | null = null;
+  let usage: LlmUsage | undefined;
+  let servedModel: string | undefined;
+  const toolCallParts = new Map<number, { id: string; name: string; arguments: string }>();
+
+  for await (const chunk of stream) {
+    collected?.push(chunk);
+    servedModel = servedModel ?? chunk.model;
+    if (chunk.usage) {
+      usage = toLlmUsage(chunk.usage);
+    }
+    const choice = chunk.choices[0];
+    if (!choice) continue;
+
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      onDelta?.(choice.delta.content);
+    }
+    for (const part of choice.delta?.tool_calls ?? []) {
+      const existing = toolCallParts.get(part.index) ?? { id: '', name: '', arguments: '' };
+      existing.id = part.id ?? existing.id;
+      existing.name += part.function?.name ?? '';
+      existing.arguments += part.function?.arguments ?? '';
+      toolCallParts.set(part.index, existing);
+    }
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  }
+
+  const toolCalls: ToolCall[] = [...toolCallParts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, tc]) => tc);
+
+  return {
+    content: content.length > 0 ? content : null,
+    toolCalls,
+    finishReason,
+    usage,
+    model: servedModel,
+    streamed: onDelta !== undefined && content.length > 0,
+  };
+}
+
+async function* toAsyncIterable<T>(items: T[]): AsyncIterable<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+function toInteractionRequest(request: ChatCompletionRequest, stream: boolean): Omit<OpenAiInteraction, 'completion' | 'chunks' | 'error'> {
+  return {
+    kind: 'openai',
+    request: {
+      model: request.model,
+      messages: request.messages,
+      tools: request.tools,
+      maxTokens: request.max_tokens ?? undefined,
+      stream,
+    },
+  };
+}
+
+/**
+ * Map OpenAI usage payload to provider-neutral usage.
+ */
+function toLlmUsage(usage: NonNullable<ChatCompletion['usage']>): LlmUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+  };
 }
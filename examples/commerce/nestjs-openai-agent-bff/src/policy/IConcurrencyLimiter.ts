@@ -0,0 +1,22 @@
+/**
+ * Result of acquiring a concurrency slot.
+ */
+export interface ConcurrencyResult {
+  allowed: boolean;
+  /** Slots in use for the key, including the acquired one */
+  active: number;
+  /** Pass to release() when the work is done; set when allowed */
+  leaseId?: string;
+}
+
+/**
+ * Counts in-flight work per key (e.g. open chat streams per applicationId).
+ */
+export interface IConcurrencyLimiter {
+  /** Take a slot for the key unless `limit` slots are in use */
+  acquire(key: string, limit: number): ConcurrencyResult | Promise<ConcurrencyResult>;
+  release(key: string, leaseId: string): void | Promise<void>;
+  /** Release all slots. Useful for testing. */
+  reset(): void | Promise<void>;
+  destroy(): void | Promise<void>;
+}
@@ -0,0 +1,14 @@
+import type { RateLimitPolicy, RateLimitResult } from './rateLimiter.js';
+
+/**
+ * Rate limiter backend used by the Simple Auth rate limit middleware.
+ * The in-memory limiter answers synchronously; the Redis limiter asynchronously.
+ */
+export interface IRateLimiter {
+  /** Record a hit for the key and check whether the request is allowed (policy overrides the limiter's limits) */
+  hit(key: string, policy?: RateLimitPolicy): RateLimitResult | Promise<RateLimitResult>;
+  /** Clear all counters. Useful for testing. */
+  reset(): void | Promise<void>;
+  /** Release timers and connections */
+  destroy(): void | Promise<void>;
+}
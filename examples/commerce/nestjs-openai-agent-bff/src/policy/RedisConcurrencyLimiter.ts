@@ -0,0 +1,108 @@
+/**
+ * Redis-backed concurrency limiter shared by all BFF instances.
+ *
+ * Slots are sorted set members scored by their lease expiry. A slot that is never
+ * released (instance crashed mid-stream) is freed when its lease expires.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Redis } from 'ioredis';
+import type { ConcurrencyResult, IConcurrencyLimiter } from './IConcurrencyLimiter.js';
+import { LUA_NOW_MS } from './RedisRateLimiter.js';
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * ARGV: limit, leaseMs, lease id.
+ * Returns: allowed (0/1), active slots.
+ */
+const ACQUIRE_SCRIPT = `
+${LUA_NOW_MS}
+local limit = tonumber(ARGV[1])
+local leaseMs = tonumber(ARGV[2])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+local active = redis.call('ZCARD', KEYS[1])
+if active >= limit then
+  return {0, active}
+end
+redis.call('ZADD', KEYS[1], now + leaseMs, ARGV[3])
+redis.call('PEXPIRE', KEYS[1], leaseMs)
+return {1, active + 1}
+`;
+
+export interface RedisConcurrencyLimiterOptions {
+  redisUrl: string;
+  /** Key prefix (keys are `${prefix}${key}`) */
+  prefix: string;
+  /** How long an unreleased slot is held (default 10 minutes) */
+  leaseMs?: number;
+}
+
+export class RedisConcurrencyLimiter implements IConcurrencyLimiter {
+  private readonly redis: Redis;
+  private readonly prefix: string;
+  private readonly leaseMs: number;
+
+  constructor(options: RedisConcurrencyLimiterOptions) {
+    this.redis = new Redis(options.redisUrl, {
+      lazyConnect: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          return null;
+        }
+        return Math.min(times * 100, 3000);
+      },
+    });
+    this.prefix = options.prefix;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+
+    this.redis.on('error', (err: Error) => {
+      console.error('[RedisConcurrencyLimiter] Redis connection error:', err.message);
+    });
+  }
+
+  async acquire(key: string, limit: number): Promise<ConcurrencyResult> {
+    const leaseId = randomUUID();
+    const [allowed, active] = (await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      `${this.prefix}${key}`,
+      limit,
+      this.leaseMs,
+      leaseId
+    )) as number[];
+    return allowed === 1 ? { allowed: true, active, leaseId } : { allowed: false, active };
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    await this.redis.zrem(`${this.prefix}${key}`, leaseId);
+  }
+
+  /**
+   * Delete all keys under this limiter's prefix.
+   * Useful for testing.
+   */
+  async reset(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100);
+      if (keys.length > 0) {
+        await this.redis.del(...keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  async destroy(): Promise<void> {
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      console.error(
+        '[RedisConcurrencyLimiter] Failed to disconnect from Redis:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Redis-backed rate limiter shared by all BFF instances.
+ *
+ * Each hit is a single Lua script, so concurrent requests on different instances
+ * cannot both take the last slot. Scripts read the time with Redis TIME and return
+ * durations, so instance clocks do not need to agree. Tests can inject a clock instead,
+ * which is passed to the scripts as ARGV[1].
+ *
+ * Algorithms:
+ * - fixed-window: at most `limit` requests per `windowMs` aligned to the epoch (e.g. per UTC day)
+ * - sliding-window: at most `limit` requests in any `windowMs` period (sorted set of hit times)
+ * - token-bucket: bursts of up to `burst` requests, refilled at `limit` tokens per `windowMs`
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Redis } from 'ioredis';
+import type { RateLimitPolicy, RateLimitResult } from './rateLimiter.js';
+import type { IRateLimiter } from './IRateLimiter.js';
+import type { RateLimitAlgorithm } from '../config/rateLimitConfig.js';
+
+/**
+ * Lua snippet setting `now` to the Redis server time in milliseconds.
+ * Multiplied as a float: Lua integers may be 32-bit (e.g. in ioredis-mock).
+ */
+export const LUA_NOW_MS = `local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000.0 + math.floor(tonumber(time[2]) / 1000)`;
+
+/**
+ * Lua snippet setting `now` to ARGV[1] (injected clock), or to the Redis server time
+ * in milliseconds when ARGV[1] is empty.
+ */
+const LUA_NOW_MS_OR_ARGV = `local now = tonumber(ARGV[1])
+if now == nil then
+  local time = redis.call('TIME')
+  now = tonumber(time[1]) * 1000.0 + math.floor(tonumber(time[2]) / 1000)
+end`;
+
+/**
+ * ARGV: now (or empty), windowMs, limit.
+ * Returns: allowed (0/1), remaining, ms until the window ends. The key expires with the window.
+ */
+const FIXED_WINDOW_SCRIPT = `
+${LUA_NOW_MS_OR_ARGV}
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+local resetInMs = window - (now % window)
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], resetInMs)
+end
+if count > limit then
+  return {0, 0, resetInMs}
+end
+return {1, limit - count, resetInMs}
+`;
+
+/**
+ * ARGV: now (or empty), windowMs, limit, unique member.
+ * Returns: allowed (0/1), remaining, ms until the oldest hit leaves the window.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+${LUA_NOW_MS_OR_ARGV}
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+
+local resetInMs = window
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then
+  resetInMs = tonumber(oldest[2]) + window - now
+end
+return {allowed, math.max(0, limit - count), resetInMs}
+`;
+
+/**
+ * ARGV: now (or empty), capacity, refill tokens per millisecond.
+ * Returns: allowed (0/1), remaining whole tokens, ms until the bucket is full, ms until the next token.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+${LUA_NOW_MS_OR_ARGV}
+local capacity = tonumber(ARGV[2])
+local refillPerMs = tonumber(ARGV[3])
+
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1])
+local ts = tonumber(state[2])
+if tokens == nil or ts == nil then
+  tokens = capacity
+  ts = now
+end
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refillPerMs)
+
+local allowed = 0
+local retryAfterMs = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retryAfterMs = math.ceil((1 - tokens) / refillPerMs)
+end
+
+local msUntilFull = math.ceil((capacity - tokens) / refillPerMs)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.max(msUntilFull, 1))
+return {allowed, math.floor(tokens), msUntilFull, retryAfterMs}
+`;
+
+export interface RedisRateLimiterOptions {
+  redisUrl: string;
+  /** Key prefix, e.g. `agent:rl:chat:` (keys are `${prefix}${key}`) */
+  prefix: string;
+  algorithm: RateLimitAlgorithm;
+  windowMs: number;
+  /** Requests per window (fixed-window, sliding-window), or tokens refilled per window (token-bucket) */
+  limit: number;
+  /** Bucket capacity for token-bucket (defaults to limit) */
+  burst?: number;
+  /** Clock in epoch milliseconds used instead of Redis TIME (for tests) */
+  now?: () => number;
+}
+
+export class RedisRateLimiter implements IRateLimiter {
+  private readonly redis: Redis;
+  private readonly prefix: string;
+  private readonly algorithm: RateLimitAlgorithm;
+  private readonly windowMs: number;
+  private readonly limit: number;
+  private readonly burst: number;
+  private readonly now?: () => number;
+
+  constructor(options: RedisRateLimiterOptions) {
+    this.redis = new Redis(options.redisUrl, {
+      lazyConnect: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          return null;
+        }
+        return Math.min(times * 100, 3000);
+      },
+    });
+    this.prefix = options.prefix;
+    this.algorithm = options.algorithm;
+    this.windowMs = options.windowMs;
+    this.limit = options.limit;
+    this.burst = options.burst && options.burst > 0 ? options.burst : options.limit;
+    this.now = options.now;
+
+    this.redis.on('error', (err: Error) => {
+      console.error('[RedisRateLimiter] Redis connection error:', err.message);
+    });
+  }
+
+  /**
+   * Record a hit for the given key and check if the request is allowed.
+   * Rejects when Redis is unavailable; callers decide whether to fail open.
+   */
+  async hit(key: string, policy?: RateLimitPolicy): Promise<RateLimitResult> {
+    const redisKey = `${this.prefix}${key}`;
+    const limit = policy?.limit ?? this.limit;
+    const now = this.now?.();
+    const nowArg = now ?? '';
+
+    if (this.algorithm === 'token-bucket') {
+      const burst = policy?.burst && policy.burst > 0 ? policy.burst : policy ? limit : this.burst;
+      const [allowed, remaining, resetInMs, retryAfterMs] = (await this.redis.eval(
+        TOKEN_BUCKET_SCRIPT,
+        1,
+        redisKey,
+        nowArg,
+        burst,
+        limit / this.windowMs
+      )) as number[];
+      const resetAt = (now ?? Date.now()) + resetInMs;
+      return allowed === 1
+        ? { allowed: true, remaining, resetAt }
+        : { allowed: false, remaining: 0, resetAt, retryAfterMs };
+    }
+
+    const [allowed, remaining, resetInMs] = (this.algorithm === 'fixed-window'
+      ? await this.redis.eval(FIXED_WINDOW_SCRIPT, 1, redisKey, nowArg, this.windowMs, limit)
+      : await this.redis.eval(SLIDING_WINDOW_SCRIPT, 1, redisKey, nowArg, this.windowMs, limit, randomUUID())) as number[];
+    const resetAt = (now ?? Date.now()) + resetInMs;
+    return allowed === 1
+      ? { allowed: true, remaining, resetAt }
+      : { allowed: false, remaining: 0, resetAt, retryAfterMs: Math.max(0, resetInMs) };
+  }
+
+  /**
+   * Delete all keys under this limiter's prefix.
+   * Useful for testing.
+   */
+  async reset(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100);
+      if (keys.length > 0) {
+        await this.redis.del(...keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  async destroy(): Promise<void> {
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      console.error(
+        '[RedisRateLimiter] Failed to disconnect from Redis:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
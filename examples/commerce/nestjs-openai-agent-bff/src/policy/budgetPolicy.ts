@@ -0,0 +1,141 @@
+/**
+ * Token and spend budgets per session and per applicationId.
+ *
+ * Budgets are checked before each agent turn against usage recorded so far:
+ * - Soft budget exceeded: the turn runs on the cheaper soft model
+ * - Hard budget exceeded: the turn is rejected with POLICY_BUDGET_EXCEEDED
+ *
+ * A turn that starts under budget is allowed to finish, so usage can overshoot
+ * a hard budget by at most one turn.
+ */
+
+import { config } from '../config.js';
+import type { ApplicationUsage, SessionUsage } from '../usage/index.js';
+
+/**
+ * Budget limits for one applicationId. Unset limits are unlimited.
+ */
+export interface BudgetLimits {
+  /** Tokens per session before switching to softModel */
+  sessionSoftTokens?: number;
+  /** Tokens per session before rejecting turns */
+  sessionHardTokens?: number;
+  /** Estimated USD per session before switching to softModel */
+  sessionSoftUsd?: number;
+  /** Estimated USD per session before rejecting turns */
+  sessionHardUsd?: number;
+  /** Tokens per applicationId and UTC day before switching to softModel */
+  dailySoftTokens?: number;
+  /** Tokens per applicationId and UTC day before rejecting turns */
+  dailyHardTokens?: number;
+  /** Estimated USD per applicationId and UTC day before switching to softModel */
+  dailySoftUsd?: number;
+  /** Estimated USD per applicationId and UTC day before rejecting turns */
+  dailyHardUsd?: number;
+  /** Max agent rounds per turn (overrides AGENT_MAX_ROUNDS) */
+  maxRoundsPerTurn?: number;
+  /** Model used once a soft budget is exceeded */
+  softModel?: string;
+}
+
+export type BudgetScope = 'session' | 'daily';
+
+export type BudgetMetric = 'tokens' | 'usd';
+
+/**
+ * The budget that triggered a soft or hard decision.
+ */
+export interface BudgetBreach {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+}
+
+/**
+ * Outcome of a budget check for one turn.
+ */
+export interface BudgetDecision {
+  status: 'ok' | 'soft_exceeded' | 'hard_exceeded';
+  /** Set when status is not 'ok' */
+  breach?: BudgetBreach;
+  /** Model to run the turn with (soft budget exceeded) */
+  model?: string;
+  /** Max agent rounds for the turn */
+  maxRounds?: number;
+}
+
+/**
+ * Input for a budget check.
+ */
+export interface BudgetUsage {
+  /** Usage of the current session so far */
+  session?: SessionUsage;
+  /** Usage of the applicationId today (from the usage ledger) */
+  daily?: ApplicationUsage | null;
+}
+
+/**
+ * Get the budget limits for an applicationId: BUDGET_* defaults merged with
+ * the application's BUDGET_OVERRIDES entry.
+ */
+export function getBudgetLimits(applicationId: string): BudgetLimits {
+  return {
+    ...config.budget?.defaults,
+    ...config.budget?.overrides?.[applicationId],
+  };
+}
+
+/**
+ * Check usage against budget limits.
+ *
+ * Hard budgets are checked before soft budgets, session scope before daily scope.
+ *
+ * @param usage - Session and daily usage so far
+ * @param limits - Budget limits for the applicationId
+ * @returns The decision for the next turn
+ */
+export function evaluateBudget(usage: BudgetUsage, limits: BudgetLimits): BudgetDecision {
+  const maxRounds = limits.maxRoundsPerTurn !== undefined && limits.maxRoundsPerTurn >= 1
+    ? Math.floor(limits.maxRoundsPerTurn)
+    : undefined;
+
+  const hard = findBreach(usage, [
+    ['session', 'tokens', limits.sessionHardTokens],
+    ['session', 'usd', limits.sessionHardUsd],
+    ['daily', 'tokens', limits.dailyHardTokens],
+    ['daily', 'usd', limits.dailyHardUsd],
+  ]);
+  if (hard) {
+    return { status: 'hard_exceeded', breach: hard, maxRounds };
+  }
+
+  const soft = findBreach(usage, [
+    ['session', 'tokens', limits.sessionSoftTokens],
+    ['session', 'usd', limits.sessionSoftUsd],
+    ['daily', 'tokens', limits.dailySoftTokens],
+    ['daily', 'usd', limits.dailySoftUsd],
+  ]);
+  if (soft) {
+    return { status: 'soft_exceeded', breach: soft, model: limits.softModel, maxRounds };
+  }
+
+  return { status: 'ok', maxRounds };
+}
+
+function findBreach(
+  usage: BudgetUsage,
+  checks: Array<[BudgetScope, BudgetMetric, number | undefined]>
+): BudgetBreach | undefined {
+  for (const [scope, metric, limit] of checks) {
+    if (limit === undefined) {
+      continue;
+    }
+    const totals = scope === 'session' ? usage.session : usage.daily;
+    const used = metric === 'tokens' ? totals?.totalTokens ?? 0 : totals?.costUsd ?? 0;
+    if (used >= limit) {
+      return { scope, metric, limit, used };
+    }
+  }
+  return undefined;
+}
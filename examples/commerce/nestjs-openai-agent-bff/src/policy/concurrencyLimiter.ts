@@ -0,0 +1,50 @@
+/**
+ * In-memory concurrency limiter.
+ * Slots are per process; see RedisConcurrencyLimiter for limits shared by several instances.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ConcurrencyResult, IConcurrencyLimiter } from './IConcurrencyLimiter.js';
+
+export class InMemoryConcurrencyLimiter implements IConcurrencyLimiter {
+  private readonly leases: Map<string, Set<string>> = new Map();
+
+  acquire(key: string, limit: number): ConcurrencyResult {
+    const active = this.leases.get(key) ?? new Set<string>();
+    if (active.size >= limit) {
+      return { allowed: false, active: active.size };
+    }
+
+    const leaseId = randomUUID();
+    active.add(leaseId);
+    this.leases.set(key, active);
+    return { allowed: true, active: active.size, leaseId };
+  }
+
+  release(key: string, leaseId: string): void {
+    const active = this.leases.get(key);
+    if (!active) {
+      return;
+    }
+    active.delete(leaseId);
+    if (active.size === 0) {
+      this.leases.delete(key);
+    }
+  }
+
+  /**
+   * Get the number of slots in use for a key.
+   * Useful for testing.
+   */
+  activeCount(key: string): number {
+    return this.leases.get(key)?.size ?? 0;
+  }
+
+  reset(): void {
+    this.leases.clear();
+  }
+
+  destroy(): void {
+    this.leases.clear();
+  }
+}
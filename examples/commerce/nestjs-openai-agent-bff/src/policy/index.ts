@@ -1,13 +1,48 @@
 export {
   FixedWindowRateLimiter,
   type RateLimitResult,
+  type RateLimitPolicy,
   type FixedWindowRateLimiterOptions,
 } from './rateLimiter.js';
 
+export type { IRateLimiter } from './IRateLimiter.js';
+
+export { RedisRateLimiter, type RedisRateLimiterOptions } from './RedisRateLimiter.js';
+
+export type { IConcurrencyLimiter, ConcurrencyResult } from './IConcurrencyLimiter.js';
+
+export { InMemoryConcurrencyLimiter } from './concurrencyLimiter.js';
+
+export { RedisConcurrencyLimiter, type RedisConcurrencyLimiterOptions } from './RedisConcurrencyLimiter.js';
+
+export {
+  TenantPolicyRegistry,
+  loadTenantPolicies,
+  getTenantPolicy,
+  resetTenantPolicies,
+  type TenantPolicy,
+  type TenantPolicyFile,
+} from './tenantPolicy.js';
+
 export {
   tokenRateLimitMiddleware,
   chatRateLimitMiddleware,
+  streamConcurrencyMiddleware,
   getChatRateLimiter,
   getTokenRateLimiter,
+  getStreamConcurrencyLimiter,
   resetRateLimiters,
+  closeRateLimiters,
+  type QuotaName,
 } from './rateLimitMiddleware.js';
+
+export {
+  getBudgetLimits,
+  evaluateBudget,
+  type BudgetLimits,
+  type BudgetScope,
+  type BudgetMetric,
+  type BudgetBreach,
+  type BudgetDecision,
+  type BudgetUsage,
+} from './budgetPolicy.js';
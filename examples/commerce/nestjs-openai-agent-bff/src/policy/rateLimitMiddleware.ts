@@ -1,33 +1,107 @@
 /**
  * Rate limiting middleware for Simple Auth endpoints.
- * 
+ *
  * - For /v1/simple/token: key = `ip:${clientIp}` (caller may not have sid yet)
  * - For /v1/chat and /v1/chat/stream: key = `sid:${req.auth.sid}` (when Simple Auth enabled)
- * 
+ *
+ * Counters live in process memory (fixed window) or, with DEMO_RL_STORE=redis, in Redis
+ * (sliding window or token bucket) so all instances share the limit.
+ *
+ * Chat limits come from the applicationId's tenant policy (see tenantPolicy.ts). Its daily
+ * message quota and concurrent stream limit apply per applicationId, also without Simple Auth.
+ *
  * Returns 429 with error envelope when rate limit is exceeded.
  */
 
 import { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
 import { FixedWindowRateLimiter, RateLimitResult } from './rateLimiter.js';
-import { rateLimitConfig } from '../config/rateLimitConfig.js';
+import { RedisRateLimiter } from './RedisRateLimiter.js';
+import { InMemoryConcurrencyLimiter } from './concurrencyLimiter.js';
+import { RedisConcurrencyLimiter } from './RedisConcurrencyLimiter.js';
+import { getTenantPolicy, type TenantPolicy } from './tenantPolicy.js';
+import type { IRateLimiter } from './IRateLimiter.js';
+import type { IConcurrencyLimiter } from './IConcurrencyLimiter.js';
+import { rateLimitConfig, type RateLimitAlgorithm } from '../config/rateLimitConfig.js';
 import { simpleAuthConfig } from '../config/simpleAuthConfig.js';
 import { getClientIp } from '../http/clientIp.js';
 import { createErrorEnvelope } from '../http/errorEnvelope.js';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retry-After for a rejected stream: streams usually finish within seconds */
+const STREAM_RETRY_AFTER_MS = 5000;
+
+/**
+ * The quota a request was checked against, reported in 429 details.
+ */
+export type QuotaName = 'requests_per_minute' | 'daily_messages' | 'concurrent_streams';
+
+interface QuotaCheck {
+  quota: QuotaName;
+  limit: number;
+  windowMs: number;
+  result: RateLimitResult;
+}
+
+function requireRedisUrl(): string {
+  if (!rateLimitConfig.redisUrl) {
+    throw new Error(
+      'DEMO_RL_STORE=redis requires REDIS_URL to be set. ' +
+      'Example: REDIS_URL=redis://localhost:6379'
+    );
+  }
+  return rateLimitConfig.redisUrl;
+}
+
+/**
+ * Create the rate limiter for one endpoint or quota from config (DEMO_RL_STORE, DEMO_RL_ALGORITHM).
+ * Redis keys are `${DEMO_RL_REDIS_PREFIX}${name}:${key}`.
+ */
+function createRateLimiter(
+  name: string,
+  limit: number,
+  options: { windowMs?: number; algorithm?: RateLimitAlgorithm } = {}
+): IRateLimiter {
+  const windowMs = options.windowMs ?? rateLimitConfig.windowMs;
+
+  if (rateLimitConfig.store === 'redis') {
+    return new RedisRateLimiter({
+      redisUrl: requireRedisUrl(),
+      prefix: `${rateLimitConfig.redisPrefix}${name}:`,
+      algorithm: options.algorithm ?? rateLimitConfig.algorithm,
+      windowMs,
+      limit,
+      burst: rateLimitConfig.burst,
+    });
+  }
+
+  return new FixedWindowRateLimiter({
+    windowMs,
+    limit,
+    maxKeys: rateLimitConfig.maxKeys,
+    pruneIntervalMs: rateLimitConfig.pruneIntervalMs,
+  });
+}
+
+function createConcurrencyLimiter(name: string): IConcurrencyLimiter {
+  if (rateLimitConfig.store === 'redis') {
+    return new RedisConcurrencyLimiter({
+      redisUrl: requireRedisUrl(),
+      prefix: `${rateLimitConfig.redisPrefix}${name}:`,
+    });
+  }
+  return new InMemoryConcurrencyLimiter();
+}
+
 // Create rate limiters for different endpoints
-const chatRateLimiter = new FixedWindowRateLimiter({
-  windowMs: rateLimitConfig.windowMs,
-  limit: rateLimitConfig.chatPerMin,
-  maxKeys: rateLimitConfig.maxKeys,
-  pruneIntervalMs: rateLimitConfig.pruneIntervalMs,
-});
+const chatRateLimiter = createRateLimiter('chat', rateLimitConfig.chatPerMin);
+
+const tokenRateLimiter = createRateLimiter('token', rateLimitConfig.tokenPerMin);
 
-const tokenRateLimiter = new FixedWindowRateLimiter({
-  windowMs: rateLimitConfig.windowMs,
-  limit: rateLimitConfig.tokenPerMin,
-  maxKeys: rateLimitConfig.maxKeys,
-  pruneIntervalMs: rateLimitConfig.pruneIntervalMs,
-});
+// Per-applicationId quotas (limits come from the tenant policy on each hit)
+const dailyMessageLimiter = createRateLimiter('daily', 0, { windowMs: DAY_MS, algorithm: 'fixed-window' });
+
+const streamConcurrencyLimiter = createConcurrencyLimiter('streams');
 
 /**
  * Build the rate limit key for a request.
@@ -54,34 +128,92 @@ function buildRateLimitKey(
   return ip ? `ip:${ip}` : null;
 }
 
+/**
+ * The applicationId a chat request runs for: from the JWT with Simple Auth, else from the body.
+ */
+function resolveApplicationId(request: FastifyRequest): string | undefined {
+  if (request.auth?.applicationId) {
+    return request.auth.applicationId;
+  }
+  const applicationId = (request.body as { applicationId?: unknown } | undefined)?.applicationId;
+  return typeof applicationId === 'string' && applicationId !== '' ? applicationId : undefined;
+}
+
+/**
+ * Set the legacy X-RateLimit-* headers and the standard RateLimit-* headers
+ * (IETF draft: limit, remaining, seconds until reset, and the policies that apply).
+ */
+function setRateLimitHeaders(reply: FastifyReply, check: QuotaCheck, policies: QuotaCheck[]): void {
+  const resetSeconds = Math.ceil(Math.max(0, check.result.resetAt - Date.now()) / 1000);
+  reply
+    .header('X-RateLimit-Remaining', String(check.result.remaining))
+    .header('X-RateLimit-Reset', String(Math.floor(check.result.resetAt / 1000)))
+    .header('RateLimit-Limit', String(check.limit))
+    .header('RateLimit-Remaining', String(check.result.remaining))
+    .header('RateLimit-Reset', String(resetSeconds))
+    .header('RateLimit-Policy', policies.map((p) => `${p.limit};w=${Math.round(p.windowMs / 1000)}`).join(', '));
+}
+
 /**
  * Send a 429 rate limit response with proper error envelope.
+ * details carries the quota that was hit (and the tenant tier for per-applicationId quotas).
  */
 function sendRateLimitResponse(
   reply: FastifyReply,
-  result: RateLimitResult,
-  requestId: string
+  check: QuotaCheck,
+  policies: QuotaCheck[],
+  requestId: string,
+  tenant?: { applicationId: string; policy: TenantPolicy }
 ): void {
-  const retryAfterMs = result.retryAfterMs ?? (result.resetAt - Date.now());
-  const retryAfterSeconds = Math.ceil(Math.max(0, retryAfterMs) / 1000);
+  const { result } = check;
+  const retryAfterMs = Math.max(0, result.retryAfterMs ?? (result.resetAt - Date.now()));
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
 
   const envelope = createErrorEnvelope(
     'policy',
     'RATE_LIMITED',
-    'Too many requests. Please try again later.',
+    check.quota === 'daily_messages'
+      ? 'Daily message quota reached. Please try again later.'
+      : 'Too many requests. Please try again later.',
     true,
     requestId,
-    { retryAfterMs: Math.max(0, retryAfterMs) }
+    {
+      retryAfterMs,
+      quota: check.quota,
+      limit: check.limit,
+      windowSeconds: Math.round(check.windowMs / 1000),
+      ...(tenant ? { applicationId: tenant.applicationId, tier: tenant.policy.tier } : {}),
+    }
   );
 
+  setRateLimitHeaders(reply, check, policies);
   reply
     .status(429)
     .header('Retry-After', String(retryAfterSeconds))
-    .header('X-RateLimit-Remaining', '0')
-    .header('X-RateLimit-Reset', String(Math.floor(result.resetAt / 1000)))
     .send({ error: envelope });
 }
 
+/**
+ * Record a hit, failing open when the limiter backend (Redis) is unavailable.
+ */
+async function hitRateLimiter(
+  request: FastifyRequest,
+  limiter: IRateLimiter,
+  key: string,
+  policy?: { limit: number; burst?: number }
+): Promise<RateLimitResult | undefined> {
+  try {
+    return await limiter.hit(key, policy);
+  } catch (error) {
+    request.log.warn({
+      msg: 'Rate limit: limiter unavailable, allowing request',
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
 /**
  * Rate limit middleware for token minting endpoint.
  * Uses IP-based rate limiting since caller may not have a sid yet.
@@ -102,7 +234,17 @@ export const tokenRateLimitMiddleware: preHandlerHookHandler = async (
     return;
   }
 
-  const result = tokenRateLimiter.hit(key);
+  const result = await hitRateLimiter(request, tokenRateLimiter, key);
+  if (!result) {
+    return;
+  }
+
+  const check: QuotaCheck = {
+    quota: 'requests_per_minute',
+    limit: rateLimitConfig.tokenPerMin,
+    windowMs: rateLimitConfig.windowMs,
+    result,
+  };
 
   if (!result.allowed) {
     request.log.warn({
@@ -110,70 +252,200 @@ export const tokenRateLimitMiddleware: preHandlerHookHandler = async (
       key,
       resetAt: result.resetAt,
     });
-    sendRateLimitResponse(reply, result, request.id);
+    sendRateLimitResponse(reply, check, [check], request.id);
     return reply;
   }
 
   // Add rate limit headers for successful requests
-  reply.header('X-RateLimit-Remaining', String(result.remaining));
-  reply.header('X-RateLimit-Reset', String(Math.floor(result.resetAt / 1000)));
+  setRateLimitHeaders(reply, check, [check]);
 };
 
 /**
  * Rate limit middleware for chat endpoints.
- * Uses sid-based rate limiting when Simple Auth is enabled.
+ * Uses sid-based rate limiting when Simple Auth is enabled, with the tenant's
+ * requests per minute; counts the message against the tenant's daily quota.
  */
 export const chatRateLimitMiddleware: preHandlerHookHandler = async (
   request: FastifyRequest,
   reply: FastifyReply
 ) => {
-  // Skip rate limiting if Simple Auth is not enabled
-  if (!simpleAuthConfig.enabled) {
-    return;
+  const applicationId = resolveApplicationId(request);
+  const policy = getTenantPolicy(applicationId);
+  const tenant = applicationId ? { applicationId, policy } : undefined;
+  const checks: QuotaCheck[] = [];
+
+  // Per-caller rate limit only with Simple Auth (callers are identified by sid)
+  if (simpleAuthConfig.enabled) {
+    const key = buildRateLimitKey(request, false);
+    if (!key) {
+      // If we can't determine the key, allow the request (fail open)
+      request.log.warn({ msg: 'Rate limit: could not determine key for chat endpoint' });
+    } else {
+      const result = await hitRateLimiter(request, chatRateLimiter, key, {
+        limit: policy.requestsPerMinute,
+        burst: policy.burst,
+      });
+      if (result) {
+        checks.push({ quota: 'requests_per_minute', limit: policy.requestsPerMinute, windowMs: rateLimitConfig.windowMs, result });
+        if (!result.allowed) {
+          request.log.warn({
+            msg: 'Rate limit exceeded for chat endpoint',
+            key,
+            tier: policy.tier,
+            resetAt: result.resetAt,
+          });
+          sendRateLimitResponse(reply, checks[0], checks, request.id, tenant);
+          return reply;
+        }
+      }
+    }
   }
 
-  const key = buildRateLimitKey(request, false);
-  if (!key) {
-    // If we can't determine the key, allow the request (fail open)
-    request.log.warn({ msg: 'Rate limit: could not determine key for chat endpoint' });
+  // Daily message quota per applicationId
+  if (applicationId && policy.dailyMessages !== undefined) {
+    const result = await hitRateLimiter(request, dailyMessageLimiter, `app:${applicationId}`, {
+      limit: policy.dailyMessages,
+    });
+    if (result) {
+      const check: QuotaCheck = { quota: 'daily_messages', limit: policy.dailyMessages, windowMs: DAY_MS, result };
+      checks.push(check);
+      if (!result.allowed) {
+        request.log.warn({
+          msg: 'Daily message quota exceeded',
+          applicationId,
+          tier: policy.tier,
+          resetAt: result.resetAt,
+        });
+        sendRateLimitResponse(reply, check, checks, request.id, tenant);
+        return reply;
+      }
+    }
+  }
+
+  if (checks.length > 0) {
+    // Add rate limit headers for successful requests (the quota closest to its limit)
+    const tightest = checks.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a));
+    setRateLimitHeaders(reply, tightest, checks);
+  }
+};
+
+/**
+ * Concurrent stream limit for /v1/chat/stream (tenant policy concurrentStreams).
+ * The slot is released when the response finishes or the client disconnects.
+ */
+export const streamConcurrencyMiddleware: preHandlerHookHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  const applicationId = resolveApplicationId(request);
+  const policy = getTenantPolicy(applicationId);
+  if (!applicationId || policy.concurrentStreams === undefined) {
     return;
   }
 
-  const result = chatRateLimiter.hit(key);
+  const key = `app:${applicationId}`;
+  let acquired;
+  try {
+    acquired = await streamConcurrencyLimiter.acquire(key, policy.concurrentStreams);
+  } catch (error) {
+    request.log.warn({
+      msg: 'Rate limit: concurrency limiter unavailable, allowing stream',
+      applicationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
 
-  if (!result.allowed) {
+  if (!acquired.allowed) {
     request.log.warn({
-      msg: 'Rate limit exceeded for chat endpoint',
-      key,
-      resetAt: result.resetAt,
+      msg: 'Concurrent stream limit exceeded',
+      applicationId,
+      tier: policy.tier,
+      active: acquired.active,
     });
-    sendRateLimitResponse(reply, result, request.id);
+    const envelope = createErrorEnvelope(
+      'policy',
+      'RATE_LIMITED',
+      'Too many concurrent conversations. Please try again shortly.',
+      true,
+      request.id,
+      {
+        retryAfterMs: STREAM_RETRY_AFTER_MS,
+        quota: 'concurrent_streams' satisfies QuotaName,
+        limit: policy.concurrentStreams,
+        applicationId,
+        tier: policy.tier,
+      }
+    );
+    reply
+      .status(429)
+      .header('Retry-After', String(Math.ceil(STREAM_RETRY_AFTER_MS / 1000)))
+      .header('RateLimit-Limit', String(policy.concurrentStreams))
+      .header('RateLimit-Remaining', '0')
+      .send({ error: envelope });
     return reply;
   }
 
-  // Add rate limit headers for successful requests
-  reply.header('X-RateLimit-Remaining', String(result.remaining));
-  reply.header('X-RateLimit-Reset', String(Math.floor(result.resetAt / 1000)));
+  const leaseId = acquired.leaseId as string;
+  let released = false;
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    Promise.resolve(streamConcurrencyLimiter.release(key, leaseId)).catch((error: unknown) => {
+      request.log.warn({
+        msg: 'Rate limit: failed to release stream slot',
+        applicationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  };
+  reply.raw.once('finish', release);
+  reply.raw.once('close', release);
 };
 
 /**
  * Get the chat rate limiter instance for testing.
  */
-export function getChatRateLimiter(): FixedWindowRateLimiter {
+export function getChatRateLimiter(): IRateLimiter {
   return chatRateLimiter;
 }
 
 /**
  * Get the token rate limiter instance for testing.
  */
-export function getTokenRateLimiter(): FixedWindowRateLimiter {
+export function getTokenRateLimiter(): IRateLimiter {
   return tokenRateLimiter;
 }
 
+/**
+ * Get the concurrent stream limiter instance for testing.
+ */
+export function getStreamConcurrencyLimiter(): IConcurrencyLimiter {
+  return streamConcurrencyLimiter;
+}
+
 /**
  * Reset all rate limiters. Useful for testing.
  */
-export function resetRateLimiters(): void {
-  chatRateLimiter.reset();
-  tokenRateLimiter.reset();
+export async function resetRateLimiters(): Promise<void> {
+  await Promise.all([
+    chatRateLimiter.reset(),
+    tokenRateLimiter.reset(),
+    dailyMessageLimiter.reset(),
+    streamConcurrencyLimiter.reset(),
+  ]);
+}
+
+/**
+ * Stop pruning timers and close Redis connections. Call on server shutdown.
+ */
+export async function closeRateLimiters(): Promise<void> {
+  await Promise.all([
+    chatRateLimiter.destroy(),
+    tokenRateLimiter.destroy(),
+    dailyMessageLimiter.destroy(),
+    streamConcurrencyLimiter.destroy(),
+  ]);
 }
@@ -7,8 +7,12 @@
  * - Automatic pruning of expired entries
  * - Key cap to prevent memory leaks (max 5k keys by default)
  * - No external dependencies (no Redis)
+ *
+ * For limits shared by several instances, see RedisRateLimiter.
  */
 
+import type { IRateLimiter } from './IRateLimiter.js';
+
 export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
@@ -16,6 +20,15 @@ export interface RateLimitResult {
   retryAfterMs?: number;
 }
 
+/**
+ * Per-call limits overriding the limiter's defaults (e.g. from a tenant policy).
+ */
+export interface RateLimitPolicy {
+  limit: number;
+  /** Token bucket capacity (token-bucket only) */
+  burst?: number;
+}
+
 interface WindowEntry {
   count: number;
   windowStart: number;
@@ -31,7 +44,7 @@ export interface FixedWindowRateLimiterOptions {
 const DEFAULT_MAX_KEYS = 5000;
 const DEFAULT_PRUNE_INTERVAL_MS = 60_000; // 1 minute
 
-export class FixedWindowRateLimiter {
+export class FixedWindowRateLimiter implements IRateLimiter {
   private readonly windowMs: number;
   private readonly limit: number;
   private readonly maxKeys: number;
@@ -54,8 +67,9 @@ export class FixedWindowRateLimiter {
    * Record a hit for the given key and check if the request is allowed.
    * Returns the result with remaining quota and reset time.
    */
-  hit(key: string): RateLimitResult {
+  hit(key: string, policy?: RateLimitPolicy): RateLimitResult {
     const now = Date.now();
+    const limit = policy?.limit ?? this.limit;
     
     // Opportunistic prune if we're over the key limit
     if (this.windows.size >= this.maxKeys) {
@@ -76,7 +90,7 @@ export class FixedWindowRateLimiter {
       this.windows.set(key, { count: 1, windowStart });
       return {
         allowed: true,
-        remaining: this.limit - 1,
+        remaining: limit - 1,
         resetAt,
       };
     }
@@ -84,7 +98,7 @@ export class FixedWindowRateLimiter {
     // Same window - increment count
     entry.count++;
 
-    if (entry.count > this.limit) {
+    if (entry.count > limit) {
       const retryAfterMs = resetAt - now;
       return {
         allowed: false,
@@ -96,7 +110,7 @@ export class FixedWindowRateLimiter {
 
     return {
       allowed: true,
-      remaining: this.limit - entry.count,
+      remaining: limit - entry.count,
       resetAt,
     };
   }
@@ -0,0 +1,140 @@
+/**
+ * Per-applicationId rate limit policies (quota tiers).
+ *
+ * Policies come from the JSON file at TENANT_POLICIES_PATH:
+ *
+ *   {
+ *     "defaultTier": "demo",
+ *     "tiers": {
+ *       "demo": { "requestsPerMinute": 20, "burst": 5, "concurrentStreams": 2, "dailyMessages": 500 },
+ *       "storefront": { "requestsPerMinute": 120, "burst": 20, "concurrentStreams": 50 }
+ *     },
+ *     "tenants": {
+ *       "acme-se": { "tier": "storefront", "dailyMessages": 100000 }
+ *     }
+ *   }
+ *
+ * A tenant's policy is the DEMO_RL_* defaults, overlaid with its tier (or defaultTier),
+ * overlaid with its own entry. Unset concurrentStreams and dailyMessages are unlimited.
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { rateLimitConfig } from '../config/rateLimitConfig.js';
+
+/**
+ * Resolved limits for one applicationId.
+ */
+export interface TenantPolicy {
+  /** Tier name ('default' when no tier applies) */
+  tier: string;
+  /** Chat requests per minute per caller (sid, or IP without Simple Auth) */
+  requestsPerMinute: number;
+  /** Token bucket capacity (DEMO_RL_ALGORITHM=token-bucket) */
+  burst: number;
+  /** Open /v1/chat/stream requests per applicationId */
+  concurrentStreams?: number;
+  /** Chat messages per applicationId and UTC day */
+  dailyMessages?: number;
+}
+
+const tenantLimitsSchema = z.object({
+  requestsPerMinute: z.number().int().positive().optional(),
+  burst: z.number().int().positive().optional(),
+  concurrentStreams: z.number().int().positive().optional(),
+  dailyMessages: z.number().int().positive().optional(),
+}).strict();
+
+const tenantPolicyFileSchema = z.object({
+  defaultTier: z.string().min(1).optional(),
+  tiers: z.record(z.string(), tenantLimitsSchema).default({}),
+  tenants: z.record(z.string(), tenantLimitsSchema.extend({ tier: z.string().min(1).optional() }).strict()).default({}),
+}).strict().superRefine((file, ctx) => {
+  const tierNames = Object.keys(file.tiers);
+  if (file.defaultTier && !tierNames.includes(file.defaultTier)) {
+    ctx.addIssue({ code: 'custom', path: ['defaultTier'], message: `unknown tier '${file.defaultTier}'` });
+  }
+  for (const [applicationId, tenant] of Object.entries(file.tenants)) {
+    if (tenant.tier && !tierNames.includes(tenant.tier)) {
+      ctx.addIssue({ code: 'custom', path: ['tenants', applicationId, 'tier'], message: `unknown tier '${tenant.tier}'` });
+    }
+  }
+});
+
+export type TenantPolicyFile = z.infer<typeof tenantPolicyFileSchema>;
+
+/**
+ * Resolves the policy for each applicationId from a parsed policy file.
+ */
+export class TenantPolicyRegistry {
+  constructor(
+    private readonly file: TenantPolicyFile,
+    private readonly defaults: Pick<TenantPolicy, 'requestsPerMinute' | 'burst'>
+  ) {}
+
+  /**
+   * Parse and validate a policy file.
+   * A malformed file fails startup: silently falling back would change every tenant's limits.
+   *
+   * @throws Error listing the invalid fields
+   */
+  static fromFile(filePath: string, defaults: Pick<TenantPolicy, 'requestsPerMinute' | 'burst'>): TenantPolicyRegistry {
+    let json: unknown;
+    try {
+      json = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid tenant policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const result = tenantPolicyFileSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+      throw new Error(`Invalid tenant policy file ${filePath}: ${issues}`);
+    }
+    return new TenantPolicyRegistry(result.data, defaults);
+  }
+
+  resolve(applicationId: string | undefined): TenantPolicy {
+    const { tier: tenantTier, ...tenantLimits } = (applicationId ? this.file.tenants[applicationId] : undefined) ?? {};
+    const tier = tenantTier ?? this.file.defaultTier;
+    return {
+      ...this.defaults,
+      ...(tier ? this.file.tiers[tier] : undefined),
+      ...tenantLimits,
+      tier: tier ?? 'default',
+    };
+  }
+}
+
+let registry: TenantPolicyRegistry | undefined;
+
+/**
+ * Load the tenant policies from TENANT_POLICIES_PATH (once; later calls return the same registry).
+ * Without a file every applicationId gets the DEMO_RL_* defaults.
+ *
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadTenantPolicies(): TenantPolicyRegistry {
+  if (!registry) {
+    const defaults = { requestsPerMinute: rateLimitConfig.chatPerMin, burst: rateLimitConfig.burst };
+    registry = rateLimitConfig.tenantPoliciesPath
+      ? TenantPolicyRegistry.fromFile(rateLimitConfig.tenantPoliciesPath, defaults)
+      : new TenantPolicyRegistry({ tiers: {}, tenants: {} }, defaults);
+  }
+  return registry;
+}
+
+/**
+ * Get the rate limit policy for an applicationId.
+ */
+export function getTenantPolicy(applicationId: string | undefined): TenantPolicy {
+  return loadTenantPolicies().resolve(applicationId);
+}
+
+/**
+ * Forget the loaded policies so the next call reloads them. Useful for testing.
+ */
+export function resetTenantPolicies(): void {
+  registry = undefined;
+}
@@ -5,8 +5,10 @@ import { config } from '../config.js';
 import { AppError, mapError, sanitizeForLogging } from '../errors/index.js';
 import { SseWriter, DevStatusEventData } from '../http/sse.js';
 import { appErrorToEnvelope } from '../http/errorEnvelope.js';
+import { getCircuitBreakerMetrics } from '../http/circuitBreaker.js';
 import type { ChatResponse } from '../http/responseTypes.js';
 import type { RunStore } from '../debug/index.js';
+import type { IUsageLedger } from '../usage/index.js';
 import {
   chatRequestSchema,
   ChatRequestBody,
@@ -17,7 +19,7 @@ import {
 } from './chatHandler.js';
 import { getClientIpWithFallback } from '../http/clientIp.js';
 import { simpleAuthMiddleware, isSimpleAuthEnabled } from '../auth/index.js';
-import { chatRateLimitMiddleware } from '../policy/index.js';
+import { chatRateLimitMiddleware, streamConcurrencyMiddleware } from '../policy/index.js';
 import { resolveStatusLanguage, getLocalizedStageMessage } from '../i18n/statusI18n.js';
 import { enforceMessageLimits } from '../validation/index.js';
 
@@ -41,6 +43,7 @@ export interface ChatRouteOptions {
   sessionStore: ISessionStore;
   agentRunner: AgentRunner | null;
   runStore?: RunStore;
+  usageLedger?: IUsageLedger;
 }
 
 export async function chatRoutes(
@@ -51,6 +54,7 @@ export async function chatRoutes(
     sessionStore: options.sessionStore,
     agentRunner: options.agentRunner,
     runStore: options.runStore,
+    usageLedger: options.usageLedger,
   };
 
   fastify.post<{
@@ -193,9 +197,12 @@ export async function chatRoutes(
   });
 
   fastify.get('/v1/health',async (request: FastifyRequest, reply: FastifyReply) => {
+    // Upstream circuit breakers (oauth, mcp, openai); an open circuit reports 'degraded'
+    const upstreams = getCircuitBreakerMetrics();
     return reply.send({
-      status: 'ok',
+      status: upstreams.some((upstream) => upstream.state === 'open') ? 'degraded' : 'ok',
       timestamp: new Date().toISOString(),
+      upstreams,
     });
   });
 
@@ -203,7 +210,7 @@ export async function chatRoutes(
     Body: ChatRequestBody;
     Querystring: ChatRouteQuery;
   }>('/v1/chat/stream', {
-    preHandler: [simpleAuthMiddleware, chatRateLimitMiddleware],
+    preHandler: [simpleAuthMiddleware, chatRateLimitMiddleware, streamConcurrencyMiddleware],
   }, async (request: FastifyRequest<{ Body: ChatRequestBody; Querystring: ChatRouteQuery }>, reply: FastifyReply) => {
     let sseInitialized = false;
     // Pass origin header to SSE writer for CORS headers (writeHead bypasses Fastify's CORS middleware)
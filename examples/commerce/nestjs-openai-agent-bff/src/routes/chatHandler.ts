@@ -7,16 +7,31 @@ import { config } from '../config.js';
 import type { ChatResponse, ToolTraceItem, ProductCard, PendingActionInfo, CartSummary, ChoiceSet, ConfirmationBlock } from '../http/responseTypes.js';
 import { safeParseChatResponse } from '../http/chatResponseSchema.js';
 import { AppError, mapError } from '../errors/index.js';
-import { MAX_LAST_RESULTS } from '../agent/referenceResolver.js';
+import { MAX_LAST_RESULTS, resolveCandidate } from '../agent/referenceResolver.js';
 import type { RunStore, RunRecord, ToolTraceItem as RunToolTraceItem, RunRoute } from '../debug/index.js';
 import { dropOrSummarizeContext, sanitizeToolArgs, capString, sanitizeErrorDetails } from '../debug/index.js';
 import { isAffirmation, isRejection, buildConfirmationMessage } from '../agent/confirmation.js';
-import { buildConfirmationBlock, buildLocalizedConfirmationText, buildLocalizedPendingActionReminder, getLocalizedCancelledMessage, getLocalizedCompletedMessage } from '../i18n/index.js';
+import { buildConfirmationBlock, buildLocalizedConfirmationText, buildLocalizedPendingActionReminder, getLocalizedBudgetExceededMessage, getLocalizedCancelledMessage, getLocalizedCompletedMessage, getLocalizedSearchOnlyMessage } from '../i18n/index.js';
 import { Tool } from '../agent/tools.js';
 import { normalizeCartResult, normalizedCartToSummary, normalizedCartToState, cartStateToSummary, NormalizedCart } from '../agent/cart/cartHandlers.js';
 import type { VariantAvailabilitySummary, ProductGetOnHand } from '../agent/product/index.js';
 import { deriveAvailabilityFromOnHand } from '../agent/normalize.js';
 import { createVariantChoiceSet, createActiveChoiceSet } from '../http/choiceTypes.js';
+import {
+  CassetteRecorder,
+  CassettePlayer,
+  runWithCassette,
+  saveCassette,
+  CASSETTE_VERSION,
+  type Cassette,
+} from '../debug/index.js';
+import { InMemorySessionStore } from '../session/InMemorySessionStore.js';
+import { addTurnToSessionUsage, getTurnUsage, type ApplicationUsage, type IUsageLedger, type SessionUsage, type TurnUsage } from '../usage/index.js';
+import { evaluateBudget, getBudgetLimits } from '../policy/budgetPolicy.js';
+import { collectMcpSessionRecoveries, type McpSessionRecovery } from '../norce/mcpSessionRecovery.js';
+import pino from 'pino';
+
+const usageLogger = pino({ name: 'usage' });
 
 /**
  * Validates a ChatResponse object against the canonical schema.
@@ -108,6 +123,8 @@ export interface ChatHandlerDependencies {
   sessionStore: ISessionStore;
   agentRunner: AgentRunner | null;
   runStore?: RunStore;
+  /** Per-applicationId usage totals (token and cost accounting) */
+  usageLedger?: IUsageLedger;
 }
 
 /**
@@ -384,7 +401,8 @@ function buildChatResponse(
   pendingAction?: PendingAction,
   cartSummary?: CartSummary,
   choices?: ChoiceSet,
-  cultureCode?: string
+  cultureCode?: string,
+  sessionUsage?: SessionUsage
 ): ChatResponse {
   const response: ChatResponse = {
     turnId,
@@ -415,7 +433,7 @@ function buildChatResponse(
   // Include pendingAction info if there's a pending cart mutation (only if status is 'pending')
   if (pendingAction && pendingAction.status === 'pending') {
     // Use localized text for the confirmation prompt
-    const localizedPrompt = buildLocalizedConfirmationText(pendingAction.kind, pendingAction.args, cultureCode);
+    const localizedPrompt = buildLocalizedConfirmationText(pendingAction.kind, pendingAction.args, cultureCode, pendingAction.displayName);
     
     // Override the text field with the localized prompt when there's a pending action
     response.text = localizedPrompt;
@@ -432,7 +450,8 @@ function buildChatResponse(
       pendingAction.id,
       pendingAction.kind,
       pendingAction.args,
-      cultureCode
+      cultureCode,
+      pendingAction.displayName
     );
   }
 
@@ -462,12 +481,22 @@ function buildChatResponse(
         querySimplification: entry.querySimplification,
         availabilityCounts: entry.availabilityCounts,
         thumbnailsPresentCount: entry.thumbnailsPresentCount,
+        mcpSessionRecoveries: entry.mcpSessionRecoveries,
+        cache: entry.cache,
       })),
     };
 
     if (result.compareDebug) {
       (response.debug as Record<string, unknown>).compare = result.compareDebug;
     }
+
+    if (result.compaction) {
+      response.debug.compaction = result.compaction;
+    }
+
+    if (result.usage) {
+      response.debug.usage = { turn: result.usage, session: sessionUsage };
+    }
   }
 
   return response;
@@ -477,8 +506,29 @@ export interface RunTracer {
   runId: string;
   startTime: number;
   toolTrace: RunToolTraceItem[];
-  currentToolStart?: number;
-  currentToolArgs?: Record<string, unknown>;
+  /**
+   * Started tools awaiting their tool_end, oldest first. Read-only tools can
+   * start together, and their tool_end events arrive in the same order.
+   */
+  pendingTools: Array<{ startedAt: number; args: Record<string, unknown> }>;
+  /** Cassette file written for this run (record mode only) */
+  cassetteFile?: string;
+}
+
+/**
+ * Add a finished tool call to the run trace, pairing it with the oldest started tool.
+ * Tools that end without a start (e.g. unknown tools) are traced at the current time.
+ */
+function recordToolEnd(tracer: RunTracer, tool: string, ok: boolean, error?: string): void {
+  const started = tracer.pendingTools.shift();
+  tracer.toolTrace.push({
+    t: (started?.startedAt ?? Date.now()) - tracer.startTime,
+    tool,
+    args: sanitizeToolArgs(started?.args ?? {}),
+    outcome: ok ? 'ok' : 'error',
+    errorMessage: error ? capString(error, 200) : undefined,
+    durationMs: started ? Date.now() - started.startedAt : undefined,
+  });
 }
 
 export function createRunTracer(runId: string): RunTracer {
@@ -486,6 +536,7 @@ export function createRunTracer(runId: string): RunTracer {
     runId,
     startTime: Date.now(),
     toolTrace: [],
+    pendingTools: [],
   };
 }
 
@@ -527,19 +578,226 @@ export function buildRunRecord(
     openaiTrace: {
       rounds: roundsUsed,
       model,
+      ...(result.agentResult?.usage && {
+        tokens: {
+          input: result.agentResult.usage.promptTokens,
+          output: result.agentResult.usage.completionTokens,
+          cached: result.agentResult.usage.cachedTokens,
+        },
+        costUsd: result.agentResult.usage.costUsd,
+      }),
     },
     errors: errors?.map(e => ({
       category: e.category,
       message: capString(e.message, 200),
       details: sanitizeErrorDetails(e.details),
     })),
+    cassetteFile: tracer.cassetteFile,
   };
 }
 
+const cassetteLogger = pino({ name: 'cassette' });
+const fallbackLogger = pino({ name: 'searchFallback' });
+
+/**
+ * Whether an error means the LLM is unavailable (OpenAI errors and timeouts, or its open circuit).
+ * These turns can be answered with the search-only fallback.
+ */
+function isLlmUnavailable(error: AppError): boolean {
+  if (error.category === 'OPENAI') {
+    return true;
+  }
+  return error.code === 'UPSTREAM_CIRCUIT_OPEN' && error.details?.upstream === 'openai';
+}
+
+const SESSION_LOCK_POLL_MS = 100;
+
+const lockLogger = pino({ name: 'sessionLock' });
+
+function sessionLockTtlMs(): number {
+  return config.session.lock?.ttlMs ?? 120000;
+}
+
+/**
+ * Take the session's turn lock. With SESSION_LOCK_MODE=queue, polls until the
+ * running turn releases it or SESSION_LOCK_WAIT_MS passes.
+ *
+ * @returns The lock token, or null if the session stayed busy
+ */
+async function acquireSessionLock(sessionStore: ISessionStore, sessionKey: string): Promise<string | null> {
+  const lockConfig = config.session.lock;
+  const ttlMs = sessionLockTtlMs();
+  const deadline = Date.now() + (lockConfig?.mode === 'queue' ? lockConfig.waitMs : 0);
+
+  for (;;) {
+    const token = await sessionStore.acquireLock(sessionKey, ttlMs);
+    if (token || Date.now() >= deadline) {
+      return token;
+    }
+    await new Promise((resolve) => setTimeout(resolve, SESSION_LOCK_POLL_MS));
+  }
+}
+
+/**
+ * Renew the session lock every third of its lease while a turn runs, so turns
+ * longer than SESSION_LOCK_TTL_MS keep the lock. The lease stays short, so the
+ * lock of an instance that dies mid-turn still frees up quickly.
+ *
+ * @returns Stops the renewal
+ */
+function keepSessionLock(sessionStore: ISessionStore, sessionKey: string, token: string): () => void {
+  const ttlMs = sessionLockTtlMs();
+  const timer = setInterval(() => {
+    sessionStore.renewLock(sessionKey, token, ttlMs).then((renewed) => {
+      if (!renewed) {
+        lockLogger.warn({ sessionKey }, 'Session lock lease was lost before the turn ended');
+      }
+    }).catch((error: unknown) => {
+      lockLogger.warn(
+        { sessionKey, error: error instanceof Error ? error.message : String(error) },
+        'Failed to renew the session lock'
+      );
+    });
+  }, Math.max(1, Math.floor(ttlMs / 3)));
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Handle one chat turn.
+ *
+ * Turns of one session run one at a time: while a turn holds the session lock,
+ * another message gets SESSION_BUSY (or waits, with SESSION_LOCK_MODE=queue).
+ * The lock's lease is renewed for as long as the turn runs.
+ *
+ * When DEBUG_RUNS_CASSETTE_MODE=record and the run is traced, all raw
+ * OpenAI and MCP traffic of the turn is captured into a cassette file
+ * named after the runId (see replayChatFromCassette).
+ */
 export async function handleChat(
   input: HandleChatInput,
   deps: ChatHandlerDependencies,
   tracer?: RunTracer
+): Promise<HandleChatResult> {
+  const sessionKey = `${input.applicationId}:${input.sessionId}`;
+  const lockToken = await acquireSessionLock(deps.sessionStore, sessionKey);
+  if (!lockToken) {
+    const turnId = crypto.randomUUID();
+    const appError = AppError.sessionBusy();
+    const response: ChatResponse = {
+      turnId,
+      sessionId: input.sessionId,
+      text: appError.safeMessage,
+    };
+    return {
+      httpStatus: appError.httpStatus,
+      body: validateAndSanitizeResponse(response, turnId, input.sessionId),
+      error: appError,
+    };
+  }
+
+  const stopRenewal = keepSessionLock(deps.sessionStore, sessionKey, lockToken);
+  try {
+    if (!tracer || config.debugRuns?.cassetteMode !== 'record') {
+      return await runChatTurn(input, deps, tracer);
+    }
+    return await recordChatTurn(input, deps, tracer);
+  } finally {
+    stopRenewal();
+    await deps.sessionStore.releaseLock(sessionKey, lockToken);
+  }
+}
+
+/**
+ * Run a chat turn while recording its OpenAI and MCP traffic into a cassette.
+ */
+async function recordChatTurn(
+  input: HandleChatInput,
+  deps: ChatHandlerDependencies,
+  tracer: RunTracer
+): Promise<HandleChatResult> {
+  const initialSession = await deps.sessionStore.get(`${input.applicationId}:${input.sessionId}`);
+  const recorder = new CassetteRecorder();
+  const result = await runWithCassette({ recorder }, () => runChatTurn(input, deps, tracer));
+
+  const cassette: Cassette = {
+    version: CASSETTE_VERSION,
+    runId: tracer.runId,
+    recordedAt: new Date(tracer.startTime).toISOString(),
+    applicationId: input.applicationId,
+    sessionId: input.sessionId,
+    request: {
+      message: input.message,
+      context: input.context as Record<string, unknown>,
+      statusLang: input.statusLang,
+    },
+    initialSession: initialSession ?? null,
+    interactions: recorder.interactions,
+  };
+
+  try {
+    tracer.cassetteFile = await saveCassette(config.debugRuns.cassetteDir, cassette);
+  } catch (error) {
+    // Recording is best-effort and must never fail the chat turn
+    cassetteLogger.error({ runId: tracer.runId, error: error instanceof Error ? error.message : String(error) }, 'Failed to save cassette');
+  }
+
+  return result;
+}
+
+export interface CassetteReplayResult {
+  result: HandleChatResult;
+  /** Recorded interactions that were not requested during replay */
+  unusedInteractions: number;
+}
+
+/**
+ * Replay a recorded run offline.
+ *
+ * The run is executed against a fresh in-memory session seeded with the
+ * cassette's initial session state; OpenAI and MCP calls are served from
+ * the cassette instead of the network. Divergence from the recording
+ * surfaces as a CassetteMismatchError (mapped like any upstream error).
+ *
+ * @param cassette - Cassette loaded with loadCassette
+ * @param agentRunner - Agent runner built with the real OpenAiClient and tool handlers
+ * @param callbacks - Optional streaming callbacks
+ */
+export async function replayChatFromCassette(
+  cassette: Cassette,
+  agentRunner: AgentRunner,
+  callbacks?: StreamingCallbacks
+): Promise<CassetteReplayResult> {
+  const sessionStore = new InMemorySessionStore({ ttlSeconds: 3600 });
+  try {
+    if (cassette.initialSession) {
+      await sessionStore.set(`${cassette.applicationId}:${cassette.sessionId}`, cassette.initialSession as SessionState);
+    }
+
+    const player = new CassettePlayer(cassette.interactions);
+    const result = await runWithCassette({ player }, () => runChatTurn(
+      {
+        applicationId: cassette.applicationId,
+        sessionId: cassette.sessionId,
+        message: cassette.request.message,
+        context: (cassette.request.context ?? {}) as ToolContext,
+        debugEnabled: true,
+        callbacks,
+        statusLang: cassette.request.statusLang,
+      },
+      { sessionStore, agentRunner }
+    ));
+
+    return { result, unusedInteractions: player.remaining() };
+  } finally {
+    sessionStore.destroy();
+  }
+}
+
+async function runChatTurn(
+  input: HandleChatInput,
+  deps: ChatHandlerDependencies,
+  tracer?: RunTracer
 ): Promise<HandleChatResult> {
   const { applicationId, sessionId, message, context, debugEnabled = false, callbacks, statusLang } = input;
   const { sessionStore, agentRunner } = deps;
@@ -576,6 +834,14 @@ export async function handleChat(
     context,
   };
 
+  // Saves fail with SessionVersionConflictError if another turn saved the session meanwhile
+  // (captured as a number: the in-memory store hands out the stored object itself)
+  let sessionVersion = sessionData.version ?? 0;
+  const saveSession = async (): Promise<void> => {
+    await sessionStore.set(sessionKey, sessionData, { expectedVersion: sessionVersion });
+    sessionVersion = sessionData.version ?? sessionVersion + 1;
+  };
+
   sessionData.context = context;
 
   // Inject basketId from session into context for cart operations
@@ -596,7 +862,7 @@ export async function handleChat(
       // Action was already processed - do NOT re-execute (idempotency)
       sessionData.updatedAt = Date.now();
       sessionData.expiresAt = Date.now() + ttlMs;
-      await sessionStore.set(sessionKey, sessionData);
+      await saveSession();
       
       // Build response with cart summary if available
       const cartSummary = sessionData.cartState ? cartStateToSummary(sessionData.cartState) : undefined;
@@ -620,13 +886,13 @@ export async function handleChat(
     // Only process pending actions that are still in 'pending' status
     if (pendingAction.status === 'pending' && isAffirmation(message)) {
       // User confirmed - execute the pending action
-      const tool = agentRunner.getTools().get(pendingAction.kind);
+      const tool = agentRunner.getTool(pendingAction.kind, applicationId);
       if (!tool) {
         // Clear pending action and return error
         sessionData.pendingAction = undefined;
         sessionData.updatedAt = Date.now();
         sessionData.expiresAt = Date.now() + ttlMs;
-        await sessionStore.set(sessionKey, sessionData);
+        await saveSession();
         
         const response: ChatResponse = {
           turnId,
@@ -640,6 +906,8 @@ export async function handleChat(
       }
 
       // Execute the pending action (consume-once)
+      // Session recoveries are collected in place, so they are traced on failure too
+      const sessionRecoveries: McpSessionRecovery[] = [];
       const toolTrace: ToolTraceEntry[] = [{
         tool: pendingAction.kind,
         args: pendingAction.args,
@@ -647,10 +915,15 @@ export async function handleChat(
       }];
 
       try {
-        callbacks?.onToolStart?.(pendingAction.kind, getToolDisplayName(pendingAction.kind), pendingAction.args);
-        const result = await tool.execute(pendingAction.args, sessionData.mcp, enrichedContext, applicationId);
+        callbacks?.onToolStart?.(pendingAction.kind, getToolDisplayName(pendingAction.kind, tool), pendingAction.args);
+        const result = await collectMcpSessionRecoveries(sessionRecoveries, () =>
+          tool.execute(pendingAction.args, sessionData.mcp, enrichedContext, applicationId)
+        );
         toolTrace[0].result = result;
-        callbacks?.onToolEnd?.(pendingAction.kind, getToolDisplayName(pendingAction.kind), true, result);
+        if (sessionRecoveries.length > 0) {
+          toolTrace[0].mcpSessionRecoveries = sessionRecoveries;
+        }
+        callbacks?.onToolEnd?.(pendingAction.kind, getToolDisplayName(pendingAction.kind, tool), true, result);
 
         // After cart mutation, refresh cart state via cart.get
         // This ensures we have the most up-to-date cart state after any mutation
@@ -731,7 +1004,7 @@ export async function handleChat(
           content: getLocalizedCompletedMessage(context.cultureCode),
         });
 
-        await sessionStore.set(sessionKey, sessionData);
+        await saveSession();
 
         const response: ChatResponse = {
           turnId,
@@ -755,6 +1028,7 @@ export async function handleChat(
               effectiveContext: entry.effectiveContext,
               modelContextIgnored: entry.modelContextIgnored,
               modelProvidedContextPreview: entry.modelProvidedContextPreview,
+              mcpSessionRecoveries: entry.mcpSessionRecoveries,
             })),
           };
         }
@@ -766,13 +1040,16 @@ export async function handleChat(
       }catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         toolTrace[0].error = errorMessage;
-        callbacks?.onToolEnd?.(pendingAction.kind, getToolDisplayName(pendingAction.kind), false, undefined, errorMessage);
+        if (sessionRecoveries.length > 0) {
+          toolTrace[0].mcpSessionRecoveries = sessionRecoveries;
+        }
+        callbacks?.onToolEnd?.(pendingAction.kind, getToolDisplayName(pendingAction.kind, tool), false, undefined, errorMessage);
 
         // Clear pending action after failed execution
         sessionData.pendingAction = undefined;
         sessionData.updatedAt = Date.now();
         sessionData.expiresAt = Date.now() + ttlMs;
-        await sessionStore.set(sessionKey, sessionData);
+        await saveSession();
 
         const response: ChatResponse = {
           turnId,
@@ -791,6 +1068,7 @@ export async function handleChat(
               effectiveContext: entry.effectiveContext,
               modelContextIgnored: entry.modelContextIgnored,
               modelProvidedContextPreview: entry.modelProvidedContextPreview,
+              mcpSessionRecoveries: entry.mcpSessionRecoveries,
             })),
           };
         }
@@ -816,7 +1094,7 @@ export async function handleChat(
         content: getLocalizedCancelledMessage(context.cultureCode),
       });
 
-      await sessionStore.set(sessionKey, sessionData);
+      await saveSession();
 
       const response: ChatResponse = {
         turnId,
@@ -832,23 +1110,24 @@ export async function handleChat(
       // Don't clear the pending action, just remind them
       sessionData.updatedAt = Date.now();
       sessionData.expiresAt = Date.now() + ttlMs;
-      await sessionStore.set(sessionKey, sessionData);
+      await saveSession();
 
       const response: ChatResponse = {
         turnId,
         sessionId,
-        text: buildLocalizedPendingActionReminder(pendingAction.kind, pendingAction.args, context.cultureCode),
+        text: buildLocalizedPendingActionReminder(pendingAction.kind, pendingAction.args, context.cultureCode, pendingAction.displayName),
         pendingAction: {
           pendingActionId: pendingAction.id,
           tool: pendingAction.kind,
-          description: buildLocalizedConfirmationText(pendingAction.kind, pendingAction.args, context.cultureCode),
+          description: buildLocalizedConfirmationText(pendingAction.kind, pendingAction.args, context.cultureCode, pendingAction.displayName),
           createdAt: new Date(pendingAction.createdAt).toISOString(),
         },
         confirmation: buildConfirmationBlock(
           pendingAction.id,
           pendingAction.kind,
           pendingAction.args,
-          context.cultureCode
+          context.cultureCode,
+          pendingAction.displayName
         ),
       };
 
@@ -861,74 +1140,244 @@ export async function handleChat(
     // fall through to normal agent processing
   }
 
+  // Token and spend budgets: soft budgets switch to a cheaper model, hard budgets reject the turn
+  let dailyUsage: ApplicationUsage | null | undefined;
+  try {
+    dailyUsage = await deps.usageLedger?.get(applicationId);
+  } catch (error) {
+    // Like the rate limiters, fail open: session budgets still apply
+    usageLogger.warn({
+      event: 'usage_ledger_unavailable',
+      applicationId,
+      sessionId,
+      turnId,
+      error: error instanceof Error ? error.message : String(error),
+    }, 'Usage ledger unavailable, skipping daily budgets');
+  }
+  const budget = evaluateBudget(
+    { session: sessionData.usage, daily: dailyUsage },
+    getBudgetLimits(applicationId)
+  );
+  if (budget.breach) {
+    usageLogger[budget.status === 'hard_exceeded' ? 'warn' : 'info']({
+      event: 'budget_exceeded',
+      applicationId,
+      sessionId,
+      turnId,
+      status: budget.status,
+      ...budget.breach,
+      model: budget.model,
+    }, 'Budget exceeded');
+  }
+  if (budget.status === 'hard_exceeded' && budget.breach) {
+    const appError = AppError.budgetExceeded(
+      getLocalizedBudgetExceededMessage(budget.breach.scope, context.cultureCode),
+      { ...budget.breach }
+    );
+    const response: ChatResponse = {
+      turnId,
+      sessionId,
+      text: appError.safeMessage,
+    };
+    return {
+      httpStatus: appError.httpStatus,
+      body: validateAndSanitizeResponse(response, turnId, sessionId),
+      error: appError,
+    };
+  }
+
   const wrappedCallbacks: StreamingCallbacks | undefined = callbacks ? {
     onStatus: callbacks.onStatus,
     onDevStatus: callbacks.onDevStatus,
     onToolStart: (tool, displayName, args) => {
-      if (tracer) {
-        tracer.currentToolStart = Date.now();
-        tracer.currentToolArgs = typeof args === 'object' && args !== null ? args as Record<string, unknown> : {};
-      }
+      tracer?.pendingTools.push({
+        startedAt: Date.now(),
+        args: typeof args === 'object' && args !== null ? args as Record<string, unknown> : {},
+      });
       callbacks.onToolStart?.(tool, displayName, args);
     },
     onToolEnd: (tool, displayName, ok, resultSummary, error) => {
       if (tracer) {
-        const t = tracer.currentToolStart ? tracer.currentToolStart - tracer.startTime : Date.now() - tracer.startTime;
-        const durationMs = tracer.currentToolStart ? Date.now() - tracer.currentToolStart : undefined;
-        tracer.toolTrace.push({
-          t,
-          tool,
-          args: sanitizeToolArgs(tracer.currentToolArgs ?? {}),
-          outcome: ok ? 'ok' : 'error',
-          errorMessage: error ? capString(error, 200) : undefined,
-          durationMs,
-        });
-        tracer.currentToolStart = undefined;
-        tracer.currentToolArgs = undefined;
+        recordToolEnd(tracer, tool, ok, error);
       }
       callbacks.onToolEnd?.(tool, displayName, ok, resultSummary, error);
     },
     onDelta: callbacks.onDelta,
   } : tracer ? {
     onToolStart: (tool, _displayName, args) => {
-      tracer.currentToolStart = Date.now();
-      tracer.currentToolArgs = typeof args === 'object' && args !== null ? args as Record<string, unknown> : {};
+      tracer.pendingTools.push({
+        startedAt: Date.now(),
+        args: typeof args === 'object' && args !== null ? args as Record<string, unknown> : {},
+      });
     },
     onToolEnd: (tool, _displayName, ok, resultSummary, error) => {
-      const t = tracer.currentToolStart ? tracer.currentToolStart - tracer.startTime : Date.now() - tracer.startTime;
-      const durationMs = tracer.currentToolStart ? Date.now() - tracer.currentToolStart : undefined;
-      tracer.toolTrace.push({
-        t,
-        tool,
-        args: sanitizeToolArgs(tracer.currentToolArgs ?? {}),
-        outcome: ok ? 'ok' : 'error',
-        errorMessage: error ? capString(error, 200) : undefined,
-        durationMs,
-      });
-      tracer.currentToolStart = undefined;
-      tracer.currentToolArgs = undefined;
+      recordToolEnd(tracer, tool, ok, error);
     },
   } : undefined;
 
-  const result = await agentRunner.runAgentTurn(
-    message,
-    sessionData.conversation as ConversationMessage[],
-    sessionData.mcp,
-    enrichedContext,
-    wrappedCallbacks,
-    sessionData.workingMemory,
-    applicationId,
-    statusLang
-  );
+  // Token and cost accounting per session and per applicationId
+  const recordTurnUsage = async (usage: TurnUsage, outcome: 'completed' | 'fallback' | 'failed'): Promise<void> => {
+    sessionData.usage = addTurnToSessionUsage(sessionData.usage, usage);
+    try {
+      await deps.usageLedger?.record(applicationId, sessionId, usage);
+    } catch (error) {
+      // The llm_usage event below still carries the turn for reporting
+      usageLogger.warn({
+        event: 'usage_ledger_unavailable',
+        applicationId,
+        sessionId,
+        turnId,
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Failed to record turn usage in the ledger');
+    }
+    usageLogger.info({
+      event: 'llm_usage',
+      applicationId,
+      sessionId,
+      turnId,
+      outcome,
+      llmCalls: usage.calls.length,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedTokens: usage.cachedTokens,
+      totalTokens: usage.totalTokens,
+      costUsd: usage.costUsd,
+      sessionCostUsd: sessionData.usage.costUsd,
+    }, 'Turn usage');
+  };
+
+  // A failed turn can leave partial messages in the conversation; the search-only fallback restores this copy
+  const conversationBeforeTurn = [...sessionData.conversation];
+  let result: AgentTurnResult;
+  try {
+    result = await agentRunner.runAgentTurn(
+      message,
+      sessionData.conversation as ConversationMessage[],
+      sessionData.mcp,
+      enrichedContext,
+      wrappedCallbacks,
+      sessionData.workingMemory,
+      applicationId,
+      statusLang,
+      { model: budget.model, maxRounds: budget.maxRounds }
+    );
+  } catch (error) {
+    const appError = mapError(error);
+    const failedUsage = getTurnUsage(error);
+    // Keep the spend of calls made before the failure; the conversation goes back to before the turn
+    const saveFailedTurnUsage = async (): Promise<void> => {
+      if (!failedUsage) {
+        return;
+      }
+      await recordTurnUsage(failedUsage, 'failed');
+      sessionData.conversation = conversationBeforeTurn;
+      sessionData.updatedAt = Date.now();
+      sessionData.expiresAt = Date.now() + ttlMs;
+      try {
+        await saveSession();
+      } catch (saveError) {
+        usageLogger.warn({
+          event: 'llm_usage_save_failed',
+          applicationId,
+          sessionId,
+          turnId,
+          error: saveError instanceof Error ? saveError.message : String(saveError),
+        }, 'Failed to save the usage of a failed turn');
+      }
+    };
+
+    // References to earlier results ("add option 2 to cart") need the model; searching for them would mislead
+    if (!isLlmUnavailable(appError)
+      || !(config.agent?.searchFallbackEnabled ?? true)
+      || resolveCandidate(message, sessionData.workingMemory)) {
+      await saveFailedTurnUsage();
+      throw error;
+    }
+
+    let fallbackResult: AgentTurnResult | undefined;
+    try {
+      fallbackResult = await agentRunner.runSearchOnlyTurn(
+        message,
+        sessionData.mcp,
+        enrichedContext,
+        wrappedCallbacks,
+        applicationId,
+        statusLang
+      );
+    } catch (searchError) {
+      fallbackLogger.warn({
+        event: 'search_only_fallback_failed',
+        applicationId,
+        sessionId,
+        turnId,
+        code: appError.code,
+        error: searchError instanceof Error ? searchError.message : String(searchError),
+      }, 'Search-only fallback failed');
+    }
+    if (!fallbackResult) {
+      await saveFailedTurnUsage();
+      throw error;
+    }
+
+    fallbackLogger.warn({
+      event: 'search_only_fallback',
+      applicationId,
+      sessionId,
+      turnId,
+      code: appError.code,
+      resultCount: fallbackResult.searchCandidates.length,
+    }, 'LLM unavailable, answered with search results');
+
+    const query = fallbackResult.toolTrace[0]?.querySimplification?.effectiveQuery
+      ?? String(fallbackResult.toolTrace[0]?.args.query ?? '');
+    const hasResults = fallbackResult.collectedCards.length > 0 || fallbackResult.searchCandidates.length > 0;
+    fallbackResult.message = getLocalizedSearchOnlyMessage(query, hasResults, context.cultureCode);
+
+    sessionData.conversation = conversationBeforeTurn;
+    sessionData.conversation.push({ role: 'user', content: message });
+    sessionData.conversation.push({ role: 'assistant', content: fallbackResult.message });
+    updateWorkingMemory(sessionData, fallbackResult);
+    if (failedUsage) {
+      await recordTurnUsage(failedUsage, 'fallback');
+      fallbackResult.usage = failedUsage;
+    }
+    sessionData.updatedAt = Date.now();
+    sessionData.expiresAt = Date.now() + ttlMs;
+    await saveSession();
+
+    const response = buildChatResponse(
+      turnId,
+      sessionId,
+      fallbackResult,
+      sessionData.workingMemory?.searchCandidates ?? [],
+      debugEnabled,
+      sessionData.pendingAction,
+      sessionData.cartState ? cartStateToSummary(sessionData.cartState) : undefined,
+      undefined,
+      context.cultureCode,
+      sessionData.usage
+    );
+    response.degraded = true;
+
+    return {
+      httpStatus: 200,
+      body: validateAndSanitizeResponse(response, turnId, sessionId),
+      agentResult: fallbackResult,
+    };
+  }
 
   updateWorkingMemory(sessionData, result);
 
   // If the agent returned a blocked cart mutation, store it as pendingAction
   if (result.blockedCartMutation) {
+    const { kind } = result.blockedCartMutation;
+    const blockedTool = agentRunner.getTool(kind, applicationId);
     sessionData.pendingAction = {
       id: crypto.randomUUID(),
-      kind: result.blockedCartMutation.kind,
+      kind,
       args: result.blockedCartMutation.args,
+      // Registered tools are confirmed by display name; cart mutations have their own prompts
+      displayName: blockedTool?.displayName,
       createdAt: Date.now(),
       status: 'pending',
     };
@@ -968,10 +1417,14 @@ export async function handleChat(
     cartSummary = cartStateToSummary(sessionData.cartState);
   }
 
+  if (result.usage) {
+    await recordTurnUsage(result.usage, 'completed');
+  }
+
   sessionData.updatedAt = Date.now();
   sessionData.expiresAt = Date.now() + ttlMs;
 
-  await sessionStore.set(sessionKey, sessionData);
+  await saveSession();
 
   const response = buildChatResponse(
     turnId,
@@ -982,7 +1435,8 @@ export async function handleChat(
     sessionData.pendingAction,
     cartSummary,
     choiceSet,
-    context.cultureCode
+    context.cultureCode,
+    sessionData.usage
   );
 
   return {
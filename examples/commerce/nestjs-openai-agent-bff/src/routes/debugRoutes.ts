@@ -1,11 +1,13 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import type { RunStore } from '../debug/index.js';
+import { cassettePath, loadCassette, type Cassette, type RunStore } from '../debug/index.js';
 import { ISessionStore } from '../session/ISessionStore.js';
 import { AgentRunner } from '../agent/agentRunner.js';
+import type { IUsageLedger } from '../usage/index.js';
 import { config } from '../config.js';
 import {
   handleChat,
+  replayChatFromCassette,
   createRunTracer,
   buildRunRecord,
   ChatHandlerDependencies,
@@ -15,6 +17,7 @@ export interface DebugRouteOptions {
   runStore: RunStore;
   sessionStore: ISessionStore;
   agentRunner: AgentRunner | null;
+  usageLedger?: IUsageLedger;
 }
 
 const listRunsQuerySchema = z.object({
@@ -23,6 +26,11 @@ const listRunsQuerySchema = z.object({
   sessionId: z.string().optional(),
 });
 
+const usageQuerySchema = z.object({
+  applicationId: z.string().optional(),
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
 const replayBodySchema = z.object({
   message: z.string().optional(),
   context: z.object({
@@ -33,20 +41,43 @@ const replayBodySchema = z.object({
     customerId: z.number().optional(),
     companyId: z.number().optional(),
   }).optional(),
+  cassette: z.boolean().optional(),
 });
 
 export async function debugRoutes(
   fastify: FastifyInstance,
   options: DebugRouteOptions
 ) {
-  const { runStore, sessionStore, agentRunner } = options;
+  const { runStore, sessionStore, agentRunner, usageLedger } = options;
 
   const deps: ChatHandlerDependencies = {
     sessionStore,
     agentRunner,
     runStore,
+    usageLedger,
   };
 
+  fastify.get<{
+    Querystring: { applicationId?: string; day?: string };
+  }>('/v1/debug/usage', async (request: FastifyRequest<{ Querystring: { applicationId?: string; day?: string } }>, reply: FastifyReply) => {
+    const parsed = usageQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: {
+          category: 'VALIDATION',
+          code: 'VALIDATION_REQUEST_INVALID',
+          message: 'day must be formatted as YYYY-MM-DD',
+        },
+      });
+    }
+
+    const usage = await usageLedger?.list(parsed.data) ?? [];
+    return reply.send({
+      usage,
+      total: usage.length,
+    });
+  });
+
   fastify.get<{
     Querystring: { limit?: string; applicationId?: string; sessionId?: string };
   }>('/v1/debug/runs', async (request: FastifyRequest<{ Querystring: { limit?: string; applicationId?: string; sessionId?: string } }>, reply: FastifyReply) => {
@@ -108,11 +139,46 @@ export async function debugRoutes(
 
   fastify.post<{
     Params: { runId: string };
-    Body: { message?: string; context?: Record<string, unknown> };
-  }>('/v1/debug/replay/:runId', async (request: FastifyRequest<{ Params: { runId: string }; Body: { message?: string; context?: Record<string, unknown> } }>, reply: FastifyReply) => {
+    Body: { message?: string; context?: Record<string, unknown>; cassette?: boolean };
+  }>('/v1/debug/replay/:runId', async (request: FastifyRequest<{ Params: { runId: string }; Body: { message?: string; context?: Record<string, unknown>; cassette?: boolean } }>, reply: FastifyReply) => {
     try {
       const { runId } = request.params;
-      
+      const body = replayBodySchema.parse(request.body ?? {});
+
+      // Offline replay from a recorded cassette: no OpenAI or MCP calls are made
+      if (body.cassette) {
+        if (!agentRunner) {
+          return reply.status(503).send({
+            error: {
+              category: 'INTERNAL',
+              code: 'AGENT_UNAVAILABLE',
+              message: 'Cassette replay requires a configured agent runner',
+            },
+          });
+        }
+
+        let cassette: Cassette;
+        try {
+          cassette = await loadCassette(cassettePath(config.debugRuns.cassetteDir, runId));
+        } catch {
+          return reply.status(404).send({
+            error: {
+              category: 'NOT_FOUND',
+              code: 'CASSETTE_NOT_FOUND',
+              message: `Cassette for run '${runId}' not found`,
+            },
+          });
+        }
+
+        const { result, unusedInteractions } = await replayChatFromCassette(cassette, agentRunner);
+        return reply.send({
+          originalRunId: runId,
+          replayedFrom: 'cassette',
+          unusedInteractions,
+          result: result.body,
+        });
+      }
+
       const originalRun = runStore.getRun(runId);
       
       if (!originalRun) {
@@ -125,8 +191,6 @@ export async function debugRoutes(
         });
       }
 
-      const body = replayBodySchema.parse(request.body ?? {});
-
       const message = body.message ?? originalRun.request.message;
       const context = body.context ?? originalRun.request.contextSummary ?? {};
 
@@ -2,17 +2,45 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import { config } from './config.js';
 import { createSessionStore, destroySessionStore } from './session/sessionStoreFactory.js';
+import { createToolCache } from './cache/index.js';
 import { NorceTokenProvider } from './norce/NorceTokenProvider.js';
+import { createSharedTokenStore } from './norce/tokenStoreFactory.js';
 import { NorceMcpClient } from './norce/NorceMcpClient.js';
 import { createTools } from './agent/tools.js';
+import { ToolRegistry } from './agent/toolRegistry.js';
+import { registerDynamicTools } from './agent/mcpTools/index.js';
+import { createMcpPromptSource, createStoreReferenceTool } from './agent/mcpContent/index.js';
+import { createGetProductsBatch, type ToolHandlerDependencies } from './agent/toolHandlers.js';
 import { AgentRunner } from './agent/agentRunner.js';
 import { chatRoutes } from './routes/chat.js';
 import { debugRoutes } from './routes/debugRoutes.js';
 import { simpleTokenRoutes } from './routes/simpleTokenRoute.js';
 import { RunStore } from './debug/index.js';
+import { createUsageLedger } from './usage/index.js';
 import { simpleAuthConfig } from './config/simpleAuthConfig.js';
+import { rateLimitConfig } from './config/rateLimitConfig.js';
+import { closeRateLimiters, loadTenantPolicies } from './policy/index.js';
 
-export async function buildServer() {
+/**
+ * Options for building the server.
+ */
+export interface BuildServerOptions {
+  /**
+   * Register custom tools next to the built-in tools.
+   * The dependencies are the same Norce token provider and MCP client the built-in tools use.
+   */
+  registerTools?: (registry: ToolRegistry, deps: ToolHandlerDependencies) => void;
+}
+
+function hasDailyBudgets(): boolean {
+  const limits = [config.budget.defaults, ...Object.values(config.budget.overrides ?? {})];
+  return limits.some((entry) => entry.dailySoftTokens !== undefined
+    || entry.dailyHardTokens !== undefined
+    || entry.dailySoftUsd !== undefined
+    || entry.dailyHardUsd !== undefined);
+}
+
+export async function buildServer(options: BuildServerOptions = {}) {
   const fastify = Fastify({
     logger: {
       level: config.debug ? 'debug' : 'info',
@@ -42,7 +70,7 @@ export async function buildServer() {
     credentials: false,
   });
 
-  // Initialize session store (memory or redis based on config)
+  // Initialize session store (memory, redis or sqlite based on config)
   const { store: sessionStore, type: sessionStoreType } = await createSessionStore();
   fastify.log.info(`Session store initialized: ${sessionStoreType}`);
 
@@ -52,21 +80,74 @@ export async function buildServer() {
     fastify.log.info('Session store destroyed');
   });
   
+  // OAuth tokens are per process, or shared by all instances (NORCE_TOKEN_CACHE=redis)
+  const { store: sharedTokenStore, type: tokenCacheType } = await createSharedTokenStore();
+  fastify.log.info(`Token cache: ${tokenCacheType}`);
+  if (sharedTokenStore) {
+    fastify.addHook('onClose', async () => {
+      await sharedTokenStore.close();
+    });
+  }
+
   const tokenProvider = new NorceTokenProvider({
     clientId: config.norce.oauth.clientId,
     clientSecret: config.norce.oauth.clientSecret,
     tokenUrl: config.norce.oauth.tokenUrl,
     scope: config.norce.oauth.scope,
+    sharedStore: sharedTokenStore,
+    refreshAheadMs: config.norce.oauth.refreshAheadSeconds * 1000,
+    clockSkewMs: config.norce.oauth.clockSkewSeconds * 1000,
+    lockWaitMs: config.norce.oauth.lockWaitMs,
   });
   
   const mcpClient = new NorceMcpClient({
     baseUrl: config.norce.mcp.baseUrl,
+    tokenRefresher: tokenProvider,
   });
 
-  const tools = createTools({ tokenProvider, mcpClient });
+  // Shared product.search/product.get result cache (TOOL_CACHE=off|memory|redis)
+  const { cache: toolCache, type: toolCacheType } = await createToolCache();
+  fastify.log.info(`Tool result cache: ${toolCacheType}`);
+  if (toolCache) {
+    fastify.addHook('onClose', async () => {
+      await toolCache.close();
+    });
+  }
+
+  const toolDeps: ToolHandlerDependencies = { tokenProvider, mcpClient, toolCache };
+  const toolRegistry = new ToolRegistry(createTools(toolDeps));
+
+  // Tenant content from MCP prompts and resources (both optional)
+  const mcpContent = config.norce.mcp.content;
+  const mcpContentCacheTtlMs = (mcpContent?.cacheTtlSeconds ?? 300) * 1000;
+  if (mcpContent?.referenceToolEnabled) {
+    toolRegistry.add(createStoreReferenceTool(toolDeps, { cacheTtlMs: mcpContentCacheTtlMs }));
+  }
+
+  options.registerTools?.(toolRegistry, toolDeps);
+
+  // Opt-in: expose MCP tools/list results as agent tools (after host tools, which win on name clashes)
+  const dynamicTools = config.norce.mcp.dynamicTools;
+  if (dynamicTools?.enabled) {
+    if (!dynamicTools.applicationId) {
+      fastify.log.warn('Dynamic MCP tools enabled but no applicationId is configured - skipping tools/list');
+    } else {
+      try {
+        const registered = await registerDynamicTools(toolRegistry, toolDeps, dynamicTools.applicationId, dynamicTools);
+        fastify.log.info(`Dynamic MCP tools registered: ${registered.join(', ') || '(none)'}`);
+      } catch (error) {
+        // The built-in tools still work without the MCP tool list
+        fastify.log.warn({ err: error }, 'Failed to load dynamic MCP tools - continuing with built-in tools');
+      }
+    }
+  }
   
   const agentRunner = new AgentRunner({
-    tools,
+    tools: toolRegistry.getTools(),
+    systemPromptSource: mcpContent?.systemPrompts.length
+      ? createMcpPromptSource(toolDeps, { promptNames: mcpContent.systemPrompts, cacheTtlMs: mcpContentCacheTtlMs })
+      : undefined,
+    getProductsBatch: createGetProductsBatch(toolDeps),
   });
 
   // Initialize RunStore for debug runs (only when enabled)
@@ -77,11 +158,20 @@ export async function buildServer() {
       })
     : undefined;
 
+  // Per-applicationId token and cost totals, per process or shared by all instances (USAGE_LEDGER_STORE=redis)
+  const { ledger: usageLedger, type: usageLedgerType, close: closeUsageLedger } = await createUsageLedger();
+  fastify.log.info(`Usage ledger: ${usageLedgerType}`);
+  fastify.addHook('onClose', closeUsageLedger);
+  if (usageLedgerType === 'memory' && hasDailyBudgets()) {
+    fastify.log.warn('Daily budgets use the in-process usage ledger: each instance counts only its own traffic and resets on restart. Set USAGE_LEDGER_STORE=redis to share them.');
+  }
+
   // Register routes
   await fastify.register(chatRoutes, {
     sessionStore,
     agentRunner,
     runStore,
+    usageLedger,
   });
 
   // Register debug routes only when enabled
@@ -90,6 +180,7 @@ export async function buildServer() {
       runStore,
       sessionStore,
       agentRunner,
+      usageLedger,
     });
     fastify.log.info('Debug runs enabled - debug routes registered at /v1/debug/*');
   }
@@ -98,13 +189,29 @@ export async function buildServer() {
   if (simpleAuthConfig.enabled) {
     await fastify.register(simpleTokenRoutes);
     fastify.log.info('Simple Auth enabled - token route registered at POST /v1/auth/simple/token');
+    fastify.log.info(
+      rateLimitConfig.store === 'redis'
+        ? `Rate limiter: redis (${rateLimitConfig.algorithm})`
+        : 'Rate limiter: memory (fixed-window)'
+    );
   }
 
+  // Tenant quota tiers (TENANT_POLICIES_PATH); an invalid file fails startup
+  loadTenantPolicies();
+  if (rateLimitConfig.tenantPoliciesPath) {
+    fastify.log.info(`Tenant policies loaded from ${rateLimitConfig.tenantPoliciesPath}`);
+  }
+
+  // Rate limiters are created when the routes are imported; close their timers and Redis connections
+  fastify.addHook('onClose', async () => {
+    await closeRateLimiters();
+  });
+
   return fastify;
 }
 
-export async function startServer() {
-  const fastify = await buildServer();
+export async function startServer(options: BuildServerOptions = {}) {
+  const fastify = await buildServer(options);
 
   try {
     await fastify.listen({
@@ -1,9 +1,30 @@
 import { SessionState } from './sessionTypes.js';
 
+export interface SessionSetOptions {
+  /**
+   * Version the caller loaded (0 for a new session). The save fails with
+   * SessionVersionConflictError if the stored session has moved on since.
+   */
+  expectedVersion?: number;
+}
+
 export interface ISessionStore {
   get(key: string): Promise<SessionState | null>;
-  set(key: string, state: SessionState): Promise<void>;
+  /** Save the session and increment `state.version` */
+  set(key: string, state: SessionState, options?: SessionSetOptions): Promise<void>;
   delete(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
   touch(key: string): Promise<boolean>;
+  /**
+   * Take the per-session turn lock for `ttlMs` (the lease expires if the holder dies).
+   * @returns A token for releaseLock, or null if another turn holds the lock
+   */
+  acquireLock(key: string, ttlMs: number): Promise<string | null>;
+  /**
+   * Extend the lease to `ttlMs` from now while `token` still holds the lock.
+   * @returns false if the lease already expired or another turn holds the lock
+   */
+  renewLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+  /** Release the lock if `token` still holds it */
+  releaseLock(key: string, token: string): Promise<void>;
 }
@@ -1,5 +1,8 @@
-import { ISessionStore } from './ISessionStore.js';
+import { randomUUID } from 'node:crypto';
+import { ISessionStore, SessionSetOptions } from './ISessionStore.js';
 import { SessionState } from './sessionTypes.js';
+import { SessionVersionConflictError } from './SessionVersionConflictError.js';
+import { SESSION_SCHEMA_VERSION } from './sessionSchema.js';
 
 export interface InMemorySessionStoreOptions {
   ttlSeconds: number;
@@ -8,11 +11,13 @@ export interface InMemorySessionStoreOptions {
 
 export class InMemorySessionStore implements ISessionStore {
   private sessions: Map<string, SessionState>;
+  private locks: Map<string, { token: string; expiresAt: number }>;
   private readonly ttlMs: number;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(options: InMemorySessionStoreOptions) {
     this.sessions = new Map();
+    this.locks = new Map();
     this.ttlMs = options.ttlSeconds * 1000;
 
     const cleanupIntervalMs = (options.cleanupIntervalSeconds ?? 60) * 1000;
@@ -34,7 +39,16 @@ export class InMemorySessionStore implements ISessionStore {
     return state;
   }
 
-  async set(key: string, state: SessionState): Promise<void> {
+  async set(key: string, state: SessionState, options?: SessionSetOptions): Promise<void> {
+    if (options?.expectedVersion !== undefined) {
+      const stored = await this.get(key);
+      const actualVersion = stored?.version ?? 0;
+      if (actualVersion !== options.expectedVersion) {
+        throw new SessionVersionConflictError(key, options.expectedVersion, actualVersion);
+      }
+    }
+    state.version = (options?.expectedVersion ?? state.version ?? 0) + 1;
+    state.schemaVersion = SESSION_SCHEMA_VERSION;
     this.sessions.set(key, state);
   }
 
@@ -64,6 +78,34 @@ export class InMemorySessionStore implements ISessionStore {
     return true;
   }
 
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const now = Date.now();
+    const lock = this.locks.get(key);
+    if (lock && now < lock.expiresAt) {
+      return null;
+    }
+
+    const token = randomUUID();
+    this.locks.set(key, { token, expiresAt: now + ttlMs });
+    return token;
+  }
+
+  async renewLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lock = this.locks.get(key);
+    if (lock?.token !== token || now >= lock.expiresAt) {
+      return false;
+    }
+    lock.expiresAt = now + ttlMs;
+    return true;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
+  }
+
   private cleanup(): void {
     const now = Date.now();
     for (const [key, state] of this.sessions) {
@@ -71,6 +113,11 @@ export class InMemorySessionStore implements ISessionStore {
         this.sessions.delete(key);
       }
     }
+    for (const [key, lock] of this.locks) {
+      if (now >= lock.expiresAt) {
+        this.locks.delete(key);
+      }
+    }
   }
 
   destroy(): void {
@@ -79,5 +126,6 @@ export class InMemorySessionStore implements ISessionStore {
       this.cleanupTimer = null;
     }
     this.sessions.clear();
+    this.locks.clear();
   }
 }
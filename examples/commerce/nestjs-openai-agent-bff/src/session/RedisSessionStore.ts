@@ -1,6 +1,61 @@
+import { randomUUID } from 'node:crypto';
 import { Redis } from 'ioredis';
-import { ISessionStore } from './ISessionStore.js';
+import { ISessionStore, SessionSetOptions } from './ISessionStore.js';
 import { SessionState } from './sessionTypes.js';
+import { SessionVersionConflictError } from './SessionVersionConflictError.js';
+import { SESSION_SCHEMA_VERSION, readStoredSession } from './sessionSchema.js';
+
+/**
+ * ARGV: expected version, serialized session, ttl seconds.
+ * Returns: {1} when saved, {0, stored version} on conflict.
+ * Sessions are serialized with `version` first so it can be read without decoding the JSON.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local current = 0
+if raw then
+  current = tonumber(string.match(raw, '^{"version":(%d+)')) or 0
+end
+if current ~= tonumber(ARGV[1]) then
+  return {0, current}
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', tonumber(ARGV[3]))
+return {1}
+`;
+
+/**
+ * ARGV: session JSON as read, refreshed session JSON, ttl seconds.
+ * Writes only if the session is unchanged since it was read, so a touch never
+ * overwrites a concurrent save. Returns 1 when written.
+ */
+const TOUCH_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', tonumber(ARGV[3]))
+return 1
+`;
+
+/**
+ * Extends the lease only while the lock still holds the caller's token.
+ */
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Deletes the lock only while it still holds the caller's token,
+ * so a turn whose lease expired cannot release the next turn's lock.
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
 
 export interface RedisSessionStoreOptions {
   redisUrl: string;
@@ -36,6 +91,10 @@ export class RedisSessionStore implements ISessionStore {
     return `${this.prefix}${key}`;
   }
 
+  private getLockKey(key: string): string {
+    return `${this.prefix}lock:${key}`;
+  }
+
   async get(key: string): Promise<SessionState | null> {
     const fullKey = this.getFullKey(key);
     try {
@@ -44,21 +103,16 @@ export class RedisSessionStore implements ISessionStore {
         return null;
       }
 
-      try {
-        const session = JSON.parse(raw) as SessionState;
-        if (Date.now() >= session.expiresAt) {
-          await this.delete(key);
-          return null;
-        }
-        return session;
-      } catch (parseError) {
-        console.error(
-          `[RedisSessionStore] Failed to parse session for key ${fullKey}, deleting poisoned entry:`,
-          parseError instanceof Error ? parseError.message : parseError
-        );
+      const session = readStoredSession(raw, key, 'redis');
+      if (!session) {
         await this.redis.del(fullKey);
         return null;
       }
+      if (Date.now() >= session.expiresAt) {
+        await this.delete(key);
+        return null;
+      }
+      return session;
     } catch (error) {
       console.error(
         `[RedisSessionStore] Failed to get session for key ${fullKey}:`,
@@ -68,12 +122,33 @@ export class RedisSessionStore implements ISessionStore {
     }
   }
 
-  async set(key: string, state: SessionState): Promise<void> {
+  async set(key: string, state: SessionState, options?: SessionSetOptions): Promise<void> {
     const fullKey = this.getFullKey(key);
+    const { version: _previousVersion, ...rest } = state;
+    const version = (options?.expectedVersion ?? state.version ?? 0) + 1;
     try {
-      const serialized = JSON.stringify(state);
-      await this.redis.set(fullKey, serialized, 'EX', this.ttlSeconds);
+      const serialized = JSON.stringify({ version, ...rest, schemaVersion: SESSION_SCHEMA_VERSION });
+      if (options?.expectedVersion === undefined) {
+        await this.redis.set(fullKey, serialized, 'EX', this.ttlSeconds);
+      } else {
+        const [saved, actualVersion] = (await this.redis.eval(
+          COMPARE_AND_SET_SCRIPT,
+          1,
+          fullKey,
+          options.expectedVersion,
+          serialized,
+          this.ttlSeconds
+        )) as number[];
+        if (saved !== 1) {
+          throw new SessionVersionConflictError(key, options.expectedVersion, actualVersion);
+        }
+      }
+      state.version = version;
+      state.schemaVersion = SESSION_SCHEMA_VERSION;
     } catch (error) {
+      if (error instanceof SessionVersionConflictError) {
+        throw error;
+      }
       console.error(
         `[RedisSessionStore] Failed to set session for key ${fullKey}:`,
         error instanceof Error ? error.message : error
@@ -113,19 +188,30 @@ export class RedisSessionStore implements ISessionStore {
     }
   }
 
+  /**
+   * Extend the session's expiry without bumping its version. If another write lands
+   * between the read and the update, that write already extended the expiry and wins.
+   */
   async touch(key: string): Promise<boolean> {
     const fullKey = this.getFullKey(key);
     try {
-      const session = await this.get(key);
-      if (!session) {
+      const raw = await this.redis.get(fullKey);
+      const session = raw ? readStoredSession(raw, key, 'redis') : null;
+      const now = Date.now();
+      if (!raw || !session || now >= session.expiresAt) {
         return false;
       }
 
-      const now = Date.now();
-      session.updatedAt = now;
-      session.expiresAt = now + this.ttlSeconds * 1000;
-      await this.set(key, session);
-      return true;
+      const { version, ...rest } = session;
+      const refreshed = JSON.stringify({
+        version: version ?? 0,
+        ...rest,
+        updatedAt: now,
+        expiresAt: now + this.ttlSeconds * 1000,
+        schemaVersion: SESSION_SCHEMA_VERSION,
+      });
+      const written = await this.redis.eval(TOUCH_SCRIPT, 1, fullKey, raw, refreshed, this.ttlSeconds);
+      return written === 1 || (await this.redis.exists(fullKey)) === 1;
     } catch (error) {
       console.error(
         `[RedisSessionStore] Failed to touch session for key ${fullKey}:`,
@@ -135,6 +221,29 @@ export class RedisSessionStore implements ISessionStore {
     }
   }
 
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const result = await this.redis.set(this.getLockKey(key), token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : null;
+  }
+
+  async renewLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.eval(RENEW_LOCK_SCRIPT, 1, this.getLockKey(key), token, ttlMs);
+    return result === 1;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, this.getLockKey(key), token);
+    } catch (error) {
+      // The lease expires on its own; a failed release only delays the next turn
+      console.error(
+        `[RedisSessionStore] Failed to release lock for key ${this.getLockKey(key)}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
   async disconnect(): Promise<void> {
     try {
       await this.redis.quit();
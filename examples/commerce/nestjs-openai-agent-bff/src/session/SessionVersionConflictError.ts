@@ -0,0 +1,14 @@
+/**
+ * Thrown when a session save finds a newer version than the one the turn loaded,
+ * i.e. another turn saved the session in between and this save would lose its update.
+ */
+export class SessionVersionConflictError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`Session ${key} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`);
+    this.name = 'SessionVersionConflictError';
+  }
+}
@@ -0,0 +1,172 @@
+import { randomUUID } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { ISessionStore, SessionSetOptions } from './ISessionStore.js';
+import { SessionState } from './sessionTypes.js';
+import { SessionVersionConflictError } from './SessionVersionConflictError.js';
+import { SESSION_SCHEMA_VERSION, readStoredSession } from './sessionSchema.js';
+
+export interface SqliteSessionStoreOptions {
+  /** Database file (created if missing), or ':memory:' */
+  path: string;
+  ttlSeconds: number;
+  cleanupIntervalSeconds?: number;
+}
+
+interface SessionRow {
+  data: string;
+  version: number;
+  expires_at: number;
+}
+
+/**
+ * Session store in a local SQLite database, so sessions survive restarts without Redis.
+ *
+ * The database runs in WAL mode; several processes on one host may share the file.
+ * Expired sessions and locks are swept periodically and ignored until then.
+ */
+export class SqliteSessionStore implements ISessionStore {
+  private readonly db: Database.Database;
+  private readonly ttlMs: number;
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: SqliteSessionStoreOptions) {
+    this.db = new Database(options.path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at);
+      CREATE TABLE IF NOT EXISTS session_locks (
+        key TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `);
+    this.ttlMs = options.ttlSeconds * 1000;
+
+    const cleanupIntervalMs = (options.cleanupIntervalSeconds ?? 60) * 1000;
+    this.cleanupTimer = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  private readRow(key: string): SessionRow | undefined {
+    const row = this.db
+      .prepare('SELECT data, version, expires_at FROM sessions WHERE key = ?')
+      .get(key) as SessionRow | undefined;
+    if (row && Date.now() >= row.expires_at) {
+      this.db.prepare('DELETE FROM sessions WHERE key = ?').run(key);
+      return undefined;
+    }
+    return row;
+  }
+
+  async get(key: string): Promise<SessionState | null> {
+    const row = this.readRow(key);
+    if (!row) {
+      return null;
+    }
+
+    const session = readStoredSession(row.data, key, 'sqlite');
+    if (!session) {
+      await this.delete(key);
+    }
+    return session;
+  }
+
+  async set(key: string, state: SessionState, options?: SessionSetOptions): Promise<void> {
+    const { version: _previousVersion, ...rest } = state;
+    const version = (options?.expectedVersion ?? state.version ?? 0) + 1;
+
+    const save = this.db.transaction(() => {
+      if (options?.expectedVersion !== undefined) {
+        const actualVersion = this.readRow(key)?.version ?? 0;
+        if (actualVersion !== options.expectedVersion) {
+          throw new SessionVersionConflictError(key, options.expectedVersion, actualVersion);
+        }
+      }
+      this.db
+        .prepare(
+          `INSERT INTO sessions (key, data, version, expires_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (key) DO UPDATE SET data = excluded.data, version = excluded.version, expires_at = excluded.expires_at`
+        )
+        .run(key, JSON.stringify({ version, ...rest, schemaVersion: SESSION_SCHEMA_VERSION }), version, state.expiresAt);
+    });
+    save.immediate();
+    state.version = version;
+    state.schemaVersion = SESSION_SCHEMA_VERSION;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE key = ?').run(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.readRow(key) !== undefined;
+  }
+
+  async touch(key: string): Promise<boolean> {
+    const session = await this.get(key);
+    if (!session) {
+      return false;
+    }
+
+    const now = Date.now();
+    session.updatedAt = now;
+    session.expiresAt = now + this.ttlMs;
+    this.db
+      .prepare('UPDATE sessions SET data = ?, expires_at = ? WHERE key = ?')
+      .run(JSON.stringify(session), session.expiresAt, key);
+    return true;
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const now = Date.now();
+    const result = this.db
+      .prepare(
+        `INSERT INTO session_locks (key, token, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET token = excluded.token, expires_at = excluded.expires_at
+         WHERE session_locks.expires_at <= ?`
+      )
+      .run(key, token, now + ttlMs, now);
+    return result.changes === 1 ? token : null;
+  }
+
+  async renewLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const result = this.db
+      .prepare('UPDATE session_locks SET expires_at = ? WHERE key = ? AND token = ? AND expires_at > ?')
+      .run(now + ttlMs, key, token, now);
+    return result.changes === 1;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    this.db.prepare('DELETE FROM session_locks WHERE key = ? AND token = ?').run(key, token);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    try {
+      this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+      this.db.prepare('DELETE FROM session_locks WHERE expires_at <= ?').run(now);
+    } catch (error) {
+      console.error(
+        '[SqliteSessionStore] Failed to sweep expired sessions:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.db.close();
+  }
+}
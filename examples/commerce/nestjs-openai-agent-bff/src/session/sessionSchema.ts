@@ -0,0 +1,164 @@
+/**
+ * Stored session schema versions and migrations.
+ *
+ * Sessions in Redis or SQLite outlive the deploy that wrote them. Every stored
+ * session carries a `schemaVersion`; on read it is validated against the zod
+ * schema of that version and migrated step by step to SESSION_SCHEMA_VERSION.
+ *
+ * To change the stored shape: add a schema for the new version, a migration
+ * from the previous one, and bump SESSION_SCHEMA_VERSION.
+ *
+ * Versions:
+ * - 1: sessions written before schemaVersion existed (no `schemaVersion` field)
+ * - 2: same shape, with `schemaVersion`
+ */
+
+import { z } from 'zod';
+import pino from 'pino';
+import { choiceKindSchema } from '../http/choiceTypes.js';
+import type { SessionState } from './sessionTypes.js';
+
+const logger = pino({ name: 'sessionSchema' });
+
+/** Schema version written by this deploy */
+export const SESSION_SCHEMA_VERSION = 2;
+
+const mcpStateSchema = z.looseObject({
+  sessionId: z.string().optional(),
+  nextRpcId: z.number().int().nonnegative(),
+  protocolVersion: z.string().optional(),
+});
+
+const workingMemorySchema = z.looseObject({
+  lastResults: z.array(z.looseObject({ index: z.number().int(), productId: z.string() })).optional(),
+  shortlist: z.array(z.looseObject({ productId: z.string() })).optional(),
+  searchCandidates: z.array(z.looseObject({ productId: z.string() })).optional(),
+  variantChoices: z.array(z.looseObject({ index: z.number().int(), variantProductId: z.string() })).optional(),
+  variantChoicesParentProductId: z.string().optional(),
+  activeChoiceSet: z.looseObject({
+    id: z.string(),
+    kind: choiceKindSchema,
+    options: z.array(z.looseObject({ id: z.string(), label: z.string() })),
+    createdAt: z.number(),
+  }).optional(),
+});
+
+/**
+ * Version 1: no schemaVersion.
+ */
+const sessionStateV1Schema = z.looseObject({
+  conversation: z.array(z.unknown()),
+  mcp: mcpStateSchema,
+  updatedAt: z.number(),
+  expiresAt: z.number(),
+  context: z.looseObject({}).optional(),
+  workingMemory: workingMemorySchema.optional(),
+  pendingAction: z.looseObject({
+    id: z.string(),
+    kind: z.string(),
+    args: z.record(z.string(), z.unknown()),
+    createdAt: z.number(),
+    status: z.enum(['pending', 'consumed', 'cancelled']),
+  }).optional(),
+  cartState: z.looseObject({
+    basketId: z.string().optional(),
+    itemCount: z.number(),
+    items: z.array(z.looseObject({ productId: z.string(), quantity: z.number() })),
+  }).optional(),
+  usage: z.looseObject({}).optional(),
+  version: z.number().int().nonnegative().optional(),
+});
+
+const sessionStateV2Schema = sessionStateV1Schema.extend({
+  schemaVersion: z.literal(2),
+});
+
+const sessionSchemas: Record<number, z.ZodType<Record<string, unknown>>> = {
+  1: sessionStateV1Schema,
+  2: sessionStateV2Schema,
+};
+
+/**
+ * migrations[n] turns a valid version n session into a version n + 1 session.
+ */
+const migrations: Record<number, (session: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (session) => ({ ...session, schemaVersion: 2 }),
+};
+
+export type SessionDecodeResult =
+  | { ok: true; state: SessionState; migratedFrom?: number }
+  | { ok: false; reason: 'invalid_json' | 'unknown_schema_version' | 'invalid_session'; schemaVersion?: unknown; issues?: string };
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.slice(0, 5).map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+}
+
+/**
+ * Validate a stored session and migrate it to SESSION_SCHEMA_VERSION.
+ *
+ * @param raw - Session JSON as stored
+ */
+export function decodeSession(raw: string): SessionDecodeResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: 'invalid_json' };
+  }
+
+  const schemaVersion =
+    parsed !== null && typeof parsed === 'object' && 'schemaVersion' in parsed
+      ? (parsed as { schemaVersion: unknown }).schemaVersion
+      : 1;
+  if (typeof schemaVersion !== 'number' || !sessionSchemas[schemaVersion]) {
+    return { ok: false, reason: 'unknown_schema_version', schemaVersion };
+  }
+
+  const stored = sessionSchemas[schemaVersion].safeParse(parsed);
+  if (!stored.success) {
+    return { ok: false, reason: 'invalid_session', schemaVersion, issues: describeIssues(stored.error) };
+  }
+
+  let session = stored.data;
+  for (let version = schemaVersion; version < SESSION_SCHEMA_VERSION; version++) {
+    session = migrations[version](session);
+  }
+
+  const current = sessionSchemas[SESSION_SCHEMA_VERSION].safeParse(session);
+  if (!current.success) {
+    return { ok: false, reason: 'invalid_session', schemaVersion, issues: describeIssues(current.error) };
+  }
+
+  return {
+    ok: true,
+    state: current.data as unknown as SessionState,
+    ...(schemaVersion !== SESSION_SCHEMA_VERSION && { migratedFrom: schemaVersion }),
+  };
+}
+
+/**
+ * Decode a stored session, logging migrations and discarded sessions.
+ * The caller deletes the entry when null is returned.
+ *
+ * @param raw - Session JSON as stored
+ * @param key - Session key (`applicationId:sessionId`), for the log
+ * @param store - Store name, for the log
+ */
+export function readStoredSession(raw: string, key: string, store: string): SessionState | null {
+  const result = decodeSession(raw);
+  if (!result.ok) {
+    logger.warn(
+      { event: 'session_discarded', store, key, reason: result.reason, schemaVersion: result.schemaVersion, issues: result.issues },
+      'Discarded unreadable stored session'
+    );
+    return null;
+  }
+
+  if (result.migratedFrom !== undefined) {
+    logger.info(
+      { event: 'session_migrated', store, key, fromVersion: result.migratedFrom, toVersion: SESSION_SCHEMA_VERSION },
+      'Migrated stored session'
+    );
+  }
+  return result.state;
+}
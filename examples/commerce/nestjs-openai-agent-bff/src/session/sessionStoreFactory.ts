@@ -1,13 +1,16 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
 import { config } from '../config.js';
 import { ISessionStore } from './ISessionStore.js';
 import { InMemorySessionStore } from './InMemorySessionStore.js';
 import { RedisSessionStore } from './RedisSessionStore.js';
+import { SqliteSessionStore } from './SqliteSessionStore.js';
 
 let sessionStoreInstance: ISessionStore | null = null;
 
 export interface SessionStoreFactoryResult {
   store: ISessionStore;
-  type: 'memory' | 'redis';
+  type: 'memory' | 'redis' | 'sqlite';
 }
 
 export async function createSessionStore(): Promise<SessionStoreFactoryResult> {
@@ -52,6 +55,25 @@ export async function createSessionStore(): Promise<SessionStoreFactoryResult> {
     };
   }
 
+  if (storeType === 'sqlite') {
+    const sqlitePath = config.session.sqlite.path;
+    if (sqlitePath !== ':memory:') {
+      mkdirSync(dirname(sqlitePath), { recursive: true });
+    }
+
+    const sqliteStore = new SqliteSessionStore({
+      path: sqlitePath,
+      ttlSeconds,
+    });
+
+    console.log(`[SessionStore] Using SQLite session store (${sqlitePath})`);
+    sessionStoreInstance = sqliteStore;
+    return {
+      store: sqliteStore,
+      type: 'sqlite',
+    };
+  }
+
   console.log('[SessionStore] Using in-memory session store');
   const memoryStore = new InMemorySessionStore({
     ttlSeconds,
@@ -79,6 +101,8 @@ export async function destroySessionStore(): Promise<void> {
 
   if (sessionStoreInstance instanceof RedisSessionStore) {
     await sessionStoreInstance.disconnect();
+  } else if (sessionStoreInstance instanceof SqliteSessionStore) {
+    sessionStoreInstance.close();
   } else if (sessionStoreInstance instanceof InMemorySessionStore) {
     sessionStoreInstance.destroy();
   }
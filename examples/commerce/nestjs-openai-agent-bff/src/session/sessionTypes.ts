@@ -1,8 +1,14 @@
 import type { ActiveChoiceSet } from '../http/choiceTypes.js';
+import type { SessionUsage } from '../usage/usageTypes.js';
+import type { McpServerCapabilities } from '../norce/mcpCapabilities.js';
 
 export interface McpState {
   sessionId?: string;
   nextRpcId: number;
+  /** Protocol version negotiated in initialize */
+  protocolVersion?: string;
+  /** Capabilities the server advertised in initialize (see mcpServerSupports) */
+  serverCapabilities?: McpServerCapabilities;
 }
 
 export type { ActiveChoiceSet };
@@ -149,6 +155,12 @@ export interface WorkingMemory {
  */
 export type CartMutationKind = 'cart_add_item' | 'cart_set_item_quantity' | 'cart_remove_item';
 
+/**
+ * Tool name of a pending action: a cart mutation, or a registered tool
+ * that mutates state (see agent/toolRegistry.ts).
+ */
+export type PendingActionKind = CartMutationKind | (string & {});
+
 /**
  * Status of a pending action.
  * - pending: Action is awaiting user confirmation
@@ -210,7 +222,8 @@ export interface CartState {
 
 /**
  * Pending action awaiting user confirmation.
- * Used for cart mutations that require explicit user approval before execution.
+ * Used for cart mutations (and mutating registered tools) that require explicit
+ * user approval before execution.
  * 
  * Idempotency: Each pending action has a unique ID and status to ensure
  * that confirmations are processed exactly once. If a confirm request is
@@ -220,8 +233,10 @@ export interface CartState {
 export interface PendingAction {
   /** Unique identifier for this pending action (UUID) */
   id: string;
-  kind: CartMutationKind;
+  kind: PendingActionKind;
   args: Record<string, unknown>;
+  /** Display name of a registered tool, used in its confirmation prompt */
+  displayName?: string;
   createdAt: number;
   /** Status of the pending action for idempotency */
   status: PendingActionStatus;
@@ -238,4 +253,10 @@ export interface SessionState {
   workingMemory?: WorkingMemory;
   pendingAction?: PendingAction;
   cartState?: CartState;
+  /** Token and estimated cost totals across all turns of the session */
+  usage?: SessionUsage;
+  /** Incremented by the session store on every save (optimistic concurrency) */
+  version?: number;
+  /** Shape version of the stored session, set on save (see sessionSchema.ts) */
+  schemaVersion?: number;
 }
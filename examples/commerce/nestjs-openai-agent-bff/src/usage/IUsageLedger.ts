@@ -0,0 +1,14 @@
+import type { ApplicationUsage, TurnUsage } from './usageTypes.js';
+
+/**
+ * Usage totals per applicationId and UTC day, used for daily budgets and the debug usage route.
+ * The in-memory ledger answers synchronously; the Redis ledger asynchronously.
+ */
+export interface IUsageLedger {
+  /** Add a turn's usage to the applicationId's bucket for the day of `at` (defaults to now) */
+  record(applicationId: string, sessionId: string, turn: TurnUsage, at?: number): void | Promise<void>;
+  /** Get usage for one applicationId on one UTC day (defaults to today) */
+  get(applicationId: string, day?: string): ApplicationUsage | null | Promise<ApplicationUsage | null>;
+  /** List usage buckets, newest day first, optionally filtered */
+  list(options?: { applicationId?: string; day?: string }): ApplicationUsage[] | Promise<ApplicationUsage[]>;
+}
@@ -0,0 +1,152 @@
+import { Redis } from 'ioredis';
+import type { ApplicationUsage, TurnUsage } from './usageTypes.js';
+import type { IUsageLedger } from './IUsageLedger.js';
+import { DEFAULT_LEDGER_RETENTION_DAYS, compareApplicationUsage, toUtcDay } from './UsageLedger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COUNTER_FIELDS = ['turns', 'llmCalls', 'promptTokens', 'completionTokens', 'cachedTokens', 'totalTokens'] as const;
+
+export interface RedisUsageLedgerOptions {
+  redisUrl: string;
+  prefix?: string;
+  retentionDays?: number;
+}
+
+/**
+ * Redis-backed usage totals per applicationId and UTC day, shared by all BFF instances.
+ *
+ * Each bucket is a hash of counters incremented in one MULTI, plus a set of session ids,
+ * so daily budgets see the spend of every instance and survive restarts. Buckets expire
+ * `retentionDays` after their day starts.
+ */
+export class RedisUsageLedger implements IUsageLedger {
+  private readonly redis: Redis;
+  private readonly prefix: string;
+  private readonly retentionDays: number;
+
+  constructor(options: RedisUsageLedgerOptions) {
+    this.redis = new Redis(options.redisUrl, {
+      lazyConnect: false,
+      maxRetriesPerRequest: 1,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          return null;
+        }
+        return Math.min(times * 100, 3000);
+      },
+    });
+    this.prefix = options.prefix ?? 'agent:usage:';
+    this.retentionDays = options.retentionDays ?? DEFAULT_LEDGER_RETENTION_DAYS;
+
+    this.redis.on('error', (err: Error) => {
+      console.error('[RedisUsageLedger] Redis connection error:', err.message);
+    });
+  }
+
+  private getUsageKey(applicationId: string, day: string): string {
+    return `${this.prefix}usage:${day}:${applicationId}`;
+  }
+
+  private getSessionsKey(applicationId: string, day: string): string {
+    return `${this.prefix}sessions:${day}:${applicationId}`;
+  }
+
+  async record(applicationId: string, sessionId: string, turn: TurnUsage, at: number = Date.now()): Promise<void> {
+    const day = toUtcDay(at);
+    const usageKey = this.getUsageKey(applicationId, day);
+    const sessionsKey = this.getSessionsKey(applicationId, day);
+    const expiresAtSeconds = Math.ceil((Date.parse(day) + this.retentionDays * DAY_MS) / 1000);
+
+    await this.redis.multi()
+      .hset(usageKey, 'applicationId', applicationId, 'day', day)
+      .hincrby(usageKey, 'turns', 1)
+      .hincrby(usageKey, 'llmCalls', turn.calls.length)
+      .hincrby(usageKey, 'promptTokens', turn.promptTokens)
+      .hincrby(usageKey, 'completionTokens', turn.completionTokens)
+      .hincrby(usageKey, 'cachedTokens', turn.cachedTokens)
+      .hincrby(usageKey, 'totalTokens', turn.totalTokens)
+      .hincrbyfloat(usageKey, 'costUsd', turn.costUsd)
+      .sadd(sessionsKey, sessionId)
+      .expireat(usageKey, expiresAtSeconds)
+      .expireat(sessionsKey, expiresAtSeconds)
+      .exec();
+  }
+
+  async get(applicationId: string, day: string = toUtcDay(Date.now())): Promise<ApplicationUsage | null> {
+    const [fields, sessions] = await Promise.all([
+      this.redis.hgetall(this.getUsageKey(applicationId, day)),
+      this.redis.scard(this.getSessionsKey(applicationId, day)),
+    ]);
+    return toApplicationUsage(fields, sessions);
+  }
+
+  async list(options: { applicationId?: string; day?: string } = {}): Promise<ApplicationUsage[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${this.prefix}usage:${options.day ?? '*'}:*`,
+        'COUNT',
+        100
+      );
+      keys.push(...batch);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    const usage: ApplicationUsage[] = [];
+    for (const key of keys) {
+      const fields = await this.redis.hgetall(key);
+      if (!fields.applicationId || !fields.day) {
+        continue;
+      }
+      if (options.applicationId && fields.applicationId !== options.applicationId) {
+        continue;
+      }
+      const sessions = await this.redis.scard(this.getSessionsKey(fields.applicationId, fields.day));
+      const bucket = toApplicationUsage(fields, sessions);
+      if (bucket) {
+        usage.push(bucket);
+      }
+    }
+    return usage.sort(compareApplicationUsage);
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const result = await this.redis.ping();
+      return result === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.redis.quit();
+    } catch (error) {
+      console.error(
+        '[RedisUsageLedger] Failed to disconnect from Redis:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
+
+function toApplicationUsage(fields: Record<string, string>, sessions: number): ApplicationUsage | null {
+  if (!fields.applicationId || !fields.day) {
+    return null;
+  }
+  const counters = Object.fromEntries(
+    COUNTER_FIELDS.map((field) => [field, parseInt(fields[field] ?? '0', 10)])
+  ) as Record<(typeof COUNTER_FIELDS)[number], number>;
+  return {
+    applicationId: fields.applicationId,
+    day: fields.day,
+    ...counters,
+    costUsd: parseFloat(fields.costUsd ?? '0'),
+    sessions,
+  };
+}
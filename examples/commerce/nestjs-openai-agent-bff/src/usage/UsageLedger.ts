@@ -0,0 +1,105 @@
+import { sumTotals } from './UsageMeter.js';
+import type { ApplicationUsage, TurnUsage } from './usageTypes.js';
+import type { IUsageLedger } from './IUsageLedger.js';
+
+/**
+ * Default number of UTC days kept per applicationId.
+ */
+export const DEFAULT_LEDGER_RETENTION_DAYS = 31;
+
+export interface UsageLedgerOptions {
+  retentionDays?: number;
+}
+
+/**
+ * Format a timestamp as a UTC day (YYYY-MM-DD).
+ */
+export function toUtcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Sort order of ledger listings: newest day first, then by applicationId.
+ */
+export function compareApplicationUsage(a: ApplicationUsage, b: ApplicationUsage): number {
+  return b.day.localeCompare(a.day) || a.applicationId.localeCompare(b.applicationId);
+}
+
+interface LedgerBucket {
+  usage: ApplicationUsage;
+  sessionIds: Set<string>;
+}
+
+/**
+ * In-memory usage totals per applicationId and UTC day.
+ *
+ * Totals are per process: with several BFF instances each instance reports
+ * its own share, and totals reset on restart. Use RedisUsageLedger to share
+ * totals (and daily budgets) across instances. The per-turn `llm_usage` log
+ * event is the durable source for billing.
+ */
+export class UsageLedger implements IUsageLedger {
+  private readonly retentionDays: number;
+  private readonly buckets: Map<string, LedgerBucket> = new Map();
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.retentionDays = options.retentionDays ?? DEFAULT_LEDGER_RETENTION_DAYS;
+  }
+
+  /**
+   * Add a turn's usage to the applicationId's bucket for the given day.
+   */
+  record(applicationId: string, sessionId: string, turn: TurnUsage, at: number = Date.now()): void {
+    const day = toUtcDay(at);
+    const key = `${applicationId}|${day}`;
+    const bucket = this.buckets.get(key) ?? {
+      usage: {
+        applicationId,
+        day,
+        turns: 0,
+        llmCalls: 0,
+        sessions: 0,
+        ...sumTotals([]),
+      },
+      sessionIds: new Set<string>(),
+    };
+
+    bucket.sessionIds.add(sessionId);
+    bucket.usage = {
+      ...bucket.usage,
+      ...sumTotals([bucket.usage, turn]),
+      turns: bucket.usage.turns + 1,
+      llmCalls: bucket.usage.llmCalls + turn.calls.length,
+      sessions: bucket.sessionIds.size,
+    };
+    this.buckets.set(key, bucket);
+    this.prune(at);
+  }
+
+  /**
+   * Get usage for one applicationId on one UTC day (defaults to today).
+   */
+  get(applicationId: string, day: string = toUtcDay(Date.now())): ApplicationUsage | null {
+    return this.buckets.get(`${applicationId}|${day}`)?.usage ?? null;
+  }
+
+  /**
+   * List usage buckets, newest day first, optionally filtered.
+   */
+  list(options: { applicationId?: string; day?: string } = {}): ApplicationUsage[] {
+    return [...this.buckets.values()]
+      .map((bucket) => bucket.usage)
+      .filter((usage) => !options.applicationId || usage.applicationId === options.applicationId)
+      .filter((usage) => !options.day || usage.day === options.day)
+      .sort(compareApplicationUsage);
+  }
+
+  private prune(now: number): void {
+    const oldestKept = toUtcDay(now - (this.retentionDays - 1) * 24 * 60 * 60 * 1000);
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.usage.day < oldestKept) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
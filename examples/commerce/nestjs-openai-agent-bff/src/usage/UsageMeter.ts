@@ -0,0 +1,123 @@
+import type { LlmProvider, LlmUsage } from '../llm/llmTypes.js';
+import { estimateCostUsd } from './pricing.js';
+import type {
+  LlmCallPurpose,
+  LlmCallUsage,
+  SessionUsage,
+  TurnUsage,
+  UsageTotals,
+} from './usageTypes.js';
+
+/**
+ * Collects the usage of every LLM call made during one agent turn.
+ *
+ * A meter is created per turn, so it is safe to share the wrapped
+ * provider's underlying instance across concurrent requests.
+ */
+export class UsageMeter {
+  private readonly calls: LlmCallUsage[] = [];
+
+  /**
+   * Wrap a provider so each successful call is recorded under `purpose`.
+   * Calls whose response carries no usage are not recorded.
+   *
+   * @param provider - The provider to meter
+   * @param purpose - What the calls are made for
+   * @param fallbackModel - Model name used when neither the response nor the request names one
+   */
+  wrap(provider: LlmProvider, purpose: LlmCallPurpose, fallbackModel = 'unknown'): LlmProvider {
+    return {
+      name: provider.name,
+      runWithTools: async (options) => {
+        const response = await provider.runWithTools(options);
+        if (response.usage) {
+          this.record(purpose, response.model ?? options.model ?? fallbackModel, response.usage);
+        }
+        return response;
+      },
+    };
+  }
+
+  /**
+   * Record the usage of one LLM call.
+   */
+  record(purpose: LlmCallPurpose, model: string, usage: LlmUsage): void {
+    const costUsd = estimateCostUsd(model, usage);
+    this.calls.push({
+      purpose,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedTokens: usage.cachedTokens ?? 0,
+      totalTokens: usage.totalTokens,
+      costUsd: costUsd ?? 0,
+      priced: costUsd !== undefined,
+    });
+  }
+
+  /**
+   * Summarize the recorded calls.
+   *
+   * @returns Turn usage, or undefined when no call reported usage
+   */
+  summarize(): TurnUsage | undefined {
+    if (this.calls.length === 0) {
+      return undefined;
+    }
+    return {
+      calls: [...this.calls],
+      ...sumTotals(this.calls),
+    };
+  }
+}
+
+/**
+ * Add a turn's usage to the session totals.
+ *
+ * @param session - Existing session usage (undefined for the first metered turn)
+ * @param turn - Usage of the turn that just completed
+ * @returns New session usage
+ */
+export function addTurnToSessionUsage(session: SessionUsage | undefined, turn: TurnUsage): SessionUsage {
+  const totals = sumTotals(session ? [session, turn] : [turn]);
+  return {
+    ...totals,
+    turns: (session?.turns ?? 0) + 1,
+    llmCalls: (session?.llmCalls ?? 0) + turn.calls.length,
+  };
+}
+
+/**
+ * Sum token counts and cost over several usage aggregates.
+ */
+export function sumTotals(items: UsageTotals[]): UsageTotals {
+  return items.reduce<UsageTotals>(
+    (sum, item) => ({
+      promptTokens: sum.promptTokens + item.promptTokens,
+      completionTokens: sum.completionTokens + item.completionTokens,
+      cachedTokens: sum.cachedTokens + item.cachedTokens,
+      totalTokens: sum.totalTokens + item.totalTokens,
+      costUsd: sum.costUsd + item.costUsd,
+    }),
+    { promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0, costUsd: 0 }
+  );
+}
+
+const failedTurnUsage = new WeakMap<object, TurnUsage>();
+
+/**
+ * Attach the usage of a turn that threw to its error, so the caller can still
+ * account for the calls made before the failure.
+ */
+export function attachTurnUsage(error: unknown, usage: TurnUsage | undefined): void {
+  if (usage && typeof error === 'object' && error !== null) {
+    failedTurnUsage.set(error, usage);
+  }
+}
+
+/**
+ * Get the usage attached to a failed turn's error by attachTurnUsage.
+ */
+export function getTurnUsage(error: unknown): TurnUsage | undefined {
+  return typeof error === 'object' && error !== null ? failedTurnUsage.get(error) : undefined;
+}
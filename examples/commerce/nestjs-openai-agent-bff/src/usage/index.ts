@@ -0,0 +1,7 @@
+export * from './usageTypes.js';
+export { DEFAULT_PRICE_TABLE, resolveModelPrice, estimateCostUsd, getPriceTable } from './pricing.js';
+export { UsageMeter, addTurnToSessionUsage, sumTotals, attachTurnUsage, getTurnUsage } from './UsageMeter.js';
+export { UsageLedger, DEFAULT_LEDGER_RETENTION_DAYS, toUtcDay, type UsageLedgerOptions } from './UsageLedger.js';
+export type { IUsageLedger } from './IUsageLedger.js';
+export { RedisUsageLedger, type RedisUsageLedgerOptions } from './RedisUsageLedger.js';
+export { createUsageLedger, type UsageLedgerFactoryResult } from './usageLedgerFactory.js';
@@ -0,0 +1,61 @@
+import { config } from '../config.js';
+import type { LlmUsage } from '../llm/llmTypes.js';
+import type { ModelPrice, PriceTable } from './usageTypes.js';
+
+/**
+ * Built-in prices (USD per 1M tokens). LLM_PRICE_TABLE entries override these.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+};
+
+/**
+ * Look up the price for a model.
+ *
+ * Exact matches win; otherwise the longest table key that prefixes the model
+ * is used, so dated snapshots such as gpt-4o-mini-2024-07-18 resolve to gpt-4o-mini.
+ *
+ * @param model - Model name as served by the provider
+ * @param table - Price table (defaults to the built-in table merged with LLM_PRICE_TABLE)
+ * @returns The price, or undefined when the model is unknown
+ */
+export function resolveModelPrice(model: string, table: PriceTable = getPriceTable()): ModelPrice | undefined {
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Estimate the USD cost of one LLM call.
+ * Cached prompt tokens are billed at cachedInput, the rest of the prompt at input.
+ *
+ * @returns The cost, or undefined when the model is not in the price table
+ */
+export function estimateCostUsd(model: string, usage: LlmUsage, table?: PriceTable): number | undefined {
+  const price = resolveModelPrice(model, table);
+  if (!price) {
+    return undefined;
+  }
+  const cached = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+  const uncached = usage.promptTokens - cached;
+  return (
+    uncached * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    usage.completionTokens * price.output
+  ) / 1_000_000;
+}
+
+/**
+ * Built-in prices merged with LLM_PRICE_TABLE overrides.
+ */
+export function getPriceTable(): PriceTable {
+  return { ...DEFAULT_PRICE_TABLE, ...config.llm?.priceTable };
+}
@@ -0,0 +1,42 @@
+import { config } from '../config.js';
+import type { IUsageLedger } from './IUsageLedger.js';
+import { UsageLedger } from './UsageLedger.js';
+import { RedisUsageLedger } from './RedisUsageLedger.js';
+
+export interface UsageLedgerFactoryResult {
+  ledger: IUsageLedger;
+  type: 'memory' | 'redis';
+  /** Release the Redis connection (no-op for memory) */
+  close: () => Promise<void>;
+}
+
+/**
+ * Create the per-applicationId usage ledger from config (USAGE_LEDGER_STORE).
+ * Redis reuses REDIS_URL with its own key prefix.
+ */
+export async function createUsageLedger(): Promise<UsageLedgerFactoryResult> {
+  const ledgerConfig = config.usageLedger;
+  if (ledgerConfig?.store !== 'redis') {
+    return { ledger: new UsageLedger(), type: 'memory', close: async () => {} };
+  }
+
+  const redisUrl = config.session.redis.url;
+  if (!redisUrl) {
+    throw new Error(
+      'USAGE_LEDGER_STORE=redis requires REDIS_URL to be set. ' +
+      'Example: REDIS_URL=redis://localhost:6379'
+    );
+  }
+
+  const ledger = new RedisUsageLedger({ redisUrl, prefix: ledgerConfig.redisPrefix });
+  const isConnected = await ledger.ping();
+  if (!isConnected) {
+    await ledger.close();
+    throw new Error(
+      `Failed to connect to Redis at ${redisUrl}. ` +
+      'Ensure Redis is running and the URL is correct.'
+    );
+  }
+
+  return { ledger, type: 'redis', close: () => ledger.close() };
+}
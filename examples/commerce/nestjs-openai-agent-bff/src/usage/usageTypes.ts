@@ -0,0 +1,73 @@
+/**
+ * Token and cost accounting types.
+ *
+ * Costs are estimates in USD computed from the configured price table
+ * (see pricing.ts); token counts are as reported by the provider.
+ */
+
+/**
+ * Price per one million tokens, in USD.
+ * cachedInput applies to the cached share of prompt tokens (defaults to input).
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * What an LLM call was made for within a turn.
+ */
+export type LlmCallPurpose = 'agent' | 'compaction' | 'comparison';
+
+/**
+ * Token counts shared by all usage aggregates.
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  /** Cached share of promptTokens */
+  cachedTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD (0 for models missing from the price table) */
+  costUsd: number;
+}
+
+/**
+ * Usage of a single LLM call.
+ */
+export interface LlmCallUsage extends UsageTotals {
+  purpose: LlmCallPurpose;
+  model: string;
+  /** False when the model has no entry in the price table */
+  priced: boolean;
+}
+
+/**
+ * Usage of one agent turn: every LLM call in order, plus totals.
+ */
+export interface TurnUsage extends UsageTotals {
+  calls: LlmCallUsage[];
+}
+
+/**
+ * Usage accumulated over a session (stored in SessionState.usage).
+ */
+export interface SessionUsage extends UsageTotals {
+  turns: number;
+  llmCalls: number;
+}
+
+/**
+ * Usage accumulated per applicationId and UTC day.
+ */
+export interface ApplicationUsage extends UsageTotals {
+  applicationId: string;
+  /** UTC day in YYYY-MM-DD format */
+  day: string;
+  turns: number;
+  llmCalls: number;
+  sessions: number;
+}
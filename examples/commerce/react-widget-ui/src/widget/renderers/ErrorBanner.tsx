@@ -2,6 +2,9 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ErrorEnvelope } from '../types';
 
+/** BFF error code for calls rejected by an open upstream circuit breaker */
+const CIRCUIT_OPEN_CODE = 'UPSTREAM_CIRCUIT_OPEN';
+
 interface ErrorBannerProps {
   error: ErrorEnvelope;
   onRetry?: () => void;
@@ -9,12 +12,15 @@ interface ErrorBannerProps {
 
 export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry }) => {
   const { t } = useTranslation();
+  const temporarilyUnavailable = error.category === 'upstream' && error.code === CIRCUIT_OPEN_CODE;
 
   return (
     <div className="agent-widget-error">
       <div className="agent-widget-error-content">
         <span className="agent-widget-error-category">{error.category}</span>
-        <p className="agent-widget-error-message">{error.message}</p>
+        <p className="agent-widget-error-message">
+          {temporarilyUnavailable ? t('error.temporarilyUnavailable') : error.message}
+        </p>
         {error.code && (
           <span className="agent-widget-error-code">{t('error.codePrefix')} {error.code}</span>
         )}
@@ -148,6 +148,7 @@ export interface ChatResponse {
   confirmation?: ConfirmationBlock;
   error?: ErrorEnvelope;
   debug?: DebugBlock;
+  degraded?: boolean;
 }
 
 export interface ChatRequest {